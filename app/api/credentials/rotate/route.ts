@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+
+import { CredentialError, rotateStorageCredentials } from "@/lib/credentials";
+
+export async function POST() {
+  try {
+    const result = await rotateStorageCredentials();
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof CredentialError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `轮换凭据密钥失败：${error.message}` : "轮换凭据密钥失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -1,53 +1,10 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { serializeDashboardData } from "@/lib/serializers";
-
-const domainModelInclude = {
-  storageTables: {
-    include: {
-      storageTable: {
-        include: {
-          forms: {
-            include: {
-              operations: true
-            }
-          },
-          views: true
-        }
-      }
-    }
-  },
-  viewModels: {
-    include: {
-      viewModel: {
-        include: {
-          storageModel: true,
-          storageTable: true
-        }
-      }
-    }
-  },
-  formModels: {
-    include: {
-      formModel: {
-        include: {
-          storageTable: true,
-          operations: true
-        }
-      }
-    }
-  },
-  operationModels: {
-    include: {
-      operationModel: {
-        include: {
-          formModel: true,
-          storageModel: true
-        }
-      }
-    }
-  }
-} as const;
+import {
+  domainModelInclude,
+  serializeDashboardData,
+  storageCredentialSelect
+} from "@/lib/serializers";
 
 export async function GET() {
   const [storageModels, viewModels, formModels, operationModels, domainModels] =
@@ -65,7 +22,10 @@ export async function GET() {
             }
           },
           operations: true,
-          views: true
+          views: true,
+          credential: {
+            select: storageCredentialSelect
+          }
         },
         orderBy: {
           createdAt: "desc"
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+
+import { buildDataDictionary, DataDictionaryError } from "@/lib/data-dictionary";
+import {
+  renderDataDictionaryCsv,
+  renderDataDictionaryHtml,
+  renderDataDictionaryMarkdown
+} from "@/lib/generators/data-dictionary";
+import { DATA_DICTIONARY_FORMATS, type DataDictionaryFormat } from "@/types/data-dictionary";
+
+// ?storageModelId= 或 ?domainModelId= 二选一指定范围，?format=html|markdown|csv，CSV 可用 ?sheet=tables 导出数据表概览
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const domainModelId = searchParams.get("domainModelId")?.trim();
+    const storageModelId = searchParams.get("storageModelId")?.trim();
+    const format = (searchParams.get("format") ?? "html") as DataDictionaryFormat;
+
+    if (!domainModelId && !storageModelId) {
+      return new NextResponse("请指定 domainModelId 或 storageModelId", { status: 400 });
+    }
+
+    if (domainModelId && storageModelId) {
+      return new NextResponse("domainModelId 与 storageModelId 只能指定一个", { status: 400 });
+    }
+
+    if (!DATA_DICTIONARY_FORMATS.includes(format)) {
+      return new NextResponse("不支持的数据字典格式", { status: 400 });
+    }
+
+    const dictionary = await buildDataDictionary(
+      storageModelId ? { storageModelId } : { domainModelId: domainModelId as string }
+    );
+
+    if (format === "markdown") {
+      return new NextResponse(renderDataDictionaryMarkdown(dictionary), {
+        headers: { "Content-Type": "text/markdown; charset=utf-8" }
+      });
+    }
+
+    if (format === "csv") {
+      const sheet = searchParams.get("sheet") === "tables" ? "tables" : "columns";
+      return new NextResponse(renderDataDictionaryCsv(dictionary, sheet), {
+        headers: { "Content-Type": "text/csv; charset=utf-8" }
+      });
+    }
+
+    return new NextResponse(renderDataDictionaryHtml(dictionary), {
+      headers: { "Content-Type": "text/html; charset=utf-8" }
+    });
+  } catch (error) {
+    if (error instanceof DataDictionaryError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `生成数据字典失败：${error.message}` : "生成数据字典失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+
+import { domainToJsonSchema, toJsonSchemaDocument } from "@/lib/generators/json-schema";
+import { buildReleaseBundle } from "@/lib/releases";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// 未填写类型的业务字段按字段编码匹配领域模型关联数据表中的同名列推断类型
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const bundle = await buildReleaseBundle(id);
+
+    if (!bundle) {
+      return new NextResponse("领域模型不存在", { status: 404 });
+    }
+
+    const url = new URL(request.url);
+    const schema = toJsonSchemaDocument(
+      domainToJsonSchema(bundle.domain, bundle.storageTables),
+      `${url.origin}${url.pathname}`
+    );
+
+    return NextResponse.json(schema, {
+      headers: { "Content-Type": "application/schema+json; charset=utf-8" }
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? `生成 JSON Schema 失败：${error.message}` : "生成 JSON Schema 失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+
+import { buildDomainLineage, DomainLineageError } from "@/lib/domain-lineage";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json(await buildDomainLineage(id));
+  } catch (error) {
+    if (error instanceof DomainLineageError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `读取字段血缘失败：${error.message}` : "读取字段血缘失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
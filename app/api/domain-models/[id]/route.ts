@@ -0,0 +1,189 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { DeleteImpactError, ensureDeletable, isRestrictedDelete } from "@/lib/delete-impact";
+import { DomainLineageError, validateDomainFieldSources } from "@/lib/domain-lineage";
+import { toDescriptionUpdate, updateDomainSchema } from "@/lib/model-schemas";
+import { prisma } from "@/lib/prisma";
+import {
+  ensureRevisionBaseline,
+  readRevisionAuthor,
+  recordRevision,
+  RevisionError
+} from "@/lib/revisions";
+import {
+  domainModelInclude,
+  serializeDashboardData,
+  toDomainFields,
+  type DomainModelWithRelations
+} from "@/lib/serializers";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+async function findDomain(id: string) {
+  return (await prisma.dataDomainModel.findUnique({
+    where: { id },
+    include: domainModelInclude
+  })) as DomainModelWithRelations | null;
+}
+
+function toPayload(domain: DomainModelWithRelations) {
+  return serializeDashboardData({
+    storageModels: [],
+    viewModels: [],
+    formModels: [],
+    operationModels: [],
+    domainModels: [domain]
+  }).domainModels[0];
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const domain = await findDomain(id);
+
+  if (!domain) {
+    return new NextResponse("业务领域模型不存在", { status: 404 });
+  }
+
+  return NextResponse.json(toPayload(domain));
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const payload = await request.json();
+    const data = updateDomainSchema.parse(payload);
+
+    const existing = await prisma.dataDomainModel.findUnique({
+      where: { id },
+      select: { id: true, schema: true, storageTables: { select: { storageTableId: true } } }
+    });
+    if (!existing) {
+      return new NextResponse("业务领域模型不存在", { status: 404 });
+    }
+
+    // 字段或关联数据表变化后，来源映射仍须指向已关联的数据表
+    if (data.schema || data.storageTableIds) {
+      await validateDomainFieldSources(
+        data.schema?.fields ?? toDomainFields(existing.schema),
+        data.storageTableIds ?? existing.storageTables.map((item) => item.storageTableId)
+      );
+    }
+
+    // 传入的关联列表整体替换原有关联
+    await prisma.$transaction(async (tx) => {
+      await ensureRevisionBaseline("domain", id, tx);
+      await tx.dataDomainModel.update({
+        where: { id },
+        data: {
+          name: data.name,
+          description: toDescriptionUpdate(data.description),
+          schema: data.schema,
+          ...(data.storageTableIds
+            ? {
+                storageTables: {
+                  deleteMany: {},
+                  create: data.storageTableIds.map((tableId) => ({
+                    storageTable: {
+                      connect: { id: tableId }
+                    }
+                  }))
+                }
+              }
+            : {}),
+          ...(data.viewModelIds
+            ? {
+                viewModels: {
+                  deleteMany: {},
+                  create: data.viewModelIds.map((viewId) => ({
+                    viewModel: {
+                      connect: { id: viewId }
+                    }
+                  }))
+                }
+              }
+            : {}),
+          ...(data.formModelIds
+            ? {
+                formModels: {
+                  deleteMany: {},
+                  create: data.formModelIds.map((formId) => ({
+                    formModel: {
+                      connect: { id: formId }
+                    }
+                  }))
+                }
+              }
+            : {}),
+          ...(data.operationModelIds
+            ? {
+                operationModels: {
+                  deleteMany: {},
+                  create: data.operationModelIds.map((operationId) => ({
+                    operationModel: {
+                      connect: { id: operationId }
+                    }
+                  }))
+                }
+              }
+            : {})
+        }
+      });
+      await recordRevision(
+        "domain",
+        id,
+        { action: "update", author: readRevisionAuthor(request) },
+        tx
+      );
+    });
+
+    const detail = await findDomain(id);
+    if (!detail) {
+      return new NextResponse("业务领域模型更新失败", { status: 500 });
+    }
+
+    return NextResponse.json(toPayload(detail));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.errors.map((err) => err.message).join("；"), {
+        status: 400
+      });
+    }
+
+    if (error instanceof RevisionError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    if (error instanceof DomainLineageError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `更新领域模型失败：${error.message}` : "更新领域模型失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await ensureDeletable("domain", id, isRestrictedDelete(request));
+
+    // 仅删除领域本身与关联关系，被关联的表、视图、表单、操作保持不变
+    await prisma.dataDomainModel.delete({ where: { id } });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof DeleteImpactError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `删除领域模型失败：${error.message}` : "删除领域模型失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+
+import { generateTypeScriptModule } from "@/lib/generators/typescript";
+import { prisma } from "@/lib/prisma";
+import { buildReleaseBundle } from "@/lib/releases";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const bundle = await buildReleaseBundle(id);
+
+    if (!bundle) {
+      return new NextResponse("领域模型不存在", { status: 404 });
+    }
+
+    if (bundle.storageTables.length === 0 && bundle.formModels.length === 0) {
+      return new NextResponse("领域模型未关联数据表或表单", { status: 400 });
+    }
+
+    // 表单所在的数据表未关联到领域模型时，只用于推断字段类型，不单独生成接口
+    const linked = new Set(bundle.storageTables.map((table) => table.id));
+    const missing = bundle.formModels
+      .map((form) => form.storageTableId)
+      .filter((tableId) => !linked.has(tableId));
+    const referencedTables = missing.length
+      ? await prisma.dataStorageTable.findMany({
+          where: { id: { in: missing } },
+          select: { id: true, name: true, description: true, schema: true }
+        })
+      : [];
+
+    const code = generateTypeScriptModule({
+      title: `由领域模型「${bundle.domain.name}」生成`,
+      tables: bundle.storageTables,
+      forms: bundle.formModels,
+      referencedTables
+    });
+
+    return new NextResponse(code, {
+      headers: { "Content-Type": "text/plain; charset=utf-8" }
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error
+        ? `生成 TypeScript 代码失败：${error.message}`
+        : "生成 TypeScript 代码失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -1,84 +1,16 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 
+import { DomainLineageError, validateDomainFieldSources } from "@/lib/domain-lineage";
+import { createDomainSchema } from "@/lib/model-schemas";
 import { prisma } from "@/lib/prisma";
+import { readRevisionAuthor, recordRevision, RevisionError } from "@/lib/revisions";
 import {
+  domainModelInclude,
   serializeDashboardData,
   type DomainModelWithRelations
 } from "@/lib/serializers";
 
-const domainFieldSchema = z.object({
-  key: z.string().min(1, "字段编码不能为空"),
-  name: z.string().min(1, "字段名称不能为空"),
-  type: z.string().optional(),
-  required: z.boolean().optional(),
-  description: z.string().optional().nullable()
-});
-
-const uniqueIdArraySchema = z
-  .array(z.string().min(1))
-  .optional()
-  .transform((value) => (value ? Array.from(new Set(value)) : []));
-
-const createDomainSchema = z.object({
-  name: z.string().min(1, "领域名称不能为空"),
-  description: z.string().optional(),
-  schema: z.object({
-    fields: z.array(domainFieldSchema).min(1, "至少需要定义一个业务字段")
-  }),
-  storageTableIds: uniqueIdArraySchema,
-  viewModelIds: uniqueIdArraySchema,
-  formModelIds: uniqueIdArraySchema,
-  operationModelIds: uniqueIdArraySchema
-});
-
-const domainModelInclude = {
-  storageTables: {
-    include: {
-      storageTable: {
-        include: {
-          forms: {
-            include: {
-              operations: true
-            }
-          },
-          views: true
-        }
-      }
-    }
-  },
-  viewModels: {
-    include: {
-      viewModel: {
-        include: {
-          storageModel: true,
-          storageTable: true
-        }
-      }
-    }
-  },
-  formModels: {
-    include: {
-      formModel: {
-        include: {
-          storageTable: true,
-          operations: true
-        }
-      }
-    }
-  },
-  operationModels: {
-    include: {
-      operationModel: {
-        include: {
-          formModel: true,
-          storageModel: true
-        }
-      }
-    }
-  }
-} as const;
-
 export async function GET() {
   const domains = (await prisma.dataDomainModel.findMany({
     include: domainModelInclude,
@@ -102,57 +34,67 @@ export async function POST(request: Request) {
   try {
     const payload = await request.json();
     const data = createDomainSchema.parse(payload);
-
-    const domain = await prisma.dataDomainModel.create({
-      data: {
-        name: data.name,
-        description: data.description || undefined,
-        schema: data.schema,
-        ...(data.storageTableIds.length
-          ? {
-              storageTables: {
-                create: data.storageTableIds.map((id) => ({
-                  storageTable: {
-                    connect: { id }
-                  }
-                }))
+    await validateDomainFieldSources(data.schema.fields, data.storageTableIds);
+
+    const domain = await prisma.$transaction(async (tx) => {
+      const created = await tx.dataDomainModel.create({
+        data: {
+          name: data.name,
+          description: data.description || undefined,
+          schema: data.schema,
+          ...(data.storageTableIds.length
+            ? {
+                storageTables: {
+                  create: data.storageTableIds.map((id) => ({
+                    storageTable: {
+                      connect: { id }
+                    }
+                  }))
+                }
               }
-            }
-          : {}),
-        ...(data.viewModelIds.length
-          ? {
-              viewModels: {
-                create: data.viewModelIds.map((id) => ({
-                  viewModel: {
-                    connect: { id }
-                  }
-                }))
+            : {}),
+          ...(data.viewModelIds.length
+            ? {
+                viewModels: {
+                  create: data.viewModelIds.map((id) => ({
+                    viewModel: {
+                      connect: { id }
+                    }
+                  }))
+                }
               }
-            }
-          : {}),
-        ...(data.formModelIds.length
-          ? {
-              formModels: {
-                create: data.formModelIds.map((id) => ({
-                  formModel: {
-                    connect: { id }
-                  }
-                }))
+            : {}),
+          ...(data.formModelIds.length
+            ? {
+                formModels: {
+                  create: data.formModelIds.map((id) => ({
+                    formModel: {
+                      connect: { id }
+                    }
+                  }))
+                }
               }
-            }
-          : {}),
-        ...(data.operationModelIds.length
-          ? {
-              operationModels: {
-                create: data.operationModelIds.map((id) => ({
-                  operationModel: {
-                    connect: { id }
-                  }
-                }))
+            : {}),
+          ...(data.operationModelIds.length
+            ? {
+                operationModels: {
+                  create: data.operationModelIds.map((id) => ({
+                    operationModel: {
+                      connect: { id }
+                    }
+                  }))
+                }
               }
-            }
-          : {})
-      }
+            : {})
+        }
+      });
+      await recordRevision(
+        "domain",
+        created.id,
+        { action: "create", author: readRevisionAuthor(request) },
+        tx
+      );
+      return created;
     });
 
     const detail = (await prisma.dataDomainModel.findUnique({
@@ -180,6 +122,14 @@ export async function POST(request: Request) {
       });
     }
 
+    if (error instanceof RevisionError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    if (error instanceof DomainLineageError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
     const message =
       error instanceof Error ? `创建领域模型失败：${error.message}` : "创建领域模型失败";
 
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+
+import { formToJsonSchema, toJsonSchemaDocument } from "@/lib/generators/json-schema";
+import { prisma } from "@/lib/prisma";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const form = await prisma.dataFormModel.findUnique({
+      where: { id },
+      include: { storageTable: true }
+    });
+
+    if (!form) {
+      return new NextResponse("表单模型不存在", { status: 404 });
+    }
+
+    const url = new URL(request.url);
+    const schema = toJsonSchemaDocument(
+      formToJsonSchema(form, form.storageTable),
+      `${url.origin}${url.pathname}`
+    );
+
+    return NextResponse.json(schema, {
+      headers: { "Content-Type": "application/schema+json; charset=utf-8" }
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? `生成 JSON Schema 失败：${error.message}` : "生成 JSON Schema 失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
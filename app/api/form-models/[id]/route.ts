@@ -0,0 +1,140 @@
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { DeleteImpactError, ensureDeletable, isRestrictedDelete } from "@/lib/delete-impact";
+import { toDescriptionUpdate, updateFormSchema } from "@/lib/model-schemas";
+import { prisma } from "@/lib/prisma";
+import {
+  ensureRevisionBaseline,
+  readRevisionAuthor,
+  recordRevision,
+  RevisionError
+} from "@/lib/revisions";
+import {
+  serializeDashboardData,
+  type FormModelWithRelations
+} from "@/lib/serializers";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+async function findForm(id: string) {
+  return (await prisma.dataFormModel.findUnique({
+    where: { id },
+    include: {
+      storageTable: true,
+      operations: true
+    }
+  })) as FormModelWithRelations | null;
+}
+
+function toPayload(form: FormModelWithRelations) {
+  return serializeDashboardData({
+    storageModels: [],
+    viewModels: [],
+    formModels: [form],
+    operationModels: [],
+    domainModels: []
+  }).formModels[0];
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const form = await findForm(id);
+
+  if (!form) {
+    return new NextResponse("表单模型不存在", { status: 404 });
+  }
+
+  return NextResponse.json(toPayload(form));
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const payload = await request.json();
+    const data = updateFormSchema.parse(payload);
+
+    const existing = await prisma.dataFormModel.findUnique({
+      where: { id },
+      select: { id: true }
+    });
+    if (!existing) {
+      return new NextResponse("表单模型不存在", { status: 404 });
+    }
+
+    if (data.storageTableId) {
+      const table = await prisma.dataStorageTable.findUnique({
+        where: { id: data.storageTableId },
+        select: { id: true }
+      });
+      if (!table) {
+        return new NextResponse("所选数据表不存在", { status: 400 });
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await ensureRevisionBaseline("form", id, tx);
+      await tx.dataFormModel.update({
+        where: { id },
+        data: {
+          name: data.name,
+          description: toDescriptionUpdate(data.description),
+          storageTableId: data.storageTableId,
+          schema: data.schema as Prisma.InputJsonObject | undefined
+        }
+      });
+      await recordRevision(
+        "form",
+        id,
+        { action: "update", author: readRevisionAuthor(request) },
+        tx
+      );
+    });
+
+    const detail = await findForm(id);
+    if (!detail) {
+      return new NextResponse("表单模型更新失败", { status: 500 });
+    }
+
+    return NextResponse.json(toPayload(detail));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.errors.map((err) => err.message).join("；"), {
+        status: 400
+      });
+    }
+
+    if (error instanceof RevisionError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `更新表单模型失败：${error.message}` : "更新表单模型失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await ensureDeletable("form", id, isRestrictedDelete(request));
+
+    // 绑定该表单的操作模型会自动解除关联（onDelete: SetNull）
+    await prisma.dataFormModel.delete({ where: { id } });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof DeleteImpactError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `删除表单模型失败：${error.message}` : "删除表单模型失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -1,28 +1,15 @@
+import { Prisma } from "@prisma/client";
 import { NextResponse } from "next/server";
 import { z } from "zod";
 
+import { createFormSchema } from "@/lib/model-schemas";
 import { prisma } from "@/lib/prisma";
+import { readRevisionAuthor, recordRevision, RevisionError } from "@/lib/revisions";
 import {
   serializeDashboardData,
   type FormModelWithRelations
 } from "@/lib/serializers";
 
-const formFieldSchema = z.object({
-  column: z.string().min(1, "字段名称不能为空"),
-  label: z.string().min(1, "展示名称不能为空"),
-  required: z.boolean().default(false),
-  component: z.string().min(1, "控件类型不能为空")
-});
-
-const createFormSchema = z.object({
-  name: z.string().min(1, "表单名称不能为空"),
-  description: z.string().optional(),
-  storageTableId: z.string().min(1, "必须指定数据表"),
-  schema: z.object({
-    fields: z.array(formFieldSchema).min(1, "至少配置一个字段")
-  })
-});
-
 export async function GET() {
   const forms = (await prisma.dataFormModel.findMany({
     include: {
@@ -50,13 +37,22 @@ export async function POST(request: Request) {
     const payload = await request.json();
     const data = createFormSchema.parse(payload);
 
-    const form = await prisma.dataFormModel.create({
-      data: {
-        name: data.name,
-        description: data.description,
-        storageTableId: data.storageTableId,
-        schema: data.schema
-      }
+    const form = await prisma.$transaction(async (tx) => {
+      const created = await tx.dataFormModel.create({
+        data: {
+          name: data.name,
+          description: data.description,
+          storageTableId: data.storageTableId,
+          schema: data.schema as Prisma.InputJsonObject
+        }
+      });
+      await recordRevision(
+        "form",
+        created.id,
+        { action: "create", author: readRevisionAuthor(request) },
+        tx
+      );
+      return created;
     });
 
     const detail = (await prisma.dataFormModel.findUnique({
@@ -87,6 +83,10 @@ export async function POST(request: Request) {
       });
     }
 
+    if (error instanceof RevisionError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
     const message =
       error instanceof Error ? `创建表单模型失败：${error.message}` : "创建表单模型失败";
 
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { loadModelMirror, ModelMirrorError } from "@/lib/model-mirror";
+import { readRevisionAuthor } from "@/lib/revisions";
+import { CONFLICT_STRATEGIES, WorkspaceBundleError } from "@/lib/workspace-bundle";
+
+const loadSchema = z.object({
+  conflict: z
+    .enum(CONFLICT_STRATEGIES, {
+      errorMap: () => ({ message: "冲突处理方式仅支持 skip、overwrite、rename" })
+    })
+    .default("overwrite")
+});
+
+export async function POST(request: Request) {
+  try {
+    const payload = await request.json().catch(() => ({}));
+    const { conflict } = loadSchema.parse(payload);
+    const result = await loadModelMirror({ conflict, author: readRevisionAuthor(request) });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.errors.map((err) => err.message).join("；"), {
+        status: 400
+      });
+    }
+
+    if (error instanceof ModelMirrorError || error instanceof WorkspaceBundleError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `加载模型镜像失败：${error.message}` : "加载模型镜像失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { MODEL_MIRROR_FORMATS, writeModelMirror } from "@/lib/model-mirror";
+
+const writeSchema = z.object({
+  format: z
+    .enum(MODEL_MIRROR_FORMATS, { errorMap: () => ({ message: "镜像格式仅支持 json、yaml" }) })
+    .default("json")
+});
+
+// 镜像目录由 MODEL_MIRROR_DIR 配置，不接受请求指定路径
+export async function POST(request: Request) {
+  try {
+    const payload = await request.json().catch(() => ({}));
+    const { format } = writeSchema.parse(payload);
+    const result = await writeModelMirror({ format });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.errors.map((err) => err.message).join("；"), {
+        status: 400
+      });
+    }
+
+    const message =
+      error instanceof Error ? `写入模型镜像失败：${error.message}` : "写入模型镜像失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import YAML from "yaml";
+
+import { buildOpenApiDocument, OpenApiError } from "@/lib/openapi";
+import { ReleaseError } from "@/lib/releases";
+
+// ?domainModelId= 或 ?storageModelId= 二选一指定导出范围，领域模型可用 ?version= 导出已发布版本，?format=yaml 返回 YAML
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const domainModelId = searchParams.get("domainModelId")?.trim();
+    const storageModelId = searchParams.get("storageModelId")?.trim();
+
+    if (!domainModelId && !storageModelId) {
+      return new NextResponse("请指定 domainModelId 或 storageModelId", { status: 400 });
+    }
+
+    if (domainModelId && storageModelId) {
+      return new NextResponse("domainModelId 与 storageModelId 只能指定一个", { status: 400 });
+    }
+
+    const { document } = await buildOpenApiDocument(
+      domainModelId
+        ? { domainModelId, version: searchParams.get("version")?.trim() || null }
+        : { storageModelId: storageModelId as string }
+    );
+
+    if (searchParams.get("format") === "yaml") {
+      return new NextResponse(
+        YAML.stringify(document, { lineWidth: 0, aliasDuplicateObjects: false }),
+        {
+          headers: { "Content-Type": "application/yaml; charset=utf-8" }
+        }
+      );
+    }
+
+    return NextResponse.json(document);
+  } catch (error) {
+    if (error instanceof OpenApiError || error instanceof ReleaseError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `生成 OpenAPI 文档失败：${error.message}` : "生成 OpenAPI 文档失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+
+import { analyzeDeleteImpact } from "@/lib/delete-impact";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const impact = await analyzeDeleteImpact("operation", id);
+
+    if (!impact) {
+      return new NextResponse("操作模型不存在", { status: 404 });
+    }
+
+    return NextResponse.json(impact);
+  } catch (error) {
+    const message =
+      error instanceof Error ? `分析删除影响失败：${error.message}` : "分析删除影响失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -0,0 +1,145 @@
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { DeleteImpactError, ensureDeletable, isRestrictedDelete } from "@/lib/delete-impact";
+import { toDescriptionUpdate, updateOperationSchema } from "@/lib/model-schemas";
+import { prisma } from "@/lib/prisma";
+import {
+  ensureRevisionBaseline,
+  readRevisionAuthor,
+  recordRevision,
+  RevisionError
+} from "@/lib/revisions";
+import {
+  serializeDashboardData,
+  type OperationModelWithRelations
+} from "@/lib/serializers";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+async function findOperation(id: string) {
+  return (await prisma.dataOperationModel.findUnique({
+    where: { id },
+    include: {
+      formModel: true,
+      storageModel: true
+    }
+  })) as OperationModelWithRelations | null;
+}
+
+function toPayload(operation: OperationModelWithRelations) {
+  return serializeDashboardData({
+    storageModels: [],
+    viewModels: [],
+    formModels: [],
+    operationModels: [operation],
+    domainModels: []
+  }).operationModels[0];
+}
+
+// 省略保持原值，显式传 null 清空
+function toJsonUpdate(value: unknown) {
+  if (value === undefined) return undefined;
+  return value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+}
+
+// 关联 ID 传空字符串或 null 都视为解除关联
+function toRelationUpdate(value: string | null | undefined) {
+  return value === undefined ? undefined : value || null;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const operation = await findOperation(id);
+
+  if (!operation) {
+    return new NextResponse("操作模型不存在", { status: 404 });
+  }
+
+  return NextResponse.json(toPayload(operation));
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const payload = await request.json();
+    const data = updateOperationSchema.parse(payload);
+
+    const existing = await prisma.dataOperationModel.findUnique({
+      where: { id },
+      select: { id: true }
+    });
+    if (!existing) {
+      return new NextResponse("操作模型不存在", { status: 404 });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await ensureRevisionBaseline("operation", id, tx);
+      await tx.dataOperationModel.update({
+        where: { id },
+        data: {
+          name: data.name,
+          description: toDescriptionUpdate(data.description),
+          type: data.type,
+          endpoint: data.endpoint === undefined ? undefined : data.endpoint || null,
+          method: data.method === undefined ? undefined : data.method || null,
+          storageModelId: toRelationUpdate(data.storageModelId),
+          formModelId: toRelationUpdate(data.formModelId),
+          requestSchema: toJsonUpdate(data.requestSchema),
+          responseSchema: toJsonUpdate(data.responseSchema)
+        }
+      });
+      await recordRevision(
+        "operation",
+        id,
+        { action: "update", author: readRevisionAuthor(request) },
+        tx
+      );
+    });
+
+    const detail = await findOperation(id);
+    if (!detail) {
+      return new NextResponse("操作模型更新失败", { status: 500 });
+    }
+
+    return NextResponse.json(toPayload(detail));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.errors.map((err) => err.message).join("；"), {
+        status: 400
+      });
+    }
+
+    if (error instanceof RevisionError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `更新操作模型失败：${error.message}` : "更新操作模型失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await ensureDeletable("operation", id, isRestrictedDelete(request));
+
+    await prisma.dataOperationModel.delete({ where: { id } });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof DeleteImpactError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `删除操作模型失败：${error.message}` : "删除操作模型失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
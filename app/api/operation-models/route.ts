@@ -1,24 +1,14 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 
+import { createOperationSchema } from "@/lib/model-schemas";
 import { prisma } from "@/lib/prisma";
+import { readRevisionAuthor, recordRevision, RevisionError } from "@/lib/revisions";
 import {
   serializeDashboardData,
   type OperationModelWithRelations
 } from "@/lib/serializers";
 
-const createOperationSchema = z.object({
-  name: z.string().min(1, "操作名称不能为空"),
-  description: z.string().optional(),
-  type: z.enum(["CREATE", "READ", "UPDATE", "DELETE", "CUSTOM"]).default("READ"),
-  endpoint: z.string().optional(),
-  method: z.string().optional(),
-  storageModelId: z.string().optional().nullable(),
-  formModelId: z.string().optional().nullable(),
-  requestSchema: z.unknown().optional(),
-  responseSchema: z.unknown().optional()
-});
-
 export async function GET() {
   const operations = (await prisma.dataOperationModel.findMany({
     include: {
@@ -46,18 +36,27 @@ export async function POST(request: Request) {
     const payload = await request.json();
     const data = createOperationSchema.parse(payload);
 
-    const operation = await prisma.dataOperationModel.create({
-      data: {
-        name: data.name,
-        description: data.description,
-        type: data.type,
-        endpoint: data.endpoint,
-        method: data.method,
-        storageModelId: data.storageModelId || undefined,
-        formModelId: data.formModelId || undefined,
-        requestSchema: data.requestSchema,
-        responseSchema: data.responseSchema
-      }
+    const operation = await prisma.$transaction(async (tx) => {
+      const created = await tx.dataOperationModel.create({
+        data: {
+          name: data.name,
+          description: data.description,
+          type: data.type,
+          endpoint: data.endpoint,
+          method: data.method,
+          storageModelId: data.storageModelId || undefined,
+          formModelId: data.formModelId || undefined,
+          requestSchema: data.requestSchema,
+          responseSchema: data.responseSchema
+        }
+      });
+      await recordRevision(
+        "operation",
+        created.id,
+        { action: "create", author: readRevisionAuthor(request) },
+        tx
+      );
+      return created;
     });
 
     const detail = (await prisma.dataOperationModel.findUnique({
@@ -88,6 +87,10 @@ export async function POST(request: Request) {
       });
     }
 
+    if (error instanceof RevisionError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
     const message =
       error instanceof Error ? `创建操作模型失败：${error.message}` : "创建操作模型失败";
 
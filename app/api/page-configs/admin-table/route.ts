@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { AdminTableConfigError, buildAdminTablePageConfig } from "@/lib/admin-table";
+
+const optionalIdArraySchema = z
+  .array(z.string().min(1))
+  .optional()
+  .transform((value) => (value ? Array.from(new Set(value)) : undefined));
+
+const locatorSchema = z.object({
+  storageModelId: z.string().min(1, "必须指定数据存储模型"),
+  storageTableId: z.string().min(1, "必须指定数据表"),
+  viewId: z.string().min(1, "必须指定视图模型"),
+  filterFormIds: optionalIdArraySchema,
+  submissionFormIds: optionalIdArraySchema,
+  operationIds: optionalIdArraySchema
+});
+
+export async function POST(request: Request) {
+  try {
+    const payload = await request.json();
+    const locator = locatorSchema.parse(payload);
+    const result = await buildAdminTablePageConfig(locator);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.errors.map((err) => err.message).join("；"), {
+        status: 400
+      });
+    }
+
+    if (error instanceof AdminTableConfigError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error
+        ? `生成页面配置失败：${error.message}`
+        : "生成页面配置失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+
+import { getRelease, ReleaseError } from "@/lib/releases";
+
+type RouteContext = {
+  params: Promise<{ domain: string; version: string }>;
+};
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { domain, version } = await params;
+    const release = await getRelease(domain, version);
+
+    if (!release) {
+      return new NextResponse("发布版本不存在", { status: 404 });
+    }
+
+    return NextResponse.json(release, {
+      // 具体版本内容不可变，可长期缓存；latest 随新发布变化
+      headers:
+        version === "latest"
+          ? { "Cache-Control": "no-store" }
+          : { "Cache-Control": "public, max-age=31536000, immutable" }
+    });
+  } catch (error) {
+    if (error instanceof ReleaseError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `读取发布版本失败：${error.message}` : "读取发布版本失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { listReleases, publishRelease, RELEASE_BUMPS, ReleaseError } from "@/lib/releases";
+import { readRevisionAuthor } from "@/lib/revisions";
+
+type RouteContext = {
+  params: Promise<{ domain: string }>;
+};
+
+const publishSchema = z.object({
+  version: z.string().trim().min(1).optional(),
+  bump: z
+    .enum(RELEASE_BUMPS, { errorMap: () => ({ message: "bump 仅支持 major、minor、patch" }) })
+    .optional(),
+  notes: z.string().optional()
+});
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { domain } = await params;
+    const releases = await listReleases(domain);
+
+    return NextResponse.json(releases);
+  } catch (error) {
+    const message =
+      error instanceof Error ? `读取发布记录失败：${error.message}` : "读取发布记录失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { domain } = await params;
+    const payload = await request.json().catch(() => ({}));
+    const data = publishSchema.parse(payload);
+
+    const release = await publishRelease(domain, {
+      ...data,
+      author: readRevisionAuthor(request)
+    });
+
+    return NextResponse.json(release, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.errors.map((err) => err.message).join("；"), {
+        status: 400
+      });
+    }
+
+    if (error instanceof ReleaseError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message = error instanceof Error ? `发布失败：${error.message}` : "发布失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
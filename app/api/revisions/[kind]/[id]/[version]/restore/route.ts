@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import {
+  MODEL_KINDS,
+  readRevisionAuthor,
+  restoreRevision,
+  RevisionError
+} from "@/lib/revisions";
+
+const paramsSchema = z.object({
+  kind: z.enum(MODEL_KINDS, { errorMap: () => ({ message: "不支持的模型类型" }) }),
+  id: z.string().min(1),
+  version: z.coerce.number().int().positive("版本号无效")
+});
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ kind: string; id: string; version: string }> }
+) {
+  try {
+    const { kind, id, version } = paramsSchema.parse(await params);
+    const result = await restoreRevision(kind, id, version, readRevisionAuthor(request));
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.errors.map((err) => err.message).join("；"), {
+        status: 400
+      });
+    }
+
+    if (error instanceof RevisionError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `恢复历史版本失败：${error.message}` : "恢复历史版本失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getRevision, MODEL_KINDS } from "@/lib/revisions";
+
+const paramsSchema = z.object({
+  kind: z.enum(MODEL_KINDS, { errorMap: () => ({ message: "不支持的模型类型" }) }),
+  id: z.string().min(1),
+  version: z.coerce.number().int().positive("版本号无效")
+});
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ kind: string; id: string; version: string }> }
+) {
+  try {
+    const { kind, id, version } = paramsSchema.parse(await params);
+    const revision = await getRevision(kind, id, version);
+
+    if (!revision) {
+      return new NextResponse("指定的历史版本不存在", { status: 404 });
+    }
+
+    return NextResponse.json(revision);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.errors.map((err) => err.message).join("；"), {
+        status: 400
+      });
+    }
+
+    const message =
+      error instanceof Error ? `读取历史版本失败：${error.message}` : "读取历史版本失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { listRevisions, MODEL_KINDS } from "@/lib/revisions";
+
+const paramsSchema = z.object({
+  kind: z.enum(MODEL_KINDS, { errorMap: () => ({ message: "不支持的模型类型" }) }),
+  id: z.string().min(1)
+});
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ kind: string; id: string }> }
+) {
+  try {
+    const { kind, id } = paramsSchema.parse(await params);
+    const revisions = await listRevisions(kind, id);
+
+    return NextResponse.json(revisions);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.errors.map((err) => err.message).join("；"), {
+        status: 400
+      });
+    }
+
+    const message =
+      error instanceof Error ? `读取历史版本失败：${error.message}` : "读取历史版本失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
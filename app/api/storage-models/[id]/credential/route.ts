@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import {
+  CredentialError,
+  deleteStorageCredential,
+  saveStorageCredential
+} from "@/lib/credentials";
+import { prisma } from "@/lib/prisma";
+
+const credentialSchema = z.object({
+  password: z.string()
+});
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// 凭据接口只接受写入与删除，任何响应都不包含密码或密文
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const payload = await request.json();
+    const { password } = credentialSchema.parse(payload);
+
+    const storageModel = await prisma.dataStorageModel.findUnique({
+      where: { id },
+      select: { id: true, connection: true }
+    });
+    if (!storageModel) {
+      return new NextResponse("数据存储模型不存在", { status: 404 });
+    }
+    if (!storageModel.connection || storageModel.connection.startsWith("sqlite://")) {
+      return new NextResponse("该存储模型不是通过数据库连接导入的，无需保存密码", {
+        status: 400
+      });
+    }
+
+    const credential = await saveStorageCredential(id, password);
+
+    return NextResponse.json({
+      hasCredential: true,
+      credentialUpdatedAt: credential.updatedAt.toISOString()
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.errors.map((err) => err.message).join("；"), {
+        status: 400
+      });
+    }
+
+    if (error instanceof CredentialError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `保存数据库凭据失败：${error.message}` : "保存数据库凭据失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await deleteStorageCredential(id);
+
+    return NextResponse.json({ hasCredential: false, credentialUpdatedAt: null });
+  } catch (error) {
+    const message =
+      error instanceof Error ? `删除数据库凭据失败：${error.message}` : "删除数据库凭据失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
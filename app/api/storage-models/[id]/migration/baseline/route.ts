@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+
+import { resetSchemaBaseline, StorageDesignError } from "@/lib/storage-design";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// 迁移脚本已在数据库上执行后调用，以当前表结构作为新的迁移基线
+export async function POST(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await resetSchemaBaseline(id);
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof StorageDesignError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `重置迁移基线失败：${error.message}` : "重置迁移基线失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+
+import { buildStorageMigration, StorageDesignError } from "@/lib/storage-design";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// ?mode=ddl 返回完整建表脚本，默认返回相对迁移基线的变更脚本；脚本只供下载，不会执行
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const mode = new URL(request.url).searchParams.get("mode") === "ddl" ? "ddl" : "migration";
+
+    return NextResponse.json(await buildStorageMigration(id, mode));
+  } catch (error) {
+    if (error instanceof StorageDesignError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `生成迁移脚本失败：${error.message}` : "生成迁移脚本失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
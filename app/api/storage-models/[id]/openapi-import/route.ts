@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { importOpenApiOperations, OpenApiImportError } from "@/lib/openapi-import";
+import { readRevisionAuthor } from "@/lib/revisions";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+const MAX_SPEC_LENGTH = 5 * 1024 * 1024;
+
+const openApiImportSchema = z.object({
+  content: z
+    .string()
+    .trim()
+    .min(1, "OpenAPI 文件内容不能为空")
+    .max(MAX_SPEC_LENGTH, "OpenAPI 文件不能超过 5MB"),
+  apply: z.boolean().default(false)
+});
+
+// apply 为 false 时只返回新增、更新与未变化的操作预览，不写入数据库
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const payload = await request.json().catch(() => ({}));
+    const data = openApiImportSchema.parse(payload);
+
+    const result = await importOpenApiOperations(id, data.content, {
+      apply: data.apply,
+      author: readRevisionAuthor(request)
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.errors.map((err) => err.message).join("；"), {
+        status: 400
+      });
+    }
+
+    if (error instanceof OpenApiImportError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `导入 OpenAPI 文件失败：${error.message}` : "导入 OpenAPI 文件失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+
+import {
+  generatePrismaSchema,
+  PRISMA_SCHEMA_PROVIDERS,
+  type PrismaSchemaProvider
+} from "@/lib/generators/prisma-schema";
+import { prisma } from "@/lib/prisma";
+import {
+  serializeDashboardData,
+  type StorageModelWithRelations
+} from "@/lib/serializers";
+import { storageModelInclude } from "@/lib/storage-import";
+import { readModelDialect } from "@/lib/storage-sync";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// ?tables=a,b 只生成指定的表（按表名或 id），?datasource=1 附带 generator 与 datasource 块
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const model = (await prisma.dataStorageModel.findUnique({
+      where: { id },
+      include: storageModelInclude
+    })) as StorageModelWithRelations | null;
+
+    if (!model) {
+      return new NextResponse("数据存储模型不存在", { status: 404 });
+    }
+
+    const dialect = readModelDialect(model);
+    const provider = PRISMA_SCHEMA_PROVIDERS.includes(dialect as PrismaSchemaProvider)
+      ? (dialect as PrismaSchemaProvider)
+      : "mysql";
+    const selected = searchParams
+      .getAll("tables")
+      .flatMap((value) => value.split(","))
+      .map((value) => value.trim())
+      .filter(Boolean);
+
+    const [storageModel] = serializeDashboardData({
+      storageModels: [model],
+      viewModels: [],
+      formModels: [],
+      operationModels: [],
+      domainModels: []
+    }).storageModels;
+    const tables = selected.length
+      ? storageModel.tables.filter(
+          (table) => selected.includes(table.name) || selected.includes(table.id)
+        )
+      : storageModel.tables;
+
+    if (tables.length === 0) {
+      return new NextResponse("没有可生成的数据表", { status: 400 });
+    }
+
+    const schema = generatePrismaSchema(tables, {
+      provider,
+      includeDatasource: ["1", "true"].includes(searchParams.get("datasource") ?? ""),
+      title: `由数据存储模型「${model.name}」生成，数据库方言：${provider}`
+    });
+
+    return new NextResponse(schema, {
+      headers: { "Content-Type": "text/plain; charset=utf-8" }
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? `生成 Prisma Schema 失败：${error.message}` : "生成 Prisma Schema 失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { CredentialError } from "@/lib/credentials";
+import { DdlSyntaxError } from "@/lib/ddl/tokenizer";
+import { SqliteSourceError } from "@/lib/introspection/sqlite";
+import { readRevisionAuthor, RevisionError } from "@/lib/revisions";
+import { StorageSyncError, syncStorageModel } from "@/lib/storage-sync";
+
+const resyncSchema = z.object({
+  password: z.string().optional(),
+  rememberPassword: z.boolean().optional(),
+  ddl: z.string().optional(),
+  apply: z.boolean().default(false),
+  force: z.boolean().default(false),
+  fingerprint: z.string().optional()
+});
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const payload = await request.json().catch(() => ({}));
+    const data = resyncSchema.parse(payload);
+
+    const result = await syncStorageModel(id, {
+      ...data,
+      author: readRevisionAuthor(request)
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.errors.map((err) => err.message).join("；"), {
+        status: 400
+      });
+    }
+
+    if (
+      error instanceof StorageSyncError ||
+      error instanceof CredentialError ||
+      error instanceof RevisionError
+    ) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    if (error instanceof SqliteSourceError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    if (error instanceof DdlSyntaxError) {
+      return new NextResponse(error.message, { status: 400 });
+    }
+
+    const message =
+      error instanceof Error
+        ? `同步数据存储模型失败：${error.message}`
+        : "同步数据存储模型失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
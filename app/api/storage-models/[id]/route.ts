@@ -0,0 +1,130 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { DeleteImpactError, ensureDeletable, isRestrictedDelete } from "@/lib/delete-impact";
+import { toDescriptionUpdate, updateStorageSchema } from "@/lib/model-schemas";
+import { prisma } from "@/lib/prisma";
+import {
+  ensureRevisionBaseline,
+  readRevisionAuthor,
+  recordRevision,
+  RevisionError
+} from "@/lib/revisions";
+import {
+  serializeDashboardData,
+  type StorageModelWithRelations
+} from "@/lib/serializers";
+import { storageModelInclude } from "@/lib/storage-import";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+async function findStorageModel(id: string) {
+  return (await prisma.dataStorageModel.findUnique({
+    where: { id },
+    include: storageModelInclude
+  })) as StorageModelWithRelations | null;
+}
+
+function toPayload(model: StorageModelWithRelations) {
+  return serializeDashboardData({
+    storageModels: [model],
+    viewModels: [],
+    formModels: [],
+    operationModels: [],
+    domainModels: []
+  }).storageModels[0];
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const model = await findStorageModel(id);
+
+  if (!model) {
+    return new NextResponse("数据存储模型不存在", { status: 404 });
+  }
+
+  return NextResponse.json(toPayload(model));
+}
+
+// 数据表结构来自导入或重新同步，这里只开放名称与描述的修改
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const payload = await request.json();
+    const data = updateStorageSchema.parse(payload);
+
+    const existing = await prisma.dataStorageModel.findUnique({
+      where: { id },
+      select: { id: true }
+    });
+    if (!existing) {
+      return new NextResponse("数据存储模型不存在", { status: 404 });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await ensureRevisionBaseline("storage", id, tx);
+      await tx.dataStorageModel.update({
+        where: { id },
+        data: {
+          name: data.name,
+          description: toDescriptionUpdate(data.description)
+        }
+      });
+      await recordRevision(
+        "storage",
+        id,
+        { action: "update", author: readRevisionAuthor(request) },
+        tx
+      );
+    });
+
+    const detail = await findStorageModel(id);
+    if (!detail) {
+      return new NextResponse("数据存储模型更新失败", { status: 500 });
+    }
+
+    return NextResponse.json(toPayload(detail));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.errors.map((err) => err.message).join("；"), {
+        status: 400
+      });
+    }
+
+    if (error instanceof RevisionError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error
+        ? `更新数据存储模型失败：${error.message}`
+        : "更新数据存储模型失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await ensureDeletable("storage", id, isRestrictedDelete(request));
+
+    // 数据表及其视图、表单、凭据随模型级联删除，引用该模型的操作会解除关联
+    await prisma.dataStorageModel.delete({ where: { id } });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof DeleteImpactError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error
+        ? `删除数据存储模型失败：${error.message}`
+        : "删除数据存储模型失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
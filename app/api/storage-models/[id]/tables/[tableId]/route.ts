@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { updateStorageTableSchema } from "@/lib/model-schemas";
+import { readRevisionAuthor, RevisionError } from "@/lib/revisions";
+import {
+  deleteStorageTable,
+  StorageDesignError,
+  updateStorageTable
+} from "@/lib/storage-design";
+
+type RouteContext = {
+  params: Promise<{ id: string; tableId: string }>;
+};
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id, tableId } = await params;
+    const payload = await request.json();
+    const data = updateStorageTableSchema.parse(payload);
+    const result = await updateStorageTable(id, tableId, data, readRevisionAuthor(request));
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.errors.map((err) => err.message).join("；"), {
+        status: 400
+      });
+    }
+
+    if (error instanceof StorageDesignError || error instanceof RevisionError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `更新数据表失败：${error.message}` : "更新数据表失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { id, tableId } = await params;
+    const result = await deleteStorageTable(id, tableId, readRevisionAuthor(request));
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof StorageDesignError || error instanceof RevisionError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `删除数据表失败：${error.message}` : "删除数据表失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
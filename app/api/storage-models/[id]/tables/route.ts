@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { createStorageTableSchema } from "@/lib/model-schemas";
+import { readRevisionAuthor, RevisionError } from "@/lib/revisions";
+import { createStorageTable, StorageDesignError } from "@/lib/storage-design";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const payload = await request.json();
+    const data = createStorageTableSchema.parse(payload);
+    const result = await createStorageTable(id, data, readRevisionAuthor(request));
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.errors.map((err) => err.message).join("；"), {
+        status: 400
+      });
+    }
+
+    if (error instanceof StorageDesignError || error instanceof RevisionError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `新增数据表失败：${error.message}` : "新增数据表失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { parseDdl } from "@/lib/ddl/parser";
+import { readRevisionAuthor } from "@/lib/revisions";
+import { createStorageModelFromTables } from "@/lib/storage-import";
+
+const MAX_DDL_LENGTH = 5 * 1024 * 1024;
+
+const ddlImportSchema = z.object({
+  name: z.string().min(1, "模型名称不能为空"),
+  description: z.string().optional(),
+  dialect: z.enum(["mysql", "postgresql"]).default("mysql"),
+  database: z.string().trim().optional(),
+  ddl: z
+    .string()
+    .trim()
+    .min(1, "DDL 脚本不能为空")
+    .max(MAX_DDL_LENGTH, "DDL 脚本不能超过 5MB"),
+  dryRun: z.boolean().optional()
+});
+
+export async function POST(request: Request) {
+  try {
+    const json = await request.json();
+    const data = ddlImportSchema.parse(json);
+
+    const { tables, skipped } = parseDdl(data.ddl, data.dialect);
+
+    if (data.dryRun) {
+      return NextResponse.json({ tables, skipped });
+    }
+
+    if (tables.length === 0) {
+      const reasons = skipped
+        .slice(0, 5)
+        .map((item) => item.reason)
+        .join("；");
+      return new NextResponse(
+        reasons ? `DDL 中未解析到建表语句：${reasons}` : "DDL 中未解析到建表语句",
+        { status: 400 }
+      );
+    }
+
+    const storageModel = await createStorageModelFromTables({
+      name: data.name,
+      description: data.description,
+      database: data.database || data.name,
+      connection: null,
+      dialect: data.dialect,
+      tables,
+      author: readRevisionAuthor(request)
+    });
+
+    return NextResponse.json({ storageModel, skipped });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.errors.map((err) => err.message).join("；"), {
+        status: 400
+      });
+    }
+
+    const message =
+      error instanceof Error
+        ? `生成数据存储模型失败：${error.message}`
+        : "生成数据存储模型失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -1,171 +1,66 @@
 import { NextResponse } from "next/server";
-import mysql from "mysql2/promise";
 import { z } from "zod";
 
-import { prisma } from "@/lib/prisma";
 import {
-  serializeDashboardData,
-  type StorageModelWithRelations
-} from "@/lib/serializers";
-
-type ColumnSchema = {
-  name: string;
-  type?: string;
-  key?: string | null;
-  nullable?: boolean;
-  default?: unknown;
-  comment?: string | null;
-};
-
-const connectionSchema = z
-  .object({
-    host: z.string().min(1, "数据库地址不能为空"),
-    port: z.union([z.string(), z.number()]).optional(),
-    user: z.string().min(1, "数据库用户不能为空"),
-    password: z.string().optional(),
-    database: z.string().min(1, "数据库名称不能为空")
-  })
-  .transform((data) => {
-    const portValue = data.port !== undefined ? Number(data.port) : 3306;
-    const port = Number.isFinite(portValue) && portValue > 0 ? portValue : 3306;
-    return {
-      ...data,
-      password: data.password ?? "",
-      port
-    };
-  });
+  connectionSchema,
+  formatConnectionUrl,
+  introspectWithFilter,
+  tableFilterSchema
+} from "@/lib/introspection";
+import { isCredentialStoreConfigured } from "@/lib/credentials";
+import { readRevisionAuthor } from "@/lib/revisions";
+import { createStorageModelFromTables } from "@/lib/storage-import";
 
 const importSchema = z.object({
   name: z.string().min(1, "模型名称不能为空"),
   description: z.string().optional(),
-  connection: connectionSchema
+  connection: connectionSchema,
+  selection: tableFilterSchema.optional(),
+  rememberPassword: z.boolean().optional()
 });
 
 export async function POST(request: Request) {
-  let connection: mysql.Connection | null = null;
-
   try {
     const payload = await request.json();
-    const { name, description, connection: conn } = importSchema.parse(payload);
+    const { name, description, connection: conn, selection, rememberPassword } =
+      importSchema.parse(payload);
 
-    connection = await mysql.createConnection({
-      host: conn.host,
-      port: conn.port,
-      user: conn.user,
-      password: conn.password,
-      database: conn.database
-    });
+    if (rememberPassword && !isCredentialStoreConfigured()) {
+      return new NextResponse("服务端未配置 CREDENTIAL_ENCRYPTION_KEY，无法保存数据库密码", {
+        status: 400
+      });
+    }
 
-    const [tableRows] = await connection.query<
-      Array<{ tableName: string; tableComment: string }>
-    >(
-      `SELECT TABLE_NAME as tableName, TABLE_COMMENT as tableComment
-       FROM INFORMATION_SCHEMA.TABLES
-       WHERE TABLE_SCHEMA = ?
-       ORDER BY TABLE_NAME`,
-      [conn.database]
-    );
+    const tables = await introspectWithFilter(conn, selection);
 
-    const [columnRows] = await connection.query<
-      Array<{
-        tableName: string;
-        columnName: string;
-        columnType: string;
-        columnKey: string | null;
-        isNullable: "YES" | "NO";
-        columnDefault: unknown;
-        columnComment: string | null;
-      }>
-    >(
-      `SELECT TABLE_NAME as tableName,
-              COLUMN_NAME as columnName,
-              COLUMN_TYPE as columnType,
-              COLUMN_KEY as columnKey,
-              IS_NULLABLE as isNullable,
-              COLUMN_DEFAULT as columnDefault,
-              COLUMN_COMMENT as columnComment
-         FROM INFORMATION_SCHEMA.COLUMNS
-         WHERE TABLE_SCHEMA = ?
-         ORDER BY TABLE_NAME, ORDINAL_POSITION`,
-      [conn.database]
-    );
-
-    if (tableRows.length === 0) {
-      return new NextResponse("目标数据库未检测到数据表", { status: 400 });
+    if (tables.length === 0) {
+      return new NextResponse(
+        selection ? "未找到符合选择条件的数据表" : "目标数据库未检测到数据表",
+        { status: 400 }
+      );
     }
 
-    const columnsByTable = new Map<string, ColumnSchema[]>();
-    for (const column of columnRows) {
-      const list = columnsByTable.get(column.tableName) ?? [];
-      list.push({
-        name: column.columnName,
-        type: column.columnType,
-        key: column.columnKey,
-        nullable: column.isNullable === "YES",
-        default: column.columnDefault,
-        comment: column.columnComment
-      });
-      columnsByTable.set(column.tableName, list);
+    const missing = (selection?.tables ?? []).filter(
+      (tableName) => !tables.some((table) => table.name === tableName)
+    );
+    if (missing.length) {
+      return new NextResponse(`以下数据表不存在：${missing.join("、")}`, { status: 400 });
     }
 
-    const tables = tableRows.map((table) => {
-      const columns = columnsByTable.get(table.tableName) ?? [];
-      return {
-        name: table.tableName,
-        description: table.tableComment || null,
-        columns
-      };
-    });
-
-    const createdModel = await prisma.dataStorageModel.create({
-      data: {
-        name,
-        description: description || undefined,
-        database: conn.database,
-        connection: `mysql://${encodeURIComponent(conn.user)}@${conn.host}:${conn.port}/${conn.database}`,
-        schema: {
-          importedAt: new Date().toISOString(),
-          tables: tables.map((table) => ({
-            name: table.name,
-            description: table.description,
-            columns: table.columns
-          }))
-        },
-        tables: {
-          create: tables.map((table) => ({
-            name: table.name,
-            description: table.description || undefined,
-            schema: {
-              columns: table.columns
-            }
-          }))
-        }
-      },
-      include: {
-        tables: {
-          include: {
-            forms: {
-              include: {
-                operations: true
-              }
-            },
-            views: true
-          }
-        },
-        operations: true,
-        views: true
-      }
-    });
-
-    const serialized = serializeDashboardData({
-      storageModels: [createdModel as StorageModelWithRelations],
-      viewModels: [],
-      formModels: [],
-      operationModels: [],
-      domainModels: []
+    const storageModel = await createStorageModelFromTables({
+      name,
+      description,
+      database: conn.database,
+      connection: formatConnectionUrl(conn),
+      dialect: conn.dialect,
+      schemaName: conn.schema,
+      tableFilter: selection,
+      tables,
+      password: rememberPassword ? conn.password : undefined,
+      author: readRevisionAuthor(request)
     });
 
-    return NextResponse.json(serialized.storageModels[0]);
+    return NextResponse.json(storageModel);
   } catch (error) {
     if (error instanceof z.ZodError) {
       return new NextResponse(error.errors.map((err) => err.message).join("；"), {
@@ -179,9 +74,5 @@ export async function POST(request: Request) {
         : "生成数据存储模型失败";
 
     return new NextResponse(message, { status: 500 });
-  } finally {
-    if (connection) {
-      await connection.end();
-    }
   }
 }
@@ -0,0 +1,116 @@
+import path from "path";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import {
+  MAX_SQLITE_FILE_SIZE,
+  SqliteSourceError,
+  introspectSqliteFile,
+  isSqliteFile,
+  readSqliteFile
+} from "@/lib/introspection/sqlite";
+import { readRevisionAuthor } from "@/lib/revisions";
+import { createStorageModelFromTables } from "@/lib/storage-import";
+
+const sqliteImportSchema = z.object({
+  name: z.string().min(1, "模型名称不能为空"),
+  description: z.string().optional(),
+  path: z.string().optional()
+});
+
+type SqliteSource = {
+  database: string;
+  connection: string | null;
+  buffer: Uint8Array;
+};
+
+function toDatabaseName(fileName: string) {
+  return path.basename(fileName).replace(/\.(sqlite3?|db3?|s3db)$/i, "") || fileName;
+}
+
+async function readUploadedFile(file: File): Promise<SqliteSource> {
+  if (file.size > MAX_SQLITE_FILE_SIZE) {
+    throw new SqliteSourceError("SQLite 文件不能超过 50MB");
+  }
+  return {
+    database: toDatabaseName(file.name),
+    connection: null,
+    buffer: new Uint8Array(await file.arrayBuffer())
+  };
+}
+
+async function readLocalFile(filePath: string): Promise<SqliteSource> {
+  const file = await readSqliteFile(filePath);
+  return {
+    database: toDatabaseName(file.path),
+    connection: `sqlite://${file.path}`,
+    buffer: file.buffer
+  };
+}
+
+export async function POST(request: Request) {
+  try {
+    const contentType = request.headers.get("content-type") ?? "";
+    let fields: unknown;
+    let file: File | null = null;
+
+    if (contentType.includes("multipart/form-data")) {
+      const formData = await request.formData();
+      const upload = formData.get("file");
+      file = upload instanceof File && upload.size > 0 ? upload : null;
+      fields = {
+        name: formData.get("name") ?? undefined,
+        description: formData.get("description") || undefined,
+        path: formData.get("path") || undefined
+      };
+    } else {
+      fields = await request.json();
+    }
+
+    const data = sqliteImportSchema.parse(fields);
+
+    if (!file && !data.path) {
+      return new NextResponse("请上传 SQLite 文件或填写文件路径", { status: 400 });
+    }
+
+    const source = file ? await readUploadedFile(file) : await readLocalFile(data.path!);
+    if (!isSqliteFile(source.buffer)) {
+      return new NextResponse("文件不是有效的 SQLite 数据库", { status: 400 });
+    }
+
+    const tables = await introspectSqliteFile(source.buffer);
+
+    if (tables.length === 0) {
+      return new NextResponse("SQLite 文件中未检测到数据表", { status: 400 });
+    }
+
+    const storageModel = await createStorageModelFromTables({
+      name: data.name,
+      description: data.description,
+      database: source.database,
+      connection: source.connection,
+      dialect: "sqlite",
+      tables,
+      author: readRevisionAuthor(request)
+    });
+
+    return NextResponse.json(storageModel);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.errors.map((err) => err.message).join("；"), {
+        status: 400
+      });
+    }
+
+    if (error instanceof SqliteSourceError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error
+        ? `生成数据存储模型失败：${error.message}`
+        : "生成数据存储模型失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
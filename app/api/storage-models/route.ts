@@ -3,6 +3,7 @@ import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import {
   serializeDashboardData,
+  storageCredentialSelect,
   type StorageModelWithRelations
 } from "@/lib/serializers";
 
@@ -20,7 +21,10 @@ export async function GET() {
         }
       },
       operations: true,
-      views: true
+      views: true,
+      credential: {
+        select: storageCredentialSelect
+      }
     },
     orderBy: {
       createdAt: "desc"
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { connectionSchema, getIntrospector } from "@/lib/introspection";
+
+const testConnectionSchema = z.object({
+  connection: connectionSchema
+});
+
+export async function POST(request: Request) {
+  try {
+    const payload = await request.json();
+    const { connection } = testConnectionSchema.parse(payload);
+
+    const overview = await getIntrospector(connection.dialect).inspect(connection);
+
+    return NextResponse.json(overview);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.errors.map((err) => err.message).join("；"), {
+        status: 400
+      });
+    }
+
+    // 连接失败多为地址、账号或库名填写错误，按请求错误返回便于前端直接提示
+    const message =
+      error instanceof Error ? `连接数据库失败：${error.message}` : "连接数据库失败";
+
+    return new NextResponse(message, { status: 400 });
+  }
+}
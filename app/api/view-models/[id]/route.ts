@@ -0,0 +1,140 @@
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { DeleteImpactError, ensureDeletable, isRestrictedDelete } from "@/lib/delete-impact";
+import { toDescriptionUpdate, updateViewSchema } from "@/lib/model-schemas";
+import { prisma } from "@/lib/prisma";
+import {
+  ensureRevisionBaseline,
+  readRevisionAuthor,
+  recordRevision,
+  RevisionError
+} from "@/lib/revisions";
+import {
+  serializeDashboardData,
+  type ViewModelWithRelations
+} from "@/lib/serializers";
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+async function findView(id: string) {
+  return (await prisma.dataViewModel.findUnique({
+    where: { id },
+    include: {
+      storageModel: true,
+      storageTable: true
+    }
+  })) as ViewModelWithRelations | null;
+}
+
+function toPayload(view: ViewModelWithRelations) {
+  return serializeDashboardData({
+    storageModels: [],
+    viewModels: [view],
+    formModels: [],
+    operationModels: [],
+    domainModels: []
+  }).viewModels[0];
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const view = await findView(id);
+
+  if (!view) {
+    return new NextResponse("视图模型不存在", { status: 404 });
+  }
+
+  return NextResponse.json(toPayload(view));
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const payload = await request.json();
+    const data = updateViewSchema.parse(payload);
+
+    const existing = await prisma.dataViewModel.findUnique({ where: { id } });
+    if (!existing) {
+      return new NextResponse("视图模型不存在", { status: 404 });
+    }
+
+    // 切换数据表或存储模型时，确保两者仍然匹配
+    const storageModelId = data.storageModelId ?? existing.storageModelId;
+    const storageTableId = data.storageTableId ?? existing.storageTableId;
+    if (data.storageModelId || data.storageTableId) {
+      const table = await prisma.dataStorageTable.findUnique({
+        where: { id: storageTableId },
+        select: { storageModelId: true }
+      });
+      if (!table || table.storageModelId !== storageModelId) {
+        return new NextResponse("所选数据表不属于该数据存储模型", { status: 400 });
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await ensureRevisionBaseline("view", id, tx);
+      await tx.dataViewModel.update({
+        where: { id },
+        data: {
+          name: data.name,
+          description: toDescriptionUpdate(data.description),
+          storageModelId: data.storageModelId,
+          storageTableId: data.storageTableId,
+          layout: data.layout as Prisma.InputJsonObject | undefined
+        }
+      });
+      await recordRevision(
+        "view",
+        id,
+        { action: "update", author: readRevisionAuthor(request) },
+        tx
+      );
+    });
+
+    const detail = await findView(id);
+    if (!detail) {
+      return new NextResponse("视图模型更新失败", { status: 500 });
+    }
+
+    return NextResponse.json(toPayload(detail));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.errors.map((err) => err.message).join("；"), {
+        status: 400
+      });
+    }
+
+    if (error instanceof RevisionError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `更新视图模型失败：${error.message}` : "更新视图模型失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await ensureDeletable("view", id, isRestrictedDelete(request));
+
+    await prisma.dataViewModel.delete({ where: { id } });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof DeleteImpactError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `删除视图模型失败：${error.message}` : "删除视图模型失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
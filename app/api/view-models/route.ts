@@ -1,29 +1,15 @@
+import { Prisma } from "@prisma/client";
 import { NextResponse } from "next/server";
 import { z } from "zod";
 
+import { createViewSchema } from "@/lib/model-schemas";
 import { prisma } from "@/lib/prisma";
+import { readRevisionAuthor, recordRevision, RevisionError } from "@/lib/revisions";
 import {
   serializeDashboardData,
   type ViewModelWithRelations
 } from "@/lib/serializers";
 
-const layoutFieldSchema = z.object({
-  column: z.string().min(1, "字段名称不能为空"),
-  label: z.string().min(1, "展示名称不能为空"),
-  type: z.string().optional(),
-  sortable: z.boolean().optional()
-});
-
-const createViewSchema = z.object({
-  name: z.string().min(1, "视图名称不能为空"),
-  description: z.string().optional(),
-  storageModelId: z.string().min(1, "必须指定数据存储模型"),
-  storageTableId: z.string().min(1, "必须指定数据表"),
-  layout: z.object({
-    fields: z.array(layoutFieldSchema).min(1, "至少选择一个字段")
-  })
-});
-
 export async function GET() {
   const views = (await prisma.dataViewModel.findMany({
     include: {
@@ -51,14 +37,23 @@ export async function POST(request: Request) {
     const payload = await request.json();
     const data = createViewSchema.parse(payload);
 
-    const view = await prisma.dataViewModel.create({
-      data: {
-        name: data.name,
-        description: data.description,
-        storageModelId: data.storageModelId,
-        storageTableId: data.storageTableId,
-        layout: data.layout
-      }
+    const view = await prisma.$transaction(async (tx) => {
+      const created = await tx.dataViewModel.create({
+        data: {
+          name: data.name,
+          description: data.description,
+          storageModelId: data.storageModelId,
+          storageTableId: data.storageTableId,
+          layout: data.layout as Prisma.InputJsonObject
+        }
+      });
+      await recordRevision(
+        "view",
+        created.id,
+        { action: "create", author: readRevisionAuthor(request) },
+        tx
+      );
+      return created;
     });
 
     const detail = (await prisma.dataViewModel.findUnique({
@@ -89,6 +84,10 @@ export async function POST(request: Request) {
       });
     }
 
+    if (error instanceof RevisionError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
     const message =
       error instanceof Error ? `创建视图模型失败：${error.message}` : "创建视图模型失败";
 
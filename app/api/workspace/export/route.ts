@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+
+import { MODEL_KINDS } from "@/lib/revisions";
+import { exportWorkspaceBundle } from "@/lib/workspace-bundle";
+import type { WorkspaceSelection } from "@/types/workspace-bundle";
+
+// 查询参数按模型类型传入 id，可重复或以逗号分隔，例如 ?domain=a&view=b,c；不传则导出全部
+function readSelection(request: Request): WorkspaceSelection {
+  const { searchParams } = new URL(request.url);
+
+  return Object.fromEntries(
+    MODEL_KINDS.map((kind) => [
+      kind,
+      searchParams
+        .getAll(kind)
+        .flatMap((value) => value.split(","))
+        .map((value) => value.trim())
+        .filter(Boolean)
+    ])
+  );
+}
+
+export async function GET(request: Request) {
+  try {
+    const bundle = await exportWorkspaceBundle(readSelection(request));
+    const filename = `workspace-${bundle.exportedAt.slice(0, 10)}.json`;
+
+    return new NextResponse(JSON.stringify(bundle, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`
+      }
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? `导出工作区失败：${error.message}` : "导出工作区失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { readRevisionAuthor } from "@/lib/revisions";
+import {
+  CONFLICT_STRATEGIES,
+  importWorkspaceBundle,
+  parseWorkspaceBundle,
+  WorkspaceBundleError
+} from "@/lib/workspace-bundle";
+
+const importSchema = z.object({
+  bundle: z.unknown(),
+  conflict: z
+    .enum(CONFLICT_STRATEGIES, {
+      errorMap: () => ({ message: "冲突处理方式仅支持 skip、overwrite、rename" })
+    })
+    .default("skip")
+});
+
+export async function POST(request: Request) {
+  try {
+    const payload = await request.json();
+    const { bundle, conflict } = importSchema.parse(payload);
+
+    const result = await importWorkspaceBundle(parseWorkspaceBundle(bundle), {
+      conflict,
+      author: readRevisionAuthor(request)
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new NextResponse(error.errors.map((err) => err.message).join("；"), {
+        status: 400
+      });
+    }
+
+    if (error instanceof WorkspaceBundleError) {
+      return new NextResponse(error.message, { status: error.status });
+    }
+
+    const message =
+      error instanceof Error ? `导入工作区失败：${error.message}` : "导入工作区失败";
+
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -1,54 +1,11 @@
 import DashboardRoot from "@/components/dashboard/dashboard-root";
-import { serializeDashboardData } from "@/lib/serializers";
+import {
+  domainModelInclude,
+  serializeDashboardData,
+  storageCredentialSelect
+} from "@/lib/serializers";
 import { prisma } from "@/lib/prisma";
 
-const domainModelInclude = {
-  storageTables: {
-    include: {
-      storageTable: {
-        include: {
-          forms: {
-            include: {
-              operations: true
-            }
-          },
-          views: true
-        }
-      }
-    }
-  },
-  viewModels: {
-    include: {
-      viewModel: {
-        include: {
-          storageModel: true,
-          storageTable: true
-        }
-      }
-    }
-  },
-  formModels: {
-    include: {
-      formModel: {
-        include: {
-          storageTable: true,
-          operations: true
-        }
-      }
-    }
-  },
-  operationModels: {
-    include: {
-      operationModel: {
-        include: {
-          formModel: true,
-          storageModel: true
-        }
-      }
-    }
-  }
-} as const;
-
 export default async function HomePage() {
   const [storageModels, viewModels, formModels, operationModels, domainModels] = await Promise.all([
     prisma.dataStorageModel.findMany({
@@ -64,7 +21,10 @@ export default async function HomePage() {
           }
         },
         operations: true,
-        views: true
+        views: true,
+        credential: {
+          select: storageCredentialSelect
+        }
       },
       orderBy: {
         createdAt: "desc"
@@ -19,30 +19,79 @@ import { Separator } from "@/components/ui/separator";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  StorageSyncPanel,
+  type StorageSyncRequest
+} from "@/components/dashboard/storage-sync-panel";
+import { TableSelectionPanel } from "@/components/dashboard/table-selection-panel";
+import { StorageModelEditPanel } from "@/components/dashboard/storage-model-edit-panel";
+import { DeleteImpactDialog } from "@/components/dashboard/delete-impact-dialog";
+import { RevisionHistoryDialog } from "@/components/dashboard/revision-history-dialog";
+import {
+  DomainReleaseDialog,
+  type ReleasePublishRequest
+} from "@/components/dashboard/domain-release-dialog";
+import { WorkspaceTransferDialog } from "@/components/dashboard/workspace-transfer-dialog";
+import { MODEL_KIND_META, formatDate, downloadFile } from "@/components/dashboard/utils";
+import { PrismaSchemaDialog } from "@/components/dashboard/prisma-schema-dialog";
+import {
+  StorageTableEditorDialog,
+  type StorageTableEditorTarget
+} from "@/components/dashboard/storage-table-editor-dialog";
+import { StorageMigrationDialog } from "@/components/dashboard/storage-migration-dialog";
+import { OpenApiImportDialog } from "@/components/dashboard/openapi-import-dialog";
+import { DataDictionaryDialog } from "@/components/dashboard/data-dictionary-dialog";
+import { ErDiagramDialog } from "@/components/dashboard/er-diagram-dialog";
+import {
+  DomainGraphDialog,
+  type DomainLinkAdditions
+} from "@/components/dashboard/domain-graph-dialog";
+import type {
+  StorageDialect,
+  StorageImportFormState,
+  ModelTarget,
+  DomainFieldSourceDraft
+} from "@/components/dashboard/types";
+import { DomainLineageDialog } from "@/components/dashboard/domain-lineage-dialog";
+import { DomainFieldSourcesEditor } from "@/components/dashboard/domain-field-sources-editor";
 import {
   DashboardData,
+  DomainFieldSource,
   DomainModel,
   FormModel,
+  ModelKind,
   OperationModel,
   StorageModel,
   StorageTable,
   ViewModel
 } from "@/types/models";
+import type { AdminTableGenerationResult } from "@/types/admin-table";
+import type { DataDictionaryFormat, DataDictionarySheet } from "@/types/data-dictionary";
+import type { DeleteImpact } from "@/types/delete-impact";
+import type { DomainLineage } from "@/types/domain-lineage";
+import type { DdlSkippedStatement } from "@/lib/ddl/parser";
+import type { DatabaseOverview } from "@/lib/introspection/types";
+import type { ModelRevision, ModelRevisionSummary, RevisionRestoreResult } from "@/types/revisions";
+import type { ModelMirrorFormat, ModelMirrorWriteResult } from "@/types/model-mirror";
+import type { OpenApiImportResult } from "@/types/openapi-import";
+import type { DomainReleaseSummary } from "@/types/releases";
+import type {
+  StorageDesignResult,
+  StorageMigration,
+  StorageMigrationMode,
+  StorageTableDraft
+} from "@/types/storage-design";
+import type {
+  WorkspaceConflictStrategy,
+  WorkspaceImportResult,
+  WorkspaceSelection
+} from "@/types/workspace-bundle";
+import type { ModelReference, StorageSyncDiff } from "@/types/storage-sync";
 
 interface DashboardRootProps {
   initialData: DashboardData;
 }
 
-type StorageImportFormState = {
-  name: string;
-  description: string;
-  host: string;
-  port: string;
-  user: string;
-  password: string;
-  database: string;
-};
-
 type ColumnMeta = {
   name: string;
   type?: string;
@@ -53,6 +102,7 @@ type ColumnMeta = {
 };
 
 type ViewDesignerState = {
+  editingId: string | null;
   name: string;
   description: string;
   storageModelId: string;
@@ -68,6 +118,7 @@ type FormDesignerField = {
 };
 
 type FormDesignerState = {
+  editingId: string | null;
   name: string;
   description: string;
   storageModelId: string;
@@ -76,6 +127,7 @@ type FormDesignerState = {
 };
 
 type OperationDesignerState = {
+  editingId: string | null;
   name: string;
   description: string;
   type: OperationModel["type"];
@@ -94,9 +146,11 @@ type DomainFieldDraft = {
   type: string;
   required: boolean;
   description: string;
+  sources: DomainFieldSourceDraft[];
 };
 
 type DomainDesignerState = {
+  editingId: string | null;
   name: string;
   description: string;
   fields: DomainFieldDraft[];
@@ -117,19 +171,30 @@ type DomainFieldPayload = {
   type?: string;
   required: boolean;
   description?: string;
+  sources?: DomainFieldSource[];
 };
 
 const DEFAULT_STORAGE_FORM: StorageImportFormState = {
   name: "",
   description: "",
+  source: "database",
+  dialect: "mysql",
+  schema: "",
   host: "",
   port: "3306",
   user: "",
   password: "",
-  database: ""
+  database: "",
+  sqliteFile: null,
+  sqlitePath: "",
+  ddl: "",
+  tablePattern: "",
+  selectedTables: [],
+  rememberPassword: false
 };
 
 const DEFAULT_VIEW_STATE: ViewDesignerState = {
+  editingId: null,
   name: "",
   description: "",
   storageModelId: "",
@@ -138,6 +203,7 @@ const DEFAULT_VIEW_STATE: ViewDesignerState = {
 };
 
 const DEFAULT_FORM_STATE: FormDesignerState = {
+  editingId: null,
   name: "",
   description: "",
   storageModelId: "",
@@ -146,6 +212,7 @@ const DEFAULT_FORM_STATE: FormDesignerState = {
 };
 
 const DEFAULT_OPERATION_STATE: OperationDesignerState = {
+  editingId: null,
   name: "",
   description: "",
   type: "READ",
@@ -164,12 +231,14 @@ function createDomainFieldDraft(): DomainFieldDraft {
     name: "",
     type: "",
     required: false,
-    description: ""
+    description: "",
+    sources: []
   };
 }
 
 function createDefaultDomainState(): DomainDesignerState {
   return {
+    editingId: null,
     name: "",
     description: "",
     fields: [createDomainFieldDraft()],
@@ -180,6 +249,14 @@ function createDefaultDomainState(): DomainDesignerState {
   };
 }
 
+const STORAGE_DIALECT_OPTIONS: Array<{ value: StorageDialect; label: string; port: string }> = [
+  { value: "mysql", label: "MySQL", port: "3306" },
+  { value: "postgresql", label: "PostgreSQL", port: "5432" },
+  { value: "sqlite", label: "SQLite 文件", port: "" }
+];
+
+const DDL_DIALECT_OPTIONS = STORAGE_DIALECT_OPTIONS.filter((option) => option.value !== "sqlite");
+
 const HTTP_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"];
 const OPERATION_TYPES: OperationModel["type"][] = [
   "CREATE",
@@ -191,6 +268,15 @@ const OPERATION_TYPES: OperationModel["type"][] = [
 
 const SELECT_EMPTY_VALUE = "__none__";
 
+const BLOCK_DELETE_STORAGE_KEY = "data-model-ide:block-delete-with-dependents";
+const AUTHOR_STORAGE_KEY = "data-model-ide:author";
+
+// 操作人仅保存在浏览器本地，提交修改时通过请求头告知服务端写入历史版本
+function authorHeaders(): Record<string, string> {
+  const author = window.localStorage.getItem(AUTHOR_STORAGE_KEY)?.trim();
+  return author ? { "X-Author": encodeURIComponent(author) } : {};
+}
+
 const FIELD_COMPONENT_OPTIONS = [
   { value: "text", label: "文本输入" },
   { value: "textarea", label: "多行文本" },
@@ -208,28 +294,48 @@ function extractColumns(table?: StorageTable | null): ColumnMeta[] {
   return [];
 }
 
-const DATE_FORMATTER = new Intl.DateTimeFormat("zh-CN", {
-  year: "numeric",
-  month: "2-digit",
-  day: "2-digit",
-  hour: "2-digit",
-  minute: "2-digit",
-  second: "2-digit",
-  hour12: false,
-  timeZone: "Asia/Shanghai"
-});
-
-function formatDate(value: string) {
-  try {
-    const date = new Date(value);
-    if (Number.isNaN(date.getTime())) {
-      return value;
-    }
+type ViewLayoutField = {
+  column: string;
+  label: string;
+  type?: string;
+  sortable?: boolean;
+};
 
-    return DATE_FORMATTER.format(date);
-  } catch (error) {
-    return value;
-  }
+type FormSchemaField = {
+  column: string;
+  label: string;
+  required?: boolean;
+  component: string;
+};
+
+function readLayoutFields(view?: ViewModel | null): ViewLayoutField[] {
+  const fields = (view?.layout as { fields?: unknown } | null | undefined)?.fields;
+  return Array.isArray(fields) ? (fields as ViewLayoutField[]) : [];
+}
+
+function readFormFields(form?: FormModel | null): FormSchemaField[] {
+  const fields = (form?.schema as { fields?: unknown } | null | undefined)?.fields;
+  return Array.isArray(fields) ? (fields as FormSchemaField[]) : [];
+}
+
+// 设计器只编辑字段列表，layout.meta 与 schema.meta 中的页面配置原样带回
+function readSchemaMeta(value: unknown): Record<string, unknown> | undefined {
+  const meta = (value as { meta?: unknown } | null | undefined)?.meta;
+  return meta && typeof meta === "object" && !Array.isArray(meta)
+    ? (meta as Record<string, unknown>)
+    : undefined;
+}
+
+function buildConnectionPayload(form: StorageImportFormState) {
+  return {
+    dialect: form.dialect,
+    host: form.host,
+    port: form.port ? Number(form.port) : undefined,
+    user: form.user,
+    password: form.password,
+    database: form.database,
+    schema: form.dialect === "postgresql" && form.schema ? form.schema : undefined
+  };
 }
 
 function inferDefaultFields(columns: ColumnMeta[]): Record<string, FormDesignerField> {
@@ -260,6 +366,9 @@ function DashboardRoot({ initialData }: DashboardRootProps) {
     DEFAULT_STORAGE_FORM
   );
   const [isImportingStorage, setIsImportingStorage] = useState(false);
+  const [ddlSkipped, setDdlSkipped] = useState<DdlSkippedStatement[]>([]);
+  const [connectionOverview, setConnectionOverview] = useState<DatabaseOverview | null>(null);
+  const [isTestingConnection, setIsTestingConnection] = useState(false);
 
   const [viewState, setViewState] = useState<ViewDesignerState>(() => {
     const firstModel = initialData.storageModels[0];
@@ -289,6 +398,29 @@ function DashboardRoot({ initialData }: DashboardRootProps) {
   const [isCreatingForm, setIsCreatingForm] = useState(false);
   const [isCreatingOperation, setIsCreatingOperation] = useState(false);
   const [isCreatingDomain, setIsCreatingDomain] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<ModelTarget | null>(null);
+  const [deleteImpact, setDeleteImpact] = useState<DeleteImpact | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [blockDeleteWithDependents, setBlockDeleteWithDependents] = useState(false);
+  const [historyTarget, setHistoryTarget] = useState<ModelTarget | null>(null);
+  const [releaseTarget, setReleaseTarget] = useState<ModelReference | null>(null);
+  const [domainGraphId, setDomainGraphId] = useState<string | null>(null);
+  const [lineageTarget, setLineageTarget] = useState<DomainModel | null>(null);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [prismaSchemaTarget, setPrismaSchemaTarget] = useState<StorageModel | null>(null);
+  const [erDiagramTarget, setErDiagramTarget] = useState<StorageModel | null>(null);
+  const [tableEditorTarget, setTableEditorTarget] = useState<StorageTableEditorTarget | null>(
+    null
+  );
+  const [migrationTarget, setMigrationTarget] = useState<StorageModel | null>(null);
+  const [openApiImportTarget, setOpenApiImportTarget] = useState<StorageModel | null>(null);
+  const [dataDictionaryTarget, setDataDictionaryTarget] = useState<StorageModel | null>(null);
+  const [author, setAuthor] = useState("");
+
+  useEffect(() => {
+    setBlockDeleteWithDependents(window.localStorage.getItem(BLOCK_DELETE_STORAGE_KEY) === "1");
+    setAuthor(window.localStorage.getItem(AUTHOR_STORAGE_KEY) ?? "");
+  }, []);
 
   const selectedViewStorage = useMemo(
     () => storageModels.find((model) => model.id === viewState.storageModelId),
@@ -363,36 +495,94 @@ function DashboardRoot({ initialData }: DashboardRootProps) {
   const handleStorageSubmit = useCallback(
     async (event: React.FormEvent<HTMLFormElement>) => {
       event.preventDefault();
-      if (!storageForm.name || !storageForm.host || !storageForm.user || !storageForm.database) {
+      const isDdl = storageForm.source === "ddl";
+      const isSqlite = !isDdl && storageForm.dialect === "sqlite";
+      if (isDdl) {
+        if (!storageForm.name || !storageForm.ddl.trim()) {
+          toast.error("请填写模型名称，并粘贴或上传 DDL 脚本");
+          return;
+        }
+      } else if (isSqlite) {
+        if (!storageForm.name || (!storageForm.sqliteFile && !storageForm.sqlitePath)) {
+          toast.error("请填写模型名称，并上传 SQLite 文件或填写文件路径");
+          return;
+        }
+      } else if (
+        !storageForm.name ||
+        !storageForm.host ||
+        !storageForm.user ||
+        !storageForm.database
+      ) {
         toast.error("请完整填写模型名称、数据库连接信息");
         return;
       }
 
       setIsImportingStorage(true);
       try {
-        const response = await fetch("/api/storage-models/import", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            name: storageForm.name,
-            description: storageForm.description || undefined,
-            connection: {
-              host: storageForm.host,
-              port: Number(storageForm.port) || 3306,
-              user: storageForm.user,
-              password: storageForm.password,
-              database: storageForm.database
-            }
-          })
-        });
+        let response: Response;
+        if (isDdl) {
+          response = await fetch("/api/storage-models/import/ddl", {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...authorHeaders() },
+            body: JSON.stringify({
+              name: storageForm.name,
+              description: storageForm.description || undefined,
+              dialect: storageForm.dialect === "sqlite" ? "mysql" : storageForm.dialect,
+              database: storageForm.database || undefined,
+              ddl: storageForm.ddl
+            })
+          });
+        } else if (isSqlite) {
+          const body = new FormData();
+          body.append("name", storageForm.name);
+          if (storageForm.description) body.append("description", storageForm.description);
+          if (storageForm.sqliteFile) {
+            body.append("file", storageForm.sqliteFile);
+          } else {
+            body.append("path", storageForm.sqlitePath);
+          }
+          response = await fetch("/api/storage-models/import/sqlite", {
+            method: "POST",
+            headers: authorHeaders(),
+            body
+          });
+        } else {
+          response = await fetch("/api/storage-models/import", {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...authorHeaders() },
+            body: JSON.stringify({
+              name: storageForm.name,
+              description: storageForm.description || undefined,
+              connection: buildConnectionPayload(storageForm),
+              rememberPassword: storageForm.rememberPassword || undefined,
+              selection: storageForm.selectedTables.length
+                ? { tables: storageForm.selectedTables }
+                : storageForm.tablePattern.trim()
+                  ? { tablePattern: storageForm.tablePattern }
+                  : undefined
+            })
+          });
+        }
 
         if (!response.ok) {
           const message = await response.text();
           throw new Error(message || "导入数据存储模型失败");
         }
 
-        toast.success("数据存储模型生成成功");
+        if (isDdl) {
+          const payload = (await response.json()) as { skipped: DdlSkippedStatement[] };
+          setDdlSkipped(payload.skipped);
+          if (payload.skipped.length) {
+            toast(`数据存储模型生成成功，${payload.skipped.length} 条语句已跳过`);
+          } else {
+            toast.success("数据存储模型生成成功");
+          }
+        } else {
+          setDdlSkipped([]);
+          toast.success("数据存储模型生成成功");
+        }
         setStorageForm(DEFAULT_STORAGE_FORM);
+        setConnectionOverview(null);
         await refreshData();
       } catch (error) {
         toast.error(error instanceof Error ? error.message : "导入失败");
@@ -445,10 +635,21 @@ function DashboardRoot({ initialData }: DashboardRootProps) {
         return;
       }
 
+      const isEditing = Boolean(viewState.editingId);
+      // 编辑时保留已有字段的展示配置，仅为新勾选的字段推导默认值
+      const previousView = viewModels.find((view) => view.id === viewState.editingId);
+      const previousFields = readLayoutFields(previousView);
+      const previousMeta = readSchemaMeta(previousView?.layout);
+
       setIsCreatingView(true);
       try {
         const layout = {
+          ...(previousMeta ? { meta: previousMeta } : {}),
           fields: selectedColumns.map((column) => {
+            const previous = previousFields.find((field) => field.column === column);
+            if (previous) {
+              return previous;
+            }
             const metadata = selectedViewColumns.find((item) => item.name === column);
             return {
               column,
@@ -459,24 +660,27 @@ function DashboardRoot({ initialData }: DashboardRootProps) {
           })
         };
 
-        const response = await fetch("/api/view-models", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            name: viewState.name,
-            description: viewState.description || undefined,
-            storageModelId: viewState.storageModelId,
-            storageTableId: viewState.storageTableId,
-            layout
-          })
-        });
+        const response = await fetch(
+          isEditing ? `/api/view-models/${viewState.editingId}` : "/api/view-models",
+          {
+            method: isEditing ? "PATCH" : "POST",
+            headers: { "Content-Type": "application/json", ...authorHeaders() },
+            body: JSON.stringify({
+              name: viewState.name,
+              description: viewState.description || (isEditing ? null : undefined),
+              storageModelId: viewState.storageModelId,
+              storageTableId: viewState.storageTableId,
+              layout
+            })
+          }
+        );
 
         if (!response.ok) {
           const message = await response.text();
-          throw new Error(message || "创建视图模型失败");
+          throw new Error(message || (isEditing ? "更新视图模型失败" : "创建视图模型失败"));
         }
 
-        toast.success("数据展示视图创建成功");
+        toast.success(isEditing ? "数据展示视图已更新" : "数据展示视图创建成功");
         setViewState((prev) => ({
           ...DEFAULT_VIEW_STATE,
           storageModelId: prev.storageModelId,
@@ -485,14 +689,151 @@ function DashboardRoot({ initialData }: DashboardRootProps) {
         }));
         await refreshData();
       } catch (error) {
-        toast.error(error instanceof Error ? error.message : "创建失败");
+        toast.error(error instanceof Error ? error.message : "保存失败");
       } finally {
         setIsCreatingView(false);
       }
     },
-    [refreshData, selectedViewColumns, viewState]
+    [refreshData, selectedViewColumns, viewModels, viewState]
   );
 
+  const handleEditView = useCallback((view: ViewModel) => {
+    setViewState({
+      editingId: view.id,
+      name: view.name,
+      description: view.description ?? "",
+      storageModelId: view.storageModelId,
+      storageTableId: view.storageTableId,
+      selectedColumns: readLayoutFields(view).reduce<Record<string, boolean>>(
+        (acc, field) => ({
+          ...acc,
+          [field.column]: true
+        }),
+        {}
+      )
+    });
+  }, []);
+
+  const handleCancelViewEdit = useCallback(() => {
+    setViewState((prev) => ({
+      ...DEFAULT_VIEW_STATE,
+      storageModelId: prev.storageModelId,
+      storageTableId: prev.storageTableId
+    }));
+  }, []);
+
+  const handleTestConnection = useCallback(async () => {
+    if (!storageForm.host || !storageForm.user || !storageForm.database) {
+      toast.error("请先填写数据库地址、用户名与数据库名称");
+      return;
+    }
+
+    setIsTestingConnection(true);
+    try {
+      const response = await fetch("/api/storage-models/test-connection", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ connection: buildConnectionPayload(storageForm) })
+      });
+
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || "连接数据库失败");
+      }
+
+      const overview: DatabaseOverview = await response.json();
+      setConnectionOverview(overview);
+      setStorageForm((prev) => ({ ...prev, selectedTables: [] }));
+      toast.success(`连接成功：${overview.serverVersion}，共 ${overview.tables.length} 张数据表`);
+    } catch (error) {
+      setConnectionOverview(null);
+      toast.error(error instanceof Error ? error.message : "连接失败");
+    } finally {
+      setIsTestingConnection(false);
+    }
+  }, [storageForm]);
+
+  const handleClearCredential = useCallback(
+    async (storageModelId: string) => {
+      try {
+        const response = await fetch(`/api/storage-models/${storageModelId}/credential`, {
+          method: "DELETE"
+        });
+
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || "清除数据库凭据失败");
+        }
+
+        toast.success("已清除保存的数据库密码");
+        await refreshData();
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "清除失败");
+      }
+    },
+    [refreshData]
+  );
+
+  const handleResyncStorage = useCallback(
+    async (storageModelId: string, request: StorageSyncRequest) => {
+      try {
+        const response = await fetch(`/api/storage-models/${storageModelId}/resync`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...authorHeaders() },
+          body: JSON.stringify(request)
+        });
+
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || "同步数据存储模型失败");
+        }
+
+        const result: { diff: StorageSyncDiff } = await response.json();
+        if (request.apply) {
+          toast.success("数据存储模型已同步");
+          await refreshData();
+        } else if (!result.diff.hasChanges) {
+          toast.success("数据源结构与当前模型一致");
+        }
+        return result.diff;
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "同步失败");
+        return null;
+      }
+    },
+    [refreshData]
+  );
+
+  const handleGeneratePageConfig = useCallback(async (view: ViewModel) => {
+    try {
+      const response = await fetch("/api/page-configs/admin-table", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          storageModelId: view.storageModelId,
+          storageTableId: view.storageTableId,
+          viewId: view.id
+        })
+      });
+
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || "生成页面配置失败");
+      }
+
+      const result: AdminTableGenerationResult = await response.json();
+      if (result.warnings.length) {
+        toast(`页面配置已生成：${result.warnings.join("；")}`);
+      } else {
+        toast.success("页面配置生成成功");
+      }
+      return result;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "生成失败");
+      return null;
+    }
+  }, []);
+
   const handleCreateForm = useCallback(
     async (event: React.FormEvent<HTMLFormElement>) => {
       event.preventDefault();
@@ -501,9 +842,13 @@ function DashboardRoot({ initialData }: DashboardRootProps) {
         return;
       }
 
+      // 编辑时保留字段上的可选项、占位提示、校验等设计器未展示的配置
+      const previousForm = formModels.find((form) => form.id === formState.editingId);
+      const previousFields = readFormFields(previousForm);
       const activeFields = Object.entries(formState.fields)
         .filter(([, config]) => config?.include)
         .map(([column, config]) => ({
+          ...previousFields.find((field) => field.column === column),
           column,
           label: config.label || column,
           required: config.required,
@@ -515,31 +860,39 @@ function DashboardRoot({ initialData }: DashboardRootProps) {
         return;
       }
 
+      const isEditing = Boolean(formState.editingId);
+
       setIsCreatingForm(true);
       try {
         const schema = {
           meta: {
-            usage: "submission"
+            usage: "submission",
+            ...readSchemaMeta(previousForm?.schema)
           },
           fields: activeFields
         };
-        const response = await fetch("/api/form-models", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            name: formState.name,
-            description: formState.description || undefined,
-            storageTableId: formState.storageTableId,
-            schema
-          })
-        });
+        const response = await fetch(
+          isEditing ? `/api/form-models/${formState.editingId}` : "/api/form-models",
+          {
+            method: isEditing ? "PATCH" : "POST",
+            headers: { "Content-Type": "application/json", ...authorHeaders() },
+            body: JSON.stringify({
+              name: formState.name,
+              description: formState.description || (isEditing ? null : undefined),
+              storageTableId: formState.storageTableId,
+              schema
+            })
+          }
+        );
 
         if (!response.ok) {
           const message = await response.text();
-          throw new Error(message || "创建数据表单模型失败");
+          throw new Error(
+            message || (isEditing ? "更新数据表单模型失败" : "创建数据表单模型失败")
+          );
         }
 
-        toast.success("数据表单模型创建成功");
+        toast.success(isEditing ? "数据表单模型已更新" : "数据表单模型创建成功");
         setFormState((prev) => ({
           ...DEFAULT_FORM_STATE,
           storageModelId: prev.storageModelId,
@@ -548,14 +901,55 @@ function DashboardRoot({ initialData }: DashboardRootProps) {
         }));
         await refreshData();
       } catch (error) {
-        toast.error(error instanceof Error ? error.message : "创建失败");
+        toast.error(error instanceof Error ? error.message : "保存失败");
       } finally {
         setIsCreatingForm(false);
       }
     },
-    [formState, refreshData]
+    [formModels, formState, refreshData]
+  );
+
+  const handleEditForm = useCallback(
+    (form: FormModel) => {
+      const table = storageModels
+        .flatMap((model) => model.tables)
+        .find((item) => item.id === form.storageTableId);
+      // 未纳入表单的字段同样列出，便于编辑时重新勾选
+      const fields = Object.fromEntries(
+        Object.entries(inferDefaultFields(extractColumns(table))).map(([column, config]) => [
+          column,
+          { ...config, include: false }
+        ])
+      );
+      for (const field of readFormFields(form)) {
+        fields[field.column] = {
+          include: true,
+          label: field.label,
+          required: Boolean(field.required),
+          component: field.component
+        };
+      }
+
+      setFormState({
+        editingId: form.id,
+        name: form.name,
+        description: form.description ?? "",
+        storageModelId: table?.storageModelId ?? "",
+        storageTableId: form.storageTableId,
+        fields
+      });
+    },
+    [storageModels]
   );
 
+  const handleCancelFormEdit = useCallback(() => {
+    setFormState((prev) => ({
+      ...DEFAULT_FORM_STATE,
+      storageModelId: prev.storageModelId,
+      storageTableId: prev.storageTableId
+    }));
+  }, []);
+
   const handleCreateOperation = useCallback(
     async (event: React.FormEvent<HTMLFormElement>) => {
       event.preventDefault();
@@ -585,34 +979,43 @@ function DashboardRoot({ initialData }: DashboardRootProps) {
         }
       }
 
+      const isEditing = Boolean(operationState.editingId);
+      // 编辑时清空的字段需显式传 null，否则接口会保留原值
+      const emptyValue = isEditing ? null : undefined;
+
       setIsCreatingOperation(true);
       try {
-        const response = await fetch("/api/operation-models", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            name: operationState.name,
-            description: operationState.description || undefined,
-            type: operationState.type,
-            endpoint: operationState.endpoint || undefined,
-            method: operationState.method || undefined,
-            storageModelId: operationState.storageModelId || undefined,
-            formModelId: operationState.formModelId || undefined,
-            requestSchema,
-            responseSchema
-          })
-        });
+        const response = await fetch(
+          isEditing
+            ? `/api/operation-models/${operationState.editingId}`
+            : "/api/operation-models",
+          {
+            method: isEditing ? "PATCH" : "POST",
+            headers: { "Content-Type": "application/json", ...authorHeaders() },
+            body: JSON.stringify({
+              name: operationState.name,
+              description: operationState.description || emptyValue,
+              type: operationState.type,
+              endpoint: operationState.endpoint || emptyValue,
+              method: operationState.method || emptyValue,
+              storageModelId: operationState.storageModelId || emptyValue,
+              formModelId: operationState.formModelId || emptyValue,
+              requestSchema: requestSchema ?? emptyValue,
+              responseSchema: responseSchema ?? emptyValue
+            })
+          }
+        );
 
         if (!response.ok) {
           const message = await response.text();
-          throw new Error(message || "创建操作模型失败");
+          throw new Error(message || (isEditing ? "更新操作模型失败" : "创建操作模型失败"));
         }
 
-        toast.success("数据操作模型创建成功");
+        toast.success(isEditing ? "数据操作模型已更新" : "数据操作模型创建成功");
         setOperationState(DEFAULT_OPERATION_STATE);
         await refreshData();
       } catch (error) {
-        toast.error(error instanceof Error ? error.message : "创建失败");
+        toast.error(error instanceof Error ? error.message : "保存失败");
       } finally {
         setIsCreatingOperation(false);
       }
@@ -620,6 +1023,23 @@ function DashboardRoot({ initialData }: DashboardRootProps) {
     [operationState, refreshData]
   );
 
+  const handleEditOperation = useCallback((operation: OperationModel) => {
+    setOperationState({
+      editingId: operation.id,
+      name: operation.name,
+      description: operation.description ?? "",
+      type: operation.type,
+      formModelId: operation.formModelId ?? null,
+      storageModelId: operation.storageModelId ?? null,
+      endpoint: operation.endpoint ?? "",
+      method: operation.method ?? "",
+      requestSchema:
+        operation.requestSchema == null ? "" : JSON.stringify(operation.requestSchema, null, 2),
+      responseSchema:
+        operation.responseSchema == null ? "" : JSON.stringify(operation.responseSchema, null, 2)
+    });
+  }, []);
+
   const handleSyncRequestSchema = useCallback(
     (formModelId: string | null) => {
       if (!formModelId) return;
@@ -630,214 +1050,1040 @@ function DashboardRoot({ initialData }: DashboardRootProps) {
         requestSchema: JSON.stringify(targetForm.schema, null, 2)
       }));
     },
-    [formModels]
+    [formModels]
+  );
+
+  const handleAddDomainField = useCallback(() => {
+    setDomainState((prev) => ({
+      ...prev,
+      fields: [...prev.fields, createDomainFieldDraft()]
+    }));
+  }, []);
+
+  const handleUpdateDomainField = useCallback(
+    (fieldId: string, partial: Partial<DomainFieldDraft>) => {
+      setDomainState((prev) => ({
+        ...prev,
+        fields: prev.fields.map((field) =>
+          field.id === fieldId ? { ...field, ...partial } : field
+        )
+      }));
+    },
+    []
+  );
+
+  const handleRemoveDomainField = useCallback((fieldId: string) => {
+    setDomainState((prev) => ({
+      ...prev,
+      fields: prev.fields.filter((field) => field.id !== fieldId)
+    }));
+  }, []);
+
+  const handleToggleDomainSelection = useCallback(
+    (key: DomainSelectionKey, id: string, checked: boolean) => {
+      setDomainState((prev) => ({
+        ...prev,
+        [key]: {
+          ...prev[key],
+          [id]: checked
+        }
+      }));
+    },
+    []
+  );
+
+  const handleCreateDomain = useCallback(
+    async (event: React.FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+
+      if (!domainState.name.trim()) {
+        toast.error("请填写领域名称");
+        return;
+      }
+
+      const normalizedFields = domainState.fields
+        .map<DomainFieldPayload | null>((field) => {
+          const key = field.key.trim();
+          const name = field.name.trim();
+          if (!key || !name) {
+            return null;
+          }
+          const type = field.type.trim();
+          const description = field.description.trim();
+          const sources = field.sources
+            .filter((source) => source.storageTableId && source.column)
+            .map((source) => ({
+              storageTableId: source.storageTableId,
+              column: source.column,
+              transform: source.transform.trim() || null
+            }));
+
+          return {
+            key,
+            name,
+            type: type || undefined,
+            required: field.required,
+            description: description ? description : undefined,
+            sources: sources.length ? sources : undefined
+          };
+        })
+        .filter((field): field is DomainFieldPayload => field !== null);
+
+      if (!normalizedFields.length) {
+        toast.error("请至少定义一个有效的业务字段");
+        return;
+      }
+
+      const storageTableIds = Object.entries(domainState.storageTableSelections)
+        .filter(([, checked]) => checked)
+        .map(([id]) => id);
+      const unlinkedSource = normalizedFields.find((field) =>
+        field.sources?.some((source) => !storageTableIds.includes(source.storageTableId))
+      );
+      if (unlinkedSource) {
+        toast.error(`业务字段「${unlinkedSource.name}」的来源数据表未关联到领域`);
+        return;
+      }
+      const viewModelIds = Object.entries(domainState.viewSelections)
+        .filter(([, checked]) => checked)
+        .map(([id]) => id);
+      const formModelIds = Object.entries(domainState.formSelections)
+        .filter(([, checked]) => checked)
+        .map(([id]) => id);
+      const operationModelIds = Object.entries(domainState.operationSelections)
+        .filter(([, checked]) => checked)
+        .map(([id]) => id);
+
+      const isEditing = Boolean(domainState.editingId);
+
+      setIsCreatingDomain(true);
+      try {
+        const response = await fetch(
+          isEditing ? `/api/domain-models/${domainState.editingId}` : "/api/domain-models",
+          {
+            method: isEditing ? "PATCH" : "POST",
+            headers: { "Content-Type": "application/json", ...authorHeaders() },
+            body: JSON.stringify({
+              name: domainState.name.trim(),
+              description: domainState.description.trim()
+                ? domainState.description.trim()
+                : isEditing
+                  ? null
+                  : undefined,
+              schema: {
+                fields: normalizedFields
+              },
+              storageTableIds,
+              viewModelIds,
+              formModelIds,
+              operationModelIds
+            })
+          }
+        );
+
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || (isEditing ? "更新领域模型失败" : "创建领域模型失败"));
+        }
+
+        toast.success(isEditing ? "业务领域模型已更新" : "业务领域模型创建成功");
+        setDomainState(createDefaultDomainState());
+        await refreshData();
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "保存失败");
+      } finally {
+        setIsCreatingDomain(false);
+      }
+    },
+    [domainState, refreshData]
+  );
+
+  const handleEditDomain = useCallback((domain: DomainModel) => {
+    const toSelections = (items: Array<{ id: string }>) =>
+      items.reduce<Record<string, boolean>>((acc, item) => ({ ...acc, [item.id]: true }), {});
+
+    setDomainState({
+      editingId: domain.id,
+      name: domain.name,
+      description: domain.description ?? "",
+      fields: domain.fields.length
+        ? domain.fields.map((field) => ({
+            ...createDomainFieldDraft(),
+            key: field.key,
+            name: field.name,
+            type: field.type ?? "",
+            required: Boolean(field.required),
+            description: field.description ?? "",
+            sources: (field.sources ?? []).map((source) => ({
+              storageTableId: source.storageTableId,
+              column: source.column,
+              transform: source.transform ?? ""
+            }))
+          }))
+        : [createDomainFieldDraft()],
+      storageTableSelections: toSelections(domain.storageTables),
+      viewSelections: toSelections(domain.viewModels),
+      formSelections: toSelections(domain.formModels),
+      operationSelections: toSelections(domain.operationModels)
+    });
+  }, []);
+
+  const handleUpdateStorage = useCallback(
+    async (storageModelId: string, changes: { name: string; description: string }) => {
+      if (!changes.name.trim()) {
+        toast.error("请填写模型名称");
+        return false;
+      }
+
+      try {
+        const response = await fetch(`/api/storage-models/${storageModelId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json", ...authorHeaders() },
+          body: JSON.stringify({
+            name: changes.name.trim(),
+            description: changes.description.trim() || null
+          })
+        });
+
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || "更新数据存储模型失败");
+        }
+
+        toast.success("数据存储模型已更新");
+        await refreshData();
+        return true;
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "保存失败");
+        return false;
+      }
+    },
+    [refreshData]
+  );
+
+  const handleRequestDelete = useCallback(
+    async (kind: ModelKind, id: string, name: string) => {
+      const meta = MODEL_KIND_META[kind];
+      setDeleteTarget({ kind, id, name });
+      setDeleteImpact(null);
+      try {
+        const response = await fetch(`/api/${meta.endpoint}/${id}/impact`);
+
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || "分析删除影响失败");
+        }
+
+        const impact: DeleteImpact = await response.json();
+        setDeleteImpact(impact);
+      } catch (error) {
+        setDeleteTarget(null);
+        toast.error(error instanceof Error ? error.message : "分析删除影响失败");
+      }
+    },
+    []
+  );
+
+  const handleBlockDeleteChange = useCallback((checked: boolean) => {
+    setBlockDeleteWithDependents(checked);
+    window.localStorage.setItem(BLOCK_DELETE_STORAGE_KEY, checked ? "1" : "0");
+  }, []);
+
+  const handleConfirmDelete = useCallback(async () => {
+    if (!deleteTarget) return;
+    const { kind, id } = deleteTarget;
+    const meta = MODEL_KIND_META[kind];
+
+    setIsDeleting(true);
+    try {
+      // 由服务端再次校验依赖，避免确认期间新增的引用被级联删除
+      const query = blockDeleteWithDependents ? "?restrict=1" : "";
+      const response = await fetch(`/api/${meta.endpoint}/${id}${query}`, { method: "DELETE" });
+
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || `删除${meta.label}失败`);
+      }
+
+      toast.success(`${meta.label}已删除`);
+      setDeleteTarget(null);
+      setDeleteImpact(null);
+
+      // 设计器正在编辑或引用被删除的条目时恢复为初始状态
+      if (kind === "storage") {
+        setViewState((prev) => (prev.storageModelId === id ? DEFAULT_VIEW_STATE : prev));
+        setFormState((prev) => (prev.storageModelId === id ? DEFAULT_FORM_STATE : prev));
+      } else if (kind === "view") {
+        setViewState((prev) => (prev.editingId === id ? DEFAULT_VIEW_STATE : prev));
+      } else if (kind === "form") {
+        setFormState((prev) => (prev.editingId === id ? DEFAULT_FORM_STATE : prev));
+      } else if (kind === "operation") {
+        setOperationState((prev) => (prev.editingId === id ? DEFAULT_OPERATION_STATE : prev));
+      } else {
+        setDomainState((prev) => (prev.editingId === id ? createDefaultDomainState() : prev));
+      }
+
+      await refreshData();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "删除失败");
+    } finally {
+      setIsDeleting(false);
+    }
+  }, [blockDeleteWithDependents, deleteTarget, refreshData]);
+
+  const handleAuthorChange = useCallback((value: string) => {
+    setAuthor(value);
+    window.localStorage.setItem(AUTHOR_STORAGE_KEY, value);
+  }, []);
+
+  const handleLoadRevisions = useCallback(async (target: ModelTarget) => {
+    try {
+      const response = await fetch(`/api/revisions/${target.kind}/${target.id}`);
+
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || "读取历史版本失败");
+      }
+
+      const revisions: ModelRevisionSummary[] = await response.json();
+      return revisions;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "读取历史版本失败");
+      return null;
+    }
+  }, []);
+
+  const handleLoadRevision = useCallback(async (target: ModelTarget, version: number) => {
+    try {
+      const response = await fetch(`/api/revisions/${target.kind}/${target.id}/${version}`);
+
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || "读取历史版本失败");
+      }
+
+      const revision: ModelRevision = await response.json();
+      return revision;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "读取历史版本失败");
+      return null;
+    }
+  }, []);
+
+  const handleRestoreRevision = useCallback(
+    async (target: ModelTarget, version: number) => {
+      const meta = MODEL_KIND_META[target.kind];
+      try {
+        const response = await fetch(
+          `/api/revisions/${target.kind}/${target.id}/${version}/restore`,
+          { method: "POST", headers: authorHeaders() }
+        );
+
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || "恢复历史版本失败");
+        }
+
+        const result: RevisionRestoreResult = await response.json();
+        toast.success(`${meta.label}已恢复到 v${version}，生成新版本 v${result.revision.version}`);
+        result.warnings.forEach((warning) => toast(warning));
+        await refreshData();
+        return true;
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "恢复历史版本失败");
+        return false;
+      }
+    },
+    [refreshData]
+  );
+
+  const handleLoadReleases = useCallback(async (domainModelId: string) => {
+    try {
+      const response = await fetch(`/api/releases/${domainModelId}`);
+
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || "读取发布记录失败");
+      }
+
+      const releases: DomainReleaseSummary[] = await response.json();
+      return releases;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "读取发布记录失败");
+      return null;
+    }
+  }, []);
+
+  const handlePublishRelease = useCallback(
+    async (domainModelId: string, request: ReleasePublishRequest) => {
+      try {
+        const response = await fetch(`/api/releases/${domainModelId}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...authorHeaders() },
+          body: JSON.stringify({
+            version: request.version.trim() || undefined,
+            bump: request.bump,
+            notes: request.notes || undefined
+          })
+        });
+
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || "发布失败");
+        }
+
+        const release: DomainReleaseSummary = await response.json();
+        toast.success(`已发布版本 ${release.version}，共 ${release.changelog.length} 项变更`);
+        return release;
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "发布失败");
+        return null;
+      }
+    },
+    []
+  );
+
+  const handleSaveStorageTable = useCallback(
+    async (storageModelId: string, tableId: string | null, draft: StorageTableDraft) => {
+      try {
+        const response = await fetch(
+          tableId
+            ? `/api/storage-models/${storageModelId}/tables/${tableId}`
+            : `/api/storage-models/${storageModelId}/tables`,
+          {
+            method: tableId ? "PATCH" : "POST",
+            headers: { "Content-Type": "application/json", ...authorHeaders() },
+            body: JSON.stringify(draft)
+          }
+        );
+
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || "保存数据表失败");
+        }
+
+        const result: StorageDesignResult = await response.json();
+        toast.success(tableId ? "数据表已更新" : "数据表已新增");
+        result.warnings.forEach((warning) => toast(warning));
+        await refreshData();
+        return true;
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "保存数据表失败");
+        return false;
+      }
+    },
+    [refreshData]
+  );
+
+  const handleDeleteStorageTable = useCallback(
+    async (storageModelId: string, tableId: string) => {
+      try {
+        const response = await fetch(`/api/storage-models/${storageModelId}/tables/${tableId}`, {
+          method: "DELETE",
+          headers: authorHeaders()
+        });
+
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || "删除数据表失败");
+        }
+
+        toast.success("数据表已删除");
+        await refreshData();
+        return true;
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "删除数据表失败");
+        return false;
+      }
+    },
+    [refreshData]
+  );
+
+  const handleLoadMigration = useCallback(
+    async (storageModelId: string, mode: StorageMigrationMode) => {
+      try {
+        const response = await fetch(
+          `/api/storage-models/${storageModelId}/migration?mode=${mode}`
+        );
+
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || "生成迁移脚本失败");
+        }
+
+        const migration: StorageMigration = await response.json();
+        return migration;
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "生成迁移脚本失败");
+        return null;
+      }
+    },
+    []
+  );
+
+  const handleResetMigrationBaseline = useCallback(async (storageModelId: string) => {
+    try {
+      const response = await fetch(`/api/storage-models/${storageModelId}/migration/baseline`, {
+        method: "POST"
+      });
+
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || "重置迁移基线失败");
+      }
+
+      toast.success("已将当前表结构记为迁移基线");
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "重置迁移基线失败");
+      return false;
+    }
+  }, []);
+
+  const handleLoadPrismaSchema = useCallback(
+    async (storageModelId: string, tableIds: string[], includeDatasource: boolean) => {
+      try {
+        const query = new URLSearchParams();
+        if (tableIds.length) query.set("tables", tableIds.join(","));
+        if (includeDatasource) query.set("datasource", "1");
+        const response = await fetch(
+          `/api/storage-models/${storageModelId}/prisma-schema?${query.toString()}`
+        );
+
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || "生成 Prisma Schema 失败");
+        }
+
+        return await response.text();
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "生成 Prisma Schema 失败");
+        return null;
+      }
+    },
+    []
+  );
+
+  const handleLoadDomainLineage = useCallback(async (domainId: string) => {
+    try {
+      const response = await fetch(`/api/domain-models/${domainId}/lineage`);
+
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || "读取字段血缘失败");
+      }
+
+      return (await response.json()) as DomainLineage;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "读取字段血缘失败");
+      return null;
+    }
+  }, []);
+
+  const handleImportOpenApi = useCallback(
+    async (storageModelId: string, content: string, apply: boolean) => {
+      try {
+        const response = await fetch(`/api/storage-models/${storageModelId}/openapi-import`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...authorHeaders() },
+          body: JSON.stringify({ content, apply })
+        });
+
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || "导入 OpenAPI 文件失败");
+        }
+
+        const result: OpenApiImportResult = await response.json();
+        if (apply) {
+          const changed = result.items.filter((item) => item.action !== "unchanged").length;
+          toast.success(`已导入 ${changed} 个数据操作模型`);
+          await refreshData();
+        }
+        return result;
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "导入 OpenAPI 文件失败");
+        return null;
+      }
+    },
+    [refreshData]
+  );
+
+  const handleDownloadOpenApi = useCallback(
+    async (scope: "domainModelId" | "storageModelId", id: string, name: string) => {
+      try {
+        const response = await fetch(`/api/openapi?${new URLSearchParams({ [scope]: id })}`);
+
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || "生成 OpenAPI 文档失败");
+        }
+
+        const document = (await response.json()) as Record<string, unknown>;
+        downloadFile(
+          `${name}.openapi.json`,
+          JSON.stringify(document, null, 2),
+          "application/json"
+        );
+        const warnings = document["x-generator-warnings"];
+        if (Array.isArray(warnings) && warnings.length) {
+          toast(`OpenAPI 文档已生成，有 ${warnings.length} 条提示：${warnings[0]}`);
+        }
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "生成 OpenAPI 文档失败");
+      }
+    },
+    []
+  );
+
+  const handleDownloadDataDictionary = useCallback(
+    async (
+      model: StorageModel,
+      format: DataDictionaryFormat,
+      sheet: DataDictionarySheet = "columns"
+    ) => {
+      try {
+        const response = await fetch(
+          `/api/data-dictionary?${new URLSearchParams({ storageModelId: model.id, format, sheet })}`
+        );
+
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || "生成数据字典失败");
+        }
+
+        const content = await response.text();
+        const extension =
+          format === "markdown" ? "md" : format === "csv" ? `${sheet}.csv` : "html";
+        downloadFile(
+          `${model.name}.data-dictionary.${extension}`,
+          content,
+          response.headers.get("Content-Type") ?? "text/plain"
+        );
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "生成数据字典失败");
+      }
+    },
+    []
+  );
+
+  const handleLinkDomainResources = useCallback(
+    async (domain: DomainModel, additions: DomainLinkAdditions) => {
+      // 只提交有新增的关联列表，其余保持不变
+      const merge = (current: Array<{ id: string }>, added: string[] | undefined) =>
+        added?.length
+          ? Array.from(new Set([...current.map((item) => item.id), ...added]))
+          : undefined;
+
+      try {
+        const response = await fetch(`/api/domain-models/${domain.id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json", ...authorHeaders() },
+          body: JSON.stringify({
+            storageTableIds: merge(domain.storageTables, additions.storageTableIds),
+            viewModelIds: merge(domain.viewModels, additions.viewModelIds),
+            formModelIds: merge(domain.formModels, additions.formModelIds),
+            operationModelIds: merge(domain.operationModels, additions.operationModelIds)
+          })
+        });
+
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || "关联资源失败");
+        }
+
+        toast.success("已关联到业务领域");
+        await refreshData();
+        return true;
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "关联资源失败");
+        return false;
+      }
+    },
+    [refreshData]
   );
 
-  const handleAddDomainField = useCallback(() => {
-    setDomainState((prev) => ({
-      ...prev,
-      fields: [...prev.fields, createDomainFieldDraft()]
-    }));
-  }, []);
+  const handleDownloadTypeScript = useCallback(async (domain: DomainModel) => {
+    try {
+      const response = await fetch(`/api/domain-models/${domain.id}/typescript`);
 
-  const handleUpdateDomainField = useCallback(
-    (fieldId: string, partial: Partial<DomainFieldDraft>) => {
-      setDomainState((prev) => ({
-        ...prev,
-        fields: prev.fields.map((field) =>
-          field.id === fieldId ? { ...field, ...partial } : field
-        )
-      }));
-    },
-    []
-  );
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || "生成 TypeScript 代码失败");
+      }
 
-  const handleRemoveDomainField = useCallback((fieldId: string) => {
-    setDomainState((prev) => ({
-      ...prev,
-      fields: prev.fields.filter((field) => field.id !== fieldId)
-    }));
+      downloadFile(`${domain.name}.ts`, await response.text(), "text/plain");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "生成 TypeScript 代码失败");
+    }
   }, []);
 
-  const handleToggleDomainSelection = useCallback(
-    (key: DomainSelectionKey, id: string, checked: boolean) => {
-      setDomainState((prev) => ({
-        ...prev,
-        [key]: {
-          ...prev[key],
-          [id]: checked
+  const handleDownloadJsonSchema = useCallback(
+    async (kind: "form-models" | "domain-models", id: string, name: string) => {
+      try {
+        const response = await fetch(`/api/${kind}/${id}/json-schema`);
+
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || "生成 JSON Schema 失败");
         }
-      }));
+
+        const schema = await response.json();
+        downloadFile(
+          `${name}.schema.json`,
+          JSON.stringify(schema, null, 2),
+          "application/schema+json"
+        );
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "生成 JSON Schema 失败");
+      }
     },
     []
   );
 
-  const handleCreateDomain = useCallback(
-    async (event: React.FormEvent<HTMLFormElement>) => {
-      event.preventDefault();
+  const handleExportWorkspace = useCallback(async (selection: WorkspaceSelection) => {
+    try {
+      const query = new URLSearchParams();
+      Object.entries(selection).forEach(([kind, ids]) => {
+        if (ids?.length) query.set(kind, ids.join(","));
+      });
+      const response = await fetch(`/api/workspace/export?${query.toString()}`);
 
-      if (!domainState.name.trim()) {
-        toast.error("请填写领域名称");
-        return;
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || "导出工作区失败");
       }
 
-      const normalizedFields = domainState.fields
-        .map<DomainFieldPayload | null>((field) => {
-          const key = field.key.trim();
-          const name = field.name.trim();
-          if (!key || !name) {
-            return null;
-          }
-          const type = field.type.trim();
-          const description = field.description.trim();
+      const content = await response.text();
+      downloadFile(
+        `workspace-${new Date().toISOString().slice(0, 10)}.json`,
+        content,
+        "application/json"
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "导出工作区失败");
+    }
+  }, []);
 
-          return {
-            key,
-            name,
-            type: type || undefined,
-            required: field.required,
-            description: description ? description : undefined
-          };
-        })
-        .filter((field): field is DomainFieldPayload => field !== null);
+  const handleImportWorkspace = useCallback(
+    async (bundle: unknown, conflict: WorkspaceConflictStrategy) => {
+      try {
+        const response = await fetch("/api/workspace/import", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...authorHeaders() },
+          body: JSON.stringify({ bundle, conflict })
+        });
 
-      if (!normalizedFields.length) {
-        toast.error("请至少定义一个有效的业务字段");
-        return;
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || "导入工作区失败");
+        }
+
+        const result: WorkspaceImportResult = await response.json();
+        const imported = result.items.filter((item) => item.status !== "skipped").length;
+        toast.success(`导入完成，写入 ${imported} 个模型`);
+        await refreshData();
+        return result;
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "导入工作区失败");
+        return null;
       }
+    },
+    [refreshData]
+  );
 
-      const storageTableIds = Object.entries(domainState.storageTableSelections)
-        .filter(([, checked]) => checked)
-        .map(([id]) => id);
-      const viewModelIds = Object.entries(domainState.viewSelections)
-        .filter(([, checked]) => checked)
-        .map(([id]) => id);
-      const formModelIds = Object.entries(domainState.formSelections)
-        .filter(([, checked]) => checked)
-        .map(([id]) => id);
-      const operationModelIds = Object.entries(domainState.operationSelections)
-        .filter(([, checked]) => checked)
-        .map(([id]) => id);
+  const handleWriteMirror = useCallback(async (format: ModelMirrorFormat) => {
+    try {
+      const response = await fetch("/api/mirror/write", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format })
+      });
 
-      setIsCreatingDomain(true);
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || "写入模型镜像失败");
+      }
+
+      const result: ModelMirrorWriteResult = await response.json();
+      toast.success(
+        `已写入 ${result.written.length} 个文件${
+          result.removed.length ? `，删除 ${result.removed.length} 个过期文件` : ""
+        }（${result.dir}）`
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "写入模型镜像失败");
+    }
+  }, []);
+
+  const handleLoadMirror = useCallback(
+    async (conflict: WorkspaceConflictStrategy) => {
       try {
-        const response = await fetch("/api/domain-models", {
+        const response = await fetch("/api/mirror/load", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            name: domainState.name.trim(),
-            description: domainState.description.trim()
-              ? domainState.description.trim()
-              : undefined,
-            schema: {
-              fields: normalizedFields
-            },
-            storageTableIds,
-            viewModelIds,
-            formModelIds,
-            operationModelIds
-          })
+          headers: { "Content-Type": "application/json", ...authorHeaders() },
+          body: JSON.stringify({ conflict })
         });
 
         if (!response.ok) {
           const message = await response.text();
-          throw new Error(message || "创建领域模型失败");
+          throw new Error(message || "加载模型镜像失败");
         }
 
-        toast.success("业务领域模型创建成功");
-        setDomainState(createDefaultDomainState());
+        const result: WorkspaceImportResult = await response.json();
+        toast.success(`已从文件镜像加载 ${result.items.length} 个模型`);
         await refreshData();
+        return result;
       } catch (error) {
-        toast.error(error instanceof Error ? error.message : "创建失败");
-      } finally {
-        setIsCreatingDomain(false);
+        toast.error(error instanceof Error ? error.message : "加载模型镜像失败");
+        return null;
       }
     },
-    [domainState, refreshData]
+    [refreshData]
   );
 
-  return (
-    <Tabs defaultValue="storage" className="w-full">
-      <div className="flex flex-wrap items-center justify-between gap-4">
-        <TabsList>
-          <TabsTrigger value="storage">数据存储模型</TabsTrigger>
-          <TabsTrigger value="view">数据展示视图</TabsTrigger>
-          <TabsTrigger value="form">数据提交表单</TabsTrigger>
-          <TabsTrigger value="operation">数据操作模型</TabsTrigger>
-          <TabsTrigger value="domain">业务领域模型</TabsTrigger>
-        </TabsList>
-        <Button variant="outline" onClick={refreshData} disabled={isRefreshing}>
-          {isRefreshing ? "刷新中..." : "刷新数据"}
-        </Button>
-      </div>
+  const transferModels = useMemo<Record<ModelKind, ModelReference[]>>(
+    () => ({
+      storage: storageModels,
+      view: viewModels,
+      form: formModels,
+      operation: operationModels,
+      domain: domainModels
+    }),
+    [domainModels, formModels, operationModels, storageModels, viewModels]
+  );
 
-      <TabsContent value="storage" className="space-y-6">
-        <StorageModelsTab
-          storageModels={storageModels}
-          formState={storageForm}
-          setFormState={setStorageForm}
-          onSubmit={handleStorageSubmit}
-          isSubmitting={isImportingStorage}
-        />
-      </TabsContent>
-
-      <TabsContent value="view" className="space-y-6">
-        <ViewModelsTab
-          storageModels={storageModels}
-          viewModels={viewModels}
-          formState={viewState}
-          setFormState={setViewState}
-          onSubmit={handleCreateView}
-          toggleColumn={toggleViewColumn}
-          columns={selectedViewColumns}
-          isSubmitting={isCreatingView}
-        />
-      </TabsContent>
-
-      <TabsContent value="form" className="space-y-6">
-        <FormModelsTab
-          storageModels={storageModels}
-          formModels={formModels}
-          designerState={formState}
-          setDesignerState={setFormState}
-          columns={selectedFormColumns}
-          onFieldChange={updateFormField}
-          onSubmit={handleCreateForm}
-          isSubmitting={isCreatingForm}
-        />
-      </TabsContent>
-
-      <TabsContent value="operation" className="space-y-6">
-        <OperationModelsTab
-          storageModels={storageModels}
-          formModels={formModels}
-          operationModels={operationModels}
-          state={operationState}
-          setState={setOperationState}
-          onSubmit={handleCreateOperation}
-          onSyncRequestSchema={handleSyncRequestSchema}
-          isSubmitting={isCreatingOperation}
-        />
-      </TabsContent>
-
-      <TabsContent value="domain" className="space-y-6">
-        <DomainModelsTab
-          storageModels={storageModels}
-          viewModels={viewModels}
-          formModels={formModels}
-          operationModels={operationModels}
-          domainModels={domainModels}
-          state={domainState}
-          setState={setDomainState}
-          onAddField={handleAddDomainField}
-          onUpdateField={handleUpdateDomainField}
-          onRemoveField={handleRemoveDomainField}
-          onToggleSelection={handleToggleDomainSelection}
-          onSubmit={handleCreateDomain}
-          isSubmitting={isCreatingDomain}
-        />
-      </TabsContent>
-    </Tabs>
+  return (
+    <>
+      <Tabs defaultValue="storage" className="w-full">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <TabsList>
+            <TabsTrigger value="storage">数据存储模型</TabsTrigger>
+            <TabsTrigger value="view">数据展示视图</TabsTrigger>
+            <TabsTrigger value="form">数据提交表单</TabsTrigger>
+            <TabsTrigger value="operation">数据操作模型</TabsTrigger>
+            <TabsTrigger value="domain">业务领域模型</TabsTrigger>
+          </TabsList>
+          <div className="flex items-center gap-2">
+            <Input
+              className="w-40"
+              placeholder="操作人（可选）"
+              value={author}
+              onChange={(event) => handleAuthorChange(event.target.value)}
+            />
+            <Button variant="outline" onClick={() => setIsTransferOpen(true)}>
+              导入/导出
+            </Button>
+            <Button variant="outline" onClick={refreshData} disabled={isRefreshing}>
+              {isRefreshing ? "刷新中..." : "刷新数据"}
+            </Button>
+          </div>
+        </div>
+
+        <TabsContent value="storage" className="space-y-6">
+          <StorageModelsTab
+            storageModels={storageModels}
+            formState={storageForm}
+            setFormState={setStorageForm}
+            onSubmit={handleStorageSubmit}
+            isSubmitting={isImportingStorage}
+            ddlSkipped={ddlSkipped}
+            onDismissDdlSkipped={() => setDdlSkipped([])}
+            onResync={handleResyncStorage}
+            onClearCredential={handleClearCredential}
+            onUpdate={handleUpdateStorage}
+            onDelete={(model) => handleRequestDelete("storage", model.id, model.name)}
+            onShowHistory={(model) =>
+              setHistoryTarget({ kind: "storage", id: model.id, name: model.name })
+            }
+            onShowPrismaSchema={setPrismaSchemaTarget}
+            onShowErDiagram={setErDiagramTarget}
+            onDownloadOpenApi={(model) =>
+              handleDownloadOpenApi("storageModelId", model.id, model.name)
+            }
+            onImportOpenApi={setOpenApiImportTarget}
+            onShowDataDictionary={setDataDictionaryTarget}
+            onEditTable={(model, table) => setTableEditorTarget({ model, table })}
+            onShowMigration={setMigrationTarget}
+            connectionOverview={connectionOverview}
+            onTestConnection={handleTestConnection}
+            isTestingConnection={isTestingConnection}
+          />
+        </TabsContent>
+
+        <TabsContent value="view" className="space-y-6">
+          <ViewModelsTab
+            storageModels={storageModels}
+            viewModels={viewModels}
+            formState={viewState}
+            setFormState={setViewState}
+            onSubmit={handleCreateView}
+            toggleColumn={toggleViewColumn}
+            columns={selectedViewColumns}
+            isSubmitting={isCreatingView}
+            onGeneratePageConfig={handleGeneratePageConfig}
+            onEdit={handleEditView}
+            onCancelEdit={handleCancelViewEdit}
+            onDelete={(view) => handleRequestDelete("view", view.id, view.name)}
+            onShowHistory={(view) =>
+              setHistoryTarget({ kind: "view", id: view.id, name: view.name })
+            }
+          />
+        </TabsContent>
+
+        <TabsContent value="form" className="space-y-6">
+          <FormModelsTab
+            storageModels={storageModels}
+            formModels={formModels}
+            designerState={formState}
+            setDesignerState={setFormState}
+            columns={selectedFormColumns}
+            onFieldChange={updateFormField}
+            onSubmit={handleCreateForm}
+            isSubmitting={isCreatingForm}
+            onEdit={handleEditForm}
+            onCancelEdit={handleCancelFormEdit}
+            onDelete={(form) => handleRequestDelete("form", form.id, form.name)}
+            onShowHistory={(form) =>
+              setHistoryTarget({ kind: "form", id: form.id, name: form.name })
+            }
+            onDownloadJsonSchema={(form) =>
+              handleDownloadJsonSchema("form-models", form.id, form.name)
+            }
+          />
+        </TabsContent>
+
+        <TabsContent value="operation" className="space-y-6">
+          <OperationModelsTab
+            storageModels={storageModels}
+            formModels={formModels}
+            operationModels={operationModels}
+            state={operationState}
+            setState={setOperationState}
+            onSubmit={handleCreateOperation}
+            onSyncRequestSchema={handleSyncRequestSchema}
+            isSubmitting={isCreatingOperation}
+            onEdit={handleEditOperation}
+            onCancelEdit={() => setOperationState(DEFAULT_OPERATION_STATE)}
+            onDelete={(operation) => handleRequestDelete("operation", operation.id, operation.name)}
+            onShowHistory={(operation) =>
+              setHistoryTarget({ kind: "operation", id: operation.id, name: operation.name })
+            }
+          />
+        </TabsContent>
+
+        <TabsContent value="domain" className="space-y-6">
+          <DomainModelsTab
+            storageModels={storageModels}
+            viewModels={viewModels}
+            formModels={formModels}
+            operationModels={operationModels}
+            domainModels={domainModels}
+            state={domainState}
+            setState={setDomainState}
+            onAddField={handleAddDomainField}
+            onUpdateField={handleUpdateDomainField}
+            onRemoveField={handleRemoveDomainField}
+            onToggleSelection={handleToggleDomainSelection}
+            onSubmit={handleCreateDomain}
+            isSubmitting={isCreatingDomain}
+            onEdit={handleEditDomain}
+            onCancelEdit={() => setDomainState(createDefaultDomainState())}
+            onDelete={(domain) => handleRequestDelete("domain", domain.id, domain.name)}
+            onShowHistory={(domain) =>
+              setHistoryTarget({ kind: "domain", id: domain.id, name: domain.name })
+            }
+            onShowReleases={(domain) => setReleaseTarget({ id: domain.id, name: domain.name })}
+            onShowGraph={(domain) => setDomainGraphId(domain.id)}
+            onShowLineage={setLineageTarget}
+            onDownloadOpenApi={(domain) =>
+              handleDownloadOpenApi("domainModelId", domain.id, domain.name)
+            }
+            onDownloadTypeScript={handleDownloadTypeScript}
+            onDownloadJsonSchema={(domain) =>
+              handleDownloadJsonSchema("domain-models", domain.id, domain.name)
+            }
+          />
+        </TabsContent>
+      </Tabs>
+      <DeleteImpactDialog
+        target={deleteTarget}
+        impact={deleteImpact}
+        isDeleting={isDeleting}
+        blockWithDependents={blockDeleteWithDependents}
+        onBlockWithDependentsChange={handleBlockDeleteChange}
+        onConfirm={handleConfirmDelete}
+        onClose={() => {
+          if (isDeleting) return;
+          setDeleteTarget(null);
+          setDeleteImpact(null);
+        }}
+      />
+      <RevisionHistoryDialog
+        target={historyTarget}
+        onLoadRevisions={handleLoadRevisions}
+        onLoadRevision={handleLoadRevision}
+        onRestore={handleRestoreRevision}
+        onClose={() => setHistoryTarget(null)}
+      />
+      <DomainReleaseDialog
+        target={releaseTarget}
+        onLoadReleases={handleLoadReleases}
+        onPublish={handlePublishRelease}
+        onClose={() => setReleaseTarget(null)}
+      />
+      <DomainGraphDialog
+        domain={domainModels.find((domain) => domain.id === domainGraphId) ?? null}
+        storageModels={storageModels}
+        viewModels={viewModels}
+        formModels={formModels}
+        operationModels={operationModels}
+        onLink={handleLinkDomainResources}
+        onClose={() => setDomainGraphId(null)}
+      />
+      <DomainLineageDialog
+        domain={lineageTarget}
+        onLoad={handleLoadDomainLineage}
+        onClose={() => setLineageTarget(null)}
+      />
+      <WorkspaceTransferDialog
+        open={isTransferOpen}
+        models={transferModels}
+        onExport={handleExportWorkspace}
+        onImport={handleImportWorkspace}
+        onWriteMirror={handleWriteMirror}
+        onLoadMirror={handleLoadMirror}
+        onClose={() => setIsTransferOpen(false)}
+      />
+      <PrismaSchemaDialog
+        model={prismaSchemaTarget}
+        onLoad={handleLoadPrismaSchema}
+        onClose={() => setPrismaSchemaTarget(null)}
+      />
+      <ErDiagramDialog model={erDiagramTarget} onClose={() => setErDiagramTarget(null)} />
+      <StorageTableEditorDialog
+        target={tableEditorTarget}
+        onSave={handleSaveStorageTable}
+        onDelete={handleDeleteStorageTable}
+        onClose={() => setTableEditorTarget(null)}
+      />
+      <StorageMigrationDialog
+        model={migrationTarget}
+        onLoad={handleLoadMigration}
+        onResetBaseline={handleResetMigrationBaseline}
+        onClose={() => setMigrationTarget(null)}
+      />
+      <OpenApiImportDialog
+        model={openApiImportTarget}
+        onImport={handleImportOpenApi}
+        onClose={() => setOpenApiImportTarget(null)}
+      />
+      <DataDictionaryDialog
+        model={dataDictionaryTarget}
+        onDownload={handleDownloadDataDictionary}
+        onClose={() => setDataDictionaryTarget(null)}
+      />
+    </>
   );
 }
 
@@ -847,6 +2093,26 @@ interface StorageModelsTabProps {
   setFormState: Dispatch<SetStateAction<StorageImportFormState>>;
   onSubmit: (event: React.FormEvent<HTMLFormElement>) => Promise<void>;
   isSubmitting: boolean;
+  ddlSkipped: DdlSkippedStatement[];
+  onDismissDdlSkipped: () => void;
+  onResync: (storageModelId: string, request: StorageSyncRequest) => Promise<StorageSyncDiff | null>;
+  onClearCredential: (storageModelId: string) => Promise<void>;
+  onUpdate: (
+    storageModelId: string,
+    changes: { name: string; description: string }
+  ) => Promise<boolean>;
+  onDelete: (model: StorageModel) => Promise<void>;
+  onShowHistory: (model: StorageModel) => void;
+  onShowPrismaSchema: (model: StorageModel) => void;
+  onShowErDiagram: (model: StorageModel) => void;
+  onDownloadOpenApi: (model: StorageModel) => void;
+  onImportOpenApi: (model: StorageModel) => void;
+  onShowDataDictionary: (model: StorageModel) => void;
+  onEditTable: (model: StorageModel, table: StorageTable | null) => void;
+  onShowMigration: (model: StorageModel) => void;
+  connectionOverview: DatabaseOverview | null;
+  onTestConnection: () => Promise<void>;
+  isTestingConnection: boolean;
 }
 
 function StorageModelsTab({
@@ -854,19 +2120,77 @@ function StorageModelsTab({
   formState,
   setFormState,
   onSubmit,
-  isSubmitting
+  isSubmitting,
+  ddlSkipped,
+  onDismissDdlSkipped,
+  onResync,
+  onClearCredential,
+  onUpdate,
+  onDelete,
+  onShowHistory,
+  onShowPrismaSchema,
+  onShowErDiagram,
+  onDownloadOpenApi,
+  onImportOpenApi,
+  onShowDataDictionary,
+  onEditTable,
+  onShowMigration,
+  connectionOverview,
+  onTestConnection,
+  isTestingConnection
 }: StorageModelsTabProps) {
+  const [syncModelId, setSyncModelId] = useState<string | null>(null);
+  const [editModelId, setEditModelId] = useState<string | null>(null);
+  const isDdl = formState.source === "ddl";
+  const dialectOptions = isDdl ? DDL_DIALECT_OPTIONS : STORAGE_DIALECT_OPTIONS;
+
+  const handleDdlFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const text = await file.text();
+      setFormState((prev) => ({
+        ...prev,
+        ddl: text,
+        name: prev.name || file.name.replace(/\.sql$/i, "")
+      }));
+    } catch {
+      toast.error("读取 SQL 文件失败");
+    }
+  };
+
   return (
     <div className="grid gap-6 lg:grid-cols-[360px,1fr]">
       <Card>
         <CardHeader>
           <CardTitle>数据库快速建模</CardTitle>
           <CardDescription>
-            通过连接 MySQL 数据库自动生成数据存储模型，默认同步库内全部数据表与字段。
+            通过连接 MySQL、PostgreSQL 数据库、读取 SQLite 文件或解析 DDL 脚本自动生成数据存储模型，默认同步全部数据表与字段。
           </CardDescription>
         </CardHeader>
         <CardContent>
           <form className="space-y-4" onSubmit={onSubmit}>
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                type="button"
+                variant={isDdl ? "outline" : "default"}
+                onClick={() => setFormState({ ...formState, source: "database" })}
+              >
+                连接数据库
+              </Button>
+              <Button
+                type="button"
+                variant={isDdl ? "default" : "outline"}
+                onClick={() =>
+                  setFormState({
+                    ...formState,
+                    source: "ddl",
+                    dialect: formState.dialect === "sqlite" ? "mysql" : formState.dialect
+                  })
+                }
+              >
+                DDL 脚本
+              </Button>
+            </div>
             <div className="space-y-2">
               <Label htmlFor="storage-name">模型名称</Label>
               <Input
@@ -890,73 +2214,279 @@ function StorageModelsTab({
               />
             </div>
             <Separator />
-            <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="db-host">数据库地址</Label>
-                <Input
-                  id="db-host"
-                  placeholder="例如：127.0.0.1"
-                  value={formState.host}
-                  onChange={(event) =>
-                    setFormState({ ...formState, host: event.target.value })
-                  }
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="db-port">端口</Label>
-                <Input
-                  id="db-port"
-                  placeholder="默认 3306"
-                  value={formState.port}
-                  onChange={(event) =>
-                    setFormState({ ...formState, port: event.target.value })
-                  }
-                />
-              </div>
+            <div className="space-y-2">
+              <Label>数据库类型</Label>
+              <Select
+                value={formState.dialect}
+                onValueChange={(value) => {
+                  const target = STORAGE_DIALECT_OPTIONS.find((option) => option.value === value);
+                  const previous = STORAGE_DIALECT_OPTIONS.find(
+                    (option) => option.value === formState.dialect
+                  );
+                  setFormState({
+                    ...formState,
+                    dialect: value as StorageDialect,
+                    port:
+                      !formState.port || formState.port === previous?.port
+                        ? target?.port ?? formState.port
+                        : formState.port
+                  });
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="请选择数据库类型" />
+                </SelectTrigger>
+                <SelectContent>
+                  {dialectOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
-            <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="db-user">用户名</Label>
-                <Input
-                  id="db-user"
-                  placeholder="数据库用户"
-                  value={formState.user}
-                  onChange={(event) =>
-                    setFormState({ ...formState, user: event.target.value })
-                  }
-                />
-              </div>
+            {isDdl ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="ddl-database">数据库名称</Label>
+                  <Input
+                    id="ddl-database"
+                    placeholder="默认使用模型名称"
+                    value={formState.database}
+                    onChange={(event) =>
+                      setFormState({ ...formState, database: event.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ddl-file">上传 SQL 文件</Label>
+                  <Input
+                    key={formState.ddl ? "loaded" : "empty"}
+                    id="ddl-file"
+                    type="file"
+                    accept=".sql,.ddl,.txt"
+                    onChange={(event) => handleDdlFile(event.target.files?.[0])}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ddl-script">DDL 脚本</Label>
+                  <Textarea
+                    id="ddl-script"
+                    className="min-h-[200px] font-mono text-xs"
+                    placeholder="粘贴 CREATE TABLE 语句，或 mysqldump / pg_dump --schema-only 导出内容"
+                    value={formState.ddl}
+                    onChange={(event) =>
+                      setFormState({ ...formState, ddl: event.target.value })
+                    }
+                  />
+                </div>
+              </>
+            ) : formState.dialect === "sqlite" ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="sqlite-file">上传数据库文件</Label>
+                  <Input
+                    key={formState.sqliteFile ? "selected" : "empty"}
+                    id="sqlite-file"
+                    type="file"
+                    accept=".db,.db3,.sqlite,.sqlite3,.s3db"
+                    onChange={(event) =>
+                      setFormState({
+                        ...formState,
+                        sqliteFile: event.target.files?.[0] ?? null
+                      })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sqlite-path">或填写服务端文件路径</Label>
+                  <Input
+                    id="sqlite-path"
+                    placeholder="相对 SQLITE_IMPORT_ROOT，例如：app.sqlite"
+                    value={formState.sqlitePath}
+                    disabled={Boolean(formState.sqliteFile)}
+                    onChange={(event) =>
+                      setFormState({ ...formState, sqlitePath: event.target.value })
+                    }
+                  />
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="db-host">数据库地址</Label>
+                    <Input
+                      id="db-host"
+                      placeholder="例如：127.0.0.1"
+                      value={formState.host}
+                      onChange={(event) =>
+                        setFormState({ ...formState, host: event.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="db-port">端口</Label>
+                    <Input
+                      id="db-port"
+                      placeholder={`默认 ${
+                        STORAGE_DIALECT_OPTIONS.find((option) => option.value === formState.dialect)
+                          ?.port ?? "3306"
+                      }`}
+                      value={formState.port}
+                      onChange={(event) =>
+                        setFormState({ ...formState, port: event.target.value })
+                      }
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="db-user">用户名</Label>
+                    <Input
+                      id="db-user"
+                      placeholder="数据库用户"
+                      value={formState.user}
+                      onChange={(event) =>
+                        setFormState({ ...formState, user: event.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="db-password">密码</Label>
+                    <Input
+                      id="db-password"
+                      type="password"
+                      placeholder="数据库密码"
+                      value={formState.password}
+                      onChange={(event) =>
+                        setFormState({ ...formState, password: event.target.value })
+                      }
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="db-database">数据库名称</Label>
+                  <Input
+                    id="db-database"
+                    placeholder="需要同步的数据库"
+                    value={formState.database}
+                    onChange={(event) =>
+                      setFormState({ ...formState, database: event.target.value })
+                    }
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={formState.rememberPassword}
+                    onChange={(event) =>
+                      setFormState({ ...formState, rememberPassword: event.target.checked })
+                    }
+                  />
+                  加密保存密码，后续同步无需重新输入
+                </label>
+              </>
+            )}
+            {!isDdl && formState.dialect === "postgresql" ? (
               <div className="space-y-2">
-                <Label htmlFor="db-password">密码</Label>
+                <Label htmlFor="db-schema">Schema</Label>
                 <Input
-                  id="db-password"
-                  type="password"
-                  placeholder="数据库密码"
-                  value={formState.password}
+                  id="db-schema"
+                  placeholder="默认 public"
+                  value={formState.schema}
                   onChange={(event) =>
-                    setFormState({ ...formState, password: event.target.value })
+                    setFormState({ ...formState, schema: event.target.value })
                   }
                 />
+                {connectionOverview?.schemas.length ? (
+                  <div className="flex flex-wrap gap-1">
+                    {connectionOverview.schemas.map((schemaName) => (
+                      <Badge
+                        key={schemaName}
+                        variant={formState.schema === schemaName ? "default" : "outline"}
+                        className="cursor-pointer"
+                        onClick={() => setFormState({ ...formState, schema: schemaName })}
+                      >
+                        {schemaName}
+                      </Badge>
+                    ))}
+                  </div>
+                ) : null}
               </div>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="db-database">数据库名称</Label>
-              <Input
-                id="db-database"
-                placeholder="需要同步的数据库"
-                value={formState.database}
-                onChange={(event) =>
-                  setFormState({ ...formState, database: event.target.value })
-                }
-              />
-            </div>
+            ) : null}
+            {!isDdl && formState.dialect !== "sqlite" ? (
+              <>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={onTestConnection}
+                  disabled={isTestingConnection}
+                >
+                  {isTestingConnection ? "连接中..." : "测试连接并浏览数据表"}
+                </Button>
+                {connectionOverview ? (
+                  <TableSelectionPanel
+                    overview={connectionOverview}
+                    formState={formState}
+                    setFormState={setFormState}
+                  />
+                ) : null}
+              </>
+            ) : null}
             <Button type="submit" className="w-full" disabled={isSubmitting}>
-              {isSubmitting ? "生成中..." : "连接并生成模型"}
+              {isSubmitting
+                ? "生成中..."
+                : isDdl
+                  ? "解析脚本并生成模型"
+                  : formState.dialect === "sqlite"
+                  ? "读取文件并生成模型"
+                  : "连接并生成模型"}
             </Button>
           </form>
         </CardContent>
       </Card>
       <div className="space-y-4">
+        {ddlSkipped.length ? (
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle>已跳过的 DDL 语句</CardTitle>
+                <CardDescription>
+                  以下 {ddlSkipped.length} 条语句未参与建模，请确认是否影响表结构。
+                </CardDescription>
+              </div>
+              <Button type="button" variant="outline" size="sm" onClick={onDismissDdlSkipped}>
+                关闭
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>语句</TableHead>
+                    <TableHead className="w-[220px]">原因</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ddlSkipped.map((item, index) => (
+                    <TableRow key={`${index}-${item.statement.slice(0, 32)}`}>
+                      <TableCell
+                        className="max-w-[420px] truncate font-mono text-xs"
+                        title={item.statement}
+                      >
+                        {item.statement}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{item.reason}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ) : null}
         {storageModels.length === 0 ? (
           <Card>
             <CardHeader>
@@ -974,20 +2504,83 @@ function StorageModelsTab({
                   <CardTitle className="flex items-center gap-2">
                     {model.name}
                     <Badge variant="secondary">{model.database}</Badge>
+                    {model.hasCredential ? <Badge variant="outline">已保存凭据</Badge> : null}
                   </CardTitle>
                   {model.description ? (
                     <CardDescription>{model.description}</CardDescription>
                   ) : null}
                 </div>
-                <div className="text-sm text-muted-foreground">
-                  最近更新：{formatDate(model.updatedAt)}
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-muted-foreground">
+                    最近更新：{formatDate(model.updatedAt)}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setSyncModelId(syncModelId === model.id ? null : model.id)}
+                  >
+                    {syncModelId === model.id ? "取消同步" : "重新同步"}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setEditModelId(editModelId === model.id ? null : model.id)}
+                  >
+                    {editModelId === model.id ? "取消编辑" : "编辑"}
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onShowErDiagram(model)}>
+                    ER 图
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onShowPrismaSchema(model)}>
+                    Prisma Schema
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onDownloadOpenApi(model)}>
+                    OpenAPI
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onImportOpenApi(model)}>
+                    导入 OpenAPI
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onShowDataDictionary(model)}>
+                    数据字典
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onShowHistory(model)}>
+                    历史版本
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => onDelete(model)}>
+                    删除
+                  </Button>
                 </div>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
-                  <span>数据表：{model.tables.length} 个</span>
-                  <span>视图：{model.views.length} 个</span>
-                  <span>操作：{model.operations.length} 个</span>
+                {editModelId === model.id ? (
+                  <StorageModelEditPanel
+                    model={model}
+                    onUpdate={onUpdate}
+                    onClose={() => setEditModelId(null)}
+                  />
+                ) : null}
+                {syncModelId === model.id ? (
+                  <StorageSyncPanel
+                    model={model}
+                    onResync={onResync}
+                    onClearCredential={onClearCredential}
+                    onClose={() => setSyncModelId(null)}
+                  />
+                ) : null}
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                    <span>数据表：{model.tables.length} 个</span>
+                    <span>视图：{model.views.length} 个</span>
+                    <span>操作：{model.operations.length} 个</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={() => onEditTable(model, null)}>
+                      新增数据表
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => onShowMigration(model)}>
+                      迁移脚本
+                    </Button>
+                  </div>
                 </div>
                 {model.tables.map((table) => (
                   <div key={table.id} className="rounded-lg border p-4">
@@ -1004,6 +2597,9 @@ function StorageModelsTab({
                         <span>字段：{extractColumns(table).length}</span>
                         <span>视图：{table.views.length}</span>
                         <span>表单：{table.forms.length}</span>
+                        <Button variant="ghost" size="sm" onClick={() => onEditTable(model, table)}>
+                          编辑表结构
+                        </Button>
                       </div>
                     </div>
                     <Separator className="my-3" />
@@ -1031,6 +2627,25 @@ function StorageModelsTab({
                         ))}
                       </TableBody>
                     </Table>
+                    {table.foreignKeys.length || table.indexes.length ? (
+                      <div className="mt-3 flex flex-wrap gap-2 text-xs">
+                        {table.foreignKeys.map((foreignKey, index) => (
+                          <Badge key={`fk-${foreignKey.name ?? index}`} variant="outline">
+                            外键：{foreignKey.columns.join(", ")} →{" "}
+                            {foreignKey.referencedSchema ? `${foreignKey.referencedSchema}.` : ""}
+                            {foreignKey.referencedTable}
+                            {foreignKey.referencedColumns.length
+                              ? `(${foreignKey.referencedColumns.join(", ")})`
+                              : ""}
+                          </Badge>
+                        ))}
+                        {table.indexes.map((index) => (
+                          <Badge key={`idx-${index.name}`} variant="secondary">
+                            {index.unique ? "唯一索引" : "索引"}：{index.name}（{index.columns.join(", ")}）
+                          </Badge>
+                        ))}
+                      </div>
+                    ) : null}
                   </div>
                 ))}
               </CardContent>
@@ -1051,6 +2666,11 @@ interface ViewModelsTabProps {
   toggleColumn: (column: string) => void;
   columns: ColumnMeta[];
   isSubmitting: boolean;
+  onGeneratePageConfig: (view: ViewModel) => Promise<AdminTableGenerationResult | null>;
+  onEdit: (view: ViewModel) => void;
+  onCancelEdit: () => void;
+  onDelete: (view: ViewModel) => Promise<void>;
+  onShowHistory: (view: ViewModel) => void;
 }
 
 function ViewModelsTab({
@@ -1061,15 +2681,43 @@ function ViewModelsTab({
   onSubmit,
   toggleColumn,
   columns,
-  isSubmitting
+  isSubmitting,
+  onGeneratePageConfig,
+  onEdit,
+  onCancelEdit,
+  onDelete,
+  onShowHistory
 }: ViewModelsTabProps) {
   const selectedModel = storageModels.find((model) => model.id === formState.storageModelId);
+  const [pageConfigs, setPageConfigs] = useState<Record<string, string>>({});
+  const [generatingViewId, setGeneratingViewId] = useState<string | null>(null);
+
+  const handleGenerate = async (view: ViewModel) => {
+    setGeneratingViewId(view.id);
+    const result = await onGeneratePageConfig(view);
+    setGeneratingViewId(null);
+    if (result) {
+      setPageConfigs((prev) => ({
+        ...prev,
+        [view.id]: JSON.stringify(result.config, null, 2)
+      }));
+    }
+  };
+
+  const handleCopy = async (viewId: string) => {
+    try {
+      await navigator.clipboard.writeText(pageConfigs[viewId] ?? "");
+      toast.success("页面配置已复制");
+    } catch (error) {
+      toast.error("复制失败，请手动选择内容");
+    }
+  };
 
   return (
     <div className="grid gap-6 lg:grid-cols-[360px,1fr]">
       <Card>
         <CardHeader>
-          <CardTitle>设计数据展示视图</CardTitle>
+          <CardTitle>{formState.editingId ? "编辑数据展示视图" : "设计数据展示视图"}</CardTitle>
           <CardDescription>
             基于数据存储模型选择数据表及展示字段，快速生成列表视图配置。
           </CardDescription>
@@ -1182,9 +2830,20 @@ function ViewModelsTab({
                 )}
               </div>
             </div>
-            <Button type="submit" className="w-full" disabled={isSubmitting}>
-              {isSubmitting ? "创建中..." : "生成视图模型"}
-            </Button>
+            <div className="flex gap-2">
+              <Button type="submit" className="flex-1" disabled={isSubmitting}>
+                {isSubmitting
+                  ? "保存中..."
+                  : formState.editingId
+                    ? "保存修改"
+                    : "生成视图模型"}
+              </Button>
+              {formState.editingId ? (
+                <Button type="button" variant="outline" onClick={onCancelEdit}>
+                  取消编辑
+                </Button>
+              ) : null}
+            </div>
           </form>
         </CardContent>
       </Card>
@@ -1208,8 +2867,27 @@ function ViewModelsTab({
                     <CardDescription>{view.description}</CardDescription>
                   ) : null}
                 </div>
-                <div className="text-sm text-muted-foreground">
-                  更新于：{formatDate(view.updatedAt)}
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-muted-foreground">
+                    更新于：{formatDate(view.updatedAt)}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleGenerate(view)}
+                    disabled={generatingViewId === view.id}
+                  >
+                    {generatingViewId === view.id ? "生成中..." : "生成页面配置"}
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onEdit(view)}>
+                    编辑
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onShowHistory(view)}>
+                    历史版本
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => onDelete(view)}>
+                    删除
+                  </Button>
                 </div>
               </CardHeader>
               <CardContent className="space-y-3">
@@ -1244,6 +2922,19 @@ function ViewModelsTab({
                     </TableBody>
                   </Table>
                 </div>
+                {pageConfigs[view.id] ? (
+                  <div className="rounded-md border p-3">
+                    <div className="mb-2 flex items-center justify-between">
+                      <h4 className="text-sm font-semibold">AdminTablePageConfig</h4>
+                      <Button variant="ghost" size="sm" onClick={() => handleCopy(view.id)}>
+                        复制
+                      </Button>
+                    </div>
+                    <pre className="max-h-80 overflow-auto text-xs text-muted-foreground">
+                      {pageConfigs[view.id]}
+                    </pre>
+                  </div>
+                ) : null}
               </CardContent>
             </Card>
           ))
@@ -1262,6 +2953,11 @@ interface FormModelsTabProps {
   onFieldChange: (column: string, partial: Partial<FormDesignerField>) => void;
   onSubmit: (event: React.FormEvent<HTMLFormElement>) => Promise<void>;
   isSubmitting: boolean;
+  onEdit: (form: FormModel) => void;
+  onCancelEdit: () => void;
+  onDelete: (form: FormModel) => Promise<void>;
+  onShowHistory: (form: FormModel) => void;
+  onDownloadJsonSchema: (form: FormModel) => void;
 }
 
 function FormModelsTab({
@@ -1272,7 +2968,12 @@ function FormModelsTab({
   columns,
   onFieldChange,
   onSubmit,
-  isSubmitting
+  isSubmitting,
+  onEdit,
+  onCancelEdit,
+  onDelete,
+  onShowHistory,
+  onDownloadJsonSchema
 }: FormModelsTabProps) {
   const selectedModel = storageModels.find((model) => model.id === designerState.storageModelId);
 
@@ -1280,7 +2981,7 @@ function FormModelsTab({
     <div className="grid gap-6 lg:grid-cols-[360px,1fr]">
       <Card>
         <CardHeader>
-          <CardTitle>设计提交表单</CardTitle>
+          <CardTitle>{designerState.editingId ? "编辑提交表单" : "设计提交表单"}</CardTitle>
           <CardDescription>
             选择数据表字段并定义校验、控件类型，生成可复用的数据提交表单模型。
           </CardDescription>
@@ -1453,9 +3154,20 @@ function FormModelsTab({
                 )}
               </div>
             </div>
-            <Button type="submit" className="w-full" disabled={isSubmitting}>
-              {isSubmitting ? "创建中..." : "生成表单模型"}
-            </Button>
+            <div className="flex gap-2">
+              <Button type="submit" className="flex-1" disabled={isSubmitting}>
+                {isSubmitting
+                  ? "保存中..."
+                  : designerState.editingId
+                    ? "保存修改"
+                    : "生成表单模型"}
+              </Button>
+              {designerState.editingId ? (
+                <Button type="button" variant="outline" onClick={onCancelEdit}>
+                  取消编辑
+                </Button>
+              ) : null}
+            </div>
           </form>
         </CardContent>
       </Card>
@@ -1477,8 +3189,22 @@ function FormModelsTab({
                     <CardDescription>{form.description}</CardDescription>
                   ) : null}
                 </div>
-                <div className="text-sm text-muted-foreground">
-                  更新于：{formatDate(form.updatedAt)}
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-muted-foreground">
+                    更新于：{formatDate(form.updatedAt)}
+                  </span>
+                  <Button variant="outline" size="sm" onClick={() => onEdit(form)}>
+                    编辑
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onDownloadJsonSchema(form)}>
+                    JSON Schema
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onShowHistory(form)}>
+                    历史版本
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => onDelete(form)}>
+                    删除
+                  </Button>
                 </div>
               </CardHeader>
               <CardContent className="space-y-3">
@@ -1534,6 +3260,10 @@ interface OperationModelsTabProps {
   onSubmit: (event: React.FormEvent<HTMLFormElement>) => Promise<void>;
   onSyncRequestSchema: (formModelId: string | null) => void;
   isSubmitting: boolean;
+  onEdit: (operation: OperationModel) => void;
+  onCancelEdit: () => void;
+  onDelete: (operation: OperationModel) => Promise<void>;
+  onShowHistory: (operation: OperationModel) => void;
 }
 
 function OperationModelsTab({
@@ -1544,13 +3274,17 @@ function OperationModelsTab({
   setState,
   onSubmit,
   onSyncRequestSchema,
-  isSubmitting
+  isSubmitting,
+  onEdit,
+  onCancelEdit,
+  onDelete,
+  onShowHistory
 }: OperationModelsTabProps) {
   return (
     <div className="grid gap-6 lg:grid-cols-[360px,1fr]">
       <Card>
         <CardHeader>
-          <CardTitle>设计数据操作</CardTitle>
+          <CardTitle>{state.editingId ? "编辑数据操作" : "设计数据操作"}</CardTitle>
           <CardDescription>
             配置 CRUD 或自定义接口操作，可绑定已有表单模型自动生成参数结构。
           </CardDescription>
@@ -1697,9 +3431,16 @@ function OperationModelsTab({
                 }
               />
             </div>
-            <Button type="submit" className="w-full" disabled={isSubmitting}>
-              {isSubmitting ? "创建中..." : "创建操作模型"}
-            </Button>
+            <div className="flex gap-2">
+              <Button type="submit" className="flex-1" disabled={isSubmitting}>
+                {isSubmitting ? "保存中..." : state.editingId ? "保存修改" : "创建操作模型"}
+              </Button>
+              {state.editingId ? (
+                <Button type="button" variant="outline" onClick={onCancelEdit}>
+                  取消编辑
+                </Button>
+              ) : null}
+            </div>
           </form>
         </CardContent>
       </Card>
@@ -1727,8 +3468,19 @@ function OperationModelsTab({
                     <CardDescription>{operation.description}</CardDescription>
                   ) : null}
                 </div>
-                <div className="text-sm text-muted-foreground">
-                  更新于：{formatDate(operation.updatedAt)}
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-muted-foreground">
+                    更新于：{formatDate(operation.updatedAt)}
+                  </span>
+                  <Button variant="outline" size="sm" onClick={() => onEdit(operation)}>
+                    编辑
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onShowHistory(operation)}>
+                    历史版本
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => onDelete(operation)}>
+                    删除
+                  </Button>
                 </div>
               </CardHeader>
               <CardContent className="space-y-3">
@@ -1786,6 +3538,16 @@ interface DomainModelsTabProps {
   onToggleSelection: (key: DomainSelectionKey, id: string, value: boolean) => void;
   onSubmit: (event: React.FormEvent<HTMLFormElement>) => Promise<void>;
   isSubmitting: boolean;
+  onEdit: (domain: DomainModel) => void;
+  onCancelEdit: () => void;
+  onDelete: (domain: DomainModel) => Promise<void>;
+  onShowHistory: (domain: DomainModel) => void;
+  onShowReleases: (domain: DomainModel) => void;
+  onShowGraph: (domain: DomainModel) => void;
+  onShowLineage: (domain: DomainModel) => void;
+  onDownloadOpenApi: (domain: DomainModel) => void;
+  onDownloadTypeScript: (domain: DomainModel) => void;
+  onDownloadJsonSchema: (domain: DomainModel) => void;
 }
 
 function DomainModelsTab({
@@ -1801,13 +3563,27 @@ function DomainModelsTab({
   onRemoveField,
   onToggleSelection,
   onSubmit,
-  isSubmitting
+  isSubmitting,
+  onEdit,
+  onCancelEdit,
+  onDelete,
+  onShowHistory,
+  onShowReleases,
+  onShowGraph,
+  onShowLineage,
+  onDownloadOpenApi,
+  onDownloadTypeScript,
+  onDownloadJsonSchema
 }: DomainModelsTabProps) {
+  const linkedTables = storageModels.flatMap((model) =>
+    model.tables.filter((table) => state.storageTableSelections[table.id])
+  );
+
   return (
     <div className="grid gap-6 lg:grid-cols-[360px,1fr]">
       <Card>
         <CardHeader>
-          <CardTitle>构建业务领域</CardTitle>
+          <CardTitle>{state.editingId ? "编辑业务领域" : "构建业务领域"}</CardTitle>
           <CardDescription>
             通过定义业务字段并关联已有模型，形成面向业务的领域描述。
           </CardDescription>
@@ -1911,6 +3687,11 @@ function DomainModelsTab({
                         />
                         <span>标记为必填字段</span>
                       </label>
+                      <DomainFieldSourcesEditor
+                        sources={field.sources}
+                        tables={linkedTables}
+                        onChange={(sources) => onUpdateField(field.id, { sources })}
+                      />
                     </div>
                   ))}
                 </div>
@@ -2027,9 +3808,16 @@ function DomainModelsTab({
                 </div>
               )}
             </div>
-            <Button type="submit" className="w-full" disabled={isSubmitting}>
-              {isSubmitting ? "创建中..." : "创建领域模型"}
-            </Button>
+            <div className="flex gap-2">
+              <Button type="submit" className="flex-1" disabled={isSubmitting}>
+                {isSubmitting ? "保存中..." : state.editingId ? "保存修改" : "创建领域模型"}
+              </Button>
+              {state.editingId ? (
+                <Button type="button" variant="outline" onClick={onCancelEdit}>
+                  取消编辑
+                </Button>
+              ) : null}
+            </div>
           </form>
         </CardContent>
       </Card>
@@ -2051,8 +3839,37 @@ function DomainModelsTab({
                     <CardDescription>{domain.description}</CardDescription>
                   ) : null}
                 </div>
-                <div className="text-sm text-muted-foreground">
-                  更新于：{formatDate(domain.updatedAt)}
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-muted-foreground">
+                    更新于：{formatDate(domain.updatedAt)}
+                  </span>
+                  <Button variant="outline" size="sm" onClick={() => onEdit(domain)}>
+                    编辑
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onShowGraph(domain)}>
+                    关系图
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onShowLineage(domain)}>
+                    字段血缘
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onShowReleases(domain)}>
+                    发布
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onDownloadOpenApi(domain)}>
+                    OpenAPI
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onDownloadTypeScript(domain)}>
+                    TypeScript
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onDownloadJsonSchema(domain)}>
+                    JSON Schema
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onShowHistory(domain)}>
+                    历史版本
+                  </Button>
+                  <Button variant="destructive" size="sm" onClick={() => onDelete(domain)}>
+                    删除
+                  </Button>
                 </div>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import type { StorageModel } from "@/types/models";
+import type { DataDictionaryFormat, DataDictionarySheet } from "@/types/data-dictionary";
+
+interface DataDictionaryDialogProps {
+  model: StorageModel | null;
+  onDownload: (
+    model: StorageModel,
+    format: DataDictionaryFormat,
+    sheet?: DataDictionarySheet
+  ) => Promise<void>;
+  onClose: () => void;
+}
+
+const DATA_DICTIONARY_DOWNLOADS: Array<{
+  label: string;
+  description: string;
+  format: DataDictionaryFormat;
+  sheet?: DataDictionarySheet;
+}> = [
+  { label: "HTML", description: "带目录与筛选的单页文档，可直接在浏览器中查阅", format: "html" },
+  { label: "Markdown", description: "适合提交到代码仓库或粘贴到 Wiki", format: "markdown" },
+  {
+    label: "CSV（字段）",
+    description: "每个字段一行，可用 Excel 打开",
+    format: "csv",
+    sheet: "columns"
+  },
+  { label: "CSV（数据表）", description: "每张数据表一行的概览", format: "csv", sheet: "tables" }
+];
+
+export function DataDictionaryDialog({ model, onDownload, onClose }: DataDictionaryDialogProps) {
+  const [pending, setPending] = useState<string | null>(null);
+
+  const handleDownload = async (
+    label: string,
+    format: DataDictionaryFormat,
+    sheet?: DataDictionarySheet
+  ) => {
+    if (!model) return;
+    setPending(label);
+    await onDownload(model, format, sheet);
+    setPending(null);
+  };
+
+  return (
+    <Dialog
+      open={Boolean(model)}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>「{model?.name}」数据字典</DialogTitle>
+          <DialogDescription>
+            包含全部数据表的字段、约束与说明，以及每个字段被哪些视图、表单与操作使用。
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          {DATA_DICTIONARY_DOWNLOADS.map((item) => (
+            <div
+              key={item.label}
+              className="flex items-center justify-between gap-3 rounded-md border p-3"
+            >
+              <div>
+                <p className="text-sm font-medium">{item.label}</p>
+                <p className="text-xs text-muted-foreground">{item.description}</p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={pending !== null}
+                onClick={() => handleDownload(item.label, item.format, item.sheet)}
+              >
+                {pending === item.label ? "生成中..." : "下载"}
+              </Button>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          {model ? (
+            <Button variant="outline" asChild>
+              <a
+                href={`/api/data-dictionary?${new URLSearchParams({
+                  storageModelId: model.id,
+                  format: "html"
+                })}`}
+                target="_blank"
+                rel="noreferrer"
+              >
+                在新窗口打开
+              </a>
+            </Button>
+          ) : null}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
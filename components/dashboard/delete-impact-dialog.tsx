@@ -0,0 +1,125 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import type { ModelTarget } from "@/components/dashboard/types";
+import { MODEL_KIND_META } from "@/components/dashboard/utils";
+import type { DeleteImpact } from "@/types/delete-impact";
+
+interface DeleteImpactDialogProps {
+  target: ModelTarget | null;
+  impact: DeleteImpact | null;
+  isDeleting: boolean;
+  blockWithDependents: boolean;
+  onBlockWithDependentsChange: (checked: boolean) => void;
+  onConfirm: () => Promise<void>;
+  onClose: () => void;
+}
+
+const DELETE_IMPACT_SECTIONS: Array<{
+  key: keyof Pick<DeleteImpact, "tables" | "views" | "forms" | "operations" | "domains">;
+  label: string;
+  effect: string;
+}> = [
+  { key: "tables", label: "数据表", effect: "将被一并删除" },
+  { key: "views", label: "视图模型", effect: "将被级联删除" },
+  { key: "forms", label: "表单模型", effect: "将被级联删除" },
+  { key: "operations", label: "操作模型", effect: "将解除与被删除资源的绑定" },
+  { key: "domains", label: "业务领域", effect: "将移除对被删除资源的关联" }
+];
+
+export function DeleteImpactDialog({
+  target,
+  impact,
+  isDeleting,
+  blockWithDependents,
+  onBlockWithDependentsChange,
+  onConfirm,
+  onClose
+}: DeleteImpactDialogProps) {
+  const label = target ? MODEL_KIND_META[target.kind].label : "";
+  const blocked = Boolean(impact?.hasDependents && blockWithDependents);
+
+  return (
+    <Dialog
+      open={Boolean(target)}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>
+            删除{label}「{target?.name}」
+          </DialogTitle>
+          <DialogDescription>删除后无法恢复，请确认以下影响范围。</DialogDescription>
+        </DialogHeader>
+        {!impact ? (
+          <p className="text-sm text-muted-foreground">正在分析依赖关系...</p>
+        ) : (
+          <div className="max-h-80 space-y-3 overflow-auto">
+            {impact.hasDependents || impact.tables.length ? (
+              DELETE_IMPACT_SECTIONS.filter((section) => impact[section.key].length).map(
+                (section) => (
+                  <div key={section.key} className="rounded-md border p-3 text-sm">
+                    <div className="font-medium">
+                      {section.label}（{impact[section.key].length}）
+                      <span className="ml-2 font-normal text-muted-foreground">
+                        {section.effect}
+                      </span>
+                    </div>
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {impact[section.key].map((item) => (
+                        <Badge key={item.id} variant="outline">
+                          {item.name}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )
+              )
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                没有其他模型依赖该条目，可以安全删除。
+              </p>
+            )}
+          </div>
+        )}
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          <input
+            type="checkbox"
+            className="h-4 w-4"
+            checked={blockWithDependents}
+            onChange={(event) => onBlockWithDependentsChange(event.target.checked)}
+          />
+          存在依赖时阻止删除
+        </label>
+        {blocked ? (
+          <p className="text-sm text-destructive">
+            当前条目仍被其他模型依赖，请先解除依赖后再删除。
+          </p>
+        ) : null}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isDeleting}>
+            取消
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={onConfirm}
+            disabled={!impact || blocked || isDeleting}
+          >
+            {isDeleting ? "删除中..." : "确认删除"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import type { DomainFieldSourceDraft } from "@/components/dashboard/types";
+import type { StorageTable } from "@/types/models";
+
+interface DomainFieldSourcesEditorProps {
+  sources: DomainFieldSourceDraft[];
+  /** 已勾选关联到领域的数据表 */
+  tables: StorageTable[];
+  onChange: (sources: DomainFieldSourceDraft[]) => void;
+}
+
+export function DomainFieldSourcesEditor({
+  sources,
+  tables,
+  onChange
+}: DomainFieldSourcesEditorProps) {
+  const updateSource = (index: number, changes: Partial<DomainFieldSourceDraft>) => {
+    onChange(
+      sources.map((source, position) => (position === index ? { ...source, ...changes } : source))
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs">来源字段</Label>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          disabled={tables.length === 0}
+          onClick={() =>
+            onChange([
+              ...sources,
+              { storageTableId: tables.length === 1 ? tables[0].id : "", column: "", transform: "" }
+            ])
+          }
+        >
+          添加来源
+        </Button>
+      </div>
+      {sources.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          {tables.length ? "尚未映射到数据表字段" : "勾选下方关联数据表后可映射来源字段"}
+        </p>
+      ) : null}
+      {sources.map((source, index) => {
+        const table = tables.find((item) => item.id === source.storageTableId);
+        return (
+          <div key={index} className="space-y-2 rounded-md bg-muted/40 p-2">
+            <div className="grid gap-2 md:grid-cols-[1fr_1fr_auto]">
+              <Select
+                value={source.storageTableId}
+                onValueChange={(value) =>
+                  updateSource(index, { storageTableId: value, column: "" })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="数据表" />
+                </SelectTrigger>
+                <SelectContent>
+                  {tables.map((item) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={source.column}
+                onValueChange={(value) => updateSource(index, { column: value })}
+                disabled={!table}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="字段" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(table?.schema?.columns ?? []).map((column) => (
+                    <SelectItem key={column.name} value={column.name}>
+                      {column.name}
+                      {column.comment ? `（${column.comment}）` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange(sources.filter((_, position) => position !== index))}
+              >
+                移除
+              </Button>
+            </div>
+            <Input
+              value={source.transform}
+              placeholder="可选：转换说明，如 first_name 与 last_name 拼接"
+              onChange={(event) => updateSource(index, { transform: event.target.value })}
+            />
+            {source.storageTableId && !table ? (
+              <p className="text-xs text-destructive">
+                来源数据表未关联到领域，请重新选择或勾选该表
+              </p>
+            ) : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
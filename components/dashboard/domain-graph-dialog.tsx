@@ -0,0 +1,235 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  buildDomainGraph,
+  DOMAIN_GRAPH_NODE_HEIGHT,
+  DOMAIN_GRAPH_NODE_WIDTH,
+  type DomainGraphNode,
+  type DomainGraphNodeKind
+} from "@/lib/domain-graph";
+import type {
+  DomainModel,
+  FormModel,
+  OperationModel,
+  StorageModel,
+  ViewModel
+} from "@/types/models";
+
+export type DomainLinkAdditions = {
+  storageTableIds?: string[];
+  viewModelIds?: string[];
+  formModelIds?: string[];
+  operationModelIds?: string[];
+};
+
+const DOMAIN_GRAPH_KIND_LABELS: Record<DomainGraphNodeKind, string> = {
+  domain: "业务领域",
+  field: "业务字段",
+  table: "数据表",
+  view: "视图",
+  form: "表单",
+  operation: "操作"
+};
+
+const DOMAIN_GRAPH_LINK_KEYS: Partial<Record<DomainGraphNodeKind, keyof DomainLinkAdditions>> = {
+  table: "storageTableIds",
+  view: "viewModelIds",
+  form: "formModelIds",
+  operation: "operationModelIds"
+};
+
+function truncateText(value: string, length: number) {
+  return value.length > length ? `${value.slice(0, length - 1)}…` : value;
+}
+
+function toDomainLinkAdditions(nodes: DomainGraphNode[]) {
+  return nodes.reduce<DomainLinkAdditions>((acc, node) => {
+    const key = DOMAIN_GRAPH_LINK_KEYS[node.kind];
+    return key ? { ...acc, [key]: [...(acc[key] ?? []), node.refId] } : acc;
+  }, {});
+}
+
+interface DomainGraphDialogProps {
+  domain: DomainModel | null;
+  storageModels: StorageModel[];
+  viewModels: ViewModel[];
+  formModels: FormModel[];
+  operationModels: OperationModel[];
+  onLink: (domain: DomainModel, additions: DomainLinkAdditions) => Promise<boolean>;
+  onClose: () => void;
+}
+
+export function DomainGraphDialog({
+  domain,
+  storageModels,
+  viewModels,
+  formModels,
+  operationModels,
+  onLink,
+  onClose
+}: DomainGraphDialogProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLinking, setIsLinking] = useState(false);
+  const domainId = domain?.id;
+
+  useEffect(() => {
+    setSelectedId(null);
+  }, [domainId]);
+
+  const graph = useMemo(
+    () =>
+      domain
+        ? buildDomainGraph(domain, { storageModels, viewModels, formModels, operationModels })
+        : null,
+    [domain, formModels, operationModels, storageModels, viewModels]
+  );
+
+  const nodesById = useMemo(
+    () => new Map((graph?.nodes ?? []).map((node) => [node.id, node])),
+    [graph]
+  );
+  const suggestions = (graph?.nodes ?? []).filter((node) => node.status === "suggested");
+  const selected = selectedId ? (nodesById.get(selectedId) ?? null) : null;
+
+  const handleLink = async (nodes: DomainGraphNode[]) => {
+    if (!domain || nodes.length === 0) return;
+    setIsLinking(true);
+    await onLink(domain, toDomainLinkAdditions(nodes));
+    setIsLinking(false);
+  };
+
+  return (
+    <Dialog
+      open={Boolean(domain)}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>「{domain?.name}」关系图</DialogTitle>
+          <DialogDescription>
+            连线表示数据表支撑视图与表单、表单支撑操作；虚线框为与已关联资源相关但尚未关联到领域的资源，点击可查看原因并关联。
+          </DialogDescription>
+        </DialogHeader>
+        {graph ? (
+          <div className="max-h-[60vh] overflow-auto rounded-md border bg-muted/30">
+            <svg width={graph.width} height={graph.height} className="text-xs">
+              {graph.edges.map((edge) => {
+                const from = nodesById.get(edge.from);
+                const to = nodesById.get(edge.to);
+                if (!from || !to) return null;
+                const forward = from.x <= to.x;
+                const x1 = forward ? from.x + DOMAIN_GRAPH_NODE_WIDTH : from.x;
+                const x2 = forward ? to.x : to.x + DOMAIN_GRAPH_NODE_WIDTH;
+                const y1 = from.y + DOMAIN_GRAPH_NODE_HEIGHT / 2;
+                const y2 = to.y + DOMAIN_GRAPH_NODE_HEIGHT / 2;
+                const bend = (x2 - x1) / 2;
+                const highlighted = selectedId === edge.from || selectedId === edge.to;
+                return (
+                  <path
+                    key={edge.id}
+                    d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                    fill="none"
+                    stroke={highlighted ? "#4f46e5" : edge.suggested ? "#f59e0b" : "#9ca3af"}
+                    strokeWidth={highlighted ? 2 : 1.2}
+                    strokeDasharray={edge.suggested ? "5 4" : undefined}
+                  />
+                );
+              })}
+              {graph.nodes.map((node) => (
+                <g
+                  key={node.id}
+                  className="cursor-pointer"
+                  onClick={() => setSelectedId(node.id === selectedId ? null : node.id)}
+                >
+                  <rect
+                    x={node.x}
+                    y={node.y}
+                    width={DOMAIN_GRAPH_NODE_WIDTH}
+                    height={DOMAIN_GRAPH_NODE_HEIGHT}
+                    rx={6}
+                    fill={
+                      node.status === "domain"
+                        ? "#eef2ff"
+                        : node.status === "suggested"
+                          ? "#fffbeb"
+                          : "#ffffff"
+                    }
+                    stroke={
+                      node.id === selectedId
+                        ? "#4f46e5"
+                        : node.status === "suggested"
+                          ? "#f59e0b"
+                          : "#d1d5db"
+                    }
+                    strokeWidth={node.id === selectedId ? 2 : 1}
+                    strokeDasharray={node.status === "suggested" ? "5 3" : undefined}
+                  />
+                  <text x={node.x + 10} y={node.y + 18} fontWeight={600} fill="#111827">
+                    {truncateText(node.label, 16)}
+                  </text>
+                  <text x={node.x + 10} y={node.y + 34} fill="#6b7280">
+                    {truncateText(
+                      [DOMAIN_GRAPH_KIND_LABELS[node.kind], node.detail]
+                        .filter(Boolean)
+                        .join(" · "),
+                      26
+                    )}
+                  </text>
+                  <title>
+                    {[node.label, node.detail, ...node.reasons].filter(Boolean).join("\n")}
+                  </title>
+                </g>
+              ))}
+            </svg>
+          </div>
+        ) : null}
+        {selected ? (
+          <div className="flex items-start justify-between gap-3 rounded-md border p-3 text-sm">
+            <div className="space-y-1">
+              <p className="font-medium">
+                {DOMAIN_GRAPH_KIND_LABELS[selected.kind]}：{selected.label}
+              </p>
+              {selected.detail ? <p className="text-muted-foreground">{selected.detail}</p> : null}
+              {selected.reasons.map((reason) => (
+                <p key={reason} className="text-amber-600">
+                  {reason}
+                </p>
+              ))}
+            </div>
+            {selected.status === "suggested" ? (
+              <Button size="sm" disabled={isLinking} onClick={() => handleLink([selected])}>
+                关联到领域
+              </Button>
+            ) : null}
+          </div>
+        ) : null}
+        <DialogFooter className="items-center gap-2">
+          <span className="mr-auto text-sm text-muted-foreground">
+            {suggestions.length
+              ? `发现 ${suggestions.length} 个建议关联的资源`
+              : "没有待关联的相关资源"}
+          </span>
+          <Button
+            disabled={isLinking || suggestions.length === 0}
+            onClick={() => handleLink(suggestions)}
+          >
+            {isLinking ? "关联中..." : `全部关联（${suggestions.length}）`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { downloadFile } from "@/components/dashboard/utils";
+import type { DomainModel } from "@/types/models";
+import type { DomainLineage, DomainLineageUsage } from "@/types/domain-lineage";
+
+interface DomainLineageDialogProps {
+  domain: DomainModel | null;
+  onLoad: (domainId: string) => Promise<DomainLineage | null>;
+  onClose: () => void;
+}
+
+function LineageUsageBadges({ items }: { items: DomainLineageUsage[] }) {
+  if (items.length === 0) return <span className="text-muted-foreground">-</span>;
+  return (
+    <div className="flex flex-wrap gap-1">
+      {items.map((item) => (
+        <Badge
+          key={item.id}
+          variant={item.linked ? "secondary" : "outline"}
+          title={item.linked ? "已关联到领域" : "未关联到领域"}
+        >
+          {item.name}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+export function DomainLineageDialog({ domain, onLoad, onClose }: DomainLineageDialogProps) {
+  const [lineage, setLineage] = useState<DomainLineage | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setLineage(null);
+    if (!domain) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    onLoad(domain.id).then((result) => {
+      if (cancelled) return;
+      setLineage(result);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [domain, onLoad]);
+
+  const mappedCount = lineage?.fields.filter((field) => field.sources.length > 0).length ?? 0;
+
+  return (
+    <Dialog
+      open={Boolean(domain)}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>「{domain?.name}」字段血缘</DialogTitle>
+          <DialogDescription>
+            业务字段映射到的数据表字段，以及展示或录入这些字段的视图与表单；仅有边框的标签表示该视图或表单尚未关联到领域。
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">正在加载...</p>
+        ) : lineage ? (
+          <div className="max-h-[60vh] overflow-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>业务字段</TableHead>
+                  <TableHead>来源字段</TableHead>
+                  <TableHead>视图</TableHead>
+                  <TableHead>表单</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lineage.fields.flatMap((field) => {
+                  const label = (
+                    <TableCell rowSpan={Math.max(field.sources.length, 1)} className="align-top">
+                      <div className="font-medium">
+                        {field.name}
+                        {field.required ? <span className="text-destructive"> *</span> : null}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {field.key}
+                        {field.type ? ` · ${field.type}` : ""}
+                      </div>
+                    </TableCell>
+                  );
+                  if (field.sources.length === 0) {
+                    return [
+                      <TableRow key={field.key}>
+                        {label}
+                        <TableCell colSpan={3} className="text-amber-600">
+                          未映射到数据表字段
+                        </TableCell>
+                      </TableRow>
+                    ];
+                  }
+                  return field.sources.map((source, index) => (
+                    <TableRow key={`${field.key}:${source.storageTableId}:${source.column}`}>
+                      {index === 0 ? label : null}
+                      <TableCell className="align-top">
+                        <div className="font-mono text-xs">
+                          {source.tableName ?? source.storageTableId}.{source.column}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {[source.storageModel?.name, source.columnType]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </div>
+                        {source.transform ? (
+                          <div className="text-xs">转换：{source.transform}</div>
+                        ) : null}
+                        {source.issues.map((issue) => (
+                          <div key={issue} className="text-xs text-destructive">
+                            {issue}
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="align-top">
+                        <LineageUsageBadges items={source.views} />
+                      </TableCell>
+                      <TableCell className="align-top">
+                        <LineageUsageBadges items={source.forms} />
+                      </TableCell>
+                    </TableRow>
+                  ));
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        ) : null}
+        <DialogFooter className="items-center gap-2">
+          {lineage ? (
+            <span className="mr-auto text-sm text-muted-foreground">
+              已映射 {mappedCount} / {lineage.fields.length} 个业务字段
+            </span>
+          ) : null}
+          <Button
+            variant="outline"
+            disabled={!lineage}
+            onClick={() =>
+              domain &&
+              lineage &&
+              downloadFile(
+                `${domain.name}.lineage.json`,
+                JSON.stringify(lineage, null, 2),
+                "application/json"
+              )
+            }
+          >
+            下载 JSON
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
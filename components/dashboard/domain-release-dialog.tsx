@@ -0,0 +1,211 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { formatDate } from "@/components/dashboard/utils";
+import type { DomainReleaseChange, DomainReleaseSummary } from "@/types/releases";
+import type { ModelReference } from "@/types/storage-sync";
+
+export type ReleasePublishRequest = {
+  version: string;
+  bump: "major" | "minor" | "patch";
+  notes: string;
+};
+
+interface DomainReleaseDialogProps {
+  target: ModelReference | null;
+  onLoadReleases: (domainModelId: string) => Promise<DomainReleaseSummary[] | null>;
+  onPublish: (
+    domainModelId: string,
+    request: ReleasePublishRequest
+  ) => Promise<DomainReleaseSummary | null>;
+  onClose: () => void;
+}
+
+const RELEASE_SECTION_LABELS: Record<DomainReleaseChange["section"], string> = {
+  domain: "业务领域",
+  storageTables: "数据表",
+  viewModels: "视图模型",
+  formModels: "表单模型",
+  operationModels: "操作模型"
+};
+
+const RELEASE_CHANGE_LABELS: Record<DomainReleaseChange["type"], string> = {
+  added: "新增",
+  removed: "移除",
+  changed: "修改"
+};
+
+const DEFAULT_RELEASE_REQUEST: ReleasePublishRequest = {
+  version: "",
+  bump: "patch",
+  notes: ""
+};
+
+export function DomainReleaseDialog({
+  target,
+  onLoadReleases,
+  onPublish,
+  onClose
+}: DomainReleaseDialogProps) {
+  const [releases, setReleases] = useState<DomainReleaseSummary[] | null>(null);
+  const [request, setRequest] = useState<ReleasePublishRequest>(DEFAULT_RELEASE_REQUEST);
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  useEffect(() => {
+    setReleases(null);
+    setRequest(DEFAULT_RELEASE_REQUEST);
+    if (!target) return;
+
+    let cancelled = false;
+    onLoadReleases(target.id).then((result) => {
+      if (!cancelled) setReleases(result ?? []);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [onLoadReleases, target]);
+
+  const handlePublish = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!target) return;
+
+    setIsPublishing(true);
+    const release = await onPublish(target.id, request);
+    setIsPublishing(false);
+    if (release) {
+      setReleases((prev) => [release, ...(prev ?? [])]);
+      setRequest(DEFAULT_RELEASE_REQUEST);
+    }
+  };
+
+  return (
+    <Dialog
+      open={Boolean(target)}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>发布业务领域「{target?.name}」</DialogTitle>
+          <DialogDescription>
+            发布会将领域模型及其关联的数据表、视图、表单与操作固化为不可变版本，前端可通过
+            <code className="mx-1">/api/releases/{target?.id}/版本号</code>锁定使用。
+          </DialogDescription>
+        </DialogHeader>
+        <form className="grid gap-3 rounded-md border p-3 md:grid-cols-3" onSubmit={handlePublish}>
+          <div className="space-y-2">
+            <Label htmlFor="release-version">版本号</Label>
+            <Input
+              id="release-version"
+              placeholder="留空则自动递增"
+              value={request.version}
+              onChange={(event) => setRequest((prev) => ({ ...prev, version: event.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>自动递增</Label>
+            <Select
+              value={request.bump}
+              onValueChange={(value) =>
+                setRequest((prev) => ({ ...prev, bump: value as ReleasePublishRequest["bump"] }))
+              }
+              disabled={Boolean(request.version.trim())}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="patch">修订号（patch）</SelectItem>
+                <SelectItem value="minor">次版本号（minor）</SelectItem>
+                <SelectItem value="major">主版本号（major）</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 md:col-span-3">
+            <Label htmlFor="release-notes">发布说明</Label>
+            <Textarea
+              id="release-notes"
+              rows={2}
+              value={request.notes}
+              onChange={(event) => setRequest((prev) => ({ ...prev, notes: event.target.value }))}
+            />
+          </div>
+          <div className="md:col-span-3">
+            <Button type="submit" disabled={isPublishing}>
+              {isPublishing ? "发布中..." : "发布新版本"}
+            </Button>
+          </div>
+        </form>
+        <div className="max-h-80 space-y-3 overflow-auto">
+          {!releases ? (
+            <p className="text-sm text-muted-foreground">正在读取发布记录...</p>
+          ) : releases.length === 0 ? (
+            <p className="text-sm text-muted-foreground">尚未发布任何版本。</p>
+          ) : (
+            releases.map((release) => (
+              <div key={release.id} className="space-y-2 rounded-md border p-3 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge>{release.version}</Badge>
+                  <span className="text-muted-foreground">
+                    {formatDate(release.createdAt)}
+                    {release.author ? ` · ${release.author}` : ""}
+                    {release.previousVersion ? ` · 基于 ${release.previousVersion}` : " · 首个版本"}
+                  </span>
+                  <a
+                    className="ml-auto text-primary underline-offset-4 hover:underline"
+                    href={`/api/releases/${release.domainModelId}/${release.version}`}
+                    target="_blank"
+                    rel="noreferrer"
+                  >
+                    查看发布包
+                  </a>
+                </div>
+                {release.notes ? <p className="whitespace-pre-wrap">{release.notes}</p> : null}
+                {release.changelog.length ? (
+                  <ul className="space-y-1 text-muted-foreground">
+                    {release.changelog.map((change) => (
+                      <li key={`${change.section}-${change.id}`}>
+                        {RELEASE_CHANGE_LABELS[change.type]}
+                        {RELEASE_SECTION_LABELS[change.section]}「{change.name}」
+                        {change.properties?.length ? `：${change.properties.join("、")}` : null}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-muted-foreground">与上一版本相比没有变更。</p>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            关闭
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,338 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { downloadFile } from "@/components/dashboard/utils";
+import {
+  buildErDiagram,
+  layoutErDiagram,
+  measureErLayout,
+  renderErDiagramSvg,
+  renderMermaidErDiagram,
+  type ErLayout
+} from "@/lib/generators/er-diagram";
+import { matchesTablePattern } from "@/lib/introspection/pattern";
+import type { StorageModel } from "@/types/models";
+
+interface ErDiagramDialogProps {
+  model: StorageModel | null;
+  onClose: () => void;
+}
+
+type ErDiagramView = { x: number; y: number; scale: number };
+
+type ErDiagramDrag = {
+  startX: number;
+  startY: number;
+  originX: number;
+  originY: number;
+  /** 拖动的数据表，为空时平移画布 */
+  tableId: string | null;
+};
+
+export function ErDiagramDialog({ model, onClose }: ErDiagramDialogProps) {
+  const [tableIds, setTableIds] = useState<string[]>([]);
+  const [keyword, setKeyword] = useState("");
+  const [includeRelated, setIncludeRelated] = useState(false);
+  const [inferRelations, setInferRelations] = useState(true);
+  const [positions, setPositions] = useState<Record<string, { x: number; y: number }>>({});
+  const [view, setView] = useState<ErDiagramView>({ x: 0, y: 0, scale: 1 });
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<ErDiagramDrag | null>(null);
+
+  useEffect(() => {
+    setTableIds(model ? model.tables.map((table) => table.id) : []);
+    setKeyword("");
+    setIncludeRelated(false);
+    setPositions({});
+  }, [model]);
+
+  const matchedTables = useMemo(() => {
+    const tables = model?.tables ?? [];
+    const value = keyword.trim();
+    if (!value) return tables;
+    return tables.filter((table) =>
+      /[*?]/.test(value)
+        ? matchesTablePattern(table.name, value)
+        : table.name.toLowerCase().includes(value.toLowerCase())
+    );
+  }, [keyword, model]);
+
+  const diagram = useMemo(() => {
+    const tables = model?.tables ?? [];
+    const visible = new Set(tableIds);
+    if (includeRelated) {
+      // 补上与已选数据表直接关联的表
+      buildErDiagram(tables, { inferRelations }).relations.forEach((relation) => {
+        if (tableIds.includes(relation.from)) visible.add(relation.to);
+        if (tableIds.includes(relation.to)) visible.add(relation.from);
+      });
+    }
+    return buildErDiagram(
+      tables.filter((table) => visible.has(table.id)),
+      { inferRelations }
+    );
+  }, [includeRelated, inferRelations, model, tableIds]);
+
+  const autoLayout = useMemo(() => layoutErDiagram(diagram), [diagram]);
+
+  const layout = useMemo(() => {
+    const result: ErLayout = {};
+    Object.keys(autoLayout).forEach((id) => {
+      result[id] = { ...autoLayout[id], ...positions[id] };
+    });
+    return result;
+  }, [autoLayout, positions]);
+
+  const svg = useMemo(() => renderErDiagramSvg(diagram, layout), [diagram, layout]);
+
+  const fitView = useCallback((target: ErLayout) => {
+    const canvas = canvasRef.current;
+    const { width, height } = measureErLayout(target);
+    if (!canvas || !width || !height) {
+      setView({ x: 0, y: 0, scale: 1 });
+      return;
+    }
+    const scale = Math.min(canvas.clientWidth / width, canvas.clientHeight / height, 1);
+    setView({
+      x: (canvas.clientWidth - width * scale) / 2,
+      y: (canvas.clientHeight - height * scale) / 2,
+      scale
+    });
+  }, []);
+
+  useEffect(() => {
+    fitView(autoLayout);
+  }, [autoLayout, fitView]);
+
+  const handleAutoLayout = () => {
+    setPositions({});
+    fitView(autoLayout);
+  };
+
+  const zoom = (factor: number, originX?: number, originY?: number) => {
+    const canvas = canvasRef.current;
+    setView((prev) => {
+      const scale = Math.min(3, Math.max(0.2, prev.scale * factor));
+      const x = originX ?? (canvas ? canvas.clientWidth / 2 : 0);
+      const y = originY ?? (canvas ? canvas.clientHeight / 2 : 0);
+      return {
+        scale,
+        x: x - ((x - prev.x) * scale) / prev.scale,
+        y: y - ((y - prev.y) * scale) / prev.scale
+      };
+    });
+  };
+
+  const handleWheel = (event: React.WheelEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    zoom(event.deltaY < 0 ? 1.1 : 1 / 1.1, event.clientX - rect.left, event.clientY - rect.top);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    const node = (event.target as Element).closest("[data-er-table]");
+    const tableId = node?.getAttribute("data-er-table") ?? null;
+    const origin = tableId ? layout[tableId] : view;
+    if (!origin) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = {
+      startX: event.clientX,
+      startY: event.clientY,
+      originX: origin.x,
+      originY: origin.y,
+      tableId
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = event.clientX - drag.startX;
+    const dy = event.clientY - drag.startY;
+    if (drag.tableId) {
+      const tableId = drag.tableId;
+      setPositions((prev) => ({
+        ...prev,
+        [tableId]: {
+          x: Math.max(0, drag.originX + dx / view.scale),
+          y: Math.max(0, drag.originY + dy / view.scale)
+        }
+      }));
+    } else {
+      setView((prev) => ({ ...prev, x: drag.originX + dx, y: drag.originY + dy }));
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const toggleTable = (tableId: string, checked: boolean) => {
+    setTableIds((prev) => (checked ? [...prev, tableId] : prev.filter((item) => item !== tableId)));
+  };
+
+  const handleCopyMermaid = async () => {
+    try {
+      await navigator.clipboard.writeText(renderMermaidErDiagram(diagram));
+      toast.success("Mermaid 文本已复制");
+    } catch (error) {
+      toast.error("复制失败，请下载后使用");
+    }
+  };
+
+  const inferredCount = diagram.relations.filter((relation) => relation.inferred).length;
+
+  return (
+    <Dialog
+      open={Boolean(model)}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>「{model?.name}」的 ER 图</DialogTitle>
+          <DialogDescription>
+            实线为数据库中的外键约束，虚线为按 *_id
+            命名推断的关系；滚轮缩放，拖动空白处平移，拖动数据表调整位置。
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 lg:grid-cols-[220px_1fr]">
+          <div className="space-y-3 text-sm">
+            <Input
+              value={keyword}
+              onChange={(event) => setKeyword(event.target.value)}
+              placeholder="筛选表名，支持 order_*"
+            />
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setTableIds((prev) =>
+                    Array.from(new Set([...prev, ...matchedTables.map((table) => table.id)]))
+                  )
+                }
+              >
+                全选
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setTableIds([])}>
+                清空
+              </Button>
+            </div>
+            <div className="max-h-[40vh] space-y-1 overflow-auto rounded-md border p-2">
+              {matchedTables.map((table) => (
+                <label key={table.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={tableIds.includes(table.id)}
+                    onChange={(event) => toggleTable(table.id, event.target.checked)}
+                  />
+                  <span className="truncate">{table.name}</span>
+                </label>
+              ))}
+            </div>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                className="h-4 w-4"
+                checked={includeRelated}
+                onChange={(event) => setIncludeRelated(event.target.checked)}
+              />
+              包含直接关联的数据表
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                className="h-4 w-4"
+                checked={inferRelations}
+                onChange={(event) => setInferRelations(event.target.checked)}
+              />
+              按 *_id 命名推断关系
+            </label>
+            <p className="text-muted-foreground">
+              {diagram.entities.length} 张数据表，{diagram.relations.length} 条关系
+              {inferredCount ? `（推断 ${inferredCount} 条）` : ""}
+            </p>
+          </div>
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => zoom(1.2)}>
+                放大
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => zoom(1 / 1.2)}>
+                缩小
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => fitView(layout)}>
+                适应窗口
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleAutoLayout}>
+                自动布局
+              </Button>
+            </div>
+            <div
+              ref={canvasRef}
+              className="relative h-[60vh] touch-none select-none overflow-hidden rounded-md border bg-muted/30"
+              onWheel={handleWheel}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              {diagram.entities.length === 0 ? (
+                <p className="p-4 text-sm text-muted-foreground">请至少选择一张数据表。</p>
+              ) : (
+                <div
+                  className="absolute left-0 top-0"
+                  style={{
+                    transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+                    transformOrigin: "0 0"
+                  }}
+                  // SVG 由生成器输出，表名与字段均已转义
+                  dangerouslySetInnerHTML={{ __html: svg }}
+                />
+              )}
+            </div>
+          </div>
+        </div>
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={handleCopyMermaid}
+            disabled={diagram.entities.length === 0}
+          >
+            复制 Mermaid
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() =>
+              model &&
+              downloadFile(`${model.name}.mmd`, renderMermaidErDiagram(diagram), "text/plain")
+            }
+            disabled={diagram.entities.length === 0}
+          >
+            下载 Mermaid
+          </Button>
+          <Button
+            onClick={() => model && downloadFile(`${model.name}.er.svg`, svg, "image/svg+xml")}
+            disabled={diagram.entities.length === 0}
+          >
+            下载 SVG
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import type { StorageModel } from "@/types/models";
+import type { OpenApiImportAction, OpenApiImportResult } from "@/types/openapi-import";
+
+const OPENAPI_IMPORT_ACTION_LABELS: Record<OpenApiImportAction, string> = {
+  create: "新建",
+  update: "更新",
+  unchanged: "无变化"
+};
+
+interface OpenApiImportDialogProps {
+  model: StorageModel | null;
+  onImport: (
+    storageModelId: string,
+    content: string,
+    apply: boolean
+  ) => Promise<OpenApiImportResult | null>;
+  onClose: () => void;
+}
+
+export function OpenApiImportDialog({ model, onImport, onClose }: OpenApiImportDialogProps) {
+  const [content, setContent] = useState("");
+  const [preview, setPreview] = useState<OpenApiImportResult | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setContent("");
+    setPreview(null);
+  }, [model]);
+
+  const handleFileChange = async (file: File | undefined) => {
+    setPreview(null);
+    setContent(file ? await file.text() : "");
+  };
+
+  const handleSubmit = async (apply: boolean) => {
+    if (!model || !content.trim()) return;
+    setIsSubmitting(true);
+    const result = await onImport(model.id, content, apply);
+    setIsSubmitting(false);
+    if (!result) return;
+    if (apply) {
+      onClose();
+    } else {
+      setPreview(result);
+    }
+  };
+
+  const pendingCount = preview?.items.filter((item) => item.action !== "unchanged").length ?? 0;
+
+  return (
+    <Dialog
+      open={Boolean(model)}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>导入 OpenAPI 到「{model?.name}」</DialogTitle>
+          <DialogDescription>
+            支持 OpenAPI 3.x 与 Swagger 2.0 的 JSON / YAML
+            文件。按请求方法与路径匹配已有操作，重复导入会更新而不是新建。
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <Input
+            type="file"
+            accept=".json,.yaml,.yml,application/json"
+            onChange={(event) => handleFileChange(event.target.files?.[0])}
+          />
+          <Textarea
+            value={content}
+            onChange={(event) => {
+              setContent(event.target.value);
+              setPreview(null);
+            }}
+            placeholder="或直接粘贴 OpenAPI 文件内容"
+            className="h-40 font-mono text-xs"
+          />
+        </div>
+        {preview ? (
+          <div className="max-h-72 space-y-2 overflow-auto text-sm">
+            {preview.title ? (
+              <p className="text-muted-foreground">
+                {preview.title}
+                {preview.version ? ` · ${preview.version}` : ""}
+              </p>
+            ) : null}
+            {preview.warnings.map((warning) => (
+              <p key={warning} className="text-amber-600">
+                {warning}
+              </p>
+            ))}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>名称</TableHead>
+                  <TableHead>类型</TableHead>
+                  <TableHead>接口</TableHead>
+                  <TableHead>结果</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.items.map((item) => (
+                  <TableRow key={`${item.method} ${item.endpoint}`}>
+                    <TableCell>{item.name}</TableCell>
+                    <TableCell>{item.type}</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {item.method} {item.endpoint}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={item.action === "unchanged" ? "outline" : "secondary"}>
+                        {OPENAPI_IMPORT_ACTION_LABELS[item.action]}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : null}
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => handleSubmit(false)}
+            disabled={!content.trim() || isSubmitting}
+          >
+            预览
+          </Button>
+          <Button
+            onClick={() => handleSubmit(true)}
+            disabled={!preview || !pendingCount || isSubmitting}
+          >
+            {isSubmitting ? "处理中..." : `确认导入（${pendingCount}）`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
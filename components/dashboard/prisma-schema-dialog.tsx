@@ -0,0 +1,132 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { downloadFile } from "@/components/dashboard/utils";
+import type { StorageModel } from "@/types/models";
+
+interface PrismaSchemaDialogProps {
+  model: StorageModel | null;
+  onLoad: (
+    storageModelId: string,
+    tableIds: string[],
+    includeDatasource: boolean
+  ) => Promise<string | null>;
+  onClose: () => void;
+}
+
+export function PrismaSchemaDialog({ model, onLoad, onClose }: PrismaSchemaDialogProps) {
+  const [tableIds, setTableIds] = useState<string[]>([]);
+  const [includeDatasource, setIncludeDatasource] = useState(false);
+  const [schema, setSchema] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    setTableIds(model ? model.tables.map((table) => table.id) : []);
+    setIncludeDatasource(false);
+  }, [model]);
+
+  useEffect(() => {
+    setSchema(null);
+    if (!model || tableIds.length === 0) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    // 全选时不传表名，避免表较多时查询串过长
+    const selected = tableIds.length === model.tables.length ? [] : tableIds;
+    onLoad(model.id, selected, includeDatasource).then((result) => {
+      if (cancelled) return;
+      setSchema(result);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [includeDatasource, model, onLoad, tableIds]);
+
+  const toggleTable = (tableId: string, checked: boolean) => {
+    setTableIds((prev) => (checked ? [...prev, tableId] : prev.filter((item) => item !== tableId)));
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(schema ?? "");
+      toast.success("Prisma Schema 已复制");
+    } catch (error) {
+      toast.error("复制失败，请手动选择内容");
+    }
+  };
+
+  return (
+    <Dialog
+      open={Boolean(model)}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>「{model?.name}」的 Prisma Schema</DialogTitle>
+          <DialogDescription>
+            根据数据表结构生成模型定义，蛇形命名的表与字段会转换为驼峰命名并通过 @map/@@map
+            保留原名。
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-wrap gap-x-4 gap-y-2 rounded-md border p-3 text-sm">
+          {model?.tables.map((table) => (
+            <label key={table.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                className="h-4 w-4"
+                checked={tableIds.includes(table.id)}
+                onChange={(event) => toggleTable(table.id, event.target.checked)}
+              />
+              {table.name}
+            </label>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            className="h-4 w-4"
+            checked={includeDatasource}
+            onChange={(event) => setIncludeDatasource(event.target.checked)}
+          />
+          包含 generator 与 datasource 配置
+        </label>
+        <div className="rounded-md border p-3">
+          {tableIds.length === 0 ? (
+            <p className="text-sm text-muted-foreground">请至少选择一张数据表。</p>
+          ) : isLoading ? (
+            <p className="text-sm text-muted-foreground">正在生成...</p>
+          ) : (
+            <pre className="max-h-[50vh] overflow-auto text-xs text-muted-foreground">{schema}</pre>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={handleCopy} disabled={!schema || isLoading}>
+            复制
+          </Button>
+          <Button
+            onClick={() =>
+              model && schema && downloadFile(`${model.name}.prisma`, schema, "text/plain")
+            }
+            disabled={!schema || isLoading}
+          >
+            下载
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
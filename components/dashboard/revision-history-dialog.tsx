@@ -0,0 +1,283 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import type { ModelTarget } from "@/components/dashboard/types";
+import { MODEL_KIND_META, formatDate } from "@/components/dashboard/utils";
+import { diffJson } from "@/lib/json-diff";
+import type { ModelRevision, ModelRevisionSummary, RevisionAction } from "@/types/revisions";
+
+const REVISION_ACTION_LABELS: Record<RevisionAction, string> = {
+  baseline: "初始版本",
+  create: "创建",
+  update: "修改",
+  sync: "重新同步",
+  restore: "恢复"
+};
+
+interface RevisionHistoryDialogProps {
+  target: ModelTarget | null;
+  onLoadRevisions: (target: ModelTarget) => Promise<ModelRevisionSummary[] | null>;
+  onLoadRevision: (target: ModelTarget, version: number) => Promise<ModelRevision | null>;
+  onRestore: (target: ModelTarget, version: number) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const DIFF_ROW_CLASSES: Record<"same" | "added" | "removed" | "changed", string> = {
+  same: "",
+  added: "bg-emerald-50",
+  removed: "bg-red-50",
+  changed: "bg-amber-50"
+};
+
+export function RevisionHistoryDialog({
+  target,
+  onLoadRevisions,
+  onLoadRevision,
+  onRestore,
+  onClose
+}: RevisionHistoryDialogProps) {
+  const [revisions, setRevisions] = useState<ModelRevisionSummary[] | null>(null);
+  const [snapshots, setSnapshots] = useState<Record<number, ModelRevision>>({});
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    setRevisions(null);
+    setSnapshots({});
+    if (!target) return;
+
+    let cancelled = false;
+    onLoadRevisions(target).then((result) => {
+      if (cancelled) return;
+      const list = result ?? [];
+      setRevisions(list);
+      // 默认对比最近两个版本
+      setToVersion(list[0]?.version ?? null);
+      setFromVersion(list[1]?.version ?? list[0]?.version ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [onLoadRevisions, reloadKey, target]);
+
+  useEffect(() => {
+    if (!target) return;
+    const missing = [fromVersion, toVersion].filter(
+      (version): version is number => version !== null && !snapshots[version]
+    );
+    if (!missing.length) return;
+
+    let cancelled = false;
+    Promise.all(missing.map((version) => onLoadRevision(target, version))).then((loaded) => {
+      if (cancelled) return;
+      setSnapshots((prev) => {
+        const next = { ...prev };
+        loaded.forEach((revision) => {
+          if (revision) next[revision.version] = revision;
+        });
+        return next;
+      });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [fromVersion, onLoadRevision, snapshots, target, toVersion]);
+
+  const diffRows = useMemo(() => {
+    const from = fromVersion !== null ? snapshots[fromVersion] : undefined;
+    const to = toVersion !== null ? snapshots[toVersion] : undefined;
+    if (!from || !to) return null;
+    return diffJson(from.snapshot, to.snapshot);
+  }, [fromVersion, snapshots, toVersion]);
+
+  const visibleRows = useMemo(
+    () => (showUnchanged ? diffRows : diffRows?.filter((row) => row.type !== "same")) ?? [],
+    [diffRows, showUnchanged]
+  );
+
+  const handleRestore = async (version: number) => {
+    if (!target) return;
+    setRestoringVersion(version);
+    const restored = await onRestore(target, version);
+    setRestoringVersion(null);
+    if (restored) {
+      setReloadKey((prev) => prev + 1);
+    }
+  };
+
+  const latestVersion = revisions?.[0]?.version;
+  const label = target ? MODEL_KIND_META[target.kind].label : "";
+
+  return (
+    <Dialog
+      open={Boolean(target)}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>
+            {label}「{target?.name}」的历史版本
+          </DialogTitle>
+          <DialogDescription>
+            每次创建、修改、重新同步或恢复都会保存一份不可变快照，恢复操作会生成新的版本。
+          </DialogDescription>
+        </DialogHeader>
+        {!revisions ? (
+          <p className="text-sm text-muted-foreground">正在读取历史版本...</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            暂无历史版本，下一次修改时会先记录当前状态作为初始版本。
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="max-h-56 overflow-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>版本</TableHead>
+                    <TableHead>变更</TableHead>
+                    <TableHead>操作人</TableHead>
+                    <TableHead>时间</TableHead>
+                    <TableHead className="text-right">操作</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {revisions.map((revision) => (
+                    <TableRow key={revision.id}>
+                      <TableCell className="font-mono">v{revision.version}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{REVISION_ACTION_LABELS[revision.action]}</Badge>
+                        {revision.restoredFrom ? (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            来自 v{revision.restoredFrom}
+                          </span>
+                        ) : null}
+                      </TableCell>
+                      <TableCell>{revision.author ?? "-"}</TableCell>
+                      <TableCell>{formatDate(revision.createdAt)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRestore(revision.version)}
+                          disabled={revision.version === latestVersion || restoringVersion !== null}
+                        >
+                          {restoringVersion === revision.version ? "恢复中..." : "恢复到此版本"}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <span>对比</span>
+              <Select
+                value={fromVersion !== null ? String(fromVersion) : undefined}
+                onValueChange={(value) => setFromVersion(Number(value))}
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue placeholder="旧版本" />
+                </SelectTrigger>
+                <SelectContent>
+                  {revisions.map((revision) => (
+                    <SelectItem key={revision.id} value={String(revision.version)}>
+                      v{revision.version}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span>与</span>
+              <Select
+                value={toVersion !== null ? String(toVersion) : undefined}
+                onValueChange={(value) => setToVersion(Number(value))}
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue placeholder="新版本" />
+                </SelectTrigger>
+                <SelectContent>
+                  {revisions.map((revision) => (
+                    <SelectItem key={revision.id} value={String(revision.version)}>
+                      v{revision.version}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <label className="ml-auto flex items-center gap-2 text-muted-foreground">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={showUnchanged}
+                  onChange={(event) => setShowUnchanged(event.target.checked)}
+                />
+                显示未变更的行
+              </label>
+            </div>
+            {!diffRows ? (
+              <p className="text-sm text-muted-foreground">正在加载版本快照...</p>
+            ) : visibleRows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">两个版本内容一致。</p>
+            ) : (
+              <div className="max-h-80 overflow-auto rounded-md border font-mono text-xs">
+                <table className="w-full table-fixed border-collapse">
+                  <tbody>
+                    {visibleRows.map((row, index) => (
+                      <tr key={index} className={DIFF_ROW_CLASSES[row.type]}>
+                        <td className="w-10 select-none px-2 text-right text-muted-foreground">
+                          {row.leftLine ?? ""}
+                        </td>
+                        <td className="whitespace-pre-wrap break-all border-r px-2">
+                          {row.left ?? ""}
+                        </td>
+                        <td className="w-10 select-none px-2 text-right text-muted-foreground">
+                          {row.rightLine ?? ""}
+                        </td>
+                        <td className="whitespace-pre-wrap break-all px-2">{row.right ?? ""}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            关闭
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { downloadFile, formatDate } from "@/components/dashboard/utils";
+import type { StorageModel } from "@/types/models";
+import type { StorageMigration, StorageMigrationMode } from "@/types/storage-design";
+
+const MIGRATION_MODE_OPTIONS: Array<{ value: StorageMigrationMode; label: string }> = [
+  { value: "migration", label: "迁移脚本（相对基线的变更）" },
+  { value: "ddl", label: "完整建表脚本" }
+];
+
+interface StorageMigrationDialogProps {
+  model: StorageModel | null;
+  onLoad: (storageModelId: string, mode: StorageMigrationMode) => Promise<StorageMigration | null>;
+  onResetBaseline: (storageModelId: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+export function StorageMigrationDialog({
+  model,
+  onLoad,
+  onResetBaseline,
+  onClose
+}: StorageMigrationDialogProps) {
+  const [mode, setMode] = useState<StorageMigrationMode>("migration");
+  const [migration, setMigration] = useState<StorageMigration | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [isResetting, setIsResetting] = useState(false);
+
+  useEffect(() => {
+    setMode("migration");
+  }, [model]);
+
+  useEffect(() => {
+    setMigration(null);
+    if (!model) return;
+
+    let cancelled = false;
+    onLoad(model.id, mode).then((result) => {
+      if (!cancelled) setMigration(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [model, mode, onLoad, reloadKey]);
+
+  const handleResetBaseline = async () => {
+    if (!model) return;
+    setIsResetting(true);
+    const reset = await onResetBaseline(model.id);
+    setIsResetting(false);
+    if (reset) setReloadKey((key) => key + 1);
+  };
+
+  return (
+    <Dialog
+      open={Boolean(model)}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>「{model?.name}」的 SQL 脚本</DialogTitle>
+          <DialogDescription>
+            迁移脚本对比最近一次导入、同步或标记为已执行时的表结构生成，只供下载，不会在数据库上执行。
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-wrap items-center gap-3">
+          <Select value={mode} onValueChange={(value) => setMode(value as StorageMigrationMode)}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MIGRATION_MODE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {mode === "migration" && migration ? (
+            <span className="text-sm text-muted-foreground">
+              {migration.baselineAt
+                ? `基线记录于 ${formatDate(migration.baselineAt)}`
+                : "基线之后尚未修改表结构"}
+            </span>
+          ) : null}
+        </div>
+        <div className="rounded-md border p-3">
+          {migration ? (
+            <pre className="max-h-[50vh] overflow-auto text-xs text-muted-foreground">
+              {migration.sql}
+            </pre>
+          ) : (
+            <p className="text-sm text-muted-foreground">正在生成...</p>
+          )}
+        </div>
+        <DialogFooter className="gap-2">
+          {mode === "migration" ? (
+            <Button
+              variant="outline"
+              onClick={handleResetBaseline}
+              disabled={!migration?.hasChanges || isResetting}
+            >
+              {isResetting ? "处理中..." : "已在数据库执行，设为新基线"}
+            </Button>
+          ) : null}
+          <Button
+            onClick={() =>
+              model &&
+              migration &&
+              downloadFile(
+                `${model.name}-${mode === "ddl" ? "schema" : "migration"}.sql`,
+                migration.sql,
+                "text/plain"
+              )
+            }
+            disabled={!migration || (mode === "migration" && !migration.hasChanges)}
+          >
+            下载 SQL
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { StorageModel } from "@/types/models";
+
+interface StorageModelEditPanelProps {
+  model: StorageModel;
+  onUpdate: (
+    storageModelId: string,
+    changes: { name: string; description: string }
+  ) => Promise<boolean>;
+  onClose: () => void;
+}
+
+export function StorageModelEditPanel({ model, onUpdate, onClose }: StorageModelEditPanelProps) {
+  const [name, setName] = useState(model.name);
+  const [description, setDescription] = useState(model.description ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved = await onUpdate(model.id, { name, description });
+    setIsSaving(false);
+    if (saved) {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-dashed p-4">
+      <p className="text-sm text-muted-foreground">
+        数据表结构由导入或重新同步维护，这里仅修改模型名称与描述。
+      </p>
+      <div className="space-y-2">
+        <Label htmlFor={`storage-edit-name-${model.id}`}>模型名称</Label>
+        <Input
+          id={`storage-edit-name-${model.id}`}
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`storage-edit-desc-${model.id}`}>模型描述</Label>
+        <Textarea
+          id={`storage-edit-desc-${model.id}`}
+          value={description}
+          onChange={(event) => setDescription(event.target.value)}
+        />
+      </div>
+      <Button type="button" onClick={handleSave} disabled={isSaving}>
+        {isSaving ? "保存中..." : "保存修改"}
+      </Button>
+    </div>
+  );
+}
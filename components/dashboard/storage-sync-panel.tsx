@@ -0,0 +1,256 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { StorageModel } from "@/types/models";
+import type { StorageSyncDiff, StorageSyncSourceKind } from "@/types/storage-sync";
+
+export type StorageSyncRequest = {
+  password?: string;
+  rememberPassword?: boolean;
+  ddl?: string;
+  apply: boolean;
+  force?: boolean;
+  fingerprint?: string;
+};
+
+function getSyncSourceKind(model: StorageModel): StorageSyncSourceKind | null {
+  if (model.connection?.startsWith("sqlite://")) return "sqlite";
+  if (model.connection) return "connection";
+  const dialect =
+    model.schema && typeof model.schema === "object"
+      ? (model.schema as Record<string, unknown>).dialect
+      : undefined;
+  return dialect === "sqlite" ? null : "ddl";
+}
+
+interface StorageSyncPanelProps {
+  model: StorageModel;
+  onResync: (
+    storageModelId: string,
+    request: StorageSyncRequest
+  ) => Promise<StorageSyncDiff | null>;
+  onClearCredential: (storageModelId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+export function StorageSyncPanel({
+  model,
+  onResync,
+  onClearCredential,
+  onClose
+}: StorageSyncPanelProps) {
+  const sourceKind = getSyncSourceKind(model);
+  const [password, setPassword] = useState("");
+  const [rememberPassword, setRememberPassword] = useState(false);
+  const [ddl, setDdl] = useState("");
+  const [diff, setDiff] = useState<StorageSyncDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const request = {
+    password: sourceKind === "connection" && password ? password : undefined,
+    rememberPassword: sourceKind === "connection" && password ? rememberPassword : undefined,
+    ddl: sourceKind === "ddl" ? ddl : undefined
+  };
+
+  const handlePreview = async () => {
+    if (sourceKind === "ddl" && !ddl.trim()) {
+      toast.error("请粘贴最新的 DDL 脚本");
+      return;
+    }
+    setIsLoading(true);
+    const result = await onResync(model.id, { ...request, apply: false });
+    setDiff(result);
+    setIsLoading(false);
+  };
+
+  const handleApply = async () => {
+    if (!diff) return;
+    setIsLoading(true);
+    const result = await onResync(model.id, {
+      ...request,
+      apply: true,
+      force: diff.warnings.length > 0,
+      fingerprint: diff.fingerprint
+    });
+    setIsLoading(false);
+    if (result) {
+      onClose();
+    } else {
+      // 应用失败（如数据源已变化）时需重新预览
+      setDiff(null);
+    }
+  };
+
+  if (!sourceKind) {
+    return (
+      <div className="rounded-lg border border-dashed p-4 text-sm text-muted-foreground">
+        该模型由上传的 SQLite 文件生成，无法重新读取数据源，请重新导入。
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 rounded-lg border border-dashed p-4">
+      <div className="space-y-1">
+        <h4 className="font-semibold">重新同步数据源</h4>
+        <p className="text-sm text-muted-foreground">
+          重新读取数据源并与当前表结构比对，确认差异后原地更新，已有数据表的视图、表单与领域关联保持不变。
+        </p>
+      </div>
+      {sourceKind === "connection" ? (
+        <div className="space-y-2">
+          <Label htmlFor={`sync-password-${model.id}`}>数据库密码</Label>
+          <p className="text-xs text-muted-foreground">{model.connection}</p>
+          <Input
+            id={`sync-password-${model.id}`}
+            type="password"
+            placeholder={model.hasCredential ? "留空则使用已保存的密码" : "请输入连接密码"}
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+          />
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <input
+                type="checkbox"
+                className="h-4 w-4"
+                checked={rememberPassword}
+                disabled={!password}
+                onChange={(event) => setRememberPassword(event.target.checked)}
+              />
+              加密保存此密码
+            </label>
+            {model.hasCredential ? (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onClearCredential(model.id)}
+              >
+                清除已保存密码
+              </Button>
+            ) : null}
+          </div>
+        </div>
+      ) : sourceKind === "sqlite" ? (
+        <p className="text-sm text-muted-foreground">
+          将重新读取文件：{model.connection?.slice("sqlite://".length)}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor={`sync-ddl-${model.id}`}>最新 DDL 脚本</Label>
+          <Textarea
+            id={`sync-ddl-${model.id}`}
+            className="min-h-[160px] font-mono text-xs"
+            placeholder="粘贴最新的 CREATE TABLE 语句"
+            value={ddl}
+            onChange={(event) => setDdl(event.target.value)}
+          />
+        </div>
+      )}
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="outline" onClick={handlePreview} disabled={isLoading}>
+          {isLoading && !diff ? "读取中..." : "预览差异"}
+        </Button>
+        {diff?.hasChanges ? (
+          <Button
+            type="button"
+            variant={diff.warnings.length ? "destructive" : "default"}
+            onClick={handleApply}
+            disabled={isLoading}
+          >
+            {diff.warnings.length ? "忽略警告并应用" : "应用变更"}
+          </Button>
+        ) : null}
+      </div>
+      {diff ? <StorageSyncDiffView diff={diff} /> : null}
+    </div>
+  );
+}
+
+function formatColumnValue(value: unknown) {
+  if (value === undefined || value === null || value === "") return "—";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function StorageSyncDiffView({ diff }: { diff: StorageSyncDiff }) {
+  if (!diff.hasChanges) {
+    return <p className="text-sm text-muted-foreground">数据源结构与当前模型一致，无需同步。</p>;
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="secondary">新增表：{diff.addedTables.length}</Badge>
+        <Badge variant="secondary">移除表：{diff.removedTables.length}</Badge>
+        <Badge variant="secondary">变更表：{diff.changedTables.length}</Badge>
+        <Badge variant="outline">未变化：{diff.unchangedTables}</Badge>
+      </div>
+      {diff.warnings.length ? (
+        <div className="space-y-1 rounded-md border border-destructive/50 p-3 text-destructive">
+          {diff.warnings.map((warning) => {
+            const users = [
+              ...warning.views.map((view) => `视图「${view.name}」`),
+              ...warning.forms.map((form) => `表单「${form.name}」`)
+            ].join("、");
+            return (
+              <p key={`${warning.tableId}-${warning.column ?? ""}`}>
+                {warning.column
+                  ? `字段 ${warning.tableName}.${warning.column} 将被移除，仍被 ${users} 使用`
+                  : `数据表 ${warning.tableName} 将被移除，${users} 会随之删除`}
+              </p>
+            );
+          })}
+        </div>
+      ) : null}
+      {diff.addedTables.map((table) => (
+        <p key={`added-${table.name}`} className="text-emerald-600">
+          + 数据表 {table.name}（{table.columns.length} 个字段）
+        </p>
+      ))}
+      {diff.removedTables.map((table) => (
+        <p key={`removed-${table.tableId}`} className="text-destructive">
+          - 数据表 {table.name}
+        </p>
+      ))}
+      {diff.changedTables.map((table) => (
+        <div key={table.tableId} className="space-y-1 rounded-md border p-3">
+          <p className="font-medium">~ 数据表 {table.name}</p>
+          {table.descriptionChanged ? <p className="text-muted-foreground">表说明已变更</p> : null}
+          {table.constraintsChanged ? (
+            <p className="text-muted-foreground">主键、索引或外键已变更</p>
+          ) : null}
+          {table.addedColumns.map((column) => (
+            <p key={`added-${column.name}`} className="font-mono text-xs text-emerald-600">
+              + {column.name} {column.type ?? ""}
+            </p>
+          ))}
+          {table.removedColumns.map((column) => (
+            <p key={`removed-${column.name}`} className="font-mono text-xs text-destructive">
+              - {column.name} {column.type ?? ""}
+            </p>
+          ))}
+          {table.changedColumns.map((change) => (
+            <p key={`changed-${change.name}`} className="font-mono text-xs">
+              ~ {change.name}：
+              {change.fields
+                .map(
+                  (field) =>
+                    `${field} ${formatColumnValue(
+                      change.before[field as keyof typeof change.before]
+                    )} → ${formatColumnValue(change.after[field as keyof typeof change.after])}`
+                )
+                .join("；")}
+            </p>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import type { StorageModel, StorageTable } from "@/types/models";
+import type { StorageColumnDraft, StorageTableDraft } from "@/types/storage-design";
+
+export type StorageTableEditorTarget = {
+  model: StorageModel;
+  table: StorageTable | null;
+};
+
+const EMPTY_COLUMN_DRAFT: StorageColumnDraft = {
+  name: "",
+  type: "varchar(255)",
+  nullable: true,
+  default: null,
+  comment: null,
+  autoIncrement: false
+};
+
+function toTableDraft(table: StorageTable | null): StorageTableDraft {
+  if (!table) {
+    return {
+      name: "",
+      description: null,
+      columns: [
+        { ...EMPTY_COLUMN_DRAFT, name: "id", type: "bigint", nullable: false, autoIncrement: true }
+      ],
+      primaryKey: ["id"]
+    };
+  }
+
+  return {
+    name: table.name,
+    description: table.description ?? null,
+    columns: (table.schema?.columns ?? []).map((column) => ({
+      name: column.name,
+      type: column.type ?? "",
+      nullable: column.nullable !== false,
+      default:
+        column.default === null || column.default === undefined ? null : String(column.default),
+      comment: column.comment ?? null,
+      autoIncrement: Boolean(column.autoIncrement)
+    })),
+    primaryKey: table.primaryKey
+  };
+}
+
+interface StorageTableEditorDialogProps {
+  target: StorageTableEditorTarget | null;
+  onSave: (
+    storageModelId: string,
+    tableId: string | null,
+    draft: StorageTableDraft
+  ) => Promise<boolean>;
+  onDelete: (storageModelId: string, tableId: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+export function StorageTableEditorDialog({
+  target,
+  onSave,
+  onDelete,
+  onClose
+}: StorageTableEditorDialogProps) {
+  const [draft, setDraft] = useState<StorageTableDraft>(() => toTableDraft(null));
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const table = target?.table ?? null;
+
+  useEffect(() => {
+    setDraft(toTableDraft(target?.table ?? null));
+    setConfirmDelete(false);
+  }, [target]);
+
+  const updateColumn = (index: number, changes: Partial<StorageColumnDraft>) => {
+    setDraft((prev) => {
+      const previousName = prev.columns[index].name;
+      const columns = prev.columns.map((column, position) =>
+        position === index ? { ...column, ...changes } : column
+      );
+      const primaryKey =
+        changes.name !== undefined
+          ? prev.primaryKey.map((name) => (name === previousName ? (changes.name ?? name) : name))
+          : prev.primaryKey;
+      return { ...prev, columns, primaryKey };
+    });
+  };
+
+  const togglePrimaryKey = (name: string, checked: boolean) => {
+    setDraft((prev) => ({
+      ...prev,
+      primaryKey: checked
+        ? [...prev.primaryKey, name]
+        : prev.primaryKey.filter((item) => item !== name)
+    }));
+  };
+
+  const removeColumn = (index: number) => {
+    setDraft((prev) => ({
+      ...prev,
+      columns: prev.columns.filter((_, position) => position !== index),
+      primaryKey: prev.primaryKey.filter((name) => name !== prev.columns[index].name)
+    }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!target) return;
+    if (!draft.name.trim()) {
+      toast.error("请填写数据表名称");
+      return;
+    }
+    if (draft.columns.some((column) => !column.name.trim() || !column.type.trim())) {
+      toast.error("请填写完整的字段名称与类型");
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await onSave(target.model.id, table?.id ?? null, {
+      ...draft,
+      name: draft.name.trim(),
+      description: draft.description?.trim() || null,
+      columns: draft.columns.map((column) => ({
+        ...column,
+        name: column.name.trim(),
+        type: column.type.trim(),
+        comment: column.comment?.trim() || null
+      })),
+      primaryKey: draft.primaryKey.map((name) => name.trim())
+    });
+    setIsSaving(false);
+    if (saved) onClose();
+  };
+
+  const handleDelete = async () => {
+    if (!target || !table) return;
+    if (!confirmDelete) {
+      setConfirmDelete(true);
+      return;
+    }
+
+    setIsSaving(true);
+    const deleted = await onDelete(target.model.id, table.id);
+    setIsSaving(false);
+    if (deleted) onClose();
+  };
+
+  return (
+    <Dialog
+      open={Boolean(target)}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>
+            {table ? `编辑数据表「${table.name}」` : `在「${target?.model.name}」中新增数据表`}
+          </DialogTitle>
+          <DialogDescription>
+            修改只保存在设计器中，不会改动数据库；可在「迁移脚本」中下载对应的 SQL
+            后自行执行。字段类型按数据库方言填写，默认值中的字符串直接填写内容，函数或关键字（如
+            CURRENT_TIMESTAMP）会原样保留。
+          </DialogDescription>
+        </DialogHeader>
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          <div className="grid gap-3 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="storage-table-name">数据表名称</Label>
+              <Input
+                id="storage-table-name"
+                value={draft.name}
+                onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="storage-table-description">描述</Label>
+              <Input
+                id="storage-table-description"
+                value={draft.description ?? ""}
+                onChange={(event) =>
+                  setDraft((prev) => ({ ...prev, description: event.target.value }))
+                }
+              />
+            </div>
+          </div>
+          <div className="max-h-[50vh] overflow-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>字段名</TableHead>
+                  <TableHead>类型</TableHead>
+                  <TableHead>可空</TableHead>
+                  <TableHead>主键</TableHead>
+                  <TableHead>自增</TableHead>
+                  <TableHead>默认值</TableHead>
+                  <TableHead>说明</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {draft.columns.map((column, index) => {
+                  const isKey = draft.primaryKey.includes(column.name);
+                  return (
+                    <TableRow key={index}>
+                      <TableCell>
+                        <Input
+                          value={column.name}
+                          onChange={(event) => updateColumn(index, { name: event.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={column.type}
+                          onChange={(event) => updateColumn(index, { type: event.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4"
+                          checked={column.nullable && !isKey}
+                          disabled={isKey}
+                          onChange={(event) =>
+                            updateColumn(index, { nullable: event.target.checked })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4"
+                          checked={isKey}
+                          disabled={!column.name.trim()}
+                          onChange={(event) => togglePrimaryKey(column.name, event.target.checked)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4"
+                          checked={column.autoIncrement}
+                          onChange={(event) =>
+                            updateColumn(index, { autoIncrement: event.target.checked })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={column.default ?? ""}
+                          disabled={column.autoIncrement}
+                          onChange={(event) =>
+                            updateColumn(index, { default: event.target.value || null })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={column.comment ?? ""}
+                          onChange={(event) => updateColumn(index, { comment: event.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeColumn(index)}
+                        >
+                          删除
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setDraft((prev) => ({ ...prev, columns: [...prev.columns, EMPTY_COLUMN_DRAFT] }))
+            }
+          >
+            添加字段
+          </Button>
+          {table && (table.views.length || table.forms.length) ? (
+            <p className="text-xs text-muted-foreground">
+              该数据表被 {table.views.length} 个视图、{table.forms.length}{" "}
+              个表单引用，删除或改名字段后需同步调整这些模型。
+            </p>
+          ) : null}
+          <DialogFooter className="gap-2 sm:justify-between">
+            {table ? (
+              <Button
+                type="button"
+                variant="destructive"
+                onClick={handleDelete}
+                disabled={isSaving}
+              >
+                {confirmDelete ? "确认删除数据表" : "删除数据表"}
+              </Button>
+            ) : (
+              <span />
+            )}
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "保存中..." : "保存"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
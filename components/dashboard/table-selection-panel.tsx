@@ -0,0 +1,113 @@
+"use client";
+
+import { Dispatch, SetStateAction } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { StorageImportFormState } from "@/components/dashboard/types";
+import { matchesTablePattern } from "@/lib/introspection/pattern";
+import type { DatabaseOverview } from "@/lib/introspection/types";
+
+interface TableSelectionPanelProps {
+  overview: DatabaseOverview;
+  formState: StorageImportFormState;
+  setFormState: Dispatch<SetStateAction<StorageImportFormState>>;
+}
+
+export function TableSelectionPanel({
+  overview,
+  formState,
+  setFormState
+}: TableSelectionPanelProps) {
+  const pattern = formState.tablePattern.trim();
+  const visibleTables = pattern
+    ? overview.tables.filter((table) => matchesTablePattern(table.name, pattern))
+    : overview.tables;
+  const selected = new Set(formState.selectedTables);
+  const importCount = selected.size || visibleTables.length;
+
+  const toggleTable = (tableName: string) => {
+    setFormState((prev) => ({
+      ...prev,
+      selectedTables: prev.selectedTables.includes(tableName)
+        ? prev.selectedTables.filter((item) => item !== tableName)
+        : [...prev.selectedTables, tableName]
+    }));
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="space-y-1 text-xs text-muted-foreground">
+        <p>{overview.serverVersion}</p>
+        <p>
+          共 {overview.tables.length} 张数据表，将导入 {importCount} 张
+          {selected.size ? "（按勾选）" : pattern ? "（按表名模式）" : "（全部）"}
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="table-pattern">表名模式</Label>
+        <Input
+          id="table-pattern"
+          placeholder="例如：order_*, user_?"
+          value={formState.tablePattern}
+          onChange={(event) => setFormState({ ...formState, tablePattern: event.target.value })}
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            setFormState({
+              ...formState,
+              selectedTables: Array.from(
+                new Set([...formState.selectedTables, ...visibleTables.map((table) => table.name)])
+              )
+            })
+          }
+        >
+          勾选列表中的表
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => setFormState({ ...formState, selectedTables: [] })}
+        >
+          清空勾选
+        </Button>
+      </div>
+      <div className="max-h-64 space-y-1 overflow-y-auto">
+        {visibleTables.length === 0 ? (
+          <p className="text-sm text-muted-foreground">没有符合模式的数据表</p>
+        ) : (
+          visibleTables.map((table) => (
+            <label
+              key={table.name}
+              className="flex cursor-pointer items-center justify-between gap-2 rounded-md px-2 py-1 text-sm hover:bg-muted"
+            >
+              <span className="flex min-w-0 items-center gap-2">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={selected.has(table.name)}
+                  onChange={() => toggleTable(table.name)}
+                />
+                <span className="truncate" title={table.description ?? undefined}>
+                  {table.name}
+                </span>
+              </span>
+              <span className="shrink-0 text-xs text-muted-foreground">
+                {table.rowEstimate === null
+                  ? "--"
+                  : `约 ${table.rowEstimate.toLocaleString("zh-CN")} 行`}
+              </span>
+            </label>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
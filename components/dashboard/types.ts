@@ -0,0 +1,36 @@
+import type { ModelKind } from "@/types/models";
+
+export type StorageDialect = "mysql" | "postgresql" | "sqlite";
+
+type StorageImportSource = "database" | "ddl";
+
+export type StorageImportFormState = {
+  name: string;
+  description: string;
+  source: StorageImportSource;
+  dialect: StorageDialect;
+  schema: string;
+  host: string;
+  port: string;
+  user: string;
+  password: string;
+  database: string;
+  sqliteFile: File | null;
+  sqlitePath: string;
+  ddl: string;
+  tablePattern: string;
+  selectedTables: string[];
+  rememberPassword: boolean;
+};
+
+export type ModelTarget = {
+  kind: ModelKind;
+  id: string;
+  name: string;
+};
+
+export type DomainFieldSourceDraft = {
+  storageTableId: string;
+  column: string;
+  transform: string;
+};
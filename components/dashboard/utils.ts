@@ -0,0 +1,42 @@
+import type { ModelKind } from "@/types/models";
+
+export const MODEL_KIND_META: Record<ModelKind, { endpoint: string; label: string }> = {
+  storage: { endpoint: "storage-models", label: "数据存储模型" },
+  view: { endpoint: "view-models", label: "视图模型" },
+  form: { endpoint: "form-models", label: "表单模型" },
+  operation: { endpoint: "operation-models", label: "操作模型" },
+  domain: { endpoint: "domain-models", label: "业务领域模型" }
+};
+
+const DATE_FORMATTER = new Intl.DateTimeFormat("zh-CN", {
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  hour12: false,
+  timeZone: "Asia/Shanghai"
+});
+
+export function formatDate(value: string) {
+  try {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      return value;
+    }
+
+    return DATE_FORMATTER.format(date);
+  } catch (error) {
+    return value;
+  }
+}
+
+export function downloadFile(filename: string, content: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
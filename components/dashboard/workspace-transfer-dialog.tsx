@@ -0,0 +1,288 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { MODEL_KIND_META } from "@/components/dashboard/utils";
+import type { ModelKind } from "@/types/models";
+import type { ModelMirrorFormat } from "@/types/model-mirror";
+import type {
+  WorkspaceConflictStrategy,
+  WorkspaceImportItem,
+  WorkspaceImportResult,
+  WorkspaceSelection
+} from "@/types/workspace-bundle";
+import type { ModelReference } from "@/types/storage-sync";
+
+interface WorkspaceTransferDialogProps {
+  open: boolean;
+  models: Record<ModelKind, ModelReference[]>;
+  onExport: (selection: WorkspaceSelection) => Promise<void>;
+  onImport: (
+    bundle: unknown,
+    conflict: WorkspaceConflictStrategy
+  ) => Promise<WorkspaceImportResult | null>;
+  onWriteMirror: (format: ModelMirrorFormat) => Promise<void>;
+  onLoadMirror: (conflict: WorkspaceConflictStrategy) => Promise<WorkspaceImportResult | null>;
+  onClose: () => void;
+}
+
+const WORKSPACE_IMPORT_STATUS_LABELS: Record<WorkspaceImportItem["status"], string> = {
+  created: "新建",
+  overwritten: "覆盖",
+  renamed: "重命名后新建",
+  skipped: "已跳过"
+};
+
+const WORKSPACE_CONFLICT_OPTIONS: Array<{ value: WorkspaceConflictStrategy; label: string }> = [
+  { value: "skip", label: "跳过同名模型（引用指向已有模型）" },
+  { value: "overwrite", label: "覆盖同名模型" },
+  { value: "rename", label: "重命名后新建" }
+];
+
+export function WorkspaceTransferDialog({
+  open,
+  models,
+  onExport,
+  onImport,
+  onWriteMirror,
+  onLoadMirror,
+  onClose
+}: WorkspaceTransferDialogProps) {
+  const [selection, setSelection] = useState<WorkspaceSelection>({});
+  const [isExporting, setIsExporting] = useState(false);
+  const [bundleFile, setBundleFile] = useState<File | null>(null);
+  const [conflict, setConflict] = useState<WorkspaceConflictStrategy>("skip");
+  const [isImporting, setIsImporting] = useState(false);
+  const [importResult, setImportResult] = useState<WorkspaceImportResult | null>(null);
+  const [mirrorFormat, setMirrorFormat] = useState<ModelMirrorFormat>("json");
+  const [isSyncingMirror, setIsSyncingMirror] = useState(false);
+
+  const selectedCount = Object.values(selection).reduce(
+    (total, ids) => total + (ids?.length ?? 0),
+    0
+  );
+
+  const toggleSelection = (kind: ModelKind, id: string, checked: boolean) => {
+    setSelection((prev) => {
+      const current = prev[kind] ?? [];
+      return {
+        ...prev,
+        [kind]: checked ? [...current, id] : current.filter((item) => item !== id)
+      };
+    });
+  };
+
+  const handleExport = async (exportSelection: WorkspaceSelection) => {
+    setIsExporting(true);
+    await onExport(exportSelection);
+    setIsExporting(false);
+  };
+
+  const handleImport = async () => {
+    if (!bundleFile) return;
+
+    let bundle: unknown;
+    try {
+      bundle = JSON.parse(await bundleFile.text());
+    } catch {
+      toast.error("导出包不是有效的 JSON 文件");
+      return;
+    }
+
+    setIsImporting(true);
+    setImportResult(await onImport(bundle, conflict));
+    setIsImporting(false);
+  };
+
+  const handleWriteMirror = async () => {
+    setIsSyncingMirror(true);
+    await onWriteMirror(mirrorFormat);
+    setIsSyncingMirror(false);
+  };
+
+  const handleLoadMirror = async () => {
+    setIsSyncingMirror(true);
+    setImportResult(await onLoadMirror(conflict));
+    setIsSyncingMirror(false);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        if (!value) onClose();
+      }}
+    >
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>工作区导入导出</DialogTitle>
+          <DialogDescription>
+            在不同环境的设计器之间迁移模型。导出包不包含数据库密码，导入时会生成新的 id
+            并改写所有引用。
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 rounded-md border p-3">
+          <div className="text-sm font-medium">导出</div>
+          <div className="grid max-h-56 gap-3 overflow-auto md:grid-cols-2">
+            {(Object.keys(MODEL_KIND_META) as ModelKind[]).map((kind) =>
+              models[kind].length ? (
+                <div key={kind} className="space-y-1 text-sm">
+                  <div className="text-muted-foreground">{MODEL_KIND_META[kind].label}</div>
+                  {models[kind].map((model) => (
+                    <label key={model.id} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4"
+                        checked={selection[kind]?.includes(model.id) ?? false}
+                        onChange={(event) => toggleSelection(kind, model.id, event.target.checked)}
+                      />
+                      {model.name}
+                    </label>
+                  ))}
+                </div>
+              ) : null
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            所选模型依赖的存储模型、表单及领域关联资源会一并导出。
+          </p>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => handleExport(selection)}
+              disabled={!selectedCount || isExporting}
+            >
+              导出所选（{selectedCount}）
+            </Button>
+            <Button onClick={() => handleExport({})} disabled={isExporting}>
+              {isExporting ? "导出中..." : "导出全部"}
+            </Button>
+          </div>
+        </div>
+        <div className="space-y-3 rounded-md border p-3">
+          <div className="text-sm font-medium">文件镜像</div>
+          <p className="text-xs text-muted-foreground">
+            将全部模型按「一个模型一个文件」写入服务端 MODEL_MIRROR_DIR
+            目录，便于随代码一起提交与评审。
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Select
+              value={mirrorFormat}
+              onValueChange={(value) => setMirrorFormat(value as ModelMirrorFormat)}
+            >
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="json">JSON</SelectItem>
+                <SelectItem value="yaml">YAML</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleWriteMirror} disabled={isSyncingMirror}>
+              {isSyncingMirror ? "处理中..." : "写入文件镜像"}
+            </Button>
+          </div>
+        </div>
+        <div className="space-y-3 rounded-md border p-3">
+          <div className="text-sm font-medium">导入</div>
+          <div className="grid gap-3 md:grid-cols-2">
+            <Input
+              type="file"
+              accept=".json,application/json"
+              onChange={(event) => {
+                setBundleFile(event.target.files?.[0] ?? null);
+                setImportResult(null);
+              }}
+            />
+            <Select
+              value={conflict}
+              onValueChange={(value) => setConflict(value as WorkspaceConflictStrategy)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WORKSPACE_CONFLICT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handleImport} disabled={!bundleFile || isImporting}>
+              {isImporting ? "导入中..." : "导入"}
+            </Button>
+            <Button variant="outline" onClick={handleLoadMirror} disabled={isSyncingMirror}>
+              从文件镜像加载
+            </Button>
+          </div>
+          {importResult ? (
+            <div className="max-h-56 space-y-2 overflow-auto text-sm">
+              {importResult.warnings.map((warning) => (
+                <p key={warning} className="text-amber-600">
+                  {warning}
+                </p>
+              ))}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>类型</TableHead>
+                    <TableHead>名称</TableHead>
+                    <TableHead>结果</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {importResult.items.map((item) => (
+                    <TableRow key={`${item.kind}-${item.sourceId}`}>
+                      <TableCell>{MODEL_KIND_META[item.kind].label}</TableCell>
+                      <TableCell>{item.name}</TableCell>
+                      <TableCell>
+                        <Badge variant={item.status === "skipped" ? "outline" : "secondary"}>
+                          {WORKSPACE_IMPORT_STATUS_LABELS[item.status]}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : null}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            关闭
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
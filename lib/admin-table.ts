@@ -0,0 +1,690 @@
+import type {
+  DataFormModel,
+  DataOperationModel as PrismaOperationModel,
+  DataStorageModel,
+  DataStorageTable,
+  DataViewModel
+} from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import type {
+  ActionConfirmation,
+  ActionFormConfig,
+  ActionFormField,
+  ActionFormFieldType,
+  ActionIntent,
+  ActionScope,
+  AdminTableGenerationResult,
+  AdminTableModelLocator,
+  ApiActionBehavior,
+  ColumnRenderType,
+  DataOperationModel,
+  DataSourceConfig,
+  FilterConfig,
+  FilterFormModel,
+  FilterType,
+  OptionItem,
+  SubmissionFormModel,
+  TableColumnConfig,
+  ValueMappingItem
+} from "@/types/admin-table";
+
+type ColumnMeta = {
+  name: string;
+  type?: string;
+  key?: string | null;
+  nullable?: boolean;
+  default?: unknown;
+  comment?: string | null;
+};
+
+type LayoutField = {
+  column: string;
+  label?: string;
+  type?: string;
+  sortable?: boolean;
+  renderType?: ColumnRenderType;
+  valueMapping?: Record<string, ValueMappingItem>;
+  width?: number | string;
+  align?: TableColumnConfig["align"];
+};
+
+type FormField = {
+  column: string;
+  label?: string;
+  component?: string;
+  include?: boolean;
+  required?: boolean;
+  defaultValue?: unknown;
+  options?: OptionItem[];
+  placeholder?: string;
+  props?: Record<string, unknown>;
+};
+
+type FormMeta = {
+  usage?: string;
+  title?: string;
+  description?: string;
+  submitLabel?: string;
+  cancelLabel?: string;
+};
+
+type OperationUi = {
+  scope?: ActionScope;
+  intent?: ActionIntent;
+  icon?: string;
+  confirm?: ActionConfirmation;
+  requiresSelection?: boolean;
+};
+
+export type OperationWithForm = PrismaOperationModel & {
+  formModel: DataFormModel | null;
+};
+
+export type AdminTableSources = {
+  storageModel: DataStorageModel;
+  storageTable: DataStorageTable;
+  view: DataViewModel;
+  filterForms: DataFormModel[];
+  submissionForms: DataFormModel[];
+  operations: OperationWithForm[];
+};
+
+export class AdminTableConfigError extends Error {
+  readonly status: number;
+  readonly issues: string[];
+
+  constructor(issues: string[], status = 400) {
+    super(issues.join("；"));
+    this.name = "AdminTableConfigError";
+    this.status = status;
+    this.issues = issues;
+  }
+}
+
+const HTTP_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"] as const;
+
+const DEFAULT_METHOD_BY_TYPE: Record<PrismaOperationModel["type"], ApiActionBehavior["method"]> = {
+  CREATE: "POST",
+  READ: "GET",
+  UPDATE: "PUT",
+  DELETE: "DELETE",
+  CUSTOM: "POST"
+};
+
+const DEFAULT_SCOPE_BY_TYPE: Record<PrismaOperationModel["type"], ActionScope> = {
+  CREATE: "global",
+  READ: "global",
+  UPDATE: "row",
+  DELETE: "row",
+  CUSTOM: "global"
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+function readNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function readStringRecord(value: unknown): Record<string, string> | undefined {
+  if (!isRecord(value)) return undefined;
+  const entries = Object.entries(value).filter(
+    (entry): entry is [string, string] => typeof entry[1] === "string"
+  );
+  return entries.length ? Object.fromEntries(entries) : undefined;
+}
+
+function readOptions(value: unknown): OptionItem[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const options = value.filter(
+    (item): item is OptionItem =>
+      isRecord(item) &&
+      typeof item.label === "string" &&
+      (typeof item.value === "string" || typeof item.value === "number")
+  );
+  return options.length ? options : undefined;
+}
+
+function readColumns(schema: unknown): ColumnMeta[] {
+  if (!isRecord(schema) || !Array.isArray(schema.columns)) return [];
+  return schema.columns.filter(
+    (column): column is ColumnMeta => isRecord(column) && typeof column.name === "string"
+  );
+}
+
+function readFallbackColumns(storageModel: DataStorageModel, tableName: string): ColumnMeta[] {
+  if (!isRecord(storageModel.schema) || !Array.isArray(storageModel.schema.tables)) return [];
+  const table = storageModel.schema.tables.find(
+    (item) => isRecord(item) && item.name === tableName
+  );
+  return readColumns(table);
+}
+
+function readLayoutFields(layout: unknown): LayoutField[] {
+  if (!isRecord(layout) || !Array.isArray(layout.fields)) return [];
+  return layout.fields.filter(
+    (field): field is LayoutField => isRecord(field) && typeof field.column === "string"
+  );
+}
+
+function readLayoutMeta(layout: unknown): Record<string, unknown> {
+  return isRecord(layout) && isRecord(layout.meta) ? layout.meta : {};
+}
+
+function readFormFields(schema: unknown): FormField[] {
+  if (!isRecord(schema) || !Array.isArray(schema.fields)) return [];
+  return schema.fields.filter(
+    (field): field is FormField =>
+      isRecord(field) && typeof field.column === "string" && field.include !== false
+  );
+}
+
+function readFormMeta(schema: unknown): FormMeta {
+  return isRecord(schema) && isRecord(schema.meta) ? (schema.meta as FormMeta) : {};
+}
+
+export function getFormUsage(form: Pick<DataFormModel, "schema">): string {
+  return readFormMeta(form.schema).usage ?? "submission";
+}
+
+function parseEnumValues(type: string): string[] {
+  const match = /^(?:enum|set)\((.*)\)$/i.exec(type.trim());
+  if (!match) return [];
+  return Array.from(match[1].matchAll(/'((?:[^']|'')*)'/g)).map((item) =>
+    item[1].replace(/''/g, "'")
+  );
+}
+
+function inferRenderType(type: string): ColumnRenderType {
+  const normalized = type.toLowerCase();
+  if (/^(tinyint\(1\)|bool|boolean|bit\(1\))/.test(normalized)) return "boolean";
+  if (/^(date|datetime|timestamp)/.test(normalized)) return "date";
+  if (/^(enum|set)\(/.test(normalized)) return "badge";
+  return "text";
+}
+
+function inferAlign(type: string): TableColumnConfig["align"] {
+  const normalized = type.toLowerCase();
+  if (/^(tinyint\(1\)|bool|boolean|bit\(1\))/.test(normalized)) return "center";
+  if (/^(tinyint|smallint|mediumint|int|integer|bigint|decimal|numeric|float|double|real)/.test(normalized)) {
+    return "right";
+  }
+  return "left";
+}
+
+function buildColumns(
+  fields: LayoutField[],
+  columns: ColumnMeta[],
+  warnings: string[]
+): TableColumnConfig[] {
+  const columnMap = new Map(columns.map((column) => [column.name, column]));
+
+  return fields.map((field) => {
+    const meta = columnMap.get(field.column);
+    if (!meta && columns.length) {
+      warnings.push(`视图字段 ${field.column} 在数据表结构中不存在`);
+    }
+
+    const type = field.type ?? meta?.type ?? "";
+    const renderType = field.renderType ?? inferRenderType(type);
+    let valueMapping = field.valueMapping;
+    if (!valueMapping && renderType === "badge") {
+      const values = parseEnumValues(type);
+      if (values.length) {
+        valueMapping = Object.fromEntries(values.map((value) => [value, { label: value }]));
+      }
+    }
+
+    const column: TableColumnConfig = {
+      id: field.column,
+      label: field.label || meta?.comment || field.column,
+      dataIndex: field.column,
+      align: field.align ?? inferAlign(type),
+      sortable: field.sortable ?? false,
+      renderType
+    };
+    if (field.width !== undefined) column.width = field.width;
+    if (valueMapping) column.valueMapping = valueMapping;
+    return column;
+  });
+}
+
+function toHttpMethod(
+  method: string | null | undefined,
+  type: PrismaOperationModel["type"]
+): ApiActionBehavior["method"] {
+  const normalized = method?.toUpperCase();
+  return HTTP_METHODS.find((item) => item === normalized) ?? DEFAULT_METHOD_BY_TYPE[type];
+}
+
+function toDataSource(operation: PrismaOperationModel): DataSourceConfig | null {
+  if (!operation.endpoint) return null;
+
+  const request = isRecord(operation.requestSchema) ? operation.requestSchema : {};
+  const response = isRecord(operation.responseSchema) ? operation.responseSchema : {};
+  const mapping =
+    isRecord(response.meta) && isRecord(response.meta.mapping) ? response.meta.mapping : {};
+  const method = toHttpMethod(operation.method, "READ") === "POST" ? "POST" : "GET";
+
+  const dataSource: DataSourceConfig = {
+    type: "remote",
+    endpoint: operation.endpoint,
+    method
+  };
+
+  const headers = readStringRecord(request.headers);
+  if (headers) dataSource.headers = headers;
+  if (method === "POST" && request.body !== undefined) dataSource.requestBody = request.body;
+  if (isRecord(request.pagination)) {
+    dataSource.pagination = {
+      pageParam: readString(request.pagination.pageParam),
+      pageSizeParam: readString(request.pagination.pageSizeParam)
+    };
+  }
+  const queryMapping = readStringRecord(request.queryMapping);
+  if (queryMapping) dataSource.queryMapping = queryMapping;
+
+  const dataPath = readString(mapping.itemsPath) ?? readString(mapping.dataPath);
+  const totalPath = readString(mapping.totalPath);
+  if (dataPath || totalPath) {
+    dataSource.responseMapping = { dataPath, totalPath };
+  }
+
+  return dataSource;
+}
+
+function resolveDataSource(
+  sources: AdminTableSources,
+  candidates: OperationWithForm[],
+  warnings: string[]
+): DataSourceConfig | null {
+  const meta = readLayoutMeta(sources.view.layout);
+  const declared = meta.dataSource;
+
+  if (isRecord(declared) && (declared.type === "remote" || declared.type === "static")) {
+    return declared as unknown as DataSourceConfig;
+  }
+
+  if (typeof declared === "string") {
+    const referenced = candidates.find((operation) => operation.id === declared);
+    if (referenced) {
+      return toDataSource(referenced);
+    }
+    warnings.push(`视图声明的数据源操作 ${declared} 未包含在当前操作集合中`);
+  }
+
+  const readOperations = candidates.filter(
+    (operation) => operation.type === "READ" && operation.endpoint
+  );
+  const preferred =
+    readOperations.find(
+      (operation) => operation.formModel?.storageTableId === sources.storageTable.id
+    ) ?? readOperations[0];
+
+  return preferred ? toDataSource(preferred) : null;
+}
+
+function toFilterType(component?: string): FilterType {
+  switch (component) {
+    case "number":
+      return "number";
+    case "select":
+    case "radio":
+      return "select";
+    case "boolean":
+    case "switch":
+    case "checkbox":
+      return "boolean";
+    case "date":
+    case "datetime":
+    case "date-range":
+      return "date-range";
+    default:
+      return "text";
+  }
+}
+
+function toFilterForm(form: DataFormModel): FilterFormModel {
+  const filters = readFormFields(form.schema).map<FilterConfig>((field) => {
+    const props = isRecord(field.props) ? field.props : {};
+    const filter: FilterConfig = {
+      id: field.column,
+      label: field.label || field.column,
+      field: field.column,
+      type: toFilterType(field.component)
+    };
+    const placeholder = readString(field.placeholder);
+    if (placeholder) filter.placeholder = placeholder;
+    if (field.defaultValue !== undefined) filter.defaultValue = field.defaultValue;
+    const options = readOptions(field.options);
+    if (options) filter.options = options;
+    const trueLabel = readString(props.trueLabel);
+    const falseLabel = readString(props.falseLabel);
+    if (trueLabel) filter.trueLabel = trueLabel;
+    if (falseLabel) filter.falseLabel = falseLabel;
+    return filter;
+  });
+
+  return {
+    id: form.id,
+    type: "filter-form",
+    filters
+  };
+}
+
+function toFormFieldType(component?: string): ActionFormFieldType {
+  switch (component) {
+    case "number":
+      return "number";
+    case "textarea":
+      return "textarea";
+    case "select":
+    case "radio":
+      return "select";
+    default:
+      return "text";
+  }
+}
+
+function toActionFormField(field: FormField): ActionFormField {
+  const props = isRecord(field.props) ? field.props : {};
+  const result: ActionFormField = {
+    id: field.column,
+    label: field.label || field.column,
+    type: toFormFieldType(field.component),
+    required: Boolean(field.required)
+  };
+  if (field.defaultValue !== undefined) result.defaultValue = field.defaultValue;
+  const placeholder = readString(field.placeholder);
+  if (placeholder) result.placeholder = placeholder;
+  const options = readOptions(field.options);
+  if (options) result.options = options;
+  for (const key of ["maxLength", "min", "max", "step", "rows"] as const) {
+    const value = readNumber(props[key]);
+    if (value !== undefined) result[key] = value;
+  }
+  return result;
+}
+
+function toActionForm(form: DataFormModel): ActionFormConfig {
+  const meta = readFormMeta(form.schema);
+  const config: ActionFormConfig = {
+    title: readString(meta.title) ?? form.name,
+    fields: readFormFields(form.schema).map(toActionFormField)
+  };
+  const description = readString(meta.description) ?? form.description ?? undefined;
+  if (description) config.description = description;
+  const submitLabel = readString(meta.submitLabel);
+  const cancelLabel = readString(meta.cancelLabel);
+  if (submitLabel) config.submitLabel = submitLabel;
+  if (cancelLabel) config.cancelLabel = cancelLabel;
+  return config;
+}
+
+function toSubmissionForm(form: DataFormModel): SubmissionFormModel {
+  return {
+    id: form.id,
+    type: "submission-form",
+    form: toActionForm(form)
+  };
+}
+
+function readInlineForm(value: unknown, fallbackTitle: string): ActionFormConfig | undefined {
+  if (!isRecord(value) || !Array.isArray(value.fields)) return undefined;
+  const fields = value.fields
+    .filter((field): field is FormField => isRecord(field) && typeof field.column === "string")
+    .filter((field) => field.include !== false)
+    .map(toActionFormField);
+  return {
+    title: readString(value.title) ?? fallbackTitle,
+    description: readString(value.description),
+    submitLabel: readString(value.submitLabel),
+    cancelLabel: readString(value.cancelLabel),
+    fields
+  };
+}
+
+function toOperation(
+  operation: OperationWithForm,
+  formRefs: Set<string>,
+  issues: string[]
+): DataOperationModel | null {
+  if (!operation.endpoint) {
+    issues.push(`操作「${operation.name}」缺少接口地址`);
+    return null;
+  }
+
+  const request = isRecord(operation.requestSchema) ? operation.requestSchema : {};
+  const ui: OperationUi = isRecord(request.ui) ? (request.ui as OperationUi) : {};
+  const scope = ui.scope ?? DEFAULT_SCOPE_BY_TYPE[operation.type];
+
+  const behavior: ApiActionBehavior = {
+    type: "api",
+    method: toHttpMethod(operation.method, operation.type),
+    endpoint: operation.endpoint
+  };
+  const headers = readStringRecord(request.headers);
+  if (headers) behavior.headers = headers;
+  if (isRecord(request.query)) behavior.query = request.query;
+  if (request.body !== undefined) behavior.bodyTemplate = request.body;
+  const successMessage = readString(request.successMessage);
+  const errorMessage = readString(request.errorMessage);
+  if (successMessage) behavior.successMessage = successMessage;
+  if (errorMessage) behavior.errorMessage = errorMessage;
+
+  const result: DataOperationModel = {
+    id: operation.id,
+    type: "data-operation",
+    scope,
+    label: operation.name,
+    intent:
+      ui.intent ??
+      (operation.type === "DELETE" ? "destructive" : operation.type === "CREATE" ? "primary" : "default"),
+    behavior
+  };
+
+  if (operation.description) result.tooltip = operation.description;
+  if (ui.icon) result.icon = ui.icon;
+  if (ui.confirm && readString(ui.confirm.title)) {
+    result.confirm = ui.confirm;
+  } else if (operation.type === "DELETE") {
+    result.confirm = { title: `确认执行「${operation.name}」？` };
+  }
+  if (scope === "bulk") {
+    result.requiresSelection = ui.requiresSelection ?? true;
+  }
+
+  const inlineForm = readInlineForm(request.inlineForm, operation.name);
+  if (inlineForm) {
+    result.form = inlineForm;
+  } else if (operation.formModelId && formRefs.has(operation.formModelId)) {
+    result.formRef = operation.formModelId;
+  }
+
+  return result;
+}
+
+export function generateAdminTablePageConfig(
+  sources: AdminTableSources
+): AdminTableGenerationResult {
+  const { storageModel, storageTable, view } = sources;
+  const issues: string[] = [];
+  const warnings: string[] = [];
+
+  const tableColumns = readColumns(storageTable.schema);
+  const columns = buildColumns(
+    readLayoutFields(view.layout),
+    tableColumns.length ? tableColumns : readFallbackColumns(storageModel, storageTable.name),
+    warnings
+  );
+  if (!columns.length) {
+    issues.push(`视图「${view.name}」未配置任何展示字段`);
+  }
+
+  const dataSource = resolveDataSource(sources, sources.operations, warnings);
+  if (!dataSource) {
+    issues.push("未找到可用的数据源：请在视图 layout.meta.dataSource 中声明，或关联带接口地址的 READ 操作");
+  }
+
+  const submissionForms = [...sources.submissionForms];
+  for (const operation of sources.operations) {
+    const bound = operation.formModel;
+    if (bound && !submissionForms.some((form) => form.id === bound.id)) {
+      submissionForms.push(bound);
+    }
+  }
+  const formRefs = new Set(submissionForms.map((form) => form.id));
+
+  const operations = sources.operations
+    .filter((operation) => operation.type !== "READ")
+    .map((operation) => toOperation(operation, formRefs, issues))
+    .filter((operation): operation is DataOperationModel => operation !== null);
+
+  if (issues.length || !dataSource) {
+    throw new AdminTableConfigError(issues);
+  }
+
+  const meta = readLayoutMeta(view.layout);
+  const pagination = isRecord(meta.pagination) ? meta.pagination : { defaultPageSize: 10 };
+  const emptyState =
+    isRecord(meta.emptyState) && typeof meta.emptyState.title === "string"
+      ? (meta.emptyState as { title: string; description?: string })
+      : undefined;
+
+  return {
+    config: {
+      type: "admin-table",
+      title: view.name,
+      description: view.description ?? undefined,
+      models: {
+        view: {
+          type: "table-view",
+          dataSource,
+          columns,
+          selectable: typeof meta.selectable === "boolean" ? meta.selectable : false,
+          pagination,
+          ...(emptyState ? { emptyState } : {})
+        },
+        filterForms: sources.filterForms.map(toFilterForm),
+        submissionForms: submissionForms.map(toSubmissionForm),
+        operations
+      }
+    },
+    warnings
+  };
+}
+
+function ensureFound<T>(items: T[], ids: string[], getId: (item: T) => string, label: string) {
+  const found = new Set(items.map(getId));
+  const missing = ids.filter((id) => !found.has(id));
+  if (missing.length) {
+    throw new AdminTableConfigError([`未找到${label}：${missing.join("、")}`], 404);
+  }
+}
+
+export async function loadAdminTableSources(
+  locator: AdminTableModelLocator
+): Promise<AdminTableSources> {
+  const [storageModel, storageTable, view] = await Promise.all([
+    prisma.dataStorageModel.findUnique({ where: { id: locator.storageModelId } }),
+    prisma.dataStorageTable.findUnique({ where: { id: locator.storageTableId } }),
+    prisma.dataViewModel.findUnique({ where: { id: locator.viewId } })
+  ]);
+
+  if (!storageModel) {
+    throw new AdminTableConfigError([`未找到数据存储模型：${locator.storageModelId}`], 404);
+  }
+  if (!storageTable) {
+    throw new AdminTableConfigError([`未找到数据表：${locator.storageTableId}`], 404);
+  }
+  if (!view) {
+    throw new AdminTableConfigError([`未找到视图模型：${locator.viewId}`], 404);
+  }
+
+  const issues: string[] = [];
+  if (storageTable.storageModelId !== storageModel.id) {
+    issues.push(`数据表「${storageTable.name}」不属于存储模型「${storageModel.name}」`);
+  }
+  if (view.storageTableId !== storageTable.id) {
+    issues.push(`视图「${view.name}」未绑定数据表「${storageTable.name}」`);
+  }
+
+  const tableForms = await prisma.dataFormModel.findMany({
+    where: { storageTableId: storageTable.id },
+    orderBy: { createdAt: "asc" }
+  });
+
+  const pickForms = async (ids: string[] | undefined, usage: "filter" | "submission") => {
+    if (!ids) {
+      return tableForms.filter((form) => getFormUsage(form) === usage);
+    }
+    const forms = await prisma.dataFormModel.findMany({ where: { id: { in: ids } } });
+    ensureFound(forms, ids, (form) => form.id, "表单模型");
+    for (const form of forms) {
+      if (form.storageTableId !== storageTable.id) {
+        issues.push(`表单「${form.name}」不属于数据表「${storageTable.name}」`);
+      } else if (getFormUsage(form) !== usage) {
+        issues.push(`表单「${form.name}」的用途为 ${getFormUsage(form)}，不能作为 ${usage} 表单`);
+      }
+    }
+    return ids.map((id) => forms.find((form) => form.id === id)!);
+  };
+
+  const filterForms = await pickForms(locator.filterFormIds, "filter");
+  const submissionForms = await pickForms(locator.submissionFormIds, "submission");
+
+  const tableFormIds = tableForms.map((form) => form.id);
+  const operations = await prisma.dataOperationModel.findMany({
+    where: locator.operationIds
+      ? { id: { in: locator.operationIds } }
+      : {
+          OR: [
+            { storageModelId: storageModel.id },
+            { formModelId: { in: tableFormIds } }
+          ]
+        },
+    include: { formModel: true },
+    orderBy: { createdAt: "asc" }
+  });
+
+  if (locator.operationIds) {
+    ensureFound(operations, locator.operationIds, (operation) => operation.id, "操作模型");
+    for (const operation of operations) {
+      const ownedByModel = operation.storageModelId === storageModel.id;
+      const ownedByTable = operation.formModel?.storageTableId === storageTable.id;
+      if (!ownedByModel && !ownedByTable) {
+        issues.push(`操作「${operation.name}」未关联当前数据表或存储模型`);
+      }
+    }
+  }
+
+  if (issues.length) {
+    throw new AdminTableConfigError(issues);
+  }
+
+  const orderedOperations = locator.operationIds
+    ? locator.operationIds.map((id) => operations.find((operation) => operation.id === id)!)
+    : operations;
+
+  return {
+    storageModel,
+    storageTable,
+    view,
+    filterForms,
+    submissionForms,
+    operations: orderedOperations
+  };
+}
+
+export async function buildAdminTablePageConfig(
+  locator: AdminTableModelLocator
+): Promise<AdminTableGenerationResult> {
+  const sources = await loadAdminTableSources(locator);
+  return generateAdminTablePageConfig(sources);
+}
@@ -0,0 +1,162 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+import { prisma } from "@/lib/prisma";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+
+export class CredentialError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+type EncryptionKey = {
+  id: string;
+  key: Buffer;
+};
+
+export type EncryptedCredential = {
+  keyId: string;
+  ciphertext: string;
+};
+
+export type CredentialRotationResult = {
+  keyId: string;
+  rotated: number;
+  failed: Array<{ storageModelId: string; reason: string }>;
+};
+
+function parseKey(raw: string, name: string): EncryptionKey {
+  const value = raw.trim();
+  const key = /^[0-9a-f]{64}$/i.test(value)
+    ? Buffer.from(value, "hex")
+    : Buffer.from(value, "base64");
+
+  if (key.length !== 32) {
+    throw new CredentialError(`${name} 必须是 32 字节密钥的 base64 或 64 位十六进制字符串`, 500);
+  }
+
+  return { id: createHash("sha256").update(key).digest("hex").slice(0, 8), key };
+}
+
+/**
+ * 当前密钥来自 CREDENTIAL_ENCRYPTION_KEY；轮换时把旧密钥放入
+ * CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS（逗号分隔），旧密文仍可解密并在轮换后改用新密钥。
+ */
+function loadKeyring() {
+  const current = process.env.CREDENTIAL_ENCRYPTION_KEY;
+  if (!current) {
+    throw new CredentialError("未配置 CREDENTIAL_ENCRYPTION_KEY，无法保存或读取数据库凭据", 500);
+  }
+
+  const primary = parseKey(current, "CREDENTIAL_ENCRYPTION_KEY");
+  const keys = new Map<string, Buffer>([[primary.id, primary.key]]);
+
+  for (const raw of (process.env.CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS ?? "").split(",")) {
+    if (!raw.trim()) continue;
+    const previous = parseKey(raw, "CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS");
+    if (!keys.has(previous.id)) keys.set(previous.id, previous.key);
+  }
+
+  return { primary, keys };
+}
+
+export function isCredentialStoreConfigured() {
+  return Boolean(process.env.CREDENTIAL_ENCRYPTION_KEY);
+}
+
+/**
+ * ownerId 为凭据所属存储模型的 ID，作为附加认证数据参与加密，
+ * 密文被复制到其他模型后无法解密。
+ */
+export function encryptSecret(secret: string, ownerId: string): EncryptedCredential {
+  const { primary } = loadKeyring();
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, primary.key, iv);
+  cipher.setAAD(Buffer.from(ownerId, "utf8"));
+  const data = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return {
+    keyId: primary.id,
+    ciphertext: [
+      primary.id,
+      iv.toString("base64"),
+      tag.toString("base64"),
+      data.toString("base64")
+    ].join(":")
+  };
+}
+
+export function decryptSecret(ciphertext: string, ownerId: string): string {
+  const { keys } = loadKeyring();
+  const [keyId, iv, tag, data] = ciphertext.split(":");
+  const key = keys.get(keyId);
+
+  if (!key || !iv || !tag || data === undefined) {
+    throw new CredentialError(`凭据使用的密钥 ${keyId} 不可用，请检查密钥配置`, 500);
+  }
+
+  try {
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, "base64"));
+    decipher.setAAD(Buffer.from(ownerId, "utf8"));
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(data, "base64")),
+      decipher.final()
+    ]).toString("utf8");
+  } catch {
+    throw new CredentialError("凭据解密失败，密文可能已损坏或不属于该存储模型", 500);
+  }
+}
+
+export async function saveStorageCredential(storageModelId: string, secret: string) {
+  const encrypted = encryptSecret(secret, storageModelId);
+  return prisma.dataStorageCredential.upsert({
+    where: { storageModelId },
+    create: { storageModelId, ...encrypted },
+    update: encrypted,
+    select: { id: true, updatedAt: true }
+  });
+}
+
+export async function readStorageCredential(storageModelId: string): Promise<string | null> {
+  const credential = await prisma.dataStorageCredential.findUnique({
+    where: { storageModelId }
+  });
+  return credential ? decryptSecret(credential.ciphertext, storageModelId) : null;
+}
+
+export async function deleteStorageCredential(storageModelId: string) {
+  await prisma.dataStorageCredential.deleteMany({ where: { storageModelId } });
+}
+
+export async function rotateStorageCredentials(): Promise<CredentialRotationResult> {
+  const { primary } = loadKeyring();
+  const stale = await prisma.dataStorageCredential.findMany({
+    where: { keyId: { not: primary.id } }
+  });
+
+  const result: CredentialRotationResult = { keyId: primary.id, rotated: 0, failed: [] };
+  for (const credential of stale) {
+    try {
+      const secret = decryptSecret(credential.ciphertext, credential.storageModelId);
+      await prisma.dataStorageCredential.update({
+        where: { id: credential.id },
+        data: encryptSecret(secret, credential.storageModelId)
+      });
+      result.rotated += 1;
+    } catch (error) {
+      result.failed.push({
+        storageModelId: credential.storageModelId,
+        reason: error instanceof Error ? error.message : "未知错误"
+      });
+    }
+  }
+
+  return result;
+}
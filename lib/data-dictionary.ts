@@ -0,0 +1,166 @@
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { readReferencedColumns } from "@/lib/storage-sync";
+import type {
+  DataDictionary,
+  DataDictionaryColumn,
+  DataDictionaryTable
+} from "@/types/data-dictionary";
+import type { StorageTableSchema } from "@/types/models";
+
+export class DataDictionaryError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export type DataDictionaryScope = { storageModelId: string } | { domainModelId: string };
+
+const tableInclude = {
+  storageModel: { select: { id: true, name: true, database: true } },
+  views: { select: { id: true, name: true, layout: true } },
+  forms: {
+    select: {
+      id: true,
+      name: true,
+      schema: true,
+      operations: { select: { id: true, name: true } }
+    }
+  }
+} as const;
+
+type DictionarySourceTable = Prisma.DataStorageTableGetPayload<{ include: typeof tableInclude }>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readTableSchema(value: unknown): StorageTableSchema {
+  const schema = isRecord(value) ? (value as unknown as StorageTableSchema) : { columns: [] };
+  return { ...schema, columns: Array.isArray(schema.columns) ? schema.columns : [] };
+}
+
+function formatDefault(value: unknown) {
+  if (value === null || value === undefined) return null;
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function toReference(item: { id: string; name: string }) {
+  return { id: item.id, name: item.name };
+}
+
+function toDictionaryTable(table: DictionarySourceTable): DataDictionaryTable {
+  const schema = readTableSchema(table.schema);
+  const primaryKey = schema.primaryKey?.length
+    ? schema.primaryKey
+    : schema.columns.filter((column) => column.key === "PRI").map((column) => column.name);
+  const uniqueColumns = new Set(
+    (schema.uniqueConstraints ?? [])
+      .filter((constraint) => constraint.columns.length === 1)
+      .map((constraint) => constraint.columns[0])
+  );
+  const viewColumns = table.views.map((view) => ({
+    view,
+    columns: readReferencedColumns(view.layout)
+  }));
+  const formColumns = table.forms.map((form) => ({
+    form,
+    columns: readReferencedColumns(form.schema)
+  }));
+
+  const columns = schema.columns.map((column): DataDictionaryColumn => {
+    const foreignKey = (schema.foreignKeys ?? []).find((item) =>
+      item.columns.includes(column.name)
+    );
+    const referenced = foreignKey
+      ? foreignKey.referencedColumns[foreignKey.columns.indexOf(column.name)]
+      : null;
+    const forms = formColumns
+      .filter((item) => item.columns.includes(column.name))
+      .map((item) => item.form);
+
+    return {
+      name: column.name,
+      type: column.type ?? null,
+      nullable: column.nullable !== false,
+      primaryKey: primaryKey.includes(column.name),
+      unique: column.key === "UNI" || uniqueColumns.has(column.name),
+      autoIncrement: Boolean(column.autoIncrement),
+      default: formatDefault(column.default),
+      comment: column.comment || null,
+      references: foreignKey
+        ? `${foreignKey.referencedTable}.${referenced ?? foreignKey.referencedColumns.join(",")}`
+        : null,
+      views: viewColumns
+        .filter((item) => item.columns.includes(column.name))
+        .map((item) => toReference(item.view)),
+      forms: forms.map(toReference),
+      // 数据操作通过绑定的表单使用字段
+      operations: forms.flatMap((form) => form.operations).map(toReference)
+    };
+  });
+
+  return {
+    id: table.id,
+    name: table.name,
+    description: table.description,
+    storageModel: table.storageModel,
+    primaryKey,
+    indexes: (schema.indexes ?? []).map(
+      (index) => `${index.name}${index.unique ? "（唯一）" : ""}：${index.columns.join(", ")}`
+    ),
+    columns
+  };
+}
+
+/**
+ * 按存储模型或领域模型汇总数据表、字段与其被视图、表单、操作引用的情况。
+ */
+export async function buildDataDictionary(scope: DataDictionaryScope): Promise<DataDictionary> {
+  let title: string;
+  let description: string | null;
+  let tables: DictionarySourceTable[];
+
+  if ("storageModelId" in scope) {
+    const model = await prisma.dataStorageModel.findUnique({
+      where: { id: scope.storageModelId },
+      select: { name: true, description: true }
+    });
+    if (!model) {
+      throw new DataDictionaryError("数据存储模型不存在", 404);
+    }
+    title = model.name;
+    description = model.description;
+    tables = await prisma.dataStorageTable.findMany({
+      where: { storageModelId: scope.storageModelId },
+      include: tableInclude,
+      orderBy: { name: "asc" }
+    });
+  } else {
+    const domain = await prisma.dataDomainModel.findUnique({
+      where: { id: scope.domainModelId },
+      select: { name: true, description: true }
+    });
+    if (!domain) {
+      throw new DataDictionaryError("领域模型不存在", 404);
+    }
+    title = domain.name;
+    description = domain.description;
+    tables = await prisma.dataStorageTable.findMany({
+      where: { domainModels: { some: { domainModelId: scope.domainModelId } } },
+      include: tableInclude,
+      orderBy: { name: "asc" }
+    });
+  }
+
+  return {
+    title,
+    description,
+    generatedAt: new Date().toISOString(),
+    tables: tables.map(toDictionaryTable)
+  };
+}
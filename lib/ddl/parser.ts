@@ -0,0 +1,715 @@
+import { DdlSyntaxError, splitStatements, type Token } from "@/lib/ddl/tokenizer";
+import type {
+  ColumnSchema,
+  DatabaseDialect,
+  ForeignKeySchema,
+  IndexSchema,
+  TableSchema,
+  UniqueConstraintSchema
+} from "@/lib/introspection";
+
+export type DdlSkippedStatement = {
+  statement: string;
+  reason: string;
+};
+
+export type DdlParseResult = {
+  tables: TableSchema[];
+  skipped: DdlSkippedStatement[];
+};
+
+type TableDraft = {
+  name: string;
+  description: string | null;
+  columns: ColumnSchema[];
+  primaryKey: string[];
+  uniqueConstraints: UniqueConstraintSchema[];
+  indexes: IndexSchema[];
+  foreignKeys: ForeignKeySchema[];
+};
+
+const COLUMN_CONSTRAINT_WORDS = new Set([
+  "NOT",
+  "NULL",
+  "DEFAULT",
+  "PRIMARY",
+  "UNIQUE",
+  "KEY",
+  "COMMENT",
+  "AUTO_INCREMENT",
+  "AUTOINCREMENT",
+  "REFERENCES",
+  "CHECK",
+  "CONSTRAINT",
+  "COLLATE",
+  "CHARSET",
+  "GENERATED",
+  "AS",
+  "VIRTUAL",
+  "STORED",
+  "VISIBLE",
+  "INVISIBLE",
+  "COLUMN_FORMAT",
+  "STORAGE",
+  "SRID"
+]);
+
+const TABLE_CONSTRAINT_WORDS = new Set([
+  "CONSTRAINT",
+  "PRIMARY",
+  "UNIQUE",
+  "KEY",
+  "INDEX",
+  "FULLTEXT",
+  "SPATIAL",
+  "FOREIGN",
+  "CHECK",
+  "EXCLUDE"
+]);
+
+const SERIAL_TYPES = new Set(["serial", "bigserial", "smallserial", "serial2", "serial4", "serial8"]);
+
+const STATEMENT_PREVIEW_LENGTH = 200;
+
+class Cursor {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  peek(offset = 0): Token | undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  next(): Token {
+    const token = this.tokens[this.index];
+    if (!token) {
+      throw new DdlSyntaxError("语句意外结束");
+    }
+    this.index += 1;
+    return token;
+  }
+
+  done() {
+    return this.index >= this.tokens.length;
+  }
+
+  rest(): Token[] {
+    const tokens = this.tokens.slice(this.index);
+    this.index = this.tokens.length;
+    return tokens;
+  }
+
+  isWord(word: string, offset = 0) {
+    const token = this.peek(offset);
+    return token?.type === "word" && token.value.toUpperCase() === word;
+  }
+
+  isAnyWord(words: Set<string>, offset = 0) {
+    const token = this.peek(offset);
+    return token?.type === "word" && words.has(token.value.toUpperCase());
+  }
+
+  acceptWord(...words: string[]) {
+    if (words.every((word, offset) => this.isWord(word, offset))) {
+      this.index += words.length;
+      return true;
+    }
+    return false;
+  }
+
+  expectWord(word: string) {
+    if (!this.acceptWord(word)) {
+      throw new DdlSyntaxError(`缺少关键字 ${word}`);
+    }
+  }
+
+  isSymbol(symbol: string, offset = 0) {
+    const token = this.peek(offset);
+    return token?.type === "symbol" && token.value === symbol;
+  }
+
+  acceptSymbol(symbol: string) {
+    if (this.isSymbol(symbol)) {
+      this.index += 1;
+      return true;
+    }
+    return false;
+  }
+
+  readName(): string {
+    const token = this.next();
+    if (token.type !== "word" && token.type !== "identifier") {
+      throw new DdlSyntaxError(`无法识别的名称：${token.value}`);
+    }
+    return token.value;
+  }
+
+  readQualifiedName(): string[] {
+    const parts = [this.readName()];
+    while (this.acceptSymbol(".")) {
+      parts.push(this.readName());
+    }
+    return parts;
+  }
+
+  readGroup(): Token[] {
+    if (!this.acceptSymbol("(")) {
+      throw new DdlSyntaxError("缺少左括号");
+    }
+    const start = this.index;
+    let depth = 1;
+    while (!this.done()) {
+      const token = this.next();
+      if (token.type === "symbol" && token.value === "(") depth += 1;
+      if (token.type === "symbol" && token.value === ")") {
+        depth -= 1;
+        if (depth === 0) {
+          return this.tokens.slice(start, this.index - 1);
+        }
+      }
+    }
+    throw new DdlSyntaxError("括号未闭合");
+  }
+}
+
+function splitTopLevel(tokens: Token[]): Token[][] {
+  const parts: Token[][] = [];
+  let current: Token[] = [];
+  let depth = 0;
+  for (const token of tokens) {
+    if (token.type === "symbol" && token.value === "(") depth += 1;
+    if (token.type === "symbol" && token.value === ")") depth -= 1;
+    if (depth === 0 && token.type === "symbol" && token.value === ",") {
+      if (current.length) parts.push(current);
+      current = [];
+      continue;
+    }
+    current.push(token);
+  }
+  if (current.length) parts.push(current);
+  return parts;
+}
+
+function formatTokens(tokens: Token[], lowercaseWords: boolean) {
+  let text = "";
+  let previous: Token | undefined;
+  for (const token of tokens) {
+    const value =
+      token.type === "string"
+        ? `'${token.value.replace(/'/g, "''")}'`
+        : token.type === "word" && lowercaseWords
+          ? token.value.toLowerCase()
+          : token.value;
+    const glued =
+      !previous ||
+      (token.type === "symbol" && [")", ",", "(", "[", "]", "::", "."].includes(token.value)) ||
+      (previous.type === "symbol" && ["(", "[", ",", "::", "."].includes(previous.value));
+    text += glued ? value : ` ${value}`;
+    previous = token;
+  }
+  return text;
+}
+
+function lastName(parts: string[]) {
+  return parts[parts.length - 1];
+}
+
+function readColumnList(tokens: Token[]): string[] {
+  return splitTopLevel(tokens)
+    .map((item) => {
+      const [first, second] = item;
+      if (!first || (first.type !== "word" && first.type !== "identifier")) return null;
+      // 函数/表达式索引无法映射到具体字段
+      if (second?.type === "symbol" && second.value === "(" && first.type === "word") {
+        const isPrefixLength = item[2]?.type === "number";
+        return isPrefixLength ? first.value : null;
+      }
+      return first.value;
+    })
+    .filter((name): name is string => Boolean(name));
+}
+
+function readReferentialAction(cursor: Cursor): string {
+  if (cursor.acceptWord("SET", "NULL")) return "SET NULL";
+  if (cursor.acceptWord("SET", "DEFAULT")) return "SET DEFAULT";
+  if (cursor.acceptWord("NO", "ACTION")) return "NO ACTION";
+  return cursor.next().value.toUpperCase();
+}
+
+function readReference(
+  cursor: Cursor,
+  name: string | null,
+  columns: string[]
+): ForeignKeySchema {
+  const referencedTable = lastName(cursor.readQualifiedName());
+  const referencedColumns = cursor.isSymbol("(") ? readColumnList(cursor.readGroup()) : [];
+  const foreignKey: ForeignKeySchema = {
+    name,
+    columns,
+    referencedTable,
+    referencedColumns,
+    onDelete: null,
+    onUpdate: null
+  };
+
+  while (!cursor.done()) {
+    if (cursor.acceptWord("ON", "DELETE")) {
+      foreignKey.onDelete = readReferentialAction(cursor);
+    } else if (cursor.acceptWord("ON", "UPDATE")) {
+      foreignKey.onUpdate = readReferentialAction(cursor);
+    } else if (cursor.acceptWord("MATCH")) {
+      cursor.next();
+    } else if (cursor.acceptWord("NOT", "DEFERRABLE") || cursor.acceptWord("DEFERRABLE")) {
+      continue;
+    } else if (cursor.acceptWord("INITIALLY")) {
+      cursor.next();
+    } else {
+      break;
+    }
+  }
+
+  return foreignKey;
+}
+
+function readDefault(cursor: Cursor): unknown {
+  const tokens: Token[] = [];
+  while (!cursor.done()) {
+    if (cursor.isAnyWord(COLUMN_CONSTRAINT_WORDS) && tokens.length) break;
+    if (cursor.isWord("ON", 0) && cursor.isWord("UPDATE", 1)) break;
+    if (cursor.isSymbol("(")) {
+      const group = cursor.readGroup();
+      tokens.push(
+        { type: "symbol", value: "(", start: 0, end: 0 },
+        ...group,
+        { type: "symbol", value: ")", start: 0, end: 0 }
+      );
+      continue;
+    }
+    const token = cursor.next();
+    tokens.push(token);
+    if (token.type === "word" && token.value.toUpperCase() === "NULL" && tokens.length === 1) break;
+  }
+
+  const [first, second] = tokens;
+  if (tokens.length === 1 && first.type === "word" && first.value.toUpperCase() === "NULL") {
+    return null;
+  }
+  if (first?.type === "string" && (tokens.length === 1 || second?.value === "::")) {
+    return first.value;
+  }
+  return formatTokens(tokens, false);
+}
+
+function readIndexName(cursor: Cursor): string | null {
+  if (cursor.isSymbol("(") || cursor.isWord("USING") || cursor.done()) return null;
+  return cursor.readName();
+}
+
+function skipIndexType(cursor: Cursor): string | null {
+  if (cursor.acceptWord("USING")) {
+    return cursor.next().value.toUpperCase();
+  }
+  return null;
+}
+
+function addUnique(table: TableDraft, name: string | null, columns: string[], type: string | null) {
+  if (!columns.length) return;
+  table.uniqueConstraints.push({ name, columns });
+  table.indexes.push({ name: name ?? columns.join("_"), columns, unique: true, type });
+}
+
+function parseColumnDefinition(cursor: Cursor, table: TableDraft) {
+  const name = cursor.readName();
+  const typeTokens: Token[] = [];
+
+  while (!cursor.done()) {
+    if (cursor.isAnyWord(COLUMN_CONSTRAINT_WORDS) && typeTokens.length) break;
+    if (cursor.isWord("CHARACTER") && cursor.isWord("SET", 1)) break;
+    if (cursor.isWord("ON") && cursor.isWord("UPDATE", 1)) break;
+    if (cursor.isSymbol("(")) {
+      const group = cursor.readGroup();
+      typeTokens.push(
+        { type: "symbol", value: "(", start: 0, end: 0 },
+        ...group,
+        { type: "symbol", value: ")", start: 0, end: 0 }
+      );
+      continue;
+    }
+    typeTokens.push(cursor.next());
+  }
+
+  const type = formatTokens(typeTokens, true);
+  const column: ColumnSchema = {
+    name,
+    type: type || undefined,
+    key: null,
+    nullable: true,
+    default: null,
+    comment: null
+  };
+
+  if (SERIAL_TYPES.has(type)) {
+    column.autoIncrement = true;
+    column.nullable = false;
+  }
+
+  let isPrimary = false;
+  let isUnique = false;
+
+  while (!cursor.done()) {
+    if (cursor.acceptWord("NOT", "NULL")) {
+      column.nullable = false;
+    } else if (cursor.acceptWord("NULL")) {
+      column.nullable = true;
+    } else if (cursor.acceptWord("DEFAULT")) {
+      column.default = readDefault(cursor);
+    } else if (cursor.acceptWord("PRIMARY", "KEY") || cursor.acceptWord("KEY")) {
+      isPrimary = true;
+    } else if (cursor.acceptWord("UNIQUE")) {
+      cursor.acceptWord("KEY");
+      isUnique = true;
+    } else if (cursor.acceptWord("COMMENT")) {
+      const token = cursor.next();
+      column.comment = token.type === "string" ? token.value : null;
+    } else if (cursor.acceptWord("AUTO_INCREMENT") || cursor.acceptWord("AUTOINCREMENT")) {
+      column.autoIncrement = true;
+    } else if (cursor.acceptWord("REFERENCES")) {
+      table.foreignKeys.push(readReference(cursor, null, [name]));
+    } else if (cursor.acceptWord("CHECK")) {
+      cursor.readGroup();
+    } else if (cursor.acceptWord("CONSTRAINT")) {
+      cursor.readName();
+    } else if (cursor.acceptWord("CHARACTER", "SET") || cursor.acceptWord("CHARSET")) {
+      cursor.readName();
+    } else if (cursor.acceptWord("COLLATE")) {
+      cursor.readName();
+    } else if (cursor.acceptWord("ON", "UPDATE")) {
+      cursor.next();
+      if (cursor.isSymbol("(")) cursor.readGroup();
+    } else if (cursor.acceptWord("GENERATED")) {
+      if (cursor.acceptWord("BY", "DEFAULT")) {
+        cursor.acceptWord("ON", "NULL");
+      } else {
+        cursor.acceptWord("ALWAYS");
+      }
+      cursor.expectWord("AS");
+      if (cursor.acceptWord("IDENTITY")) {
+        column.autoIncrement = true;
+        column.nullable = false;
+        if (cursor.isSymbol("(")) cursor.readGroup();
+      } else if (cursor.isSymbol("(")) {
+        cursor.readGroup();
+      }
+    } else if (cursor.acceptWord("AS")) {
+      if (cursor.isSymbol("(")) cursor.readGroup();
+    } else {
+      cursor.next();
+    }
+  }
+
+  if (isPrimary) {
+    column.nullable = false;
+    table.primaryKey = [name];
+  }
+  if (isUnique) {
+    addUnique(table, null, [name], null);
+  }
+
+  table.columns.push(column);
+}
+
+function findColumn(table: TableDraft, name: string) {
+  const column = table.columns.find((item) => item.name === name);
+  if (!column) {
+    throw new DdlSyntaxError(`字段 ${name} 未在数据表 ${table.name} 中定义`);
+  }
+  return column;
+}
+
+function replaceColumn(table: TableDraft, previousName: string, tokens: Token[]) {
+  const index = table.columns.indexOf(findColumn(table, previousName));
+  const draft = createDraft(table.name);
+  parseColumnDefinition(new Cursor(tokens), draft);
+  const [column] = draft.columns;
+  table.columns.splice(index, 1, column);
+  if (draft.primaryKey.length) table.primaryKey = draft.primaryKey;
+  table.uniqueConstraints.push(...draft.uniqueConstraints);
+  table.indexes.push(...draft.indexes);
+  table.foreignKeys.push(...draft.foreignKeys);
+}
+
+function parseTableItem(tokens: Token[], table: TableDraft) {
+  const cursor = new Cursor(tokens);
+
+  if (!cursor.isAnyWord(TABLE_CONSTRAINT_WORDS)) {
+    parseColumnDefinition(cursor, table);
+    return;
+  }
+
+  let constraintName: string | null = null;
+  if (cursor.acceptWord("CONSTRAINT")) {
+    if (!cursor.isAnyWord(TABLE_CONSTRAINT_WORDS)) {
+      constraintName = cursor.readName();
+    }
+  }
+
+  if (cursor.acceptWord("PRIMARY", "KEY")) {
+    skipIndexType(cursor);
+    table.primaryKey = readColumnList(cursor.readGroup());
+    return;
+  }
+
+  if (cursor.acceptWord("UNIQUE")) {
+    if (!cursor.acceptWord("KEY")) cursor.acceptWord("INDEX");
+    const indexName = readIndexName(cursor);
+    const type = skipIndexType(cursor);
+    addUnique(table, constraintName ?? indexName, readColumnList(cursor.readGroup()), type);
+    return;
+  }
+
+  if (cursor.acceptWord("FOREIGN", "KEY")) {
+    const indexName = readIndexName(cursor);
+    const columns = readColumnList(cursor.readGroup());
+    cursor.expectWord("REFERENCES");
+    table.foreignKeys.push(readReference(cursor, constraintName ?? indexName, columns));
+    return;
+  }
+
+  if (cursor.isWord("CHECK") || cursor.isWord("EXCLUDE")) {
+    return;
+  }
+
+  let type: string | null = null;
+  if (cursor.acceptWord("FULLTEXT")) type = "FULLTEXT";
+  else if (cursor.acceptWord("SPATIAL")) type = "SPATIAL";
+  if (!cursor.acceptWord("KEY")) cursor.acceptWord("INDEX");
+  const indexName = readIndexName(cursor);
+  type = skipIndexType(cursor) ?? type;
+  const columns = readColumnList(cursor.readGroup());
+  if (columns.length) {
+    table.indexes.push({ name: indexName ?? columns.join("_"), columns, unique: false, type });
+  }
+}
+
+function createDraft(name: string): TableDraft {
+  return {
+    name,
+    description: null,
+    columns: [],
+    primaryKey: [],
+    uniqueConstraints: [],
+    indexes: [],
+    foreignKeys: []
+  };
+}
+
+function finalizeTable(table: TableDraft, tables: Map<string, TableDraft>): TableSchema {
+  const primary = new Set(table.primaryKey);
+  const unique = new Set(
+    table.uniqueConstraints
+      .filter((constraint) => constraint.columns.length === 1)
+      .map((constraint) => constraint.columns[0])
+  );
+  const indexed = new Set([
+    ...table.indexes.filter((index) => !index.unique).map((index) => index.columns[0]),
+    ...table.foreignKeys.map((foreignKey) => foreignKey.columns[0])
+  ]);
+
+  const foreignKeys = table.foreignKeys.map((foreignKey) => {
+    if (foreignKey.referencedColumns.length) return foreignKey;
+    const target = tables.get(foreignKey.referencedTable.toLowerCase());
+    return { ...foreignKey, referencedColumns: target?.primaryKey ?? [] };
+  });
+
+  return {
+    name: table.name,
+    description: table.description,
+    columns: table.columns.map((column) => ({
+      ...column,
+      nullable: primary.has(column.name) ? false : column.nullable,
+      key: primary.has(column.name)
+        ? "PRI"
+        : unique.has(column.name)
+          ? "UNI"
+          : indexed.has(column.name)
+            ? "MUL"
+            : null
+    })),
+    primaryKey: table.primaryKey,
+    uniqueConstraints: table.uniqueConstraints,
+    indexes: table.indexes,
+    foreignKeys
+  };
+}
+
+function preview(text: string) {
+  const collapsed = text.replace(/\s+/g, " ").trim();
+  return collapsed.length > STATEMENT_PREVIEW_LENGTH
+    ? `${collapsed.slice(0, STATEMENT_PREVIEW_LENGTH)}...`
+    : collapsed;
+}
+
+export function parseDdl(sql: string, dialect: DatabaseDialect): DdlParseResult {
+  const tables = new Map<string, TableDraft>();
+  const skipped: DdlSkippedStatement[] = [];
+
+  const findTable = (parts: string[]) => {
+    const name = lastName(parts);
+    const table = tables.get(name.toLowerCase());
+    if (!table) {
+      throw new DdlSyntaxError(`数据表 ${name} 未在脚本中定义`);
+    }
+    return table;
+  };
+
+  for (const statement of splitStatements(sql, dialect)) {
+    const cursor = new Cursor(statement.tokens);
+    const skip = (reason: string) => skipped.push({ statement: preview(statement.text), reason });
+
+    try {
+      if (cursor.acceptWord("CREATE")) {
+        cursor.acceptWord("OR", "REPLACE");
+        if (!cursor.acceptWord("TEMPORARY")) cursor.acceptWord("TEMP");
+        cursor.acceptWord("UNLOGGED");
+
+        if (cursor.acceptWord("TABLE")) {
+          cursor.acceptWord("IF", "NOT", "EXISTS");
+          const name = lastName(cursor.readQualifiedName());
+          if (!cursor.isSymbol("(")) {
+            skip("仅支持带字段定义的 CREATE TABLE 语句（不支持 LIKE / AS / PARTITION OF）");
+            continue;
+          }
+
+          const table = createDraft(name);
+          for (const item of splitTopLevel(cursor.readGroup())) {
+            parseTableItem(item, table);
+          }
+          while (!cursor.done()) {
+            if (cursor.acceptWord("COMMENT")) {
+              cursor.acceptSymbol("=");
+              const token = cursor.next();
+              if (token.type === "string") table.description = token.value || null;
+            } else {
+              cursor.next();
+            }
+          }
+          tables.set(name.toLowerCase(), table);
+          continue;
+        }
+
+        const unique = cursor.acceptWord("UNIQUE");
+        let type: string | null = null;
+        if (cursor.acceptWord("FULLTEXT")) type = "FULLTEXT";
+        else if (cursor.acceptWord("SPATIAL")) type = "SPATIAL";
+
+        if (cursor.acceptWord("INDEX")) {
+          cursor.acceptWord("CONCURRENTLY");
+          cursor.acceptWord("IF", "NOT", "EXISTS");
+          const indexName = cursor.isWord("ON") || cursor.isWord("USING")
+            ? null
+            : lastName(cursor.readQualifiedName());
+          type = skipIndexType(cursor) ?? type;
+          cursor.expectWord("ON");
+          cursor.acceptWord("ONLY");
+          const table = findTable(cursor.readQualifiedName());
+          type = skipIndexType(cursor) ?? type;
+          const columns = readColumnList(cursor.readGroup());
+          if (!columns.length) {
+            skip("表达式索引无法映射到具体字段");
+            continue;
+          }
+          if (unique) {
+            addUnique(table, indexName, columns, type);
+          } else {
+            table.indexes.push({ name: indexName ?? columns.join("_"), columns, unique, type });
+          }
+          continue;
+        }
+
+        skip(`不支持的 CREATE 语句：${cursor.peek()?.value ?? ""}`);
+        continue;
+      }
+
+      if (cursor.acceptWord("ALTER", "TABLE")) {
+        cursor.acceptWord("IF", "EXISTS");
+        cursor.acceptWord("ONLY");
+        const table = findTable(cursor.readQualifiedName());
+        const unsupported: string[] = [];
+
+        for (const action of splitTopLevel(cursor.rest())) {
+          const actionCursor = new Cursor(action);
+          if (actionCursor.acceptWord("ADD")) {
+            actionCursor.acceptWord("COLUMN");
+            actionCursor.acceptWord("IF", "NOT", "EXISTS");
+            parseTableItem(actionCursor.rest(), table);
+          } else if (actionCursor.acceptWord("MODIFY")) {
+            actionCursor.acceptWord("COLUMN");
+            const tokens = actionCursor.rest();
+            replaceColumn(table, tokens[0]?.value ?? "", tokens);
+          } else if (actionCursor.acceptWord("CHANGE")) {
+            actionCursor.acceptWord("COLUMN");
+            const previousName = actionCursor.readName();
+            replaceColumn(table, previousName, actionCursor.rest());
+          } else if (actionCursor.acceptWord("ALTER")) {
+            actionCursor.acceptWord("COLUMN");
+            const column = findColumn(table, actionCursor.readName());
+            if (actionCursor.acceptWord("SET", "DEFAULT")) {
+              column.default = readDefault(actionCursor);
+            } else if (actionCursor.acceptWord("DROP", "DEFAULT")) {
+              column.default = null;
+            } else if (actionCursor.acceptWord("SET", "NOT", "NULL")) {
+              column.nullable = false;
+            } else if (actionCursor.acceptWord("DROP", "NOT", "NULL")) {
+              column.nullable = true;
+            } else {
+              unsupported.push("ALTER COLUMN");
+            }
+          } else {
+            unsupported.push(action[0]?.value.toUpperCase() ?? "");
+          }
+        }
+
+        if (unsupported.length) {
+          skip(`ALTER TABLE 中的 ${Array.from(new Set(unsupported)).join("、")} 子句未处理`);
+        }
+        continue;
+      }
+
+      if (cursor.acceptWord("COMMENT", "ON")) {
+        if (cursor.acceptWord("TABLE")) {
+          const table = findTable(cursor.readQualifiedName());
+          cursor.expectWord("IS");
+          const token = cursor.next();
+          table.description = token.type === "string" ? token.value || null : null;
+          continue;
+        }
+        if (cursor.acceptWord("COLUMN")) {
+          const parts = cursor.readQualifiedName();
+          if (parts.length < 2) {
+            throw new DdlSyntaxError("COMMENT ON COLUMN 需要指定 表名.字段名");
+          }
+          const column = findColumn(findTable(parts.slice(0, -1)), lastName(parts));
+          cursor.expectWord("IS");
+          const token = cursor.next();
+          column.comment = token.type === "string" ? token.value : null;
+          continue;
+        }
+        skip("仅支持 COMMENT ON TABLE / COLUMN");
+        continue;
+      }
+
+      skip(`非建表语句（${statement.tokens[0].value.toUpperCase()}）`);
+    } catch (error) {
+      if (error instanceof DdlSyntaxError) {
+        skip(`解析失败：${error.message}`);
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return {
+    tables: Array.from(tables.values()).map((table) => finalizeTable(table, tables)),
+    skipped
+  };
+}
@@ -0,0 +1,154 @@
+import type { DatabaseDialect } from "@/lib/introspection";
+
+export type TokenType = "word" | "identifier" | "string" | "number" | "symbol";
+
+export type Token = {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+};
+
+export type RawStatement = {
+  tokens: Token[];
+  text: string;
+};
+
+const WORD_START = /[A-Za-z_\u0080-\uffff]/;
+const WORD_PART = /[A-Za-z0-9_$\u0080-\uffff]/;
+const MULTI_CHAR_SYMBOLS = ["::", "<=", ">=", "<>", "!=", "||"];
+
+export class DdlSyntaxError extends Error {}
+
+function readQuoted(sql: string, start: number, quote: string, backslashEscapes: boolean) {
+  let value = "";
+  let index = start + 1;
+  while (index < sql.length) {
+    const char = sql[index];
+    if (backslashEscapes && char === "\\" && index + 1 < sql.length) {
+      const next = sql[index + 1];
+      value += next === "n" ? "\n" : next === "t" ? "\t" : next === "0" ? "\0" : next;
+      index += 2;
+      continue;
+    }
+    if (char === quote) {
+      if (sql[index + 1] === quote) {
+        value += quote;
+        index += 2;
+        continue;
+      }
+      return { value, end: index + 1 };
+    }
+    value += char;
+    index += 1;
+  }
+  throw new DdlSyntaxError(`第 ${start} 个字符处的 ${quote} 未闭合`);
+}
+
+export function tokenize(sql: string, dialect: DatabaseDialect): Token[] {
+  const tokens: Token[] = [];
+  const isMysql = dialect === "mysql";
+  let index = 0;
+
+  while (index < sql.length) {
+    const char = sql[index];
+    const next = sql[index + 1];
+
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    if ((char === "-" && next === "-") || (isMysql && char === "#")) {
+      const lineEnd = sql.indexOf("\n", index);
+      index = lineEnd === -1 ? sql.length : lineEnd + 1;
+      continue;
+    }
+
+    if (char === "/" && next === "*") {
+      const commentEnd = sql.indexOf("*/", index + 2);
+      index = commentEnd === -1 ? sql.length : commentEnd + 2;
+      continue;
+    }
+
+    if (char === "'" || (isMysql && char === '"')) {
+      const { value, end } = readQuoted(sql, index, char, isMysql);
+      tokens.push({ type: "string", value, start: index, end });
+      index = end;
+      continue;
+    }
+
+    if (char === "`" || (!isMysql && char === '"')) {
+      const { value, end } = readQuoted(sql, index, char, false);
+      tokens.push({ type: "identifier", value, start: index, end });
+      index = end;
+      continue;
+    }
+
+    if (!isMysql && char === "$") {
+      const tagMatch = /^\$[A-Za-z_]*\$/.exec(sql.slice(index));
+      if (tagMatch) {
+        const tag = tagMatch[0];
+        const bodyEnd = sql.indexOf(tag, index + tag.length);
+        if (bodyEnd === -1) {
+          throw new DdlSyntaxError(`第 ${index} 个字符处的 ${tag} 未闭合`);
+        }
+        tokens.push({
+          type: "string",
+          value: sql.slice(index + tag.length, bodyEnd),
+          start: index,
+          end: bodyEnd + tag.length
+        });
+        index = bodyEnd + tag.length;
+        continue;
+      }
+    }
+
+    if (/[0-9]/.test(char) || (char === "." && next !== undefined && /[0-9]/.test(next))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(sql.slice(index))!;
+      tokens.push({ type: "number", value: match[0], start: index, end: index + match[0].length });
+      index += match[0].length;
+      continue;
+    }
+
+    if (WORD_START.test(char)) {
+      let end = index + 1;
+      while (end < sql.length && WORD_PART.test(sql[end])) end += 1;
+      tokens.push({ type: "word", value: sql.slice(index, end), start: index, end });
+      index = end;
+      continue;
+    }
+
+    const symbol = MULTI_CHAR_SYMBOLS.find((item) => sql.startsWith(item, index)) ?? char;
+    tokens.push({ type: "symbol", value: symbol, start: index, end: index + symbol.length });
+    index += symbol.length;
+  }
+
+  return tokens;
+}
+
+export function splitStatements(sql: string, dialect: DatabaseDialect): RawStatement[] {
+  const statements: RawStatement[] = [];
+  let current: Token[] = [];
+
+  const flush = () => {
+    if (current.length) {
+      statements.push({
+        tokens: current,
+        text: sql.slice(current[0].start, current[current.length - 1].end)
+      });
+    }
+    current = [];
+  };
+
+  for (const token of tokenize(sql, dialect)) {
+    if (token.type === "symbol" && token.value === ";") {
+      flush();
+    } else {
+      current.push(token);
+    }
+  }
+  flush();
+
+  return statements;
+}
@@ -0,0 +1,198 @@
+import { prisma } from "@/lib/prisma";
+import type { DeleteImpact } from "@/types/delete-impact";
+import type { ModelKind } from "@/types/models";
+import type { ModelReference } from "@/types/storage-sync";
+
+export class DeleteImpactError extends Error {
+  status: number;
+
+  constructor(message: string, status = 409) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const KIND_LABELS: Record<ModelKind, string> = {
+  storage: "数据存储模型",
+  view: "视图模型",
+  form: "表单模型",
+  operation: "操作模型",
+  domain: "业务领域模型"
+};
+
+const referenceSelect = { id: true, name: true } as const;
+
+type ImpactTarget = Omit<DeleteImpact, "kind" | "hasDependents">;
+
+function emptyTarget(model: ModelReference): ImpactTarget {
+  return { ...model, tables: [], views: [], forms: [], operations: [], domains: [] };
+}
+
+async function analyzeStorageModel(id: string): Promise<ImpactTarget | null> {
+  const model = await prisma.dataStorageModel.findUnique({
+    where: { id },
+    select: { ...referenceSelect, tables: { select: referenceSelect } }
+  });
+  if (!model) return null;
+
+  const tableIds = model.tables.map((table) => table.id);
+  const [views, forms] = await Promise.all([
+    prisma.dataViewModel.findMany({
+      where: { OR: [{ storageModelId: id }, { storageTableId: { in: tableIds } }] },
+      select: referenceSelect
+    }),
+    prisma.dataFormModel.findMany({
+      where: { storageTableId: { in: tableIds } },
+      select: referenceSelect
+    })
+  ]);
+  const viewIds = views.map((view) => view.id);
+  const formIds = forms.map((form) => form.id);
+
+  // 操作模型本身不会被删除，但直接引用该存储模型或级联删除表单的操作会失去关联
+  const [operations, domains] = await Promise.all([
+    prisma.dataOperationModel.findMany({
+      where: { OR: [{ storageModelId: id }, { formModelId: { in: formIds } }] },
+      select: referenceSelect
+    }),
+    prisma.dataDomainModel.findMany({
+      where: {
+        OR: [
+          { storageTables: { some: { storageTableId: { in: tableIds } } } },
+          { viewModels: { some: { viewModelId: { in: viewIds } } } },
+          { formModels: { some: { formModelId: { in: formIds } } } }
+        ]
+      },
+      select: referenceSelect
+    })
+  ]);
+
+  return {
+    id: model.id,
+    name: model.name,
+    tables: model.tables,
+    views,
+    forms,
+    operations,
+    domains
+  };
+}
+
+async function analyzeViewModel(id: string): Promise<ImpactTarget | null> {
+  const view = await prisma.dataViewModel.findUnique({ where: { id }, select: referenceSelect });
+  if (!view) return null;
+
+  const domains = await prisma.dataDomainModel.findMany({
+    where: { viewModels: { some: { viewModelId: id } } },
+    select: referenceSelect
+  });
+
+  return { ...emptyTarget(view), domains };
+}
+
+async function analyzeFormModel(id: string): Promise<ImpactTarget | null> {
+  const form = await prisma.dataFormModel.findUnique({ where: { id }, select: referenceSelect });
+  if (!form) return null;
+
+  const [operations, domains] = await Promise.all([
+    prisma.dataOperationModel.findMany({
+      where: { formModelId: id },
+      select: referenceSelect
+    }),
+    prisma.dataDomainModel.findMany({
+      where: { formModels: { some: { formModelId: id } } },
+      select: referenceSelect
+    })
+  ]);
+
+  return { ...emptyTarget(form), operations, domains };
+}
+
+async function analyzeOperationModel(id: string): Promise<ImpactTarget | null> {
+  const operation = await prisma.dataOperationModel.findUnique({
+    where: { id },
+    select: referenceSelect
+  });
+  if (!operation) return null;
+
+  const domains = await prisma.dataDomainModel.findMany({
+    where: { operationModels: { some: { operationModelId: id } } },
+    select: referenceSelect
+  });
+
+  return { ...emptyTarget(operation), domains };
+}
+
+// 领域模型只持有关联关系，没有其他模型依赖它
+async function analyzeDomainModel(id: string): Promise<ImpactTarget | null> {
+  const domain = await prisma.dataDomainModel.findUnique({
+    where: { id },
+    select: referenceSelect
+  });
+  return domain ? emptyTarget(domain) : null;
+}
+
+const ANALYZERS: Record<ModelKind, (id: string) => Promise<ImpactTarget | null>> = {
+  storage: analyzeStorageModel,
+  view: analyzeViewModel,
+  form: analyzeFormModel,
+  operation: analyzeOperationModel,
+  domain: analyzeDomainModel
+};
+
+export async function analyzeDeleteImpact(
+  kind: ModelKind,
+  id: string
+): Promise<DeleteImpact | null> {
+  const target = await ANALYZERS[kind](id);
+  if (!target) return null;
+
+  return {
+    kind,
+    ...target,
+    hasDependents: Boolean(
+      target.views.length ||
+        target.forms.length ||
+        target.operations.length ||
+        target.domains.length
+    )
+  };
+}
+
+export function describeDependents(impact: DeleteImpact) {
+  return [
+    impact.views.length ? `${impact.views.length} 个视图` : null,
+    impact.forms.length ? `${impact.forms.length} 个表单` : null,
+    impact.operations.length ? `${impact.operations.length} 个操作` : null,
+    impact.domains.length ? `${impact.domains.length} 个业务领域` : null
+  ]
+    .filter(Boolean)
+    .join("、");
+}
+
+/**
+ * 供 DELETE 接口使用：模型不存在时抛出 404；restrict 为 true 且存在依赖时抛出 409 阻止删除。
+ */
+export async function ensureDeletable(
+  kind: ModelKind,
+  id: string,
+  restrict: boolean
+) {
+  const impact = await analyzeDeleteImpact(kind, id);
+  if (!impact) {
+    throw new DeleteImpactError(`${KIND_LABELS[kind]}不存在`, 404);
+  }
+
+  if (restrict && impact.hasDependents) {
+    throw new DeleteImpactError(
+      `${KIND_LABELS[kind]}「${impact.name}」仍被 ${describeDependents(impact)}依赖，已阻止删除`
+    );
+  }
+
+  return impact;
+}
+
+export function isRestrictedDelete(request: Request) {
+  const value = new URL(request.url).searchParams.get("restrict");
+  return value === "1" || value === "true";
+}
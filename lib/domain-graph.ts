@@ -0,0 +1,242 @@
+import type {
+  DomainModel,
+  FormModel,
+  OperationModel,
+  StorageModel,
+  StorageTable,
+  ViewModel
+} from "@/types/models";
+
+export type DomainGraphNodeKind = "domain" | "field" | "table" | "view" | "form" | "operation";
+
+/** linked 为已关联，suggested 为与已关联资源相关但尚未关联 */
+export type DomainGraphNodeStatus = "domain" | "linked" | "suggested";
+
+export type DomainGraphNode = {
+  id: string;
+  kind: DomainGraphNodeKind;
+  /** 对应模型的 ID，业务字段为字段编码 */
+  refId: string;
+  label: string;
+  detail: string | null;
+  status: DomainGraphNodeStatus;
+  /** 建议关联的原因 */
+  reasons: string[];
+  x: number;
+  y: number;
+};
+
+export type DomainGraphEdge = {
+  id: string;
+  from: string;
+  to: string;
+  /** field：领域包含字段；link：领域关联数据表；backs：数据表支撑视图或表单、表单支撑操作 */
+  kind: "field" | "link" | "backs";
+  suggested: boolean;
+};
+
+export type DomainGraph = {
+  nodes: DomainGraphNode[];
+  edges: DomainGraphEdge[];
+  width: number;
+  height: number;
+};
+
+export type DomainGraphSource = {
+  storageModels: StorageModel[];
+  viewModels: ViewModel[];
+  formModels: FormModel[];
+  operationModels: OperationModel[];
+};
+
+export const DOMAIN_GRAPH_NODE_WIDTH = 180;
+export const DOMAIN_GRAPH_NODE_HEIGHT = 44;
+
+const GAP_X = 72;
+const GAP_Y = 16;
+const PADDING = 24;
+
+// 从左到右依次为业务字段、领域、数据表、视图与表单、操作
+const COLUMNS: DomainGraphNodeKind[][] = [
+  ["field"],
+  ["domain"],
+  ["table"],
+  ["view", "form"],
+  ["operation"]
+];
+
+function nodeId(kind: DomainGraphNodeKind, refId: string) {
+  return `${kind}:${refId}`;
+}
+
+/**
+ * 汇总领域及其关联资源之间的支撑关系，并找出与已关联资源直接相关、
+ * 但尚未关联到领域的数据表、视图、表单与操作作为关联建议。
+ */
+export function buildDomainGraph(domain: DomainModel, source: DomainGraphSource): DomainGraph {
+  const tables = new Map<string, StorageTable & { storageModelName: string }>();
+  source.storageModels.forEach((model) =>
+    model.tables.forEach((table) =>
+      tables.set(table.id, { ...table, storageModelName: model.name })
+    )
+  );
+  const forms = new Map(source.formModels.map((form) => [form.id, form]));
+
+  const linked = {
+    table: new Set(domain.storageTables.map((table) => table.id)),
+    view: new Set(domain.viewModels.map((view) => view.id)),
+    form: new Set(domain.formModels.map((form) => form.id)),
+    operation: new Set(domain.operationModels.map((operation) => operation.id))
+  };
+  const suggestions = new Map<string, string[]>();
+  const suggest = (kind: keyof typeof linked, refId: string, reason: string) => {
+    if (linked[kind].has(refId)) return;
+    const key = nodeId(kind, refId);
+    suggestions.set(key, [...(suggestions.get(key) ?? []), reason]);
+  };
+  const tableName = (id: string) => tables.get(id)?.name ?? id;
+
+  source.viewModels.forEach((view) => {
+    if (linked.table.has(view.storageTableId)) {
+      suggest("view", view.id, `基于已关联的数据表 ${tableName(view.storageTableId)}`);
+    }
+    if (linked.view.has(view.id)) {
+      suggest("table", view.storageTableId, `已关联的视图「${view.name}」基于此表`);
+    }
+  });
+  source.formModels.forEach((form) => {
+    if (linked.table.has(form.storageTableId)) {
+      suggest("form", form.id, `基于已关联的数据表 ${tableName(form.storageTableId)}`);
+    }
+    if (linked.form.has(form.id)) {
+      suggest("table", form.storageTableId, `已关联的表单「${form.name}」基于此表`);
+    }
+  });
+  source.operationModels.forEach((operation) => {
+    if (!operation.formModelId) return;
+    const form = forms.get(operation.formModelId);
+    if (linked.form.has(operation.formModelId)) {
+      suggest(
+        "operation",
+        operation.id,
+        `使用已关联的表单「${form?.name ?? operation.formModelId}」`
+      );
+    }
+    if (linked.operation.has(operation.id)) {
+      suggest("form", operation.formModelId, `已关联的操作「${operation.name}」使用此表单`);
+    }
+  });
+
+  const nodes: DomainGraphNode[] = [];
+  const status = (kind: keyof typeof linked, refId: string): DomainGraphNodeStatus | null =>
+    linked[kind].has(refId) ? "linked" : suggestions.has(nodeId(kind, refId)) ? "suggested" : null;
+  const addNode = (
+    kind: DomainGraphNodeKind,
+    refId: string,
+    label: string,
+    detail: string | null,
+    nodeStatus: DomainGraphNodeStatus
+  ) => {
+    nodes.push({
+      id: nodeId(kind, refId),
+      kind,
+      refId,
+      label,
+      detail,
+      status: nodeStatus,
+      reasons: suggestions.get(nodeId(kind, refId)) ?? [],
+      x: 0,
+      y: 0
+    });
+  };
+
+  addNode("domain", domain.id, domain.name, domain.description ?? null, "domain");
+  domain.fields.forEach((field) =>
+    addNode(
+      "field",
+      field.key,
+      field.name,
+      `${field.key}${field.type ? ` · ${field.type}` : ""}`,
+      "linked"
+    )
+  );
+  tables.forEach((table) => {
+    const nodeStatus = status("table", table.id);
+    if (nodeStatus) addNode("table", table.id, table.name, table.storageModelName, nodeStatus);
+  });
+  source.viewModels.forEach((view) => {
+    const nodeStatus = status("view", view.id);
+    if (nodeStatus) addNode("view", view.id, view.name, "视图", nodeStatus);
+  });
+  source.formModels.forEach((form) => {
+    const nodeStatus = status("form", form.id);
+    if (nodeStatus) addNode("form", form.id, form.name, "表单", nodeStatus);
+  });
+  source.operationModels.forEach((operation) => {
+    const nodeStatus = status("operation", operation.id);
+    if (!nodeStatus) return;
+    const endpoint = [operation.method, operation.endpoint].filter(Boolean).join(" ");
+    addNode("operation", operation.id, operation.name, endpoint || operation.type, nodeStatus);
+  });
+
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const edges: DomainGraphEdge[] = [];
+  const addEdge = (kind: DomainGraphEdge["kind"], from: string, to: string) => {
+    const fromNode = nodesById.get(from);
+    const toNode = nodesById.get(to);
+    if (!fromNode || !toNode) return;
+    edges.push({
+      id: `${from}->${to}`,
+      from,
+      to,
+      kind,
+      suggested: fromNode.status === "suggested" || toNode.status === "suggested"
+    });
+  };
+
+  domain.fields.forEach((field) =>
+    addEdge("field", nodeId("domain", domain.id), nodeId("field", field.key))
+  );
+  domain.storageTables.forEach((table) =>
+    addEdge("link", nodeId("domain", domain.id), nodeId("table", table.id))
+  );
+  source.viewModels.forEach((view) =>
+    addEdge("backs", nodeId("table", view.storageTableId), nodeId("view", view.id))
+  );
+  source.formModels.forEach((form) =>
+    addEdge("backs", nodeId("table", form.storageTableId), nodeId("form", form.id))
+  );
+  source.operationModels.forEach((operation) => {
+    if (operation.formModelId) {
+      addEdge("backs", nodeId("form", operation.formModelId), nodeId("operation", operation.id));
+    }
+  });
+
+  let width = 0;
+  let height = 0;
+  COLUMNS.forEach((kinds, column) => {
+    const x = PADDING + column * (DOMAIN_GRAPH_NODE_WIDTH + GAP_X);
+    // 已关联的排在前面，同一列中视图在表单之前
+    const items = nodes
+      .filter((node) => kinds.includes(node.kind))
+      .sort(
+        (a, b) =>
+          kinds.indexOf(a.kind) - kinds.indexOf(b.kind) ||
+          Number(a.status === "suggested") - Number(b.status === "suggested")
+      );
+    items.forEach((node, index) => {
+      node.x = x;
+      node.y = PADDING + index * (DOMAIN_GRAPH_NODE_HEIGHT + GAP_Y);
+    });
+    if (items.length) width = x + DOMAIN_GRAPH_NODE_WIDTH + PADDING;
+    height = Math.max(
+      height,
+      PADDING * 2 + items.length * (DOMAIN_GRAPH_NODE_HEIGHT + GAP_Y) - GAP_Y
+    );
+  });
+
+  const domainNode = nodesById.get(nodeId("domain", domain.id));
+  if (domainNode) domainNode.y = Math.max(PADDING, (height - DOMAIN_GRAPH_NODE_HEIGHT) / 2);
+
+  return { nodes, edges, width, height };
+}
@@ -0,0 +1,161 @@
+import { prisma } from "@/lib/prisma";
+import { toDomainFields } from "@/lib/serializers";
+import { readReferencedColumns } from "@/lib/storage-sync";
+import type { DomainLineage, DomainLineageSource } from "@/types/domain-lineage";
+import type { DomainField, StorageTableSchema } from "@/types/models";
+
+export class DomainLineageError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+type LineageTable = {
+  id: string;
+  name: string;
+  schema: unknown;
+};
+
+function readColumns(table: LineageTable) {
+  const schema = table.schema as StorageTableSchema | null;
+  return schema && Array.isArray(schema.columns) ? schema.columns : [];
+}
+
+function collectSourceTableIds(fields: Array<Pick<DomainField, "sources">>) {
+  return Array.from(
+    new Set(fields.flatMap((field) => (field.sources ?? []).map((source) => source.storageTableId)))
+  );
+}
+
+function describeIssues(
+  source: { storageTableId: string; column: string },
+  table: LineageTable | undefined,
+  linkedTableIds: string[]
+) {
+  if (!table) return ["来源数据表不存在"];
+  const issues: string[] = [];
+  if (!linkedTableIds.includes(table.id)) {
+    issues.push(`数据表 ${table.name} 未关联到领域`);
+  }
+  if (!readColumns(table).some((column) => column.name === source.column)) {
+    issues.push(`数据表 ${table.name} 中不存在字段 ${source.column}`);
+  }
+  return issues;
+}
+
+/**
+ * 校验业务字段的来源映射：来源数据表必须关联到领域，且字段在表结构中存在。
+ */
+export async function validateDomainFieldSources(
+  fields: Array<Pick<DomainField, "name" | "sources">>,
+  linkedTableIds: string[]
+) {
+  const tableIds = collectSourceTableIds(fields);
+  if (tableIds.length === 0) return;
+
+  const tables = await prisma.dataStorageTable.findMany({
+    where: { id: { in: tableIds } },
+    select: { id: true, name: true, schema: true }
+  });
+  const tablesById = new Map(tables.map((table) => [table.id, table]));
+
+  const messages = fields.flatMap((field) =>
+    (field.sources ?? []).flatMap((source) =>
+      describeIssues(source, tablesById.get(source.storageTableId), linkedTableIds).map(
+        (issue) => `业务字段「${field.name}」的来源无效：${issue}`
+      )
+    )
+  );
+
+  if (messages.length) {
+    throw new DomainLineageError(Array.from(new Set(messages)).join("；"));
+  }
+}
+
+/**
+ * 汇总业务字段的来源列，以及展示或录入这些列的视图与表单。
+ * 视图与表单不限于已关联到领域的资源，通过 linked 区分。
+ */
+export async function buildDomainLineage(domainModelId: string): Promise<DomainLineage> {
+  const domain = await prisma.dataDomainModel.findUnique({
+    where: { id: domainModelId },
+    select: {
+      id: true,
+      name: true,
+      schema: true,
+      storageTables: { select: { storageTableId: true } },
+      viewModels: { select: { viewModelId: true } },
+      formModels: { select: { formModelId: true } }
+    }
+  });
+  if (!domain) {
+    throw new DomainLineageError("业务领域模型不存在", 404);
+  }
+
+  const fields = toDomainFields(domain.schema);
+  const linkedTableIds = domain.storageTables.map((item) => item.storageTableId);
+  const linkedViewIds = new Set(domain.viewModels.map((item) => item.viewModelId));
+  const linkedFormIds = new Set(domain.formModels.map((item) => item.formModelId));
+
+  const tables = await prisma.dataStorageTable.findMany({
+    where: { id: { in: collectSourceTableIds(fields) } },
+    select: {
+      id: true,
+      name: true,
+      schema: true,
+      storageModel: { select: { id: true, name: true } },
+      views: { select: { id: true, name: true, layout: true } },
+      forms: { select: { id: true, name: true, schema: true } }
+    }
+  });
+  const tablesById = new Map(
+    tables.map((table) => [
+      table.id,
+      {
+        ...table,
+        views: table.views.map((view) => ({
+          ...view,
+          columns: readReferencedColumns(view.layout)
+        })),
+        forms: table.forms.map((form) => ({
+          ...form,
+          columns: readReferencedColumns(form.schema)
+        }))
+      }
+    ])
+  );
+
+  return {
+    domain: { id: domain.id, name: domain.name },
+    fields: fields.map((field) => ({
+      key: field.key,
+      name: field.name,
+      type: field.type ?? null,
+      required: Boolean(field.required),
+      sources: (field.sources ?? []).map((source): DomainLineageSource => {
+        const table = tablesById.get(source.storageTableId);
+        const column = table
+          ? readColumns(table).find((item) => item.name === source.column)
+          : undefined;
+        return {
+          storageTableId: source.storageTableId,
+          tableName: table?.name ?? null,
+          storageModel: table?.storageModel ?? null,
+          column: source.column,
+          columnType: column?.type ?? null,
+          transform: source.transform || null,
+          issues: describeIssues(source, table, linkedTableIds),
+          views: (table?.views ?? [])
+            .filter((view) => view.columns.includes(source.column))
+            .map((view) => ({ id: view.id, name: view.name, linked: linkedViewIds.has(view.id) })),
+          forms: (table?.forms ?? [])
+            .filter((form) => form.columns.includes(source.column))
+            .map((form) => ({ id: form.id, name: form.name, linked: linkedFormIds.has(form.id) }))
+        };
+      })
+    }))
+  };
+}
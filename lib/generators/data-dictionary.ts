@@ -0,0 +1,283 @@
+import type {
+  DataDictionary,
+  DataDictionaryColumn,
+  DataDictionarySheet,
+  DataDictionaryTable
+} from "@/types/data-dictionary";
+
+function formatFlags(column: DataDictionaryColumn) {
+  return [
+    column.primaryKey ? "主键" : null,
+    column.unique ? "唯一" : null,
+    column.autoIncrement ? "自增" : null
+  ]
+    .filter(Boolean)
+    .join("、");
+}
+
+function formatNames(items: Array<{ name: string }>) {
+  return items.map((item) => item.name).join("、");
+}
+
+function formatUsage(column: DataDictionaryColumn) {
+  return [
+    column.views.length ? `视图：${formatNames(column.views)}` : null,
+    column.forms.length ? `表单：${formatNames(column.forms)}` : null,
+    column.operations.length ? `操作：${formatNames(column.operations)}` : null
+  ]
+    .filter(Boolean)
+    .join("；");
+}
+
+function formatSource(table: DataDictionaryTable) {
+  return `存储模型：${table.storageModel.name}（数据库 ${table.storageModel.database}）`;
+}
+
+function formatGeneratedAt(value: string) {
+  return value.replace("T", " ").replace(/\.\d+Z$/, " UTC");
+}
+
+// 同名数据表可能来自不同存储模型，锚点附带序号保证唯一
+function anchorOf(table: DataDictionaryTable, index: number) {
+  return `table-${index + 1}-${table.name.replace(/[^A-Za-z0-9_-]+/g, "-")}`;
+}
+
+function escapeMarkdown(value: string | null | undefined) {
+  return (value ?? "").replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+export function renderDataDictionaryMarkdown(dictionary: DataDictionary) {
+  const lines = [`# 数据字典：${dictionary.title}`, ""];
+  if (dictionary.description) lines.push(dictionary.description, "");
+  lines.push(`> 生成时间：${formatGeneratedAt(dictionary.generatedAt)}`, "");
+
+  if (dictionary.tables.length === 0) {
+    lines.push("_没有数据表_", "");
+    return lines.join("\n");
+  }
+
+  lines.push("## 目录", "");
+  dictionary.tables.forEach((table, index) => {
+    const summary = table.description ? ` — ${escapeMarkdown(table.description)}` : "";
+    lines.push(`- [${escapeMarkdown(table.name)}](#${anchorOf(table, index)})${summary}`);
+  });
+  lines.push("");
+
+  dictionary.tables.forEach((table, index) => {
+    lines.push(`<a id="${anchorOf(table, index)}"></a>`, "", `## ${table.name}`, "");
+    if (table.description) lines.push(table.description, "");
+    lines.push(`- ${formatSource(table)}`);
+    lines.push(`- 主键：${table.primaryKey.length ? table.primaryKey.join(", ") : "无"}`);
+    if (table.indexes.length) lines.push(`- 索引：${table.indexes.join("；")}`);
+    lines.push(
+      "",
+      "| 字段 | 类型 | 可空 | 约束 | 默认值 | 说明 | 外键引用 | 使用情况 |",
+      "| --- | --- | --- | --- | --- | --- | --- | --- |"
+    );
+    table.columns.forEach((column) => {
+      const cells = [
+        column.name,
+        column.type,
+        column.nullable ? "是" : "否",
+        formatFlags(column),
+        column.default,
+        column.comment,
+        column.references,
+        formatUsage(column)
+      ];
+      lines.push(`| ${cells.map(escapeMarkdown).join(" | ")} |`);
+    });
+    lines.push("");
+  });
+
+  return lines.join("\n");
+}
+
+function escapeHtml(value: string | null | undefined) {
+  return (value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const HTML_STYLE = `
+  body { font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; margin: 0; color: #1f2937; }
+  header { position: sticky; top: 0; background: #fff; border-bottom: 1px solid #e5e7eb; padding: 12px 24px; }
+  main { display: grid; grid-template-columns: 240px 1fr; gap: 24px; padding: 0 24px 24px; }
+  nav { position: sticky; top: 72px; align-self: start; max-height: calc(100vh - 96px); overflow: auto; font-size: 13px; }
+  nav a { display: block; padding: 2px 0; color: #2563eb; text-decoration: none; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 24px 0 4px; }
+  .muted { color: #6b7280; font-size: 13px; }
+  input { width: 280px; padding: 4px 8px; margin-top: 8px; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; margin-top: 8px; }
+  th, td { border: 1px solid #e5e7eb; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f9fafb; }
+  .hidden { display: none; }
+`;
+
+// 按表名、字段名或说明过滤，不依赖外部脚本
+const HTML_SCRIPT = `
+  document.getElementById("filter").addEventListener("input", function (event) {
+    var keyword = event.target.value.trim().toLowerCase();
+    document.querySelectorAll("section[data-table]").forEach(function (section) {
+      var tableMatched = section.dataset.table.indexOf(keyword) >= 0;
+      var visible = 0;
+      section.querySelectorAll("tbody tr").forEach(function (row) {
+        var matched = !keyword || tableMatched || row.textContent.toLowerCase().indexOf(keyword) >= 0;
+        row.classList.toggle("hidden", !matched);
+        if (matched) visible += 1;
+      });
+      section.classList.toggle("hidden", visible === 0 && !tableMatched);
+    });
+  });
+`;
+
+export function renderDataDictionaryHtml(dictionary: DataDictionary) {
+  const nav = dictionary.tables
+    .map(
+      (table, index) =>
+        `<a href="#${anchorOf(table, index)}" title="${escapeHtml(table.description)}">${escapeHtml(table.name)}</a>`
+    )
+    .join("\n");
+
+  const sections = dictionary.tables
+    .map((table, index) => {
+      const rows = table.columns
+        .map((column) => {
+          const cells = [
+            column.name,
+            column.type,
+            column.nullable ? "是" : "否",
+            formatFlags(column),
+            column.default,
+            column.comment,
+            column.references,
+            formatUsage(column)
+          ];
+          return `<tr>${cells.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`;
+        })
+        .join("\n");
+      const meta = [
+        formatSource(table),
+        `主键：${table.primaryKey.length ? table.primaryKey.join(", ") : "无"}`,
+        table.indexes.length ? `索引：${table.indexes.join("；")}` : null
+      ].filter(Boolean);
+
+      return `<section id="${anchorOf(table, index)}" data-table="${escapeHtml(
+        [table.name, table.description ?? ""].join(" ").toLowerCase()
+      )}">
+<h2>${escapeHtml(table.name)}</h2>
+${table.description ? `<p>${escapeHtml(table.description)}</p>` : ""}
+<p class="muted">${meta.map((item) => escapeHtml(item)).join("<br>")}</p>
+<table>
+<thead><tr><th>字段</th><th>类型</th><th>可空</th><th>约束</th><th>默认值</th><th>说明</th><th>外键引用</th><th>使用情况</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</section>`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>数据字典：${escapeHtml(dictionary.title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<header>
+<h1>数据字典：${escapeHtml(dictionary.title)}</h1>
+<div class="muted">${escapeHtml(dictionary.description)} 生成时间：${escapeHtml(
+    formatGeneratedAt(dictionary.generatedAt)
+  )}，共 ${dictionary.tables.length} 张数据表</div>
+<input id="filter" type="search" placeholder="按表名、字段或说明筛选">
+</header>
+<main>
+<nav>
+${nav}
+</nav>
+<div>
+${sections || '<p class="muted">没有数据表</p>'}
+</div>
+</main>
+<script>${HTML_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Excel 打开 CSV 时会执行以 = + @ 开头的公式，这类单元格前补单引号。
+ */
+function escapeCsv(value: string | number | null | undefined) {
+  let text = value === null || value === undefined ? "" : String(value);
+  if (/^[=+@\t\r]|^-[^\d]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: Array<Array<string | number | null | undefined>>) {
+  // 带 BOM 与 CRLF，Excel 才能正确识别 UTF-8 中文
+  return "\uFEFF" + rows.map((row) => row.map(escapeCsv).join(",")).join("\r\n") + "\r\n";
+}
+
+export function renderDataDictionaryCsv(
+  dictionary: DataDictionary,
+  sheet: DataDictionarySheet = "columns"
+) {
+  if (sheet === "tables") {
+    return toCsv([
+      ["存储模型", "数据库", "数据表", "说明", "字段数", "主键", "索引"],
+      ...dictionary.tables.map((table) => [
+        table.storageModel.name,
+        table.storageModel.database,
+        table.name,
+        table.description,
+        table.columns.length,
+        table.primaryKey.join(", "),
+        table.indexes.join("；")
+      ])
+    ]);
+  }
+
+  return toCsv([
+    [
+      "存储模型",
+      "数据表",
+      "字段",
+      "类型",
+      "可空",
+      "主键",
+      "唯一",
+      "自增",
+      "默认值",
+      "说明",
+      "外键引用",
+      "视图",
+      "表单",
+      "操作"
+    ],
+    ...dictionary.tables.flatMap((table) =>
+      table.columns.map((column) => [
+        table.storageModel.name,
+        table.name,
+        column.name,
+        column.type,
+        column.nullable ? "是" : "否",
+        column.primaryKey ? "是" : "",
+        column.unique ? "是" : "",
+        column.autoIncrement ? "是" : "",
+        column.default,
+        column.comment,
+        column.references,
+        formatNames(column.views),
+        formatNames(column.forms),
+        formatNames(column.operations)
+      ])
+    )
+  ]);
+}
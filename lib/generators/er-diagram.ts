@@ -0,0 +1,482 @@
+import { createNameRegistry, singularize } from "@/lib/generators/naming";
+import type { StorageTable } from "@/types/models";
+
+export type ErDiagramTable = Pick<
+  StorageTable,
+  "id" | "name" | "description" | "schema" | "primaryKey" | "uniqueConstraints" | "foreignKeys"
+>;
+
+export type ErColumn = {
+  name: string;
+  type: string | null;
+  nullable: boolean;
+  primaryKey: boolean;
+  foreignKey: boolean;
+  unique: boolean;
+  comment: string | null;
+};
+
+export type ErEntity = {
+  id: string;
+  name: string;
+  description: string | null;
+  columns: ErColumn[];
+};
+
+export type ErRelation = {
+  id: string;
+  /** 持有外键的数据表 */
+  from: string;
+  fromColumns: string[];
+  /** 被引用的数据表 */
+  to: string;
+  toColumns: string[];
+  /** 由 *_id 命名推断，数据库中没有对应的外键约束 */
+  inferred: boolean;
+  optional: boolean;
+  oneToOne: boolean;
+  /** 外键列同时是主键的一部分 */
+  identifying: boolean;
+};
+
+export type ErDiagram = {
+  entities: ErEntity[];
+  relations: ErRelation[];
+};
+
+export type ErDiagramOptions = {
+  /** 按 *_id / xxxId 命名推断没有外键约束的关系，默认开启 */
+  inferRelations?: boolean;
+};
+
+export type ErNodeLayout = { x: number; y: number; width: number; height: number };
+
+export type ErLayout = Record<string, ErNodeLayout>;
+
+const FONT_SIZE = 12;
+const HEADER_HEIGHT = 30;
+const ROW_HEIGHT = 22;
+const NODE_MIN_WIDTH = 160;
+const NODE_PADDING = 10;
+const GAP_X = 96;
+const GAP_Y = 32;
+const CANVAS_PADDING = 24;
+// 单列过高时拆成多列，避免孤立表较多时排成一长条
+const MAX_COLUMN_HEIGHT = 1400;
+
+function readColumns(table: ErDiagramTable) {
+  const columns = table.schema?.columns;
+  return Array.isArray(columns) ? columns : [];
+}
+
+function normalizeTableName(name: string) {
+  return singularize(name.toLowerCase());
+}
+
+// 识别 user_id、userId 形式的列，返回被引用对象的名称
+function readInferredTarget(column: string) {
+  const snake = column.match(/^(.+?)_id$/i);
+  if (snake) return snake[1];
+  const camel = column.match(/^(.+?[a-z0-9])Id$/);
+  return camel ? camel[1] : null;
+}
+
+/**
+ * 由数据表结构整理实体与关系：外键约束直接生成关系，
+ * 没有约束的 *_id 列按表名（忽略单复数）匹配被引用表的主键。
+ */
+export function buildErDiagram(
+  tables: ErDiagramTable[],
+  options: ErDiagramOptions = {}
+): ErDiagram {
+  const inferRelations = options.inferRelations ?? true;
+  const tablesByName = new Map<string, ErDiagramTable>();
+  tables.forEach((table) => {
+    tablesByName.set(table.name.toLowerCase(), table);
+    const normalized = normalizeTableName(table.name);
+    if (!tablesByName.has(normalized)) tablesByName.set(normalized, table);
+  });
+
+  const relations: ErRelation[] = [];
+
+  tables.forEach((table) => {
+    const columns = readColumns(table);
+    const primaryKey = table.primaryKey ?? [];
+    const uniqueSets = [
+      primaryKey,
+      ...(table.uniqueConstraints ?? []).map((constraint) => constraint.columns)
+    ].filter((set) => set.length > 0);
+    const isUnique = (names: string[]) =>
+      uniqueSets.some(
+        (set) => set.length === names.length && set.every((name) => names.includes(name))
+      );
+    const isOptional = (names: string[]) =>
+      names.some((name) => columns.find((column) => column.name === name)?.nullable !== false);
+    const covered = new Set<string>();
+
+    (table.foreignKeys ?? []).forEach((foreignKey, index) => {
+      const target = tablesByName.get(foreignKey.referencedTable.toLowerCase());
+      if (!target) return;
+      foreignKey.columns.forEach((name) => covered.add(name));
+      relations.push({
+        id: `${table.id}:fk:${foreignKey.name ?? index}`,
+        from: table.id,
+        fromColumns: foreignKey.columns,
+        to: target.id,
+        toColumns: foreignKey.referencedColumns,
+        inferred: false,
+        optional: isOptional(foreignKey.columns),
+        oneToOne: isUnique(foreignKey.columns),
+        identifying: foreignKey.columns.every((name) => primaryKey.includes(name))
+      });
+    });
+
+    if (!inferRelations) return;
+
+    columns.forEach((column) => {
+      if (covered.has(column.name)) return;
+      if (primaryKey.length === 1 && primaryKey[0] === column.name) return;
+      const base = readInferredTarget(column.name);
+      if (!base) return;
+      const target =
+        tablesByName.get(base.toLowerCase()) ?? tablesByName.get(normalizeTableName(base));
+      if (!target) return;
+      const targetKey = target.primaryKey?.length
+        ? target.primaryKey
+        : readColumns(target).some((item) => item.name === "id")
+          ? ["id"]
+          : [];
+      if (targetKey.length !== 1) return;
+      relations.push({
+        id: `${table.id}:inferred:${column.name}`,
+        from: table.id,
+        fromColumns: [column.name],
+        to: target.id,
+        toColumns: targetKey,
+        inferred: true,
+        optional: column.nullable !== false,
+        oneToOne: isUnique([column.name]),
+        identifying: primaryKey.includes(column.name)
+      });
+    });
+  });
+
+  const foreignKeyColumns = new Map<string, Set<string>>();
+  relations.forEach((relation) => {
+    const set = foreignKeyColumns.get(relation.from) ?? new Set<string>();
+    relation.fromColumns.forEach((name) => set.add(name));
+    foreignKeyColumns.set(relation.from, set);
+  });
+
+  const entities = tables.map((table): ErEntity => {
+    const primaryKey = table.primaryKey ?? [];
+    const uniqueColumns = new Set(
+      (table.uniqueConstraints ?? [])
+        .filter((constraint) => constraint.columns.length === 1)
+        .map((constraint) => constraint.columns[0])
+    );
+    return {
+      id: table.id,
+      name: table.name,
+      description: table.description ?? null,
+      columns: readColumns(table).map((column) => ({
+        name: column.name,
+        type: column.type ?? null,
+        nullable: column.nullable !== false,
+        primaryKey: primaryKey.includes(column.name) || column.key === "PRI",
+        foreignKey: foreignKeyColumns.get(table.id)?.has(column.name) ?? false,
+        unique: column.key === "UNI" || uniqueColumns.has(column.name),
+        comment: column.comment || null
+      }))
+    };
+  });
+
+  return { entities, relations };
+}
+
+/** 估算文本宽度：中日韩字符按全角计算 */
+function measureText(text: string) {
+  let width = 0;
+  for (const char of Array.from(text)) {
+    width += /[\u2e80-\u9fff\uac00-\ud7af\uff00-\uffef]/.test(char) ? FONT_SIZE : FONT_SIZE * 0.6;
+  }
+  return width;
+}
+
+function measureEntity(entity: ErEntity) {
+  const header = measureText(entity.name) + NODE_PADDING * 2;
+  const rows = entity.columns.map(
+    (column) => measureText(`${column.name}  ${column.type ?? ""}`) + NODE_PADDING * 2 + 28
+  );
+  return {
+    width: Math.ceil(Math.max(NODE_MIN_WIDTH, header, ...rows)),
+    height: HEADER_HEIGHT + Math.max(entity.columns.length, 1) * ROW_HEIGHT
+  };
+}
+
+/**
+ * 分层布局：被引用的表在左、引用它的表在右，
+ * 同层按相邻表的平均位置排序以减少连线交叉。
+ */
+export function layoutErDiagram(diagram: ErDiagram): ErLayout {
+  const parents = new Map<string, string[]>();
+  const children = new Map<string, string[]>();
+  diagram.relations.forEach((relation) => {
+    if (relation.from === relation.to) return;
+    parents.set(relation.from, [...(parents.get(relation.from) ?? []), relation.to]);
+    children.set(relation.to, [...(children.get(relation.to) ?? []), relation.from]);
+  });
+
+  const ranks = new Map<string, number>();
+  const visiting = new Set<string>();
+  const rankOf = (id: string): number => {
+    const known = ranks.get(id);
+    if (known !== undefined) return known;
+    // 循环引用时按所在位置截断
+    if (visiting.has(id)) return 0;
+    visiting.add(id);
+    const rank = Math.max(-1, ...(parents.get(id) ?? []).map(rankOf)) + 1;
+    visiting.delete(id);
+    ranks.set(id, rank);
+    return rank;
+  };
+  diagram.entities.forEach((entity) => rankOf(entity.id));
+
+  // 没有任何关系的表单独放在最后
+  const isolated = diagram.entities.filter(
+    (entity) => !parents.has(entity.id) && !children.has(entity.id)
+  );
+  const connected = diagram.entities.filter((entity) => !isolated.includes(entity));
+  const layers: ErEntity[][] = [];
+  connected.forEach((entity) => {
+    const rank = ranks.get(entity.id) ?? 0;
+    (layers[rank] = layers[rank] ?? []).push(entity);
+  });
+  if (isolated.length) layers.push(isolated);
+
+  const order = new Map<string, number>();
+  const layout: ErLayout = {};
+  let x = CANVAS_PADDING;
+
+  layers
+    .filter((layer) => layer && layer.length)
+    .forEach((layer) => {
+      const position = (entity: ErEntity) => {
+        const neighbours = [
+          ...(parents.get(entity.id) ?? []),
+          ...(children.get(entity.id) ?? [])
+        ].filter((id) => order.has(id));
+        return neighbours.length
+          ? neighbours.reduce((sum, id) => sum + (order.get(id) ?? 0), 0) / neighbours.length
+          : Number.MAX_SAFE_INTEGER;
+      };
+      const sorted = layer
+        .map((entity, index) => ({ entity, index, position: position(entity) }))
+        .sort((a, b) => a.position - b.position || a.index - b.index)
+        .map((item) => item.entity);
+
+      let y = CANVAS_PADDING;
+      let columnWidth = 0;
+      sorted.forEach((entity) => {
+        const size = measureEntity(entity);
+        if (y > CANVAS_PADDING && y + size.height > MAX_COLUMN_HEIGHT) {
+          x += columnWidth + GAP_X;
+          y = CANVAS_PADDING;
+          columnWidth = 0;
+        }
+        layout[entity.id] = { x, y, ...size };
+        order.set(entity.id, order.size);
+        y += size.height + GAP_Y;
+        columnWidth = Math.max(columnWidth, size.width);
+      });
+      x += columnWidth + GAP_X;
+    });
+
+  return layout;
+}
+
+export function measureErLayout(layout: ErLayout) {
+  const nodes = Object.values(layout);
+  return {
+    width: Math.max(0, ...nodes.map((node) => node.x + node.width)) + CANVAS_PADDING,
+    height: Math.max(0, ...nodes.map((node) => node.y + node.height)) + CANVAS_PADDING
+  };
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function rowCenter(entity: ErEntity, node: ErNodeLayout, columns: string[]) {
+  const index = entity.columns.findIndex((column) => column.name === columns[0]);
+  return index >= 0
+    ? node.y + HEADER_HEIGHT + index * ROW_HEIGHT + ROW_HEIGHT / 2
+    : node.y + HEADER_HEIGHT / 2;
+}
+
+function relationPath(
+  relation: ErRelation,
+  from: { entity: ErEntity; node: ErNodeLayout },
+  to: { entity: ErEntity; node: ErNodeLayout }
+) {
+  const y1 = rowCenter(from.entity, from.node, relation.fromColumns);
+  const y2 = rowCenter(to.entity, to.node, relation.toColumns);
+
+  if (relation.from === relation.to) {
+    const x = from.node.x + from.node.width;
+    return `M ${x} ${y1} C ${x + 48} ${y1}, ${x + 48} ${y2}, ${x} ${y2}`;
+  }
+
+  const leftToRight = from.node.x + from.node.width / 2 <= to.node.x + to.node.width / 2;
+  const x1 = leftToRight ? from.node.x + from.node.width : from.node.x;
+  const x2 = leftToRight ? to.node.x : to.node.x + to.node.width;
+  const bend = Math.max(40, Math.abs(x2 - x1) / 2) * (leftToRight ? 1 : -1);
+  return `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+}
+
+/**
+ * 输出独立的 SVG 文档，节点带 data-er-table 属性，供工作台实现拖拽。
+ */
+export function renderErDiagramSvg(diagram: ErDiagram, layout: ErLayout) {
+  const entities = new Map(diagram.entities.map((entity) => [entity.id, entity]));
+  const { width, height } = measureErLayout(layout);
+
+  const edges = diagram.relations
+    .map((relation) => {
+      const from = entities.get(relation.from);
+      const to = entities.get(relation.to);
+      const fromNode = layout[relation.from];
+      const toNode = layout[relation.to];
+      if (!from || !to || !fromNode || !toNode) return null;
+      const path = relationPath(
+        relation,
+        { entity: from, node: fromNode },
+        { entity: to, node: toNode }
+      );
+      const title = `${from.name}.${relation.fromColumns.join(",")} → ${to.name}.${relation.toColumns.join(",")}${relation.inferred ? "（推断）" : ""}`;
+      return `<path d="${path}" fill="none" stroke="${relation.inferred ? "#9ca3af" : "#6366f1"}" stroke-width="1.5"${relation.inferred ? ' stroke-dasharray="5 4"' : ""} marker-end="url(#er-arrow)"${relation.optional ? ' marker-start="url(#er-optional)"' : ""}><title>${escapeXml(title)}</title></path>`;
+    })
+    .filter(Boolean);
+
+  const nodes = diagram.entities
+    .filter((entity) => layout[entity.id])
+    .map((entity) => {
+      const node = layout[entity.id];
+      const rows = entity.columns.map((column, index) => {
+        const y = node.y + HEADER_HEIGHT + index * ROW_HEIGHT;
+        const marker = column.primaryKey
+          ? "PK"
+          : column.foreignKey
+            ? "FK"
+            : column.unique
+              ? "UK"
+              : "";
+        const markerColor = column.primaryKey
+          ? "#b45309"
+          : column.foreignKey
+            ? "#4f46e5"
+            : "#6b7280";
+        return [
+          index % 2
+            ? `<rect x="${node.x}" y="${y}" width="${node.width}" height="${ROW_HEIGHT}" fill="#f9fafb"/>`
+            : "",
+          marker
+            ? `<text x="${node.x + NODE_PADDING}" y="${y + 15}" font-size="10" font-weight="600" fill="${markerColor}">${marker}</text>`
+            : "",
+          `<text x="${node.x + NODE_PADDING + 24}" y="${y + 15}" font-size="${FONT_SIZE}" fill="#111827"${column.primaryKey ? ' font-weight="600"' : ""}>${escapeXml(column.name)}${column.nullable ? "" : " *"}${column.comment ? `<title>${escapeXml(column.comment)}</title>` : ""}</text>`,
+          `<text x="${node.x + node.width - NODE_PADDING}" y="${y + 15}" font-size="11" fill="#6b7280" text-anchor="end">${escapeXml(column.type ?? "")}</text>`
+        ].join("");
+      });
+      return `<g data-er-table="${escapeXml(entity.id)}" style="cursor: move">
+<rect x="${node.x}" y="${node.y}" width="${node.width}" height="${node.height}" rx="6" fill="#ffffff" stroke="#d1d5db"/>
+<rect x="${node.x}" y="${node.y}" width="${node.width}" height="${HEADER_HEIGHT}" rx="6" fill="#eef2ff"/>
+<text x="${node.x + NODE_PADDING}" y="${node.y + 20}" font-size="13" font-weight="600" fill="#1e1b4b">${escapeXml(entity.name)}${entity.description ? `<title>${escapeXml(entity.description)}</title>` : ""}</text>
+${rows.join("\n")}
+<rect x="${node.x}" y="${node.y}" width="${node.width}" height="${node.height}" rx="6" fill="none" stroke="#d1d5db"/>
+</g>`;
+    });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="-apple-system, 'PingFang SC', 'Microsoft YaHei', sans-serif">
+<defs>
+<marker id="er-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="#6366f1"/></marker>
+<marker id="er-optional" viewBox="0 0 10 10" refX="0" refY="5" markerWidth="7" markerHeight="7"><circle cx="5" cy="5" r="4" fill="#ffffff" stroke="#6366f1"/></marker>
+</defs>
+${edges.join("\n")}
+${nodes.join("\n")}
+</svg>
+`;
+}
+
+// Mermaid 的实体名与字段名只接受字母、数字、下划线与连字符，无法转换时使用占位名
+function toMermaidName(value: string, fallback: string) {
+  const sanitized = value
+    .replace(/[^A-Za-z0-9_-]+/g, "_")
+    .replace(/^[^A-Za-z]+/, "")
+    .replace(/_+$/, "");
+  return sanitized || fallback;
+}
+
+function toMermaidType(value: string | null) {
+  const sanitized = (value ?? "unknown")
+    .replace(/\s+/g, "_")
+    .replace(/,/g, "_")
+    .replace(/[^A-Za-z0-9_()[\]-]/g, "");
+  return /^[A-Za-z_]/.test(sanitized) ? sanitized : `t_${sanitized}`;
+}
+
+/**
+ * 输出 Mermaid erDiagram 文本。外键列同时是主键时画实线（identifying），
+ * 其余画虚线；推断出的关系在标签中注明。
+ */
+export function renderMermaidErDiagram(diagram: ErDiagram) {
+  const claimName = createNameRegistry();
+  const names = new Map(
+    diagram.entities.map((entity) => [entity.id, claimName(toMermaidName(entity.name, "table"))])
+  );
+  const lines = ["erDiagram"];
+
+  diagram.entities.forEach((entity) => {
+    const name = names.get(entity.id) as string;
+    if (name !== entity.name) lines.push(`    %% ${name}: ${entity.name.replace(/\s+/g, " ")}`);
+    if (entity.columns.length === 0) {
+      lines.push(`    ${name} {`, "    }");
+      return;
+    }
+    lines.push(`    ${name} {`);
+    const claimColumn = createNameRegistry();
+    entity.columns.forEach((column) => {
+      const columnName = claimColumn(toMermaidName(column.name, "column"));
+      const keys = [
+        column.primaryKey ? "PK" : null,
+        column.foreignKey ? "FK" : null,
+        column.unique && !column.primaryKey ? "UK" : null
+      ].filter(Boolean);
+      // 字段名被改写时在注释中保留原名
+      const note = [columnName === column.name ? null : column.name, column.comment]
+        .filter(Boolean)
+        .join(" ");
+      const comment = note ? ` "${note.replace(/"/g, "'").replace(/\s+/g, " ")}"` : "";
+      lines.push(
+        `        ${toMermaidType(column.type)} ${columnName}${keys.length ? ` ${keys.join(",")}` : ""}${comment}`
+      );
+    });
+    lines.push("    }");
+  });
+
+  diagram.relations.forEach((relation) => {
+    const parent = names.get(relation.to);
+    const child = names.get(relation.from);
+    if (!parent || !child) return;
+    const parentSide = relation.optional ? "|o" : "||";
+    const childSide = relation.oneToOne ? "o|" : "o{";
+    const line = relation.identifying ? "--" : "..";
+    const label = `${relation.fromColumns.join(", ")}${relation.inferred ? "（推断）" : ""}`;
+    lines.push(`    ${parent} ${parentSide}${line}${childSide} ${child} : "${label}"`);
+  });
+
+  return lines.join("\n") + "\n";
+}
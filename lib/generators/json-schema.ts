@@ -0,0 +1,334 @@
+import type { StorageColumn } from "@/types/models";
+
+export type JsonSchema = Record<string, unknown>;
+
+export type JsonSchemaTable = {
+  name: string;
+  description?: string | null;
+  schema: unknown;
+};
+
+export type JsonSchemaForm = {
+  name: string;
+  description?: string | null;
+  schema: unknown;
+};
+
+export type FormField = {
+  column: string;
+  label?: string;
+  required?: boolean;
+  component?: string;
+  options?: Array<{ label: string; value: string | number }>;
+  props?: Record<string, unknown>;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function readColumns(schema: unknown): StorageColumn[] {
+  if (!isRecord(schema) || !Array.isArray(schema.columns)) return [];
+  return schema.columns.filter(
+    (column): column is StorageColumn => isRecord(column) && typeof column.name === "string"
+  );
+}
+
+export function readFormFields(schema: unknown): FormField[] {
+  if (!isRecord(schema) || !Array.isArray(schema.fields)) return [];
+  return schema.fields.filter(
+    (field): field is FormField => isRecord(field) && typeof field.column === "string"
+  );
+}
+
+function parseType(raw: string | undefined) {
+  const lower = (raw ?? "").trim().toLowerCase();
+  const args =
+    lower
+      .match(/\(([^)]*)\)/)?.[1]
+      .split(",")
+      .map((item) => item.trim()) ?? [];
+  const base = lower
+    .replace(/\([^)]*\)/g, "")
+    .replace(/\b(unsigned|zerofill)\b/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return { base, args };
+}
+
+/**
+ * 按数据库列类型推断 JSON Schema，各方言的类型名统一按关键字匹配；无法识别的类型按字符串处理。
+ */
+export function columnTypeToJsonSchema(type: string | undefined): JsonSchema {
+  const { base, args } = parseType(type);
+  if (!base) return { type: "string" };
+  if (/\[\]$/.test(base)) {
+    return { type: "array", items: columnTypeToJsonSchema(base.slice(0, -2)) };
+  }
+
+  if (base === "bool" || base === "boolean" || (base === "tinyint" && args[0] === "1")) {
+    return { type: "boolean" };
+  }
+  if (base === "enum" || base === "set") {
+    const values = args.map((arg) => arg.replace(/^'|'$/g, ""));
+    return base === "enum"
+      ? { type: "string", enum: values }
+      : { type: "array", items: { type: "string", enum: values }, uniqueItems: true };
+  }
+  if (/^(bigint|int8|bigserial|serial8)$/.test(base)) return { type: "integer", format: "int64" };
+  if (/int|serial|^year$/.test(base)) return { type: "integer", format: "int32" };
+  if (/^(decimal|numeric|money)$/.test(base)) return { type: "number" };
+  if (/^(float|float4|real)$/.test(base)) return { type: "number", format: "float" };
+  if (/^(double|double precision|float8)$/.test(base)) return { type: "number", format: "double" };
+  if (base === "date") return { type: "string", format: "date" };
+  if (/^time( with(out)? time zone)?$|^timetz$/.test(base))
+    return { type: "string", format: "time" };
+  if (/datetime|timestamp/.test(base)) return { type: "string", format: "date-time" };
+  if (base === "json" || base === "jsonb") return {};
+  if (base === "uuid") return { type: "string", format: "uuid" };
+  if (/blob|binary|bytea/.test(base)) return { type: "string", contentEncoding: "base64" };
+  if (/char|varying/.test(base) && /^\d+$/.test(args[0] ?? "")) {
+    return { type: "string", maxLength: Number(args[0]) };
+  }
+  return { type: "string" };
+}
+
+function allowNull(schema: JsonSchema): JsonSchema {
+  if (typeof schema.type === "string") {
+    const next: JsonSchema = { ...schema, type: [schema.type, "null"] };
+    if (Array.isArray(schema.enum)) next.enum = [...schema.enum, null];
+    return next;
+  }
+  return schema;
+}
+
+export function columnToJsonSchema(column: StorageColumn): JsonSchema {
+  const schema = columnTypeToJsonSchema(column.type);
+  const result = column.nullable === false ? schema : allowNull(schema);
+  return column.comment ? { ...result, description: column.comment } : result;
+}
+
+/**
+ * 非空、没有默认值且不是自增的字段才视为写入时必填。
+ */
+export function isColumnRequired(column: StorageColumn) {
+  return (
+    column.nullable === false &&
+    !column.autoIncrement &&
+    (column.default === null || column.default === undefined)
+  );
+}
+
+export function tableToJsonSchema(table: JsonSchemaTable): JsonSchema {
+  const columns = readColumns(table.schema);
+  const required = columns.filter(isColumnRequired).map((column) => column.name);
+
+  return {
+    type: "object",
+    title: table.name,
+    ...(table.description ? { description: table.description } : {}),
+    properties: Object.fromEntries(
+      columns.map((column) => [column.name, columnToJsonSchema(column)])
+    ),
+    ...(required.length ? { required } : {})
+  };
+}
+
+// 表单控件在没有对应数据表字段时用于推断类型
+const COMPONENT_TYPES: Record<string, JsonSchema> = {
+  number: { type: "number" },
+  date: { type: "string", format: "date" }
+};
+
+function readNumber(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function hasType(schema: JsonSchema, type: string) {
+  return Array.isArray(schema.type) ? schema.type.includes(type) : schema.type === type;
+}
+
+/**
+ * 把表单字段上的校验配置（可选项与 props 中的 min、max、maxLength 等）叠加到字段类型上，
+ * 与数据表字段长度同时存在时取更严格的一方。
+ */
+function applyFieldRules(schema: JsonSchema, field: FormField): JsonSchema {
+  const result: JsonSchema = { ...schema };
+  const props = isRecord(field.props) ? field.props : {};
+
+  // 表单上的必填字段不接受 null，即使对应的数据表字段可空
+  if (field.required && Array.isArray(result.type)) {
+    const types = result.type.filter((type) => type !== "null");
+    result.type = types.length === 1 ? types[0] : types;
+    if (Array.isArray(result.enum)) result.enum = result.enum.filter((value) => value !== null);
+  }
+
+  const values = Array.isArray(field.options)
+    ? field.options
+        .filter((option) => isRecord(option))
+        .map((option) => option.value)
+        .filter((value) => typeof value === "string" || typeof value === "number")
+    : [];
+  if (values.length) {
+    result.enum = hasType(result, "null") ? [...values, null] : values;
+  }
+
+  if (hasType(result, "string")) {
+    const maxLength = readNumber(props.maxLength);
+    if (maxLength !== undefined) {
+      const current = readNumber(result.maxLength);
+      result.maxLength = current === undefined ? maxLength : Math.min(current, maxLength);
+    }
+    const minLength = readNumber(props.minLength);
+    if (minLength !== undefined) result.minLength = minLength;
+    if (typeof props.pattern === "string" && props.pattern) result.pattern = props.pattern;
+  }
+  if (hasType(result, "number") || hasType(result, "integer")) {
+    const minimum = readNumber(props.min);
+    const maximum = readNumber(props.max);
+    if (minimum !== undefined) result.minimum = minimum;
+    if (maximum !== undefined) result.maximum = maximum;
+  }
+  return result;
+}
+
+export function formToJsonSchema(form: JsonSchemaForm, table?: JsonSchemaTable | null): JsonSchema {
+  const columns = new Map(readColumns(table?.schema).map((column) => [column.name, column]));
+  const fields = readFormFields(form.schema);
+  const required = fields.filter((field) => field.required).map((field) => field.column);
+
+  return {
+    type: "object",
+    title: form.name,
+    ...(form.description ? { description: form.description } : {}),
+    properties: Object.fromEntries(
+      fields.map((field) => {
+        const column = columns.get(field.column);
+        const base = column
+          ? columnToJsonSchema(column)
+          : (COMPONENT_TYPES[field.component ?? ""] ?? { type: "string" });
+        const schema = applyFieldRules(base, field);
+        return [field.column, field.label ? { ...schema, title: field.label } : schema];
+      })
+    ),
+    ...(required.length ? { required } : {})
+  };
+}
+
+export type JsonSchemaDomain = {
+  name: string;
+  description?: string | null;
+  schema: unknown;
+};
+
+type DomainField = {
+  key: string;
+  name?: string;
+  type?: string;
+  required?: boolean;
+  description?: string | null;
+  sources?: Array<{ storageTableId: string; column: string }>;
+};
+
+export function readDomainFields(schema: unknown): DomainField[] {
+  if (!isRecord(schema) || !Array.isArray(schema.fields)) return [];
+  return schema.fields.filter(
+    (field): field is DomainField => isRecord(field) && typeof field.key === "string"
+  );
+}
+
+// 业务字段常用的逻辑类型；其他取值按数据库列类型解析
+const DOMAIN_TYPES: Record<string, JsonSchema> = {
+  string: { type: "string" },
+  text: { type: "string" },
+  number: { type: "number" },
+  integer: { type: "integer" },
+  long: { type: "integer", format: "int64" },
+  boolean: { type: "boolean" },
+  date: { type: "string", format: "date" },
+  datetime: { type: "string", format: "date-time" },
+  time: { type: "string", format: "time" },
+  email: { type: "string", format: "email" },
+  url: { type: "string", format: "uri" },
+  uuid: { type: "string", format: "uuid" },
+  object: { type: "object" },
+  array: { type: "array" },
+  json: {}
+};
+
+function toSnakeCase(value: string) {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/[-\s]+/g, "_")
+    .toLowerCase();
+}
+
+function findSourceColumn(field: DomainField, tables: Array<JsonSchemaTable & { id?: string }>) {
+  for (const source of field.sources ?? []) {
+    const table = tables.find((item) => item.id === source.storageTableId);
+    const column = table
+      ? readColumns(table.schema).find((item) => item.name === source.column)
+      : undefined;
+    if (column) return column;
+  }
+  const names = [field.key, toSnakeCase(field.key)];
+  return tables
+    .flatMap((table) => readColumns(table.schema))
+    .find((item) => names.includes(item.name));
+}
+
+/**
+ * 业务字段的类型优先取字段上填写的类型；未填写时取映射的来源列，
+ * 没有来源映射时按字段编码（或其蛇形写法）匹配关联数据表中的同名列。
+ */
+export function domainFieldToJsonSchema(
+  field: DomainField,
+  tables: Array<JsonSchemaTable & { id?: string }> = []
+) {
+  const declared = field.type?.trim().toLowerCase();
+  let schema: JsonSchema;
+  if (declared) {
+    schema = DOMAIN_TYPES[declared] ?? columnTypeToJsonSchema(declared);
+  } else {
+    const column = findSourceColumn(field, tables);
+    // 必填的业务字段不接受 null，列上的可空性只在非必填时保留
+    schema = !column
+      ? { type: "string" }
+      : field.required
+        ? columnTypeToJsonSchema(column.type)
+        : columnToJsonSchema({ ...column, comment: null });
+  }
+
+  return {
+    ...schema,
+    ...(field.name ? { title: field.name } : {}),
+    ...(field.description ? { description: field.description } : {})
+  };
+}
+
+export function domainToJsonSchema(
+  domain: JsonSchemaDomain,
+  tables: Array<JsonSchemaTable & { id?: string }> = []
+) {
+  const fields = readDomainFields(domain.schema);
+  const required = fields.filter((field) => field.required).map((field) => field.key);
+
+  return {
+    type: "object",
+    title: domain.name,
+    ...(domain.description ? { description: domain.description } : {}),
+    properties: Object.fromEntries(
+      fields.map((field) => [field.key, domainFieldToJsonSchema(field, tables)])
+    ),
+    ...(required.length ? { required } : {})
+  };
+}
+
+export const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+/**
+ * 独立发布的 JSON Schema 文档需要声明所用的草案版本。
+ */
+export function toJsonSchemaDocument(schema: JsonSchema, id?: string): JsonSchema {
+  return { $schema: JSON_SCHEMA_DIALECT, ...(id ? { $id: id } : {}), ...schema };
+}
@@ -0,0 +1,60 @@
+function splitWords(value: string) {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+function capitalize(word: string) {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+export function toPascalCase(value: string) {
+  return splitWords(value).map(capitalize).join("");
+}
+
+export function toCamelCase(value: string) {
+  const pascal = toPascalCase(value);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+/**
+ * 只处理英文表名里最常见的复数形式，识别不了的保持原样，宁可不改也不要改错。
+ */
+export function singularize(word: string) {
+  if (/(ss|us|is)$/i.test(word)) return word;
+  if (/ies$/i.test(word) && word.length > 3) return word.slice(0, -3) + "y";
+  if (/(ss|us|x|ch|sh)es$/i.test(word)) return word.slice(0, -2);
+  if (/s$/i.test(word) && word.length > 1) return word.slice(0, -1);
+  return word;
+}
+
+export function pluralize(word: string) {
+  if (/[^aeiou]y$/i.test(word)) return word.slice(0, -1) + "ies";
+  if (/(s|x|z|ch|sh)$/i.test(word)) return word + "es";
+  return word + "s";
+}
+
+/**
+ * 生成的标识符必须以字母开头，数字开头的名称补前缀。
+ */
+export function toIdentifier(value: string, fallback: string) {
+  if (!value) return fallback;
+  return /^[A-Za-z]/.test(value) ? value : `${fallback}${value}`;
+}
+
+/**
+ * 在同一作用域内分配不重复的名称，冲突时追加序号。
+ */
+export function createNameRegistry(reserved: string[] = []) {
+  const used = new Set(reserved.map((name) => name.toLowerCase()));
+  return (name: string) => {
+    let candidate = name;
+    for (let index = 2; used.has(candidate.toLowerCase()); index += 1) {
+      candidate = `${name}${index}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  };
+}
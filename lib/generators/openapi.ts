@@ -0,0 +1,456 @@
+import { formToJsonSchema, tableToJsonSchema, type JsonSchema } from "@/lib/generators/json-schema";
+import {
+  createNameRegistry,
+  singularize,
+  toCamelCase,
+  toIdentifier,
+  toPascalCase
+} from "@/lib/generators/naming";
+
+export type OpenApiTable = {
+  id: string;
+  name: string;
+  description: string | null;
+  schema: unknown;
+};
+
+export type OpenApiForm = {
+  id: string;
+  name: string;
+  description: string | null;
+  storageTableId: string;
+  schema: unknown;
+};
+
+export type OpenApiOperation = {
+  id: string;
+  name: string;
+  description: string | null;
+  type: string;
+  endpoint: string | null;
+  method: string | null;
+  formModelId: string | null;
+  requestSchema: unknown;
+  responseSchema: unknown;
+};
+
+export type OpenApiSource = {
+  title: string;
+  description?: string | null;
+  version: string;
+  tables: OpenApiTable[];
+  forms: OpenApiForm[];
+  operations: OpenApiOperation[];
+};
+
+export type OpenApiResult = {
+  document: Record<string, unknown>;
+  warnings: string[];
+};
+
+// 导出的操作带上模型 id 与操作类型，重新导入时据此对齐已有的数据操作模型
+export const OPERATION_ID_EXTENSION = "x-operation-model-id";
+export const OPERATION_TYPE_EXTENSION = "x-operation-type";
+
+export const HTTP_METHODS = ["get", "post", "put", "patch", "delete"] as const;
+
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
+const DEFAULT_METHOD_BY_TYPE: Record<string, HttpMethod> = {
+  CREATE: "post",
+  READ: "get",
+  UPDATE: "put",
+  DELETE: "delete",
+  CUSTOM: "post"
+};
+
+const SCHEMA_KEYWORDS = [
+  "type",
+  "$ref",
+  "properties",
+  "items",
+  "enum",
+  "oneOf",
+  "anyOf",
+  "allOf",
+  "format"
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isSchemaLike(value: unknown): value is JsonSchema {
+  return isRecord(value) && SCHEMA_KEYWORDS.some((keyword) => keyword in value);
+}
+
+function readString(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+export function toHttpMethod(method: string | null, type: string): HttpMethod {
+  const normalized = method?.trim().toLowerCase();
+  return HTTP_METHODS.find((item) => item === normalized) ?? DEFAULT_METHOD_BY_TYPE[type] ?? "post";
+}
+
+/**
+ * 拆出接口地址中的服务地址与路径，并把 :id、[id] 形式的路径参数统一改写为 OpenAPI 的 {id}。
+ */
+export function splitEndpoint(endpoint: string) {
+  const trimmed = endpoint.trim();
+  const absolute = /^[a-z][a-z0-9+.-]*:\/\/[^/]+/i.exec(trimmed);
+  const origin = absolute ? absolute[0] : null;
+  const rest = (origin ? trimmed.slice(origin.length) : trimmed).split(/[?#]/)[0];
+  const path = ("/" + rest.replace(/^\/+/, ""))
+    .replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, "{$1}")
+    .replace(/\[([A-Za-z_][A-Za-z0-9_]*)\]/g, "{$1}")
+    .replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, "{$1}");
+  return { origin, path: path.length > 1 ? path.replace(/\/+$/, "") : path };
+}
+
+function exampleSchema(value: unknown): JsonSchema {
+  if (typeof value === "number") {
+    return { type: Number.isInteger(value) ? "integer" : "number", examples: [value] };
+  }
+  if (typeof value === "boolean") return { type: "boolean", examples: [value] };
+  // {{keyword}} 一类的模板变量只说明取值来源，不作为示例值
+  if (typeof value === "string" && value && !/\{\{.*\}\}/.test(value)) {
+    return { type: "string", examples: [value] };
+  }
+  return { type: "string" };
+}
+
+type ParameterSpec = {
+  name: string;
+  schema: JsonSchema;
+  description?: string;
+  required?: boolean;
+};
+
+const PARAMETER_KEYS = ["name", "in", "description", "required", "schema"];
+
+/**
+ * 参数既可以写成 { name: schema | 示例值 }，也可以写成 [{ name, type, description, required }]。
+ */
+function readParameterSpecs(value: unknown): ParameterSpec[] {
+  if (Array.isArray(value)) {
+    return value
+      .filter(
+        (item): item is Record<string, unknown> => isRecord(item) && Boolean(readString(item.name))
+      )
+      .map((item) => {
+        const schema = Object.fromEntries(
+          Object.entries(item).filter(([key]) => !PARAMETER_KEYS.includes(key))
+        );
+        return {
+          name: String(item.name).trim(),
+          schema: isRecord(item.schema)
+            ? item.schema
+            : isSchemaLike(schema)
+              ? schema
+              : { type: "string" },
+          description: readString(item.description),
+          required: typeof item.required === "boolean" ? item.required : undefined
+        };
+      });
+  }
+  if (!isRecord(value)) return [];
+
+  return Object.entries(value).map(([name, item]) => {
+    if (isSchemaLike(item)) {
+      const { description, required, ...schema } = item;
+      return {
+        name,
+        schema,
+        description: readString(description),
+        required: typeof required === "boolean" ? required : undefined
+      };
+    }
+    return { name, schema: exampleSchema(item) };
+  });
+}
+
+function buildParameters(
+  path: string,
+  request: Record<string, unknown>,
+  warnings: string[],
+  label: string
+) {
+  const parameters: Record<string, unknown>[] = [];
+  const seen = new Set<string>();
+  const push = (location: string, spec: ParameterSpec) => {
+    const key = `${location}:${spec.name}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    parameters.push({
+      name: spec.name,
+      in: location,
+      ...(spec.description ? { description: spec.description } : {}),
+      ...(location === "path" ? { required: true } : spec.required ? { required: true } : {}),
+      schema: spec.schema
+    });
+  };
+
+  const declared = readParameterSpecs(request.pathParams);
+  const placeholders = Array.from(path.matchAll(/\{([^}]+)\}/g), (match) => match[1]);
+  placeholders.forEach((name) => {
+    push(
+      "path",
+      declared.find((spec) => spec.name === name) ?? { name, schema: { type: "string" } }
+    );
+  });
+  declared
+    .filter((spec) => !placeholders.includes(spec.name))
+    .forEach((spec) => warnings.push(`${label}：路径参数 ${spec.name} 未出现在接口地址中，已忽略`));
+
+  readParameterSpecs(request.query).forEach((spec) => push("query", spec));
+  if (isRecord(request.pagination)) {
+    [request.pagination.pageParam, request.pagination.pageSizeParam]
+      .map(readString)
+      .filter((name): name is string => Boolean(name))
+      .forEach((name) => push("query", { name, schema: { type: "integer", minimum: 1 } }));
+  }
+  if (isRecord(request.queryMapping)) {
+    Object.entries(request.queryMapping).forEach(([field, param]) => {
+      const name = readString(param) ?? field;
+      push("query", { name, schema: { type: "string" }, description: `筛选字段 ${field}` });
+    });
+  }
+  if (isRecord(request.headers)) {
+    Object.entries(request.headers)
+      .filter(([name]) => !/^(content-type|accept|authorization)$/i.test(name))
+      .forEach(([name, value]) => push("header", { name, schema: exampleSchema(value) }));
+  }
+
+  return parameters;
+}
+
+function jsonContent(schema: JsonSchema, example?: unknown) {
+  return {
+    "application/json": example === undefined ? { schema } : { schema, example }
+  };
+}
+
+function ref(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+/**
+ * 按 responseMapping 的路径还原响应包装结构，例如 data.list 与 data.total。
+ */
+function wrapAtPath(
+  path: string | undefined,
+  inner: JsonSchema,
+  root: JsonSchema = { type: "object" }
+) {
+  if (!path) return inner;
+  const keys = path.split(".").filter(Boolean);
+  const result: JsonSchema = {
+    ...root,
+    properties: { ...((root.properties as JsonSchema) ?? {}) }
+  };
+  let cursor = result;
+  keys.forEach((key, index) => {
+    const properties = cursor.properties as JsonSchema;
+    if (index === keys.length - 1) {
+      properties[key] = inner;
+      return;
+    }
+    const existing = isRecord(properties[key])
+      ? (properties[key] as JsonSchema)
+      : { type: "object" };
+    const next: JsonSchema = {
+      ...existing,
+      properties: { ...((existing.properties as JsonSchema) ?? {}) }
+    };
+    properties[key] = next;
+    cursor = next;
+  });
+  return result;
+}
+
+/**
+ * 根据数据表、表单和数据操作模型生成 OpenAPI 3.1 文档。组件 schema 由数据表字段和表单字段推导，
+ * 操作上显式写了 JSON Schema 的请求体或响应时优先使用；无法确定的部分记录到 warnings。
+ */
+export function generateOpenApiDocument(source: OpenApiSource): OpenApiResult {
+  const warnings: string[] = [];
+  const schemas: Record<string, JsonSchema> = {};
+  const claimComponent = createNameRegistry();
+  const tableRefs = new Map<string, string>();
+  const formRefs = new Map<string, string>();
+  const tables = new Map(source.tables.map((table) => [table.id, table]));
+
+  source.tables.forEach((table) => {
+    const name = claimComponent(toIdentifier(singularize(toPascalCase(table.name)), "Table"));
+    tableRefs.set(table.id, name);
+    schemas[name] = tableToJsonSchema(table);
+  });
+
+  const forms = new Map(source.forms.map((form) => [form.id, form]));
+  const formRef = (formId: string | null) => {
+    if (!formId) return null;
+    const cached = formRefs.get(formId);
+    if (cached) return cached;
+    const form = forms.get(formId);
+    if (!form) return null;
+
+    const tableName = tableRefs.get(form.storageTableId);
+    const pascal = toPascalCase(form.name);
+    const name = claimComponent(
+      pascal ? toIdentifier(pascal, "Form") : `${tableName ?? "Form"}Input`
+    );
+    formRefs.set(formId, name);
+    schemas[name] = formToJsonSchema(form, tables.get(form.storageTableId));
+    return name;
+  };
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  const origins = new Set<string>();
+  const claimOperationId = createNameRegistry();
+  const usedTags = new Map<string, string | null>();
+  const operationOrigins: Array<[Record<string, unknown>, string]> = [];
+
+  source.operations.forEach((operation) => {
+    const label = `数据操作「${operation.name}」`;
+    if (!operation.endpoint?.trim()) {
+      warnings.push(`${label}未配置接口地址，已跳过`);
+      return;
+    }
+
+    const { origin, path } = splitEndpoint(operation.endpoint);
+    const method = toHttpMethod(operation.method, operation.type);
+    const pathItem = paths[path] ?? {};
+    paths[path] = pathItem;
+    if (pathItem[method]) {
+      warnings.push(`${label}与其他操作同为 ${method.toUpperCase()} ${path}，已跳过`);
+      return;
+    }
+    if (origin) origins.add(origin);
+
+    const request = isRecord(operation.requestSchema) ? operation.requestSchema : {};
+    const response = isRecord(operation.responseSchema) ? operation.responseSchema : {};
+    const form = operation.formModelId ? forms.get(operation.formModelId) : undefined;
+    if (operation.formModelId && !form) {
+      warnings.push(`${label}关联的表单模型不在导出范围内，请求体按接口配置推断`);
+    }
+    const table = form ? tables.get(form.storageTableId) : undefined;
+    const resource = table ? tableRefs.get(table.id) : undefined;
+
+    const tag = table?.name;
+    if (tag && !usedTags.has(tag)) usedTags.set(tag, table.description);
+
+    const item: Record<string, unknown> = {
+      operationId: claimOperationId(
+        toCamelCase(operation.name)
+          ? toIdentifier(toCamelCase(operation.name), "op")
+          : `${method}${toPascalCase(path) || "Root"}`
+      ),
+      summary: operation.name,
+      ...(operation.description ? { description: operation.description } : {}),
+      ...(tag ? { tags: [tag] } : {}),
+      [OPERATION_ID_EXTENSION]: operation.id,
+      [OPERATION_TYPE_EXTENSION]: operation.type
+    };
+    if (origin) operationOrigins.push([item, origin]);
+
+    const parameters = buildParameters(path, request, warnings, label);
+    if (parameters.length) item.parameters = parameters;
+
+    if (method !== "get" && method !== "delete") {
+      const body = request.body;
+      const fromForm = formRef(operation.formModelId);
+      let schema: JsonSchema | null = null;
+      let example: unknown;
+      if (isSchemaLike(body)) schema = body;
+      else if (fromForm) {
+        schema = ref(fromForm);
+        example = body;
+      } else if (Array.isArray(request.fields)) {
+        schema = formToJsonSchema(
+          { name: operation.name, description: null, schema: request },
+          null
+        );
+      } else if (body !== undefined) {
+        schema = { type: "object" };
+        example = body;
+      }
+      if (schema) {
+        item.requestBody = { required: true, content: jsonContent(schema, example) };
+      }
+    }
+
+    const mapping =
+      isRecord(response.meta) && isRecord(response.meta.mapping) ? response.meta.mapping : {};
+    const itemsPath = readString(mapping.itemsPath) ?? readString(mapping.dataPath);
+    const totalPath = readString(mapping.totalPath);
+    const single = resource ? ref(resource) : { type: "object" };
+    let successSchema: JsonSchema | null;
+    if (SCHEMA_KEYWORDS.some((keyword) => keyword in response)) {
+      successSchema = Object.fromEntries(
+        Object.entries(response).filter(([key]) => key !== "meta")
+      );
+    } else if (isSchemaLike(response.schema)) {
+      successSchema = response.schema;
+    } else if (operation.type === "READ" && (itemsPath || totalPath)) {
+      const list: JsonSchema = { type: "array", items: single };
+      const envelope = wrapAtPath(itemsPath, list);
+      successSchema = totalPath
+        ? wrapAtPath(totalPath, { type: "integer" }, itemsPath ? envelope : { type: "object" })
+        : envelope;
+    } else if (operation.type === "READ") {
+      successSchema = path.includes("{") ? single : { type: "array", items: single };
+    } else if (operation.type === "DELETE") {
+      successSchema = null;
+    } else {
+      successSchema = resource ? single : { type: "object" };
+    }
+
+    const status = operation.type === "CREATE" ? "201" : successSchema ? "200" : "204";
+    item.responses = {
+      [status]: {
+        description: readString(request.successMessage) ?? "成功",
+        ...(successSchema ? { content: jsonContent(successSchema) } : {})
+      },
+      default: { description: readString(request.errorMessage) ?? "请求失败" }
+    };
+
+    pathItem[method] = item;
+  });
+
+  // 表单可能没有被任何操作引用，仍然作为组件导出
+  source.forms.forEach((form) => formRef(form.id));
+
+  // 所有接口同属一个服务地址时写在文档级，否则分别写在各个操作上
+  const servers = origins.size === 1 ? [{ url: Array.from(origins)[0] }] : undefined;
+  if (origins.size > 1) {
+    operationOrigins.forEach(([item, origin]) => {
+      item.servers = [{ url: origin }];
+    });
+  }
+  const document: Record<string, unknown> = {
+    openapi: "3.1.0",
+    info: {
+      title: source.title,
+      version: source.version,
+      ...(source.description ? { description: source.description } : {})
+    },
+    ...(servers ? { servers } : {}),
+    ...(usedTags.size
+      ? {
+          tags: Array.from(usedTags, ([name, description]) =>
+            description ? { name, description } : { name }
+          )
+        }
+      : {}),
+    paths: Object.fromEntries(
+      Object.entries(paths)
+        .filter(([, item]) => Object.keys(item).length > 0)
+        .sort(([left], [right]) => left.localeCompare(right))
+    ),
+    components: { schemas }
+  };
+  if (warnings.length) document["x-generator-warnings"] = warnings;
+
+  return { document, warnings };
+}
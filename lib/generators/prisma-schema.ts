@@ -0,0 +1,678 @@
+import {
+  createNameRegistry,
+  pluralize,
+  singularize,
+  toCamelCase,
+  toIdentifier,
+  toPascalCase
+} from "@/lib/generators/naming";
+import type { StorageColumn, StorageForeignKey, StorageTable } from "@/types/models";
+
+export type PrismaSchemaProvider = "mysql" | "postgresql" | "sqlite";
+
+export const PRISMA_SCHEMA_PROVIDERS: PrismaSchemaProvider[] = ["mysql", "postgresql", "sqlite"];
+
+export type PrismaSchemaOptions = {
+  provider: PrismaSchemaProvider;
+  /** 附带 generator 与 datasource 块，输出可直接作为独立的 schema.prisma 使用 */
+  includeDatasource?: boolean;
+  /** 写在文件开头的说明 */
+  title?: string;
+};
+
+type ScalarType = {
+  type: string;
+  native?: string;
+  list?: boolean;
+  note?: string;
+};
+
+type FieldLine = {
+  name: string;
+  type: string;
+  attributes: string[];
+  comment?: string | null;
+};
+
+type ModelDraft = {
+  table: StorageTable;
+  name: string;
+  columns: StorageColumn[];
+  fieldNames: Map<string, string>;
+  scalars: Map<string, ScalarType>;
+  fields: FieldLine[];
+  blockAttributes: string[];
+  nameFor: (name: string) => string;
+  ignored: boolean;
+};
+
+// 模型名不能与 Prisma 内置类型或生成的客户端导出冲突
+const RESERVED_MODEL_NAMES = [
+  "String",
+  "Int",
+  "BigInt",
+  "Float",
+  "Decimal",
+  "Boolean",
+  "DateTime",
+  "Json",
+  "Bytes",
+  "Unsupported",
+  "Prisma",
+  "PrismaClient"
+];
+
+const REFERENTIAL_ACTIONS: Record<string, string> = {
+  CASCADE: "Cascade",
+  "SET NULL": "SetNull",
+  "SET DEFAULT": "SetDefault",
+  RESTRICT: "Restrict",
+  "NO ACTION": "NoAction"
+};
+
+const NUMERIC_TYPES = new Set(["Int", "BigInt", "Float", "Decimal"]);
+
+function parseColumnType(raw: string) {
+  const lower = raw.trim().toLowerCase();
+  const argsMatch = lower.match(/\(([^)]*)\)/);
+  const args = argsMatch ? argsMatch[1].split(",").map((item) => item.trim()) : [];
+  const unsigned = /\bunsigned\b/.test(lower);
+  const list = /\[\]$/.test(lower);
+  const base = lower
+    .replace(/\([^)]*\)/g, "")
+    .replace(/\[\]$/, "")
+    .replace(/\b(unsigned|zerofill)\b/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return { base, args, unsigned, list };
+}
+
+function withArgs(name: string, args: string[]) {
+  const numeric = args.filter((arg) => /^\d+$/.test(arg));
+  return numeric.length ? `${name}(${numeric.join(", ")})` : name;
+}
+
+// 长度是必填参数的原生类型，缺少长度时交给 Prisma 默认映射
+function sized(name: string, args: string[]) {
+  return args.some((arg) => /^\d+$/.test(arg)) ? withArgs(name, args) : undefined;
+}
+
+function mapMysqlType(base: string, args: string[], unsigned: boolean): ScalarType | null {
+  const integer = (name: string) => (unsigned ? `Unsigned${name}` : name);
+  switch (base) {
+    case "bool":
+    case "boolean":
+      return { type: "Boolean" };
+    case "tinyint":
+      return args[0] === "1" && !unsigned
+        ? { type: "Boolean" }
+        : { type: "Int", native: integer("TinyInt") };
+    case "smallint":
+      return { type: "Int", native: integer("SmallInt") };
+    case "mediumint":
+      return { type: "Int", native: integer("MediumInt") };
+    case "int":
+    case "integer":
+      return { type: "Int", native: unsigned ? "UnsignedInt" : undefined };
+    case "bigint":
+      return { type: "BigInt", native: unsigned ? "UnsignedBigInt" : undefined };
+    case "year":
+      return { type: "Int", native: "Year" };
+    case "decimal":
+    case "numeric":
+      return { type: "Decimal", native: sized("Decimal", args) };
+    case "float":
+      return { type: "Float", native: "Float" };
+    case "double":
+    case "double precision":
+    case "real":
+      return { type: "Float" };
+    case "char":
+      return { type: "String", native: sized("Char", args) };
+    case "varchar":
+      return { type: "String", native: sized("VarChar", args) };
+    case "tinytext":
+      return { type: "String", native: "TinyText" };
+    case "text":
+      return { type: "String", native: "Text" };
+    case "mediumtext":
+      return { type: "String", native: "MediumText" };
+    case "longtext":
+      return { type: "String", native: "LongText" };
+    case "enum":
+    case "set":
+      return { type: "String", note: `可选值：${args.map((arg) => arg.replace(/^'|'$/g, "")).join(", ")}` };
+    case "json":
+      return { type: "Json" };
+    case "date":
+      return { type: "DateTime", native: "Date" };
+    case "datetime":
+      return { type: "DateTime", native: withArgs("DateTime", args) };
+    case "timestamp":
+      return { type: "DateTime", native: withArgs("Timestamp", args) };
+    case "time":
+      return { type: "DateTime", native: withArgs("Time", args) };
+    case "binary":
+      return { type: "Bytes", native: sized("Binary", args) };
+    case "varbinary":
+      return { type: "Bytes", native: sized("VarBinary", args) };
+    case "tinyblob":
+      return { type: "Bytes", native: "TinyBlob" };
+    case "blob":
+      return { type: "Bytes", native: "Blob" };
+    case "mediumblob":
+      return { type: "Bytes", native: "MediumBlob" };
+    case "longblob":
+      return { type: "Bytes", native: "LongBlob" };
+    default:
+      return null;
+  }
+}
+
+function mapPostgresType(base: string, args: string[]): ScalarType | null {
+  const precision = args[0] && /^\d+$/.test(args[0]) ? args[0] : "6";
+  switch (base) {
+    case "bool":
+    case "boolean":
+      return { type: "Boolean" };
+    case "smallint":
+    case "int2":
+    case "smallserial":
+    case "serial2":
+      return { type: "Int", native: "SmallInt" };
+    case "int":
+    case "integer":
+    case "int4":
+    case "serial":
+    case "serial4":
+      return { type: "Int" };
+    case "bigint":
+    case "int8":
+    case "bigserial":
+    case "serial8":
+      return { type: "BigInt" };
+    case "decimal":
+    case "numeric":
+      return { type: "Decimal", native: sized("Decimal", args) };
+    case "real":
+    case "float4":
+      return { type: "Float", native: "Real" };
+    case "double precision":
+    case "float8":
+    case "float":
+      return { type: "Float" };
+    case "money":
+      return { type: "Decimal", native: "Money" };
+    case "char":
+    case "character":
+    case "bpchar":
+      return { type: "String", native: sized("Char", args) };
+    case "varchar":
+    case "character varying":
+      return { type: "String", native: sized("VarChar", args) };
+    case "text":
+      return { type: "String" };
+    case "uuid":
+      return { type: "String", native: "Uuid" };
+    case "xml":
+      return { type: "String", native: "Xml" };
+    case "citext":
+      return { type: "String", native: "Citext" };
+    case "inet":
+      return { type: "String", native: "Inet" };
+    case "json":
+      return { type: "Json", native: "Json" };
+    case "jsonb":
+      return { type: "Json" };
+    case "date":
+      return { type: "DateTime", native: "Date" };
+    case "timestamp":
+    case "timestamp without time zone":
+      return { type: "DateTime", native: `Timestamp(${precision})` };
+    case "timestamptz":
+    case "timestamp with time zone":
+      return { type: "DateTime", native: `Timestamptz(${precision})` };
+    case "time":
+    case "time without time zone":
+      return { type: "DateTime", native: `Time(${precision})` };
+    case "timetz":
+    case "time with time zone":
+      return { type: "DateTime", native: `Timetz(${precision})` };
+    case "bytea":
+      return { type: "Bytes" };
+    default:
+      return null;
+  }
+}
+
+// SQLite 按类型亲和性判断，声明类型写法五花八门，只能按关键字匹配
+function mapSqliteType(base: string): ScalarType | null {
+  if (/bool/.test(base)) return { type: "Boolean" };
+  if (/bigint|int8/.test(base)) return { type: "BigInt" };
+  if (/int/.test(base)) return { type: "Int" };
+  if (/char|clob|text|uuid|json/.test(base)) return { type: "String" };
+  if (/real|floa|doub/.test(base)) return { type: "Float" };
+  if (/decimal|numeric/.test(base)) return { type: "Decimal" };
+  if (/date|time/.test(base)) return { type: "DateTime" };
+  if (/blob/.test(base) || !base) return { type: "Bytes" };
+  return null;
+}
+
+function mapColumnType(column: StorageColumn, provider: PrismaSchemaProvider): ScalarType {
+  const raw = column.type?.trim() ?? "";
+  const { base, args, unsigned, list } = parseColumnType(raw);
+
+  let scalar: ScalarType | null;
+  if (provider === "mysql") {
+    scalar = mapMysqlType(base, args, unsigned);
+  } else if (provider === "postgresql") {
+    scalar = mapPostgresType(base, args);
+  } else {
+    scalar = mapSqliteType(base);
+  }
+
+  if (!scalar) {
+    return { type: `Unsupported(${JSON.stringify(raw || "unknown")})` };
+  }
+  if (list) {
+    return provider === "postgresql"
+      ? { type: scalar.type, list: true }
+      : { type: `Unsupported(${JSON.stringify(raw)})` };
+  }
+  return provider === "sqlite" ? { type: scalar.type, note: scalar.note } : scalar;
+}
+
+function stripCasts(value: string) {
+  let text = value.trim();
+  // PostgreSQL 默认值常带类型转换，例如 'draft'::character varying
+  for (let match = text.match(/^(.*?)::[\w\s".[\]]+$/s); match; match = text.match(/^(.*?)::[\w\s".[\]]+$/s)) {
+    text = match[1].trim();
+  }
+  while (/^\(.*\)$/s.test(text) && !/^\(.*\)\s*\(/.test(text)) {
+    text = text.slice(1, -1).trim();
+  }
+  return text;
+}
+
+function quoteString(value: string) {
+  return JSON.stringify(value);
+}
+
+function toDefaultAttribute(column: StorageColumn, scalar: ScalarType) {
+  if (column.autoIncrement && (scalar.type === "Int" || scalar.type === "BigInt")) {
+    return "@default(autoincrement())";
+  }
+  if (column.default === null || column.default === undefined) return null;
+  if (scalar.list) return null;
+
+  if (typeof column.default === "boolean") {
+    return scalar.type === "Boolean" ? `@default(${column.default})` : null;
+  }
+  if (typeof column.default === "number") {
+    if (scalar.type === "Boolean") return `@default(${column.default !== 0})`;
+    return NUMERIC_TYPES.has(scalar.type) ? `@default(${column.default})` : null;
+  }
+
+  const original = String(column.default).trim();
+  const text = stripCasts(original);
+  if (!text || /^null$/i.test(text)) return null;
+
+  if (/^nextval\(/i.test(text) && (scalar.type === "Int" || scalar.type === "BigInt")) {
+    return "@default(autoincrement())";
+  }
+  if (
+    scalar.type === "DateTime" &&
+    /^(current_timestamp|now|localtimestamp)(\s*\(\s*\d*\s*\))?$/i.test(text)
+  ) {
+    return "@default(now())";
+  }
+
+  const quoted = text.match(/^'(.*)'$/s);
+  const literal = quoted ? quoted[1].replace(/''/g, "'") : text;
+  const isExpression = !quoted && /^[\w.]+\s*\(.*\)$/s.test(text);
+  const dbGenerated = `@default(dbgenerated(${quoteString(original)}))`;
+
+  if (isExpression) return dbGenerated;
+
+  switch (scalar.type) {
+    case "Boolean":
+      if (/^(1|true|b'1'|t|y|yes)$/i.test(literal)) return "@default(true)";
+      if (/^(0|false|b'0'|f|n|no)$/i.test(literal)) return "@default(false)";
+      return dbGenerated;
+    case "Int":
+    case "BigInt":
+      return /^-?\d+$/.test(literal) ? `@default(${literal})` : dbGenerated;
+    case "Float":
+    case "Decimal":
+      return /^-?\d+(\.\d+)?(e[+-]?\d+)?$/i.test(literal) ? `@default(${literal})` : dbGenerated;
+    case "String":
+    case "Json":
+      return `@default(${quoteString(literal)})`;
+    default:
+      return dbGenerated;
+  }
+}
+
+function toModelName(tableName: string) {
+  return toIdentifier(singularize(toPascalCase(tableName)), "Model");
+}
+
+function sameColumns(left: string[], right: string[]) {
+  if (left.length !== right.length) return false;
+  const sorted = right.map((item) => item.toLowerCase()).sort();
+  return left
+    .map((item) => item.toLowerCase())
+    .sort()
+    .every((item, index) => item === sorted[index]);
+}
+
+function uniqueColumnSets(table: StorageTable) {
+  const sets: Array<{ name: string | null; columns: string[] }> = [];
+  const add = (name: string | null, columns: string[]) => {
+    if (!columns.length || sameColumns(columns, table.primaryKey)) return;
+    if (sets.some((item) => sameColumns(item.columns, columns))) return;
+    sets.push({ name, columns });
+  };
+  table.uniqueConstraints.forEach((constraint) => add(constraint.name, constraint.columns));
+  table.indexes
+    .filter((index) => index.unique)
+    .forEach((index) => add(index.name, index.columns));
+  return sets;
+}
+
+function isUniqueKey(table: StorageTable, columns: string[]) {
+  return (
+    (table.primaryKey.length > 0 && sameColumns(table.primaryKey, columns)) ||
+    uniqueColumnSets(table).some((item) => sameColumns(item.columns, columns))
+  );
+}
+
+function findColumn(columns: StorageColumn[], name: string) {
+  return (
+    columns.find((column) => column.name === name) ??
+    columns.find((column) => column.name.toLowerCase() === name.toLowerCase())
+  );
+}
+
+function mapAttribute(name: string | null | undefined, attribute: string) {
+  return name ? `${attribute}(map: ${quoteString(name)})` : attribute;
+}
+
+function fieldList(model: ModelDraft, columns: string[]) {
+  const names = columns.map((column) => {
+    const match = findColumn(model.columns, column);
+    return match ? model.fieldNames.get(match.name) : undefined;
+  });
+  return names.every(Boolean) ? (names as string[]) : null;
+}
+
+function singleLine(value: string) {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+function createModelDraft(table: StorageTable, name: string, provider: PrismaSchemaProvider) {
+  const columns = table.schema?.columns ?? [];
+  const nameFor = createNameRegistry();
+  const fieldNames = new Map<string, string>();
+  const scalars = new Map<string, ScalarType>();
+  columns.forEach((column) => {
+    fieldNames.set(column.name, nameFor(toIdentifier(toCamelCase(column.name), "field")));
+    scalars.set(column.name, mapColumnType(column, provider));
+  });
+
+  const draft: ModelDraft = {
+    table,
+    name,
+    columns,
+    fieldNames,
+    scalars,
+    fields: [],
+    blockAttributes: [],
+    nameFor,
+    ignored: false
+  };
+
+  const primaryKey = table.primaryKey.filter((column) => findColumn(columns, column));
+  const uniques = uniqueColumnSets(table);
+  const singleUniques = new Map<string, string | null>();
+  uniques
+    .filter((item) => item.columns.length === 1)
+    .forEach((item) => {
+      const column = findColumn(columns, item.columns[0]);
+      if (column) singleUniques.set(column.name, item.name);
+    });
+
+  columns.forEach((column) => {
+    const scalar = scalars.get(column.name) as ScalarType;
+    const fieldName = fieldNames.get(column.name) as string;
+    const attributes: string[] = [];
+    const inPrimaryKey = primaryKey.some((name) => findColumn(columns, name)?.name === column.name);
+    const isPrimary = inPrimaryKey && primaryKey.length === 1;
+
+    if (isPrimary) attributes.push("@id");
+    if (!isPrimary && singleUniques.has(column.name)) {
+      attributes.push(mapAttribute(singleUniques.get(column.name), "@unique"));
+    }
+    const defaultAttribute = toDefaultAttribute(column, scalar);
+    if (defaultAttribute) attributes.push(defaultAttribute);
+    if (fieldName !== column.name) attributes.push(`@map(${quoteString(column.name)})`);
+    if (scalar.native) attributes.push(`@db.${scalar.native}`);
+
+    const optional = !scalar.list && !inPrimaryKey && column.nullable !== false;
+    const comments = [column.comment, scalar.note].filter(Boolean).map((item) => singleLine(item as string));
+    draft.fields.push({
+      name: fieldName,
+      type: `${scalar.type}${scalar.list ? "[]" : ""}${optional ? "?" : ""}`,
+      attributes,
+      comment: comments.length ? comments.join("；") : null
+    });
+  });
+
+  if (primaryKey.length > 1) {
+    const fields = fieldList(draft, primaryKey);
+    if (fields) draft.blockAttributes.push(`@@id([${fields.join(", ")}])`);
+  }
+  uniques
+    .filter((item) => item.columns.length > 1)
+    .forEach((item) => {
+      const fields = fieldList(draft, item.columns);
+      if (!fields) return;
+      const map = item.name ? `, map: ${quoteString(item.name)}` : "";
+      draft.blockAttributes.push(`@@unique([${fields.join(", ")}]${map})`);
+    });
+
+  const indexed: string[][] = [];
+  table.indexes
+    .filter((index) => !index.unique)
+    .forEach((index) => {
+      const fields = fieldList(draft, index.columns);
+      if (!fields || indexed.some((item) => sameColumns(item, index.columns))) return;
+      indexed.push(index.columns);
+      const map = index.name ? `, map: ${quoteString(index.name)}` : "";
+      draft.blockAttributes.push(`@@index([${fields.join(", ")}]${map})`);
+    });
+
+  // Prisma 要求每个模型都有主键或由必填字段组成的唯一约束，否则只能标记为忽略
+  const identifiable =
+    primaryKey.length > 0 ||
+    uniques.some((item) =>
+      item.columns.every((name) => {
+        const column = findColumn(columns, name);
+        return column && column.nullable === false;
+      })
+    );
+  draft.ignored = !identifiable || !columns.length;
+
+  return draft;
+}
+
+function toReferentialAction(value: string | null | undefined) {
+  return value ? REFERENTIAL_ACTIONS[value.trim().toUpperCase()] : undefined;
+}
+
+function addRelation(
+  source: ModelDraft,
+  target: ModelDraft,
+  foreignKey: StorageForeignKey,
+  relationName: string | null
+) {
+  const fields = fieldList(source, foreignKey.columns) as string[];
+  const references = fieldList(target, foreignKey.referencedColumns) as string[];
+
+  const stripped =
+    foreignKey.columns.length === 1 ? foreignKey.columns[0].replace(/_?id$/i, "") : "";
+  const forwardName = source.nameFor(
+    toIdentifier(toCamelCase(stripped && stripped !== foreignKey.columns[0] ? stripped : target.name), "relation")
+  );
+  const optional = source.fields.some(
+    (field) => fields.includes(field.name) && field.type.endsWith("?")
+  );
+
+  const args = [
+    relationName ? quoteString(relationName) : null,
+    `fields: [${fields.join(", ")}]`,
+    `references: [${references.join(", ")}]`
+  ];
+  const onDelete = toReferentialAction(foreignKey.onDelete);
+  const onUpdate = toReferentialAction(foreignKey.onUpdate);
+  if (onDelete) args.push(`onDelete: ${onDelete}`);
+  if (onUpdate) args.push(`onUpdate: ${onUpdate}`);
+  if (foreignKey.name) args.push(`map: ${quoteString(foreignKey.name)}`);
+
+  source.fields.push({
+    name: forwardName,
+    type: `${target.name}${optional ? "?" : ""}`,
+    attributes: [`@relation(${args.filter(Boolean).join(", ")})`]
+  });
+
+  const oneToOne = isUniqueKey(source.table, foreignKey.columns);
+  const baseName = oneToOne ? toCamelCase(source.name) : toCamelCase(pluralize(source.name));
+  const backName = target.nameFor(
+    toIdentifier(relationName ? `${baseName}As${toPascalCase(forwardName)}` : baseName, "relation")
+  );
+  target.fields.push({
+    name: backName,
+    type: `${source.name}${oneToOne ? "?" : "[]"}`,
+    attributes: relationName ? [`@relation(${quoteString(relationName)})`] : []
+  });
+}
+
+function formatModel(model: ModelDraft) {
+  const lines: string[] = [];
+  if (model.table.description) lines.push(`/// ${singleLine(model.table.description)}`);
+  if (model.ignored) {
+    lines.push("/// 该表没有主键或非空唯一约束，Prisma Client 不会为其生成访问接口");
+  }
+  lines.push(`model ${model.name} {`);
+
+  const nameWidth = Math.max(...model.fields.map((field) => field.name.length));
+  const typeWidth = Math.max(...model.fields.map((field) => field.type.length));
+  model.fields.forEach((field) => {
+    if (field.comment) lines.push(`  /// ${field.comment}`);
+    lines.push(
+      `  ${field.name.padEnd(nameWidth)} ${field.type.padEnd(typeWidth)} ${field.attributes.join(" ")}`.trimEnd()
+    );
+  });
+
+  const blockAttributes = [...model.blockAttributes];
+  if (model.name !== model.table.name) blockAttributes.push(`@@map(${quoteString(model.table.name)})`);
+  if (model.ignored) blockAttributes.push("@@ignore");
+  if (blockAttributes.length) {
+    lines.push("");
+    blockAttributes.forEach((attribute) => lines.push(`  ${attribute}`));
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * 把存储模型的表结构转换为 schema.prisma 片段。
+ * 外键只在两端的表都参与生成、且引用列是目标表主键或唯一键时才会生成关系字段，其余情况写入文件头部的说明。
+ */
+export function generatePrismaSchema(tables: StorageTable[], options: PrismaSchemaOptions) {
+  const { provider } = options;
+  const notes: string[] = [];
+  const modelName = createNameRegistry(RESERVED_MODEL_NAMES);
+  const models = tables.map((table) =>
+    createModelDraft(table, modelName(toModelName(table.name)), provider)
+  );
+
+  const findModel = (name: string) =>
+    models.find((model) => model.table.name === name) ??
+    models.find((model) => model.table.name.toLowerCase() === name.toLowerCase());
+
+  const relations: Array<{ source: ModelDraft; target: ModelDraft; foreignKey: StorageForeignKey }> =
+    [];
+  models.forEach((source) => {
+    source.table.foreignKeys.forEach((foreignKey) => {
+      const label = `${source.table.name}.${foreignKey.name ?? foreignKey.columns.join("_")}`;
+      const target = findModel(foreignKey.referencedTable);
+      if (!target) {
+        notes.push(`外键 ${label} 引用的表 ${foreignKey.referencedTable} 不在生成范围内，未生成关系字段`);
+        return;
+      }
+      if (source.ignored || target.ignored) {
+        notes.push(`外键 ${label} 涉及被忽略的模型，未生成关系字段`);
+        return;
+      }
+      if (
+        foreignKey.columns.length !== foreignKey.referencedColumns.length ||
+        !fieldList(source, foreignKey.columns) ||
+        !fieldList(target, foreignKey.referencedColumns)
+      ) {
+        notes.push(`外键 ${label} 的列信息不完整，未生成关系字段`);
+        return;
+      }
+      if (!isUniqueKey(target.table, foreignKey.referencedColumns)) {
+        notes.push(`外键 ${label} 引用的列不是 ${target.table.name} 的主键或唯一键，未生成关系字段`);
+        return;
+      }
+      relations.push({ source, target, foreignKey });
+    });
+  });
+
+  // 同一对模型之间存在多条关系（含自关联）时，Prisma 要求为关系命名以区分两端字段
+  const pairKey = (a: ModelDraft, b: ModelDraft) => [a.name, b.name].sort().join("|");
+  const pairCounts = new Map<string, number>();
+  relations.forEach(({ source, target }) => {
+    const key = pairKey(source, target);
+    pairCounts.set(key, (pairCounts.get(key) ?? 0) + 1);
+  });
+  relations.forEach(({ source, target, foreignKey }) => {
+    const ambiguous = source === target || (pairCounts.get(pairKey(source, target)) ?? 0) > 1;
+    const relationName = ambiguous
+      ? `${source.name}_${(fieldList(source, foreignKey.columns) as string[]).join("_")}To${target.name}`
+      : null;
+    addRelation(source, target, foreignKey, relationName);
+  });
+
+  models.forEach((model) => {
+    const unsupported = model.fields.filter((field) => field.type.startsWith("Unsupported"));
+    if (unsupported.length) {
+      notes.push(
+        `${model.table.name} 中的 ${unsupported.map((field) => field.name).join("、")} 无法映射为 Prisma 类型，已使用 Unsupported`
+      );
+    }
+    if (!model.columns.length) {
+      notes.push(`${model.table.name} 没有列信息，已标记为忽略`);
+    }
+  });
+
+  const header: string[] = [];
+  if (options.title) header.push(`// ${singleLine(options.title)}`);
+  notes.forEach((note) => header.push(`// 注意：${note}`));
+
+  const blocks: string[] = [];
+  if (header.length) blocks.push(header.join("\n"));
+  if (options.includeDatasource) {
+    blocks.push('generator client {\n  provider = "prisma-client-js"\n}');
+    blocks.push(
+      `datasource db {\n  provider = ${quoteString(provider)}\n  url      = env("DATABASE_URL")\n}`
+    );
+  }
+  models
+    .filter((model) => model.columns.length)
+    .forEach((model) => blocks.push(formatModel(model)));
+
+  return `${blocks.join("\n\n")}\n`;
+}
@@ -0,0 +1,503 @@
+import type {
+  StorageColumn,
+  StorageForeignKey,
+  StorageIndex,
+  StorageTableSchema,
+  StorageUniqueConstraint
+} from "@/types/models";
+
+export type SqlDialect = "mysql" | "postgresql" | "sqlite";
+
+export const SQL_DIALECTS: SqlDialect[] = ["mysql", "postgresql", "sqlite"];
+
+export type SqlTable = {
+  id?: string;
+  name: string;
+  description?: string | null;
+  schema: StorageTableSchema | null;
+};
+
+export type SqlScriptOptions = {
+  dialect: SqlDialect;
+  /** PostgreSQL 的 schema 名，指定后表名带上 schema 前缀 */
+  schemaName?: string | null;
+  title?: string;
+};
+
+type Script = {
+  statements: string[];
+  /** 外键统一放在最后创建，避免引用的表尚未建立 */
+  foreignKeys: string[];
+};
+
+const KEYWORD_DEFAULTS = /^(null|true|false|current_timestamp|current_date|current_time|localtimestamp|localtime)(\s*\(\s*\d*\s*\))?$/i;
+
+function quoteIdentifier(name: string, dialect: SqlDialect) {
+  return dialect === "mysql" ? `\`${name.replace(/`/g, "``")}\`` : `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteString(value: string) {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function columnList(columns: string[], dialect: SqlDialect) {
+  return columns.map((column) => quoteIdentifier(column, dialect)).join(", ");
+}
+
+function tableName(name: string, options: SqlScriptOptions) {
+  const quoted = quoteIdentifier(name, options.dialect);
+  return options.dialect === "postgresql" && options.schemaName
+    ? `${quoteIdentifier(options.schemaName, options.dialect)}.${quoted}`
+    : quoted;
+}
+
+/**
+ * 导入时保存的默认值既有原样的 SQL 表达式（如 PostgreSQL 的 'a'::text、now()），
+ * 也有 MySQL 去掉引号后的字符串字面量，这里只给后者补上引号。
+ */
+function formatDefault(value: unknown) {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+
+  const text = String(value).trim();
+  if (
+    /^-?\d+(\.\d+)?$/.test(text) ||
+    KEYWORD_DEFAULTS.test(text) ||
+    /^'.*'(::.+)?$/s.test(text) ||
+    /^\(.*\)$/s.test(text) ||
+    /^[\w.]+\s*\(.*\)(::.+)?$/s.test(text) ||
+    /^b'[01]*'$/i.test(text)
+  ) {
+    return text;
+  }
+  return quoteString(String(value));
+}
+
+function isIntegerType(type: string | undefined) {
+  return /int|serial/i.test(type ?? "");
+}
+
+function columnDefinition(
+  column: StorageColumn,
+  schema: StorageTableSchema,
+  options: SqlScriptOptions
+) {
+  const { dialect } = options;
+  const parts = [quoteIdentifier(column.name, dialect), column.type || "text"];
+  const serial = dialect === "postgresql" && /serial/i.test(column.type ?? "");
+  const primaryKey = schema.primaryKey ?? [];
+
+  if (column.nullable === false) parts.push("NOT NULL");
+  else if (dialect === "mysql") parts.push("NULL");
+
+  const defaultValue = column.autoIncrement || serial ? null : formatDefault(column.default);
+  if (defaultValue !== null) parts.push(`DEFAULT ${defaultValue}`);
+
+  if (column.autoIncrement && !serial) {
+    if (dialect === "mysql") {
+      parts.push("AUTO_INCREMENT");
+    } else if (dialect === "postgresql" && isIntegerType(column.type)) {
+      parts.push("GENERATED BY DEFAULT AS IDENTITY");
+    }
+  }
+  // SQLite 的自增只能写在 INTEGER 类型的单列主键上
+  if (dialect === "sqlite" && primaryKey.length === 1 && primaryKey[0] === column.name) {
+    const autoIncrement = column.autoIncrement && /^integer$/i.test(column.type ?? "");
+    parts.push(autoIncrement ? "PRIMARY KEY AUTOINCREMENT" : "PRIMARY KEY");
+  }
+  if (dialect === "mysql" && column.comment) {
+    parts.push(`COMMENT ${quoteString(column.comment)}`);
+  }
+  return parts.join(" ");
+}
+
+function foreignKeyClause(foreignKey: StorageForeignKey, options: SqlScriptOptions) {
+  const { dialect } = options;
+  const referenced = foreignKey.referencedSchema && dialect === "postgresql"
+    ? `${quoteIdentifier(foreignKey.referencedSchema, dialect)}.${quoteIdentifier(foreignKey.referencedTable, dialect)}`
+    : tableName(foreignKey.referencedTable, options);
+  const parts = [
+    foreignKey.name ? `CONSTRAINT ${quoteIdentifier(foreignKey.name, dialect)}` : null,
+    `FOREIGN KEY (${columnList(foreignKey.columns, dialect)})`,
+    `REFERENCES ${referenced} (${columnList(foreignKey.referencedColumns, dialect)})`,
+    foreignKey.onDelete ? `ON DELETE ${foreignKey.onDelete.toUpperCase()}` : null,
+    foreignKey.onUpdate ? `ON UPDATE ${foreignKey.onUpdate.toUpperCase()}` : null
+  ];
+  return parts.filter(Boolean).join(" ");
+}
+
+function uniqueClause(constraint: StorageUniqueConstraint, dialect: SqlDialect) {
+  const prefix = constraint.name ? `CONSTRAINT ${quoteIdentifier(constraint.name, dialect)} ` : "";
+  return `${prefix}UNIQUE (${columnList(constraint.columns, dialect)})`;
+}
+
+function sameColumns(left: string[], right: string[]) {
+  return left.length === right.length && left.every((column, index) => column === right[index]);
+}
+
+// 唯一约束在 MySQL、PostgreSQL 中同时表现为唯一索引，主键也可能出现在索引列表里，生成时需去重
+function standaloneIndexes(schema: StorageTableSchema) {
+  const uniques = schema.uniqueConstraints ?? [];
+  const primaryKey = schema.primaryKey ?? [];
+  return (schema.indexes ?? []).filter(
+    (index) =>
+      index.columns.length > 0 &&
+      !(primaryKey.length && sameColumns(index.columns, primaryKey)) &&
+      !(index.unique && uniques.some((unique) => sameColumns(unique.columns, index.columns)))
+  );
+}
+
+function createIndexStatement(table: string, index: StorageIndex, options: SqlScriptOptions) {
+  const { dialect } = options;
+  return `CREATE ${index.unique ? "UNIQUE " : ""}INDEX ${quoteIdentifier(index.name, dialect)} ON ${tableName(table, options)} (${columnList(index.columns, dialect)});`;
+}
+
+function dropIndexStatement(table: string, index: StorageIndex, options: SqlScriptOptions) {
+  const { dialect } = options;
+  if (dialect === "mysql") {
+    return `DROP INDEX ${quoteIdentifier(index.name, dialect)} ON ${tableName(table, options)};`;
+  }
+  const name =
+    dialect === "postgresql" && options.schemaName
+      ? `${quoteIdentifier(options.schemaName, dialect)}.${quoteIdentifier(index.name, dialect)}`
+      : quoteIdentifier(index.name, dialect);
+  return `DROP INDEX ${name};`;
+}
+
+function columnComment(table: string, column: StorageColumn, options: SqlScriptOptions) {
+  const comment = column.comment ? quoteString(column.comment) : "NULL";
+  return `COMMENT ON COLUMN ${tableName(table, options)}.${quoteIdentifier(column.name, options.dialect)} IS ${comment};`;
+}
+
+function tableComment(table: SqlTable, options: SqlScriptOptions) {
+  const comment = table.description ? quoteString(table.description) : "NULL";
+  if (options.dialect === "mysql") {
+    return `ALTER TABLE ${tableName(table.name, options)} COMMENT = ${table.description ? comment : "''"};`;
+  }
+  if (options.dialect === "postgresql") {
+    return `COMMENT ON TABLE ${tableName(table.name, options)} IS ${comment};`;
+  }
+  return null;
+}
+
+function emptySchema(): StorageTableSchema {
+  return { columns: [] };
+}
+
+function createTable(table: SqlTable, options: SqlScriptOptions, script: Script) {
+  const { dialect } = options;
+  const schema = table.schema ?? emptySchema();
+  const primaryKey = schema.primaryKey ?? [];
+  const lines = schema.columns.map((column) => columnDefinition(column, schema, options));
+
+  if (primaryKey.length && !(dialect === "sqlite" && primaryKey.length === 1)) {
+    lines.push(`PRIMARY KEY (${columnList(primaryKey, dialect)})`);
+  }
+  (schema.uniqueConstraints ?? []).forEach((constraint) =>
+    lines.push(uniqueClause(constraint, dialect))
+  );
+  (schema.foreignKeys ?? []).forEach((foreignKey) => {
+    if (dialect === "sqlite") {
+      lines.push(foreignKeyClause(foreignKey, options));
+    } else {
+      script.foreignKeys.push(
+        `ALTER TABLE ${tableName(table.name, options)} ADD ${foreignKeyClause(foreignKey, options)};`
+      );
+    }
+  });
+
+  const suffix =
+    dialect === "mysql" && table.description ? ` COMMENT = ${quoteString(table.description)}` : "";
+  script.statements.push(
+    `CREATE TABLE ${tableName(table.name, options)} (\n  ${lines.join(",\n  ")}\n)${suffix};`
+  );
+
+  standaloneIndexes(schema).forEach((index) =>
+    script.statements.push(createIndexStatement(table.name, index, options))
+  );
+  if (dialect === "postgresql") {
+    if (table.description) script.statements.push(tableComment(table, options) as string);
+    schema.columns
+      .filter((column) => column.comment)
+      .forEach((column) => script.statements.push(columnComment(table.name, column, options)));
+  }
+}
+
+function dropTable(table: SqlTable, options: SqlScriptOptions) {
+  return `DROP TABLE ${tableName(table.name, options)};`;
+}
+
+function constraintKey(item: { name: string | null; columns: string[] }) {
+  return item.name ?? `(${item.columns.join(",")})`;
+}
+
+function diffByKey<T extends { name: string | null; columns: string[] }>(before: T[], after: T[]) {
+  const afterMap = new Map(after.map((item) => [constraintKey(item), item]));
+  const beforeMap = new Map(before.map((item) => [constraintKey(item), item]));
+  const changed = (item: T, other: T | undefined) =>
+    !other || JSON.stringify(item) !== JSON.stringify(other);
+  return {
+    removed: before.filter((item) => changed(item, afterMap.get(constraintKey(item)))),
+    added: after.filter((item) => changed(item, beforeMap.get(constraintKey(item))))
+  };
+}
+
+function columnChanged(before: StorageColumn, after: StorageColumn) {
+  return {
+    type: (before.type ?? "").toLowerCase() !== (after.type ?? "").toLowerCase(),
+    nullable: (before.nullable !== false) !== (after.nullable !== false),
+    default: formatDefault(before.default) !== formatDefault(after.default),
+    comment: (before.comment || null) !== (after.comment || null),
+    autoIncrement: Boolean(before.autoIncrement) !== Boolean(after.autoIncrement)
+  };
+}
+
+function alterColumnStatements(
+  table: string,
+  before: StorageColumn,
+  after: StorageColumn,
+  schema: StorageTableSchema,
+  options: SqlScriptOptions
+) {
+  const { dialect } = options;
+  const changes = columnChanged(before, after);
+  const name = tableName(table, options);
+  const column = quoteIdentifier(after.name, dialect);
+
+  if (dialect === "mysql") {
+    return [`ALTER TABLE ${name} MODIFY COLUMN ${columnDefinition(after, schema, options)};`];
+  }
+  if (dialect === "sqlite") {
+    return [`-- SQLite 不支持修改列定义，请重建数据表 ${table} 以调整字段 ${after.name}`];
+  }
+
+  const statements: string[] = [];
+  if (changes.autoIncrement && !after.autoIncrement) {
+    statements.push(`ALTER TABLE ${name} ALTER COLUMN ${column} DROP IDENTITY IF EXISTS;`);
+  }
+  if (changes.type) {
+    statements.push(
+      `ALTER TABLE ${name} ALTER COLUMN ${column} TYPE ${after.type} USING ${column}::${after.type};`
+    );
+  }
+  if (changes.nullable) {
+    statements.push(
+      `ALTER TABLE ${name} ALTER COLUMN ${column} ${after.nullable === false ? "SET" : "DROP"} NOT NULL;`
+    );
+  }
+  if (changes.default) {
+    const value = formatDefault(after.default);
+    statements.push(
+      value === null
+        ? `ALTER TABLE ${name} ALTER COLUMN ${column} DROP DEFAULT;`
+        : `ALTER TABLE ${name} ALTER COLUMN ${column} SET DEFAULT ${value};`
+    );
+  }
+  if (changes.autoIncrement && after.autoIncrement) {
+    statements.push(
+      `ALTER TABLE ${name} ALTER COLUMN ${column} ADD GENERATED BY DEFAULT AS IDENTITY;`
+    );
+  }
+  if (changes.comment) statements.push(columnComment(table, after, options));
+  return statements;
+}
+
+function renameTable(before: SqlTable, after: SqlTable, options: SqlScriptOptions) {
+  if (options.dialect === "mysql") {
+    return `RENAME TABLE ${tableName(before.name, options)} TO ${tableName(after.name, options)};`;
+  }
+  return `ALTER TABLE ${tableName(before.name, options)} RENAME TO ${quoteIdentifier(after.name, options.dialect)};`;
+}
+
+function alterTable(before: SqlTable, after: SqlTable, options: SqlScriptOptions, script: Script) {
+  const { dialect } = options;
+  const previous = before.schema ?? emptySchema();
+  const next = after.schema ?? emptySchema();
+  const name = tableName(after.name, options);
+  const statements: string[] = [];
+  const unsupported = (message: string) => statements.push(`-- ${message}`);
+
+  if (before.name !== after.name) statements.push(renameTable(before, after, options));
+
+  const foreignKeys = diffByKey(previous.foreignKeys ?? [], next.foreignKeys ?? []);
+  const uniques = diffByKey(previous.uniqueConstraints ?? [], next.uniqueConstraints ?? []);
+  const indexes = diffByKey(standaloneIndexes(previous), standaloneIndexes(next));
+  const previousKey = previous.primaryKey ?? [];
+  const nextKey = next.primaryKey ?? [];
+  const primaryKeyChanged = !sameColumns(previousKey, nextKey);
+
+  foreignKeys.removed.forEach((foreignKey) => {
+    if (dialect === "sqlite" || !foreignKey.name) {
+      unsupported(`请手动删除外键 ${foreignKey.name ?? foreignKey.columns.join(", ")}`);
+    } else if (dialect === "mysql") {
+      statements.push(`ALTER TABLE ${name} DROP FOREIGN KEY ${quoteIdentifier(foreignKey.name, dialect)};`);
+    } else {
+      statements.push(`ALTER TABLE ${name} DROP CONSTRAINT ${quoteIdentifier(foreignKey.name, dialect)};`);
+    }
+  });
+  uniques.removed.forEach((constraint) => {
+    if (!constraint.name) {
+      unsupported(`请手动删除唯一约束 (${constraint.columns.join(", ")})`);
+    } else if (dialect === "mysql") {
+      statements.push(`ALTER TABLE ${name} DROP INDEX ${quoteIdentifier(constraint.name, dialect)};`);
+    } else if (dialect === "postgresql") {
+      statements.push(`ALTER TABLE ${name} DROP CONSTRAINT ${quoteIdentifier(constraint.name, dialect)};`);
+    } else {
+      unsupported(`SQLite 不支持删除表级唯一约束 ${constraint.name}，请重建数据表 ${after.name}`);
+    }
+  });
+  indexes.removed.forEach((index) => statements.push(dropIndexStatement(after.name, index, options)));
+
+  if (primaryKeyChanged && previousKey.length) {
+    if (dialect === "mysql") {
+      statements.push(`ALTER TABLE ${name} DROP PRIMARY KEY;`);
+    } else if (dialect === "postgresql") {
+      // 导入的结构未记录主键约束名，这里按 PostgreSQL 的默认命名生成
+      statements.push(
+        `ALTER TABLE ${name} DROP CONSTRAINT ${quoteIdentifier(`${before.name}_pkey`, dialect)};`
+      );
+    }
+  }
+
+  const previousColumns = new Map(previous.columns.map((column) => [column.name, column]));
+  const nextColumns = new Map(next.columns.map((column) => [column.name, column]));
+  const removedColumns = previous.columns.filter((column) => !nextColumns.has(column.name));
+  const addedColumns = next.columns.filter((column) => !previousColumns.has(column.name));
+
+  if (removedColumns.length && addedColumns.length) {
+    unsupported(
+      `同时存在删除与新增的字段，如为重命名，请改写为 RENAME COLUMN 以保留数据：${removedColumns
+        .map((column) => column.name)
+        .join(", ")} → ${addedColumns.map((column) => column.name).join(", ")}`
+    );
+  }
+  removedColumns.forEach((column) =>
+    statements.push(`ALTER TABLE ${name} DROP COLUMN ${quoteIdentifier(column.name, dialect)};`)
+  );
+  addedColumns.forEach((column) => {
+    // 新增字段不能在 ALTER 中声明为主键，主键统一在后面调整
+    const definition = columnDefinition(column, { ...next, primaryKey: [] }, options);
+    statements.push(`ALTER TABLE ${name} ADD COLUMN ${definition};`);
+    if (dialect === "postgresql" && column.comment) {
+      statements.push(columnComment(after.name, column, options));
+    }
+  });
+  next.columns.forEach((column) => {
+    const original = previousColumns.get(column.name);
+    if (!original) return;
+    if (Object.values(columnChanged(original, column)).some(Boolean)) {
+      statements.push(...alterColumnStatements(after.name, original, column, next, options));
+    }
+  });
+
+  if (primaryKeyChanged) {
+    if (dialect === "sqlite") {
+      unsupported(`SQLite 不支持修改主键，请重建数据表 ${after.name}`);
+    } else if (nextKey.length) {
+      statements.push(`ALTER TABLE ${name} ADD PRIMARY KEY (${columnList(nextKey, dialect)});`);
+    }
+  }
+  uniques.added.forEach((constraint) => {
+    if (dialect === "sqlite") {
+      statements.push(
+        createIndexStatement(
+          after.name,
+          {
+            name: constraint.name ?? `${after.name}_${constraint.columns.join("_")}_key`,
+            columns: constraint.columns,
+            unique: true
+          },
+          options
+        )
+      );
+    } else {
+      statements.push(`ALTER TABLE ${name} ADD ${uniqueClause(constraint, dialect)};`);
+    }
+  });
+  indexes.added.forEach((index) => statements.push(createIndexStatement(after.name, index, options)));
+  foreignKeys.added.forEach((foreignKey) => {
+    if (dialect === "sqlite") {
+      unsupported(`SQLite 不支持为已有数据表新增外键，请重建数据表 ${after.name}`);
+    } else {
+      script.foreignKeys.push(`ALTER TABLE ${name} ADD ${foreignKeyClause(foreignKey, options)};`);
+    }
+  });
+
+  if ((before.description || null) !== (after.description || null)) {
+    const statement = tableComment(after, options);
+    if (statement) statements.push(statement);
+  }
+
+  if (statements.length) {
+    script.statements.push(`-- 修改数据表 ${after.name}\n${statements.join("\n")}`);
+  }
+}
+
+function header(options: SqlScriptOptions, lines: string[]) {
+  return [
+    options.title ? `-- ${options.title.replace(/\s+/g, " ")}` : null,
+    `-- 数据库方言：${options.dialect}`,
+    ...lines
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+function render(options: SqlScriptOptions, notes: string[], script: Script) {
+  const body = [...script.statements];
+  if (script.foreignKeys.length) {
+    body.push(`-- 外键\n${script.foreignKeys.join("\n")}`);
+  }
+  return `${[header(options, notes), ...body].join("\n\n")}\n`;
+}
+
+/**
+ * 按当前结构生成完整的建表脚本。
+ */
+export function generateCreateTablesSql(tables: SqlTable[], options: SqlScriptOptions) {
+  const script: Script = { statements: [], foreignKeys: [] };
+  tables.forEach((table) => createTable(table, options, script));
+  return render(options, [], script);
+}
+
+/**
+ * 比较基线与当前结构生成迁移脚本。数据表优先按 id 对应以识别重命名，字段只能按名称对应，
+ * 字段改名会表现为删除后新增，脚本中会提示改写。
+ */
+export function generateMigrationSql(
+  before: SqlTable[],
+  after: SqlTable[],
+  options: SqlScriptOptions
+) {
+  const script: Script = { statements: [], foreignKeys: [] };
+  const matched = new Map<SqlTable, SqlTable>();
+  const remaining = before.slice();
+
+  after.forEach((table) => {
+    const index = remaining.findIndex((item) =>
+      table.id && item.id ? item.id === table.id : item.name === table.name
+    );
+    if (index >= 0) {
+      matched.set(table, remaining[index]);
+      remaining.splice(index, 1);
+    }
+  });
+
+  after.forEach((table) => {
+    const previous = matched.get(table);
+    if (previous) {
+      alterTable(previous, table, options, script);
+    } else {
+      createTable(table, options, script);
+    }
+  });
+  remaining.forEach((table) => script.statements.push(dropTable(table, options)));
+
+  const hasChanges = script.statements.length > 0 || script.foreignKeys.length > 0;
+  const notes = [
+    "-- 本脚本仅供审阅后手动执行，请先在测试环境验证并做好数据备份",
+    hasChanges ? null : "-- 与基线相比没有结构变更"
+  ].filter(Boolean) as string[];
+
+  return { sql: render(options, notes, script), hasChanges };
+}
@@ -0,0 +1,210 @@
+import {
+  formToJsonSchema,
+  readColumns,
+  tableToJsonSchema,
+  type JsonSchema,
+  type JsonSchemaForm,
+  type JsonSchemaTable
+} from "@/lib/generators/json-schema";
+import {
+  createNameRegistry,
+  singularize,
+  toCamelCase,
+  toIdentifier,
+  toPascalCase
+} from "@/lib/generators/naming";
+
+export type TypeScriptTable = JsonSchemaTable & { id: string };
+
+export type TypeScriptForm = JsonSchemaForm & { id: string; storageTableId: string };
+
+export type TypeScriptModuleSource = {
+  /** 生成接口的数据表 */
+  tables: TypeScriptTable[];
+  forms: TypeScriptForm[];
+  /** 表单关联但不在 tables 中的数据表，只用于推断表单字段类型 */
+  referencedTables?: TypeScriptTable[];
+  title?: string;
+};
+
+// 与 TypeScript 内置类型或 zod 导出同名时追加序号
+const RESERVED_NAMES = ["z", "Date", "Record", "Array", "Object", "String", "Number", "Boolean"];
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function propertyKey(name: string) {
+  return IDENTIFIER_PATTERN.test(name) ? name : JSON.stringify(name);
+}
+
+function docComment(lines: Array<string | null | undefined>, indent = "") {
+  const content = lines
+    .filter((line): line is string => Boolean(line && line.trim()))
+    .map((line) => line.replace(/\*\//g, "*\\/").replace(/\s+/g, " ").trim());
+  if (content.length === 0) return [];
+  if (content.length === 1) return [`${indent}/** ${content[0]} */`];
+  return [`${indent}/**`, ...content.map((line) => `${indent} * ${line}`), `${indent} */`];
+}
+
+function readTypes(schema: JsonSchema) {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  return {
+    nullable: types.includes("null"),
+    type: types.find((type) => typeof type === "string" && type !== "null") as string | undefined
+  };
+}
+
+function literal(value: unknown) {
+  return JSON.stringify(value);
+}
+
+function tsType(schema: JsonSchema): string {
+  const { nullable, type } = readTypes(schema);
+  let result: string;
+
+  if (Array.isArray(schema.enum)) {
+    const values = schema.enum.filter((value) => value !== null);
+    result = values.length ? values.map(literal).join(" | ") : "never";
+  } else if (type === "integer" || type === "number") {
+    result = "number";
+  } else if (type === "string") {
+    result = "string";
+  } else if (type === "boolean") {
+    result = "boolean";
+  } else if (type === "array") {
+    const items = tsType((schema.items as JsonSchema) ?? {});
+    result = /[| ]/.test(items) ? `Array<${items}>` : `${items}[]`;
+  } else if (type === "object") {
+    result = "Record<string, unknown>";
+  } else {
+    result = "unknown";
+  }
+
+  return nullable && result !== "unknown" ? `${result} | null` : result;
+}
+
+function zodBase(schema: JsonSchema, requiredMessage: string | null): string {
+  const { type } = readTypes(schema);
+  const params = requiredMessage ? `{ required_error: ${literal(requiredMessage)} }` : "";
+
+  if (Array.isArray(schema.enum)) {
+    const values = schema.enum.filter((value) => value !== null);
+    if (values.length && values.every((value) => typeof value === "string")) {
+      return `z.enum([${values.map(literal).join(", ")}]${params ? `, ${params}` : ""})`;
+    }
+    if (values.length === 1) return `z.literal(${literal(values[0])})`;
+    return `z.union([${values.map((value) => `z.literal(${literal(value)})`).join(", ")}])`;
+  }
+
+  switch (type) {
+    case "integer":
+    case "number": {
+      let result = `z.number(${params})`;
+      if (type === "integer") result += ".int()";
+      if (typeof schema.minimum === "number") result += `.min(${schema.minimum})`;
+      if (typeof schema.maximum === "number") result += `.max(${schema.maximum})`;
+      return result;
+    }
+    case "string": {
+      let result = `z.string(${params})`;
+      if (schema.format === "uuid") result += ".uuid()";
+      const minLength = typeof schema.minLength === "number" ? schema.minLength : 0;
+      // 必填的文本字段不接受空字符串
+      if (requiredMessage && minLength < 1) result += `.min(1, ${literal(requiredMessage)})`;
+      if (minLength > 0) result += `.min(${minLength})`;
+      if (typeof schema.maxLength === "number") result += `.max(${schema.maxLength})`;
+      if (typeof schema.pattern === "string") {
+        result += `.regex(new RegExp(${literal(schema.pattern)}))`;
+      }
+      return result;
+    }
+    case "boolean":
+      return `z.boolean(${params})`;
+    case "array":
+      return `z.array(${zodBase((schema.items as JsonSchema) ?? {}, null)})`;
+    case "object":
+      return "z.record(z.unknown())";
+    default:
+      return "z.unknown()";
+  }
+}
+
+function zodType(schema: JsonSchema, required: boolean) {
+  const label = typeof schema.title === "string" ? schema.title : null;
+  let result = zodBase(schema, required && label ? `${label}不能为空` : null);
+  if (readTypes(schema).nullable) result += ".nullable()";
+  if (!required) result += ".optional()";
+  return result;
+}
+
+function readProperties(schema: JsonSchema) {
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+  const required = Array.isArray(schema.required) ? (schema.required as string[]) : [];
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    property,
+    required: required.includes(name)
+  }));
+}
+
+/**
+ * 为数据表生成 TypeScript 接口、为表单生成 zod schema，输出为单个模块。
+ * 可空字段生成为可选属性；表单字段按 required 与字段上的校验配置生成约束。
+ */
+export function generateTypeScriptModule(source: TypeScriptModuleSource) {
+  const claimName = createNameRegistry(RESERVED_NAMES);
+  const tablesById = new Map(
+    [...(source.referencedTables ?? []), ...source.tables].map((table) => [table.id, table])
+  );
+  const blocks: string[] = [];
+
+  source.tables.forEach((table) => {
+    const name = claimName(toIdentifier(singularize(toPascalCase(table.name)), "Table"));
+    const columns = new Map(readColumns(table.schema).map((column) => [column.name, column]));
+    const lines = [
+      ...docComment([table.description, `数据表：${table.name}`]),
+      `export interface ${name} {`
+    ];
+    readProperties(tableToJsonSchema(table)).forEach(({ name: column, property }) => {
+      const nullable = columns.get(column)?.nullable !== false;
+      lines.push(
+        ...docComment([property.description as string | undefined], "  "),
+        `  ${propertyKey(column)}${nullable ? "?" : ""}: ${tsType(property)};`
+      );
+    });
+    lines.push("}");
+    blocks.push(lines.join("\n"));
+  });
+
+  source.forms.forEach((form) => {
+    const table = tablesById.get(form.storageTableId);
+    const pascal = toPascalCase(form.name);
+    const typeName = claimName(
+      pascal
+        ? toIdentifier(/Form$/.test(pascal) ? pascal : `${pascal}Form`, "Form")
+        : `${table ? singularize(toPascalCase(table.name)) || "Table" : "Data"}Form`
+    );
+    const schemaName = claimName(`${toCamelCase(typeName)}Schema`);
+    const valuesName = claimName(`${typeName}Values`);
+
+    const lines = [
+      ...docComment([form.name, form.description, table ? `数据表：${table.name}` : null]),
+      `export const ${schemaName} = z.object({`
+    ];
+    readProperties(formToJsonSchema(form, table)).forEach(({ name, property, required }) => {
+      lines.push(
+        ...docComment([property.title as string | undefined], "  "),
+        `  ${propertyKey(name)}: ${zodType(property, required)},`
+      );
+    });
+    lines.push("});", "", `export type ${valuesName} = z.infer<typeof ${schemaName}>;`);
+    blocks.push(lines.join("\n"));
+  });
+
+  const header = [
+    ...(source.title ? [`// ${source.title.replace(/\s+/g, " ")}`] : []),
+    "// 此文件由模型自动生成，请勿手动修改"
+  ];
+  const imports = source.forms.length ? ['import { z } from "zod";'] : [];
+
+  return [header.join("\n"), ...imports, ...blocks].join("\n\n") + "\n";
+}
@@ -0,0 +1,140 @@
+import { z } from "zod";
+
+import { mysqlIntrospector } from "@/lib/introspection/mysql";
+import { matchesTablePattern } from "@/lib/introspection/pattern";
+import { postgresIntrospector } from "@/lib/introspection/postgres";
+import type {
+  ConnectionConfig,
+  DatabaseDialect,
+  DatabaseIntrospector,
+  TableFilter
+} from "@/lib/introspection/types";
+
+export type {
+  ColumnSchema,
+  ConnectionConfig,
+  DatabaseDialect,
+  DatabaseIntrospector,
+  DatabaseOverview,
+  ForeignKeySchema,
+  IndexSchema,
+  IntrospectOptions,
+  TableFilter,
+  TableSchema,
+  TableSummary,
+  UniqueConstraintSchema
+} from "@/lib/introspection/types";
+
+const introspectors: Record<DatabaseDialect, DatabaseIntrospector> = {
+  mysql: mysqlIntrospector,
+  postgresql: postgresIntrospector
+};
+
+export const DATABASE_DIALECTS = Object.keys(introspectors) as DatabaseDialect[];
+
+export function getIntrospector(dialect: DatabaseDialect): DatabaseIntrospector {
+  return introspectors[dialect];
+}
+
+// 主机名、IPv4 或不带方括号的 IPv6 地址
+const HOST_PATTERN =
+  /^(?:[A-Za-z0-9_](?:[A-Za-z0-9_.-]*[A-Za-z0-9_])?|[0-9A-Fa-f:.]*:[0-9A-Fa-f:.]*)$/;
+
+export const connectionSchema = z
+  .object({
+    dialect: z.enum(["mysql", "postgresql"]).default("mysql"),
+    host: z
+      .string()
+      .trim()
+      .min(1, "数据库地址不能为空")
+      .regex(HOST_PATTERN, "数据库地址格式不正确"),
+    port: z.union([z.string(), z.number()]).optional(),
+    user: z.string().min(1, "数据库用户不能为空"),
+    password: z.string().optional(),
+    database: z.string().min(1, "数据库名称不能为空"),
+    schema: z.string().optional()
+  })
+  .transform((data): ConnectionConfig => {
+    const defaultPort = getIntrospector(data.dialect).defaultPort;
+    const portValue = data.port !== undefined && data.port !== "" ? Number(data.port) : defaultPort;
+    const port = Number.isFinite(portValue) && portValue > 0 ? portValue : defaultPort;
+    return {
+      ...data,
+      password: data.password ?? "",
+      schema: data.schema?.trim() || undefined,
+      port
+    };
+  });
+
+export function formatConnectionUrl(config: ConnectionConfig) {
+  const host = config.host.includes(":") ? `[${config.host}]` : config.host;
+  const base = `${config.dialect}://${encodeURIComponent(config.user)}@${host}:${config.port}/${encodeURIComponent(config.database)}`;
+  return config.schema ? `${base}?schema=${encodeURIComponent(config.schema)}` : base;
+}
+
+export function parseConnectionUrl(url: string, password = ""): ConnectionConfig | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const dialect = parsed.protocol.replace(/:$/, "") as DatabaseDialect;
+  if (!DATABASE_DIALECTS.includes(dialect)) return null;
+
+  return {
+    dialect,
+    host: parsed.hostname.replace(/^\[(.*)\]$/, "$1"),
+    port: Number(parsed.port) || getIntrospector(dialect).defaultPort,
+    user: decodeURIComponent(parsed.username),
+    password,
+    database: decodeURIComponent(parsed.pathname.replace(/^\//, "")),
+    schema: parsed.searchParams.get("schema") || undefined
+  };
+}
+
+export const tableFilterSchema = z
+  .object({
+    tables: z.array(z.string().min(1)).optional(),
+    tablePattern: z.string().trim().optional()
+  })
+  .transform((data): TableFilter | undefined => {
+    const tables = data.tables ? Array.from(new Set(data.tables)) : [];
+    if (tables.length) return { tables };
+    if (data.tablePattern) return { pattern: data.tablePattern };
+    return undefined;
+  });
+
+export function applyTableFilter<T extends { name: string }>(
+  tables: T[],
+  filter: TableFilter | undefined
+): T[] {
+  if (filter?.tables?.length) {
+    const selected = new Set(filter.tables);
+    return tables.filter((table) => selected.has(table.name));
+  }
+  if (filter?.pattern) {
+    return tables.filter((table) => matchesTablePattern(table.name, filter.pattern!));
+  }
+  return tables;
+}
+
+/**
+ * 按选择范围读取表结构；按模式选择时先读取表清单再匹配，避免拉取整库的字段信息。
+ */
+export async function introspectWithFilter(config: ConnectionConfig, filter?: TableFilter) {
+  const introspector = getIntrospector(config.dialect);
+  if (!filter) {
+    return introspector.introspect(config);
+  }
+
+  const names = filter.tables?.length
+    ? filter.tables
+    : applyTableFilter((await introspector.inspect(config)).tables, filter).map(
+        (table) => table.name
+      );
+  if (!names.length) return [];
+
+  return introspector.introspect(config, { tables: names });
+}
@@ -0,0 +1,291 @@
+import mysql, { type RowDataPacket } from "mysql2/promise";
+
+import type {
+  ColumnSchema,
+  ConnectionConfig,
+  DatabaseIntrospector,
+  DatabaseOverview,
+  ForeignKeySchema,
+  IndexSchema,
+  IntrospectOptions,
+  TableSchema,
+  UniqueConstraintSchema
+} from "@/lib/introspection/types";
+
+type TableRow = RowDataPacket & {
+  tableName: string;
+  tableComment: string;
+};
+
+type TableSummaryRow = TableRow & {
+  tableRows: number | string | null;
+};
+
+const SYSTEM_SCHEMAS = ["information_schema", "mysql", "performance_schema", "sys"];
+
+type ColumnRow = RowDataPacket & {
+  tableName: string;
+  columnName: string;
+  columnType: string;
+  columnKey: string | null;
+  isNullable: "YES" | "NO";
+  columnDefault: unknown;
+  columnComment: string | null;
+  extra: string | null;
+};
+
+type IndexRow = RowDataPacket & {
+  tableName: string;
+  indexName: string;
+  nonUnique: number | string;
+  columnName: string | null;
+  indexType: string | null;
+};
+
+type KeyColumnRow = RowDataPacket & {
+  tableName: string;
+  constraintName: string;
+  constraintType: "PRIMARY KEY" | "UNIQUE" | "FOREIGN KEY";
+  columnName: string;
+  referencedSchema: string | null;
+  referencedTable: string | null;
+  referencedColumn: string | null;
+  updateRule: string | null;
+  deleteRule: string | null;
+};
+
+type TableConstraints = Required<
+  Pick<TableSchema, "primaryKey" | "uniqueConstraints" | "indexes" | "foreignKeys">
+>;
+
+function getConstraints(map: Map<string, TableConstraints>, tableName: string) {
+  let constraints = map.get(tableName);
+  if (!constraints) {
+    constraints = { primaryKey: [], uniqueConstraints: [], indexes: [], foreignKeys: [] };
+    map.set(tableName, constraints);
+  }
+  return constraints;
+}
+
+function collectConstraints(
+  database: string,
+  keyRows: KeyColumnRow[],
+  indexRows: IndexRow[]
+) {
+  const constraintsByTable = new Map<string, TableConstraints>();
+  const uniques = new Map<string, UniqueConstraintSchema>();
+  const foreignKeys = new Map<string, ForeignKeySchema>();
+  const indexes = new Map<string, IndexSchema>();
+
+  for (const row of keyRows) {
+    const constraints = getConstraints(constraintsByTable, row.tableName);
+    const id = `${row.tableName}.${row.constraintName}`;
+
+    if (row.constraintType === "PRIMARY KEY") {
+      constraints.primaryKey.push(row.columnName);
+    } else if (row.constraintType === "UNIQUE") {
+      let unique = uniques.get(id);
+      if (!unique) {
+        unique = { name: row.constraintName, columns: [] };
+        uniques.set(id, unique);
+        constraints.uniqueConstraints.push(unique);
+      }
+      unique.columns.push(row.columnName);
+    } else if (row.referencedTable) {
+      let foreignKey = foreignKeys.get(id);
+      if (!foreignKey) {
+        foreignKey = {
+          name: row.constraintName,
+          columns: [],
+          referencedTable: row.referencedTable,
+          referencedSchema:
+            row.referencedSchema && row.referencedSchema !== database
+              ? row.referencedSchema
+              : null,
+          referencedColumns: [],
+          onDelete: row.deleteRule,
+          onUpdate: row.updateRule
+        };
+        foreignKeys.set(id, foreignKey);
+        constraints.foreignKeys.push(foreignKey);
+      }
+      foreignKey.columns.push(row.columnName);
+      if (row.referencedColumn) {
+        foreignKey.referencedColumns.push(row.referencedColumn);
+      }
+    }
+  }
+
+  for (const row of indexRows) {
+    if (row.indexName === "PRIMARY" || !row.columnName) continue;
+    const id = `${row.tableName}.${row.indexName}`;
+    let index = indexes.get(id);
+    if (!index) {
+      index = {
+        name: row.indexName,
+        columns: [],
+        unique: Number(row.nonUnique) === 0,
+        type: row.indexType
+      };
+      indexes.set(id, index);
+      getConstraints(constraintsByTable, row.tableName).indexes.push(index);
+    }
+    index.columns.push(row.columnName);
+  }
+
+  return constraintsByTable;
+}
+
+function connect(config: ConnectionConfig) {
+  return mysql.createConnection({
+    host: config.host,
+    port: config.port,
+    user: config.user,
+    password: config.password,
+    database: config.database
+  });
+}
+
+async function inspect(config: ConnectionConfig): Promise<DatabaseOverview> {
+  const connection = await connect(config);
+
+  try {
+    const [[versionRow]] = await connection.query<(RowDataPacket & { version: string })[]>(
+      "SELECT VERSION() as version"
+    );
+
+    const [schemaRows] = await connection.query<(RowDataPacket & { schemaName: string })[]>(
+      `SELECT SCHEMA_NAME as schemaName
+         FROM INFORMATION_SCHEMA.SCHEMATA
+         WHERE SCHEMA_NAME NOT IN (?)
+         ORDER BY SCHEMA_NAME`,
+      [SYSTEM_SCHEMAS]
+    );
+
+    const [tableRows] = await connection.query<TableSummaryRow[]>(
+      `SELECT TABLE_NAME as tableName,
+              TABLE_COMMENT as tableComment,
+              TABLE_ROWS as tableRows
+         FROM INFORMATION_SCHEMA.TABLES
+         WHERE TABLE_SCHEMA = ?
+         ORDER BY TABLE_NAME`,
+      [config.database]
+    );
+
+    return {
+      serverVersion: `MySQL ${versionRow?.version ?? ""}`.trim(),
+      schemas: schemaRows.map((row) => row.schemaName),
+      tables: tableRows.map((row) => ({
+        name: row.tableName,
+        description: row.tableComment || null,
+        rowEstimate: row.tableRows === null ? null : Number(row.tableRows)
+      }))
+    };
+  } finally {
+    await connection.end();
+  }
+}
+
+async function introspect(
+  config: ConnectionConfig,
+  options: IntrospectOptions = {}
+): Promise<TableSchema[]> {
+  const connection = await connect(config);
+  const selected = options.tables?.length ? options.tables : null;
+  const params = selected ? [config.database, selected] : [config.database];
+
+  try {
+    const [tableRows] = await connection.query<TableRow[]>(
+      `SELECT TABLE_NAME as tableName, TABLE_COMMENT as tableComment
+       FROM INFORMATION_SCHEMA.TABLES
+       WHERE TABLE_SCHEMA = ?${selected ? " AND TABLE_NAME IN (?)" : ""}
+       ORDER BY TABLE_NAME`,
+      params
+    );
+
+    const [columnRows] = await connection.query<ColumnRow[]>(
+      `SELECT TABLE_NAME as tableName,
+              COLUMN_NAME as columnName,
+              COLUMN_TYPE as columnType,
+              COLUMN_KEY as columnKey,
+              IS_NULLABLE as isNullable,
+              COLUMN_DEFAULT as columnDefault,
+              COLUMN_COMMENT as columnComment,
+              EXTRA as extra
+         FROM INFORMATION_SCHEMA.COLUMNS
+         WHERE TABLE_SCHEMA = ?${selected ? " AND TABLE_NAME IN (?)" : ""}
+         ORDER BY TABLE_NAME, ORDINAL_POSITION`,
+      params
+    );
+
+    const [keyRows] = await connection.query<KeyColumnRow[]>(
+      `SELECT k.TABLE_NAME as tableName,
+              k.CONSTRAINT_NAME as constraintName,
+              t.CONSTRAINT_TYPE as constraintType,
+              k.COLUMN_NAME as columnName,
+              k.REFERENCED_TABLE_SCHEMA as referencedSchema,
+              k.REFERENCED_TABLE_NAME as referencedTable,
+              k.REFERENCED_COLUMN_NAME as referencedColumn,
+              r.UPDATE_RULE as updateRule,
+              r.DELETE_RULE as deleteRule
+         FROM INFORMATION_SCHEMA.KEY_COLUMN_USAGE k
+         JOIN INFORMATION_SCHEMA.TABLE_CONSTRAINTS t
+           ON t.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA
+          AND t.TABLE_NAME = k.TABLE_NAME
+          AND t.CONSTRAINT_NAME = k.CONSTRAINT_NAME
+         LEFT JOIN INFORMATION_SCHEMA.REFERENTIAL_CONSTRAINTS r
+           ON r.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA
+          AND r.TABLE_NAME = k.TABLE_NAME
+          AND r.CONSTRAINT_NAME = k.CONSTRAINT_NAME
+         WHERE k.TABLE_SCHEMA = ?${selected ? " AND k.TABLE_NAME IN (?)" : ""}
+           AND t.CONSTRAINT_TYPE IN ('PRIMARY KEY', 'UNIQUE', 'FOREIGN KEY')
+         ORDER BY k.TABLE_NAME, k.CONSTRAINT_NAME, k.ORDINAL_POSITION`,
+      params
+    );
+
+    const [indexRows] = await connection.query<IndexRow[]>(
+      `SELECT TABLE_NAME as tableName,
+              INDEX_NAME as indexName,
+              NON_UNIQUE as nonUnique,
+              COLUMN_NAME as columnName,
+              INDEX_TYPE as indexType
+         FROM INFORMATION_SCHEMA.STATISTICS
+         WHERE TABLE_SCHEMA = ?${selected ? " AND TABLE_NAME IN (?)" : ""}
+         ORDER BY TABLE_NAME, INDEX_NAME, SEQ_IN_INDEX`,
+      params
+    );
+
+    const constraintsByTable = collectConstraints(config.database, keyRows, indexRows);
+
+    const columnsByTable = new Map<string, ColumnSchema[]>();
+    for (const column of columnRows) {
+      const list = columnsByTable.get(column.tableName) ?? [];
+      list.push({
+        name: column.columnName,
+        type: column.columnType,
+        key: column.columnKey,
+        nullable: column.isNullable === "YES",
+        default: column.columnDefault,
+        comment: column.columnComment,
+        autoIncrement: /auto_increment/i.test(column.extra ?? "")
+      });
+      columnsByTable.set(column.tableName, list);
+    }
+
+    return tableRows.map((table) => ({
+      name: table.tableName,
+      description: table.tableComment || null,
+      columns: columnsByTable.get(table.tableName) ?? [],
+      ...getConstraints(constraintsByTable, table.tableName)
+    }));
+  } finally {
+    await connection.end();
+  }
+}
+
+export const mysqlIntrospector: DatabaseIntrospector = {
+  dialect: "mysql",
+  defaultPort: 3306,
+  inspect,
+  introspect
+};
@@ -0,0 +1,18 @@
+function globToRegExp(glob: string) {
+  const source = glob
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * 按表名模式筛选数据表：支持 * 与 ? 通配符，多个模式以逗号或空白分隔，忽略大小写。
+ */
+export function matchesTablePattern(name: string, pattern: string) {
+  const globs = pattern
+    .split(/[,\s]+/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return globs.some((glob) => globToRegExp(glob).test(name));
+}
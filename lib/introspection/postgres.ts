@@ -0,0 +1,330 @@
+import { Client } from "pg";
+
+import type {
+  ColumnSchema,
+  ConnectionConfig,
+  DatabaseIntrospector,
+  DatabaseOverview,
+  IndexSchema,
+  IntrospectOptions,
+  TableSchema
+} from "@/lib/introspection/types";
+
+const DEFAULT_SCHEMA = "public";
+
+type TableRow = {
+  tableName: string;
+  tableComment: string | null;
+};
+
+type TableSummaryRow = TableRow & {
+  rowEstimate: string | null;
+};
+
+type ColumnRow = {
+  tableName: string;
+  columnName: string;
+  columnType: string;
+  isNullable: boolean;
+  columnDefault: string | null;
+  columnComment: string | null;
+};
+
+type ConstraintRow = {
+  tableName: string;
+  constraintName: string;
+  constraintType: "p" | "u" | "f";
+  columns: string[];
+  referencedSchema: string | null;
+  referencedTable: string | null;
+  referencedColumns: string[];
+  updateRule: string;
+  deleteRule: string;
+};
+
+type IndexRow = {
+  tableName: string;
+  indexName: string;
+  isUnique: boolean;
+  indexType: string;
+  columns: string[];
+};
+
+// 与 MySQL 的 COLUMN_KEY 保持一致，便于前端沿用 PRI/UNI/MUL 判断
+const KEY_PRIORITY: Record<ConstraintRow["constraintType"], { key: string; rank: number }> = {
+  p: { key: "PRI", rank: 3 },
+  u: { key: "UNI", rank: 2 },
+  f: { key: "MUL", rank: 1 }
+};
+
+const REFERENTIAL_ACTIONS: Record<string, string> = {
+  a: "NO ACTION",
+  r: "RESTRICT",
+  c: "CASCADE",
+  n: "SET NULL",
+  d: "SET DEFAULT"
+};
+
+function toTableConstraints(
+  schema: string,
+  constraintRows: ConstraintRow[],
+  indexRows: IndexRow[]
+): Required<Pick<TableSchema, "primaryKey" | "uniqueConstraints" | "indexes" | "foreignKeys">> {
+  const primary = constraintRows.find((row) => row.constraintType === "p");
+
+  return {
+    primaryKey: primary?.columns ?? [],
+    uniqueConstraints: constraintRows
+      .filter((row) => row.constraintType === "u")
+      .map((row) => ({ name: row.constraintName, columns: row.columns })),
+    foreignKeys: constraintRows
+      .filter((row) => row.constraintType === "f" && row.referencedTable)
+      .map((row) => ({
+        name: row.constraintName,
+        columns: row.columns,
+        referencedTable: row.referencedTable!,
+        referencedSchema:
+          row.referencedSchema && row.referencedSchema !== schema ? row.referencedSchema : null,
+        referencedColumns: row.referencedColumns,
+        onDelete: REFERENTIAL_ACTIONS[row.deleteRule] ?? null,
+        onUpdate: REFERENTIAL_ACTIONS[row.updateRule] ?? null
+      })),
+    indexes: indexRows
+      .filter((row) => row.columns.length)
+      .map(
+        (row): IndexSchema => ({
+          name: row.indexName,
+          columns: row.columns,
+          unique: row.isUnique,
+          type: row.indexType
+        })
+      )
+  };
+}
+
+function groupByTable<T extends { tableName: string }>(rows: T[]) {
+  const grouped = new Map<string, T[]>();
+  for (const row of rows) {
+    const list = grouped.get(row.tableName) ?? [];
+    list.push(row);
+    grouped.set(row.tableName, list);
+  }
+  return grouped;
+}
+
+async function connect(config: ConnectionConfig) {
+  const client = new Client({
+    host: config.host,
+    port: config.port,
+    user: config.user,
+    password: config.password,
+    database: config.database
+  });
+  await client.connect();
+  return client;
+}
+
+async function inspect(config: ConnectionConfig): Promise<DatabaseOverview> {
+  const schema = config.schema || DEFAULT_SCHEMA;
+  const client = await connect(config);
+
+  try {
+    const { rows: versionRows } = await client.query<{ version: string }>(
+      "SELECT current_setting('server_version') AS version"
+    );
+
+    const { rows: schemaRows } = await client.query<{ schemaName: string }>(
+      `SELECT nspname AS "schemaName"
+         FROM pg_catalog.pg_namespace
+        WHERE nspname NOT LIKE 'pg\\_%'
+          AND nspname <> 'information_schema'
+        ORDER BY nspname`
+    );
+
+    // reltuples 为 -1 表示表尚未 ANALYZE，此时无法给出估算值
+    const { rows: tableRows } = await client.query<TableSummaryRow>(
+      `SELECT c.relname AS "tableName",
+              d.description AS "tableComment",
+              CASE WHEN c.reltuples < 0 THEN NULL ELSE c.reltuples::bigint END AS "rowEstimate"
+         FROM pg_catalog.pg_class c
+         JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+         LEFT JOIN pg_catalog.pg_description d
+           ON d.objoid = c.oid AND d.objsubid = 0
+        WHERE n.nspname = $1
+          AND c.relkind IN ('r', 'p')
+          AND NOT c.relispartition
+        ORDER BY c.relname`,
+      [schema]
+    );
+
+    return {
+      serverVersion: `PostgreSQL ${versionRows[0]?.version ?? ""}`.trim(),
+      schemas: schemaRows.map((row) => row.schemaName),
+      tables: tableRows.map((row) => ({
+        name: row.tableName,
+        description: row.tableComment || null,
+        rowEstimate: row.rowEstimate === null ? null : Number(row.rowEstimate)
+      }))
+    };
+  } finally {
+    await client.end();
+  }
+}
+
+async function introspect(
+  config: ConnectionConfig,
+  options: IntrospectOptions = {}
+): Promise<TableSchema[]> {
+  const schema = config.schema || DEFAULT_SCHEMA;
+  const selected = options.tables?.length ? options.tables : null;
+  const client = await connect(config);
+
+  try {
+    const { rows: tableRows } = await client.query<TableRow>(
+      `SELECT c.relname AS "tableName",
+              d.description AS "tableComment"
+         FROM pg_catalog.pg_class c
+         JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+         LEFT JOIN pg_catalog.pg_description d
+           ON d.objoid = c.oid AND d.objsubid = 0
+        WHERE n.nspname = $1
+          AND c.relkind IN ('r', 'p')
+          AND NOT c.relispartition
+          AND ($2::text[] IS NULL OR c.relname = ANY ($2))
+        ORDER BY c.relname`,
+      [schema, selected]
+    );
+
+    const { rows: columnRows } = await client.query<ColumnRow>(
+      `SELECT c.relname AS "tableName",
+              a.attname AS "columnName",
+              pg_catalog.format_type(a.atttypid, a.atttypmod) AS "columnType",
+              NOT a.attnotnull AS "isNullable",
+              pg_catalog.pg_get_expr(ad.adbin, ad.adrelid) AS "columnDefault",
+              d.description AS "columnComment"
+         FROM pg_catalog.pg_attribute a
+         JOIN pg_catalog.pg_class c ON c.oid = a.attrelid
+         JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+         LEFT JOIN pg_catalog.pg_attrdef ad
+           ON ad.adrelid = a.attrelid AND ad.adnum = a.attnum
+         LEFT JOIN pg_catalog.pg_description d
+           ON d.objoid = c.oid AND d.objsubid = a.attnum
+        WHERE n.nspname = $1
+          AND c.relkind IN ('r', 'p')
+          AND NOT c.relispartition
+          AND a.attnum > 0
+          AND NOT a.attisdropped
+          AND ($2::text[] IS NULL OR c.relname = ANY ($2))
+        ORDER BY c.relname, a.attnum`,
+      [schema, selected]
+    );
+
+    const { rows: constraintRows } = await client.query<ConstraintRow>(
+      `SELECT c.relname AS "tableName",
+              con.conname AS "constraintName",
+              con.contype AS "constraintType",
+              ARRAY(
+                SELECT a.attname::text
+                  FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+                  JOIN pg_catalog.pg_attribute a
+                    ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+                 ORDER BY k.ord
+              ) AS "columns",
+              rn.nspname AS "referencedSchema",
+              rc.relname AS "referencedTable",
+              ARRAY(
+                SELECT a.attname::text
+                  FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, ord)
+                  JOIN pg_catalog.pg_attribute a
+                    ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+                 ORDER BY k.ord
+              ) AS "referencedColumns",
+              con.confupdtype AS "updateRule",
+              con.confdeltype AS "deleteRule"
+         FROM pg_catalog.pg_constraint con
+         JOIN pg_catalog.pg_class c ON c.oid = con.conrelid
+         JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+         LEFT JOIN pg_catalog.pg_class rc ON rc.oid = con.confrelid
+         LEFT JOIN pg_catalog.pg_namespace rn ON rn.oid = rc.relnamespace
+        WHERE n.nspname = $1
+          AND con.contype IN ('p', 'u', 'f')
+          AND ($2::text[] IS NULL OR c.relname = ANY ($2))
+        ORDER BY c.relname, con.conname`,
+      [schema, selected]
+    );
+
+    const { rows: indexRows } = await client.query<IndexRow>(
+      `SELECT t.relname AS "tableName",
+              i.relname AS "indexName",
+              ix.indisunique AS "isUnique",
+              am.amname AS "indexType",
+              ARRAY(
+                SELECT a.attname::text
+                  FROM unnest(ix.indkey::int2[]) WITH ORDINALITY AS k(attnum, ord)
+                  JOIN pg_catalog.pg_attribute a
+                    ON a.attrelid = ix.indrelid AND a.attnum = k.attnum
+                 ORDER BY k.ord
+              ) AS "columns"
+         FROM pg_catalog.pg_index ix
+         JOIN pg_catalog.pg_class t ON t.oid = ix.indrelid
+         JOIN pg_catalog.pg_class i ON i.oid = ix.indexrelid
+         JOIN pg_catalog.pg_namespace n ON n.oid = t.relnamespace
+         JOIN pg_catalog.pg_am am ON am.oid = i.relam
+        WHERE n.nspname = $1
+          AND NOT ix.indisprimary
+          AND ix.indexprs IS NULL
+          AND ($2::text[] IS NULL OR t.relname = ANY ($2))
+        ORDER BY t.relname, i.relname`,
+      [schema, selected]
+    );
+
+    const keys = new Map<string, { key: string; rank: number }>();
+    for (const row of constraintRows) {
+      const candidate = KEY_PRIORITY[row.constraintType];
+      for (const columnName of row.columns) {
+        const id = `${row.tableName}.${columnName}`;
+        const current = keys.get(id);
+        if (!current || current.rank < candidate.rank) {
+          keys.set(id, candidate);
+        }
+      }
+    }
+
+    const columnsByTable = new Map<string, ColumnSchema[]>();
+    for (const column of columnRows) {
+      const list = columnsByTable.get(column.tableName) ?? [];
+      list.push({
+        name: column.columnName,
+        type: column.columnType,
+        key: keys.get(`${column.tableName}.${column.columnName}`)?.key ?? null,
+        nullable: column.isNullable,
+        default: column.columnDefault,
+        comment: column.columnComment
+      });
+      columnsByTable.set(column.tableName, list);
+    }
+
+    const constraintsByTable = groupByTable(constraintRows);
+    const indexesByTable = groupByTable(indexRows);
+
+    return tableRows.map((table) => ({
+      name: table.tableName,
+      description: table.tableComment || null,
+      columns: columnsByTable.get(table.tableName) ?? [],
+      ...toTableConstraints(
+        schema,
+        constraintsByTable.get(table.tableName) ?? [],
+        indexesByTable.get(table.tableName) ?? []
+      )
+    }));
+  } finally {
+    await client.end();
+  }
+}
+
+export const postgresIntrospector: DatabaseIntrospector = {
+  dialect: "postgresql",
+  defaultPort: 5432,
+  inspect,
+  introspect
+};
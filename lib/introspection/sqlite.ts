@@ -0,0 +1,234 @@
+import { readFile, realpath, stat } from "fs/promises";
+import path from "path";
+import initSqlJs, { type Database, type SqlJsStatic, type SqlValue } from "sql.js";
+
+import type {
+  ForeignKeySchema,
+  IndexSchema,
+  TableSchema,
+  UniqueConstraintSchema
+} from "@/lib/introspection/types";
+
+const SQLITE_HEADER = "SQLite format 3\u0000";
+
+export const MAX_SQLITE_FILE_SIZE = 50 * 1024 * 1024;
+
+export class SqliteSourceError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+type TableInfoRow = {
+  cid: number;
+  name: string;
+  type: string;
+  notnull: number;
+  dflt_value: SqlValue;
+  pk: number;
+};
+
+type IndexListRow = {
+  seq: number;
+  name: string;
+  unique: number;
+  origin: string;
+  partial: number;
+};
+
+type IndexInfoRow = {
+  seqno: number;
+  cid: number;
+  name: string | null;
+};
+
+type ForeignKeyRow = {
+  id: number;
+  seq: number;
+  table: string;
+  from: string;
+  to: string | null;
+  on_update: string;
+  on_delete: string;
+};
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+function loadSqlJs() {
+  if (!sqlJsPromise) {
+    sqlJsPromise = initSqlJs();
+  }
+  return sqlJsPromise;
+}
+
+function quoteIdentifier(name: string) {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function queryRows<T>(db: Database, sql: string): T[] {
+  const [result] = db.exec(sql);
+  if (!result) return [];
+  return result.values.map(
+    (values) =>
+      Object.fromEntries(result.columns.map((column, index) => [column, values[index]])) as T
+  );
+}
+
+export function isSqliteFile(buffer: Uint8Array) {
+  if (buffer.length < SQLITE_HEADER.length) return false;
+  for (let index = 0; index < SQLITE_HEADER.length; index += 1) {
+    if (buffer[index] !== SQLITE_HEADER.charCodeAt(index)) return false;
+  }
+  return true;
+}
+
+function isInside(root: string, target: string) {
+  const relative = path.relative(root, target);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+/**
+ * 读取服务端本地的 SQLite 文件。按路径导入需显式配置 SQLITE_IMPORT_ROOT，
+ * 路径相对该目录解析，且解析符号链接后仍须位于目录内。
+ */
+export async function readSqliteFile(filePath: string) {
+  const root = process.env.SQLITE_IMPORT_ROOT;
+  if (!root) {
+    throw new SqliteSourceError(
+      "服务端未配置 SQLITE_IMPORT_ROOT，不支持按路径导入 SQLite 文件",
+      403
+    );
+  }
+
+  const rootPath = await realpath(path.resolve(root)).catch(() => null);
+  if (!rootPath) {
+    throw new SqliteSourceError("SQLITE_IMPORT_ROOT 指定的目录不存在", 403);
+  }
+  const requested = path.resolve(rootPath, filePath);
+  if (!isInside(rootPath, requested)) {
+    throw new SqliteSourceError("文件路径不在允许导入的目录内", 403);
+  }
+
+  const resolved = await realpath(requested).catch(() => null);
+  const info = resolved ? await stat(resolved).catch(() => null) : null;
+  if (!resolved || !info || !info.isFile()) {
+    throw new SqliteSourceError(`未找到 SQLite 文件：${filePath}`);
+  }
+  if (!isInside(rootPath, resolved)) {
+    throw new SqliteSourceError("文件路径不在允许导入的目录内", 403);
+  }
+  if (info.size > MAX_SQLITE_FILE_SIZE) {
+    throw new SqliteSourceError("SQLite 文件不能超过 50MB");
+  }
+
+  return { path: resolved, buffer: new Uint8Array(await readFile(resolved)) };
+}
+
+function readTable(db: Database, tableName: string): TableSchema {
+  const table = quoteIdentifier(tableName);
+  const columns = queryRows<TableInfoRow>(db, `PRAGMA table_info(${table})`).sort(
+    (a, b) => a.cid - b.cid
+  );
+  const foreignKeyRows = queryRows<ForeignKeyRow>(db, `PRAGMA foreign_key_list(${table})`);
+  const indexRows = queryRows<IndexListRow>(db, `PRAGMA index_list(${table})`);
+
+  const primaryKey = columns
+    .filter((column) => column.pk > 0)
+    .sort((a, b) => a.pk - b.pk)
+    .map((column) => column.name);
+
+  const foreignKeys = new Map<number, ForeignKeySchema>();
+  for (const row of foreignKeyRows.sort((a, b) => a.id - b.id || a.seq - b.seq)) {
+    let foreignKey = foreignKeys.get(row.id);
+    if (!foreignKey) {
+      foreignKey = {
+        name: null,
+        columns: [],
+        referencedTable: row.table,
+        referencedColumns: [],
+        onDelete: row.on_delete,
+        onUpdate: row.on_update
+      };
+      foreignKeys.set(row.id, foreignKey);
+    }
+    foreignKey.columns.push(row.from);
+    if (row.to) foreignKey.referencedColumns.push(row.to);
+  }
+
+  const indexes: IndexSchema[] = [];
+  const uniqueConstraints: UniqueConstraintSchema[] = [];
+  const uniqueColumns = new Set<string>();
+  const indexedColumns = new Set<string>(foreignKeyRows.map((item) => item.from));
+
+  for (const index of indexRows) {
+    if (index.origin === "pk") continue;
+    const indexColumns = queryRows<IndexInfoRow>(
+      db,
+      `PRAGMA index_info(${quoteIdentifier(index.name)})`
+    )
+      .sort((a, b) => a.seqno - b.seqno)
+      .map((item) => item.name)
+      .filter((name): name is string => Boolean(name));
+    if (!indexColumns.length) continue;
+
+    indexes.push({ name: index.name, columns: indexColumns, unique: Boolean(index.unique) });
+    if (index.origin === "u") {
+      uniqueConstraints.push({ name: null, columns: indexColumns });
+    }
+
+    if (index.unique && indexColumns.length === 1) {
+      uniqueColumns.add(indexColumns[0]);
+    } else {
+      indexedColumns.add(indexColumns[0]);
+    }
+  }
+
+  return {
+    name: tableName,
+    description: null,
+    columns: columns.map((column) => ({
+      name: column.name,
+      type: column.type || undefined,
+      key:
+        column.pk > 0
+          ? "PRI"
+          : uniqueColumns.has(column.name)
+            ? "UNI"
+            : indexedColumns.has(column.name)
+              ? "MUL"
+              : null,
+      nullable: column.notnull === 0 && column.pk === 0,
+      default: column.dflt_value,
+      comment: null
+    })),
+    primaryKey,
+    uniqueConstraints,
+    indexes,
+    foreignKeys: Array.from(foreignKeys.values())
+  };
+}
+
+export async function introspectSqliteFile(buffer: Uint8Array): Promise<TableSchema[]> {
+  if (!isSqliteFile(buffer)) {
+    throw new Error("文件不是有效的 SQLite 数据库");
+  }
+
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(buffer);
+
+  try {
+    const tables = queryRows<{ name: string }>(
+      db,
+      `SELECT name FROM sqlite_master
+        WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+        ORDER BY name`
+    );
+
+    return tables.map((table) => readTable(db, table.name));
+  } finally {
+    db.close();
+  }
+}
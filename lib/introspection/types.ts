@@ -0,0 +1,63 @@
+import type {
+  StorageColumn,
+  StorageForeignKey,
+  StorageIndex,
+  StorageTableSchema,
+  StorageUniqueConstraint
+} from "@/types/models";
+
+export type DatabaseDialect = "mysql" | "postgresql";
+
+export type ConnectionConfig = {
+  dialect: DatabaseDialect;
+  host: string;
+  port: number;
+  user: string;
+  password: string;
+  database: string;
+  schema?: string;
+};
+
+export type ColumnSchema = StorageColumn;
+
+export type IndexSchema = StorageIndex;
+
+export type UniqueConstraintSchema = StorageUniqueConstraint;
+
+export type ForeignKeySchema = StorageForeignKey;
+
+export type TableSchema = StorageTableSchema & {
+  name: string;
+  description: string | null;
+};
+
+export type TableSummary = {
+  name: string;
+  description: string | null;
+  rowEstimate: number | null;
+};
+
+export type DatabaseOverview = {
+  serverVersion: string;
+  schemas: string[];
+  tables: TableSummary[];
+};
+
+export type IntrospectOptions = {
+  tables?: string[];
+};
+
+/**
+ * 导入时选择的数据表范围，会随存储模型保存，重新同步时沿用同一范围。
+ */
+export type TableFilter = {
+  tables?: string[];
+  pattern?: string;
+};
+
+export interface DatabaseIntrospector {
+  dialect: DatabaseDialect;
+  defaultPort: number;
+  inspect(config: ConnectionConfig): Promise<DatabaseOverview>;
+  introspect(config: ConnectionConfig, options?: IntrospectOptions): Promise<TableSchema[]>;
+}
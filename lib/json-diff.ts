@@ -0,0 +1,118 @@
+export type JsonDiffRow = {
+  type: "same" | "added" | "removed" | "changed";
+  left: string | null;
+  right: string | null;
+  leftLine: number | null;
+  rightLine: number | null;
+};
+
+// 超过该规模时不再计算最长公共子序列，改为逐行对齐，避免大快照占满内存
+const MAX_LCS_CELLS = 4_000_000;
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * 按键名排序后格式化，数据库返回的 JSON 键顺序不稳定，比较与展示前都需要先规范化。
+ */
+export function stableStringify(value: unknown, space?: number) {
+  return JSON.stringify(sortKeys(value), null, space) ?? "null";
+}
+
+function lcsTable(left: string[], right: string[]) {
+  const width = right.length + 1;
+  const table = new Uint32Array((left.length + 1) * width);
+  for (let i = left.length - 1; i >= 0; i -= 1) {
+    for (let j = right.length - 1; j >= 0; j -= 1) {
+      table[i * width + j] =
+        left[i] === right[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+  return table;
+}
+
+/**
+ * 生成左右对照的逐行差异；相邻的删除与新增行两两配对为 changed，便于并排展示。
+ */
+export function diffJson(before: unknown, after: unknown): JsonDiffRow[] {
+  const left = stableStringify(before, 2).split("\n");
+  const right = stableStringify(after, 2).split("\n");
+  const rows: JsonDiffRow[] = [];
+  let removed: Array<{ text: string; line: number }> = [];
+  let added: Array<{ text: string; line: number }> = [];
+
+  const flush = () => {
+    const count = Math.max(removed.length, added.length);
+    for (let index = 0; index < count; index += 1) {
+      const from = removed[index];
+      const to = added[index];
+      rows.push({
+        type: from && to ? "changed" : from ? "removed" : "added",
+        left: from?.text ?? null,
+        right: to?.text ?? null,
+        leftLine: from?.line ?? null,
+        rightLine: to?.line ?? null
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  if ((left.length + 1) * (right.length + 1) > MAX_LCS_CELLS) {
+    const count = Math.max(left.length, right.length);
+    for (let index = 0; index < count; index += 1) {
+      const from = left[index];
+      const to = right[index];
+      let type: JsonDiffRow["type"] = "changed";
+      if (from === to) type = "same";
+      else if (from === undefined) type = "added";
+      else if (to === undefined) type = "removed";
+      rows.push({
+        type,
+        left: from ?? null,
+        right: to ?? null,
+        leftLine: from === undefined ? null : index + 1,
+        rightLine: to === undefined ? null : index + 1
+      });
+    }
+    return rows;
+  }
+
+  const table = lcsTable(left, right);
+  const width = right.length + 1;
+  let i = 0;
+  let j = 0;
+  while (i < left.length || j < right.length) {
+    if (i < left.length && j < right.length && left[i] === right[j]) {
+      flush();
+      rows.push({ type: "same", left: left[i], right: right[j], leftLine: i + 1, rightLine: j + 1 });
+      i += 1;
+      j += 1;
+    } else if (
+      j < right.length &&
+      (i === left.length || table[i * width + j + 1] >= table[(i + 1) * width + j])
+    ) {
+      added.push({ text: right[j], line: j + 1 });
+      j += 1;
+    } else {
+      removed.push({ text: left[i], line: i + 1 });
+      i += 1;
+    }
+  }
+  flush();
+
+  return rows;
+}
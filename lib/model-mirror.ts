@@ -0,0 +1,266 @@
+import { mkdir, readdir, readFile, rm, rmdir, writeFile } from "fs/promises";
+import path from "path";
+import YAML from "yaml";
+
+import { stableStringify } from "@/lib/json-diff";
+import {
+  exportWorkspaceBundle,
+  importWorkspaceBundle,
+  parseWorkspaceBundle,
+  WORKSPACE_BUNDLE_FORMAT,
+  WORKSPACE_BUNDLE_VERSION,
+  WorkspaceBundleError
+} from "@/lib/workspace-bundle";
+import type { ModelMirrorFormat, ModelMirrorWriteResult } from "@/types/model-mirror";
+import type { WorkspaceBundle, WorkspaceConflictStrategy } from "@/types/workspace-bundle";
+
+export class ModelMirrorError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export const MODEL_MIRROR_FORMATS = ["json", "yaml"] as const;
+
+const DEFAULT_MIRROR_DIR = "model-mirror";
+
+const MIRROR_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+// 目录名与各模型的接口路径保持一致
+const MIRROR_DIRS = {
+  storage: "storage-models",
+  view: "view-models",
+  form: "form-models",
+  operation: "operation-models",
+  domain: "domain-models"
+} as const;
+
+const STORAGE_MODEL_FILE = "model";
+const STORAGE_TABLES_DIR = "tables";
+
+export function resolveMirrorDir(dir?: string) {
+  return path.resolve(dir || process.env.MODEL_MIRROR_DIR || DEFAULT_MIRROR_DIR);
+}
+
+/**
+ * 键名排序后输出，保证同样的模型每次生成完全相同的文件，便于在代码评审中比对。
+ */
+function serializeMirrorFile(value: unknown, format: ModelMirrorFormat) {
+  if (format === "json") {
+    return `${stableStringify(value, 2)}\n`;
+  }
+  return YAML.stringify(JSON.parse(stableStringify(value)), {
+    lineWidth: 0,
+    aliasDuplicateObjects: false
+  });
+}
+
+function parseMirrorFile(content: string, filePath: string) {
+  try {
+    return path.extname(filePath) === ".json" ? JSON.parse(content) : YAML.parse(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ModelMirrorError(`无法解析镜像文件 ${filePath}：${reason}`);
+  }
+}
+
+function toFileSlug(name: string) {
+  const slug = name
+    .trim()
+    .replace(/[\\/:*?"<>|\s]+/g, "-")
+    .replace(/^[.-]+|-+$/g, "")
+    .slice(0, 80);
+  return slug || "unnamed";
+}
+
+function compareCodePoints(left: string, right: string) {
+  if (left === right) return 0;
+  return left < right ? -1 : 1;
+}
+
+// 同名模型追加 id 区分；按码点排序后分配，结果与数据库返回顺序及运行环境的区域设置无关
+function assignFileNames<T extends { id: string; name: string }>(items: T[]) {
+  const used = new Set<string>();
+  return [...items]
+    .sort((a, b) => compareCodePoints(a.name, b.name) || compareCodePoints(a.id, b.id))
+    .map((item) => {
+      let slug = toFileSlug(item.name);
+      if (used.has(slug.toLowerCase())) {
+        slug = `${slug}-${item.id}`;
+      }
+      used.add(slug.toLowerCase());
+      return { item, slug };
+    });
+}
+
+async function listMirrorFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+  const files = await Promise.all(
+    entries.map(async (entry) => {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return listMirrorFiles(fullPath);
+      return MIRROR_EXTENSIONS.includes(path.extname(entry.name)) ? [fullPath] : [];
+    })
+  );
+  return files.flat().sort();
+}
+
+async function removeEmptyDirs(dir: string) {
+  const entries = await readdir(dir, { withFileTypes: true }).catch(() => null);
+  if (!entries) return;
+  for (const entry of entries) {
+    if (entry.isDirectory()) {
+      await removeEmptyDirs(path.join(dir, entry.name));
+    }
+  }
+  if (!(await readdir(dir)).length) {
+    await rmdir(dir);
+  }
+}
+
+function buildMirrorFiles(bundle: WorkspaceBundle, extension: string) {
+  const files = new Map<string, unknown>();
+  const file = (...segments: string[]) => path.join(...segments) + extension;
+
+  assignFileNames(bundle.storageModels).forEach(({ item: model, slug }) => {
+    const { tables, ...storageModel } = model;
+    files.set(file(MIRROR_DIRS.storage, slug, STORAGE_MODEL_FILE), storageModel);
+    assignFileNames(tables).forEach(({ item: table, slug: tableSlug }) => {
+      files.set(file(MIRROR_DIRS.storage, slug, STORAGE_TABLES_DIR, tableSlug), table);
+    });
+  });
+
+  const sections = [
+    [MIRROR_DIRS.view, bundle.viewModels],
+    [MIRROR_DIRS.form, bundle.formModels],
+    [MIRROR_DIRS.operation, bundle.operationModels],
+    [MIRROR_DIRS.domain, bundle.domainModels]
+  ] as const;
+  sections.forEach(([dir, items]) => {
+    assignFileNames<{ id: string; name: string }>(items).forEach(({ item, slug }) => {
+      files.set(file(dir, slug), item);
+    });
+  });
+
+  return files;
+}
+
+/**
+ * 将全部模型写入镜像目录，每个模型一个文件；目录中已不存在于数据库的模型文件会被删除。
+ */
+export async function writeModelMirror(
+  options: { dir?: string; format?: ModelMirrorFormat } = {}
+): Promise<ModelMirrorWriteResult> {
+  const dir = resolveMirrorDir(options.dir);
+  const format = options.format ?? "json";
+  const bundle = await exportWorkspaceBundle();
+  const files = buildMirrorFiles(bundle, format === "json" ? ".json" : ".yaml");
+
+  const written: string[] = [];
+  for (const [relativePath, value] of Array.from(files.entries())) {
+    const fullPath = path.join(dir, relativePath);
+    await mkdir(path.dirname(fullPath), { recursive: true });
+    await writeFile(fullPath, serializeMirrorFile(value, format), "utf8");
+    written.push(relativePath);
+  }
+
+  const removed: string[] = [];
+  for (const managedDir of Object.values(MIRROR_DIRS)) {
+    const existing = await listMirrorFiles(path.join(dir, managedDir));
+    for (const fullPath of existing) {
+      const relativePath = path.relative(dir, fullPath);
+      if (!files.has(relativePath)) {
+        await rm(fullPath);
+        removed.push(relativePath);
+      }
+    }
+    await removeEmptyDirs(path.join(dir, managedDir));
+  }
+
+  return { dir, format, written: written.sort(), removed };
+}
+
+async function readMirrorSection(dir: string, managedDir: string) {
+  const files = await listMirrorFiles(path.join(dir, managedDir));
+  return Promise.all(
+    files.map(async (filePath) =>
+      parseMirrorFile(await readFile(filePath, "utf8"), path.relative(dir, filePath))
+    )
+  );
+}
+
+/**
+ * 从镜像目录还原出工作区导出包，JSON 与 YAML 文件可以混用。
+ */
+export async function readModelMirror(dirOption?: string): Promise<WorkspaceBundle> {
+  const dir = resolveMirrorDir(dirOption);
+  const storageRoot = path.join(dir, MIRROR_DIRS.storage);
+  const storageDirs = (await readdir(storageRoot, { withFileTypes: true }).catch(() => []))
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+
+  const storageModels = await Promise.all(
+    storageDirs.map(async (storageDir) => {
+      const modelDir = path.join(storageRoot, storageDir);
+      const modelFile = (await listMirrorFiles(modelDir)).find(
+        (filePath) =>
+          path.dirname(filePath) === modelDir && path.parse(filePath).name === STORAGE_MODEL_FILE
+      );
+      if (!modelFile) {
+        throw new ModelMirrorError(
+          `镜像目录 ${path.relative(dir, modelDir)} 缺少 ${STORAGE_MODEL_FILE} 文件`
+        );
+      }
+      const model = parseMirrorFile(
+        await readFile(modelFile, "utf8"),
+        path.relative(dir, modelFile)
+      );
+      const tables = await readMirrorSection(modelDir, STORAGE_TABLES_DIR);
+      return { ...model, tables };
+    })
+  );
+
+  const [viewModels, formModels, operationModels, domainModels] = await Promise.all([
+    readMirrorSection(dir, MIRROR_DIRS.view),
+    readMirrorSection(dir, MIRROR_DIRS.form),
+    readMirrorSection(dir, MIRROR_DIRS.operation),
+    readMirrorSection(dir, MIRROR_DIRS.domain)
+  ]);
+
+  try {
+    return parseWorkspaceBundle({
+      format: WORKSPACE_BUNDLE_FORMAT,
+      version: WORKSPACE_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      storageModels,
+      viewModels,
+      formModels,
+      operationModels,
+      domainModels
+    });
+  } catch (error) {
+    if (error instanceof WorkspaceBundleError) {
+      throw new ModelMirrorError(`镜像文件内容无效：${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * 将镜像目录加载回数据库。镜像文件中的 id 在数据库中存在时对应该模型，否则按名称匹配；
+ * 默认覆盖已有模型，镜像中被删除的文件不会删除数据库中的模型。
+ */
+export async function loadModelMirror(
+  options: { dir?: string; conflict?: WorkspaceConflictStrategy; author?: string | null } = {}
+) {
+  const bundle = await readModelMirror(options.dir);
+  return importWorkspaceBundle(bundle, {
+    conflict: options.conflict ?? "overwrite",
+    author: options.author,
+    matchById: true
+  });
+}
@@ -0,0 +1,186 @@
+import { z } from "zod";
+
+// 创建与更新共用同一套字段校验；更新时字段均可省略，省略即保持原值，description 传空值表示清空
+
+const optionalDescriptionSchema = z.string().nullable().optional();
+
+export const updateStorageSchema = z.object({
+  name: z.string().min(1, "模型名称不能为空").optional(),
+  description: optionalDescriptionSchema
+});
+
+const storageColumnSchema = z.object({
+  name: z.string().trim().min(1, "字段名称不能为空"),
+  type: z.string().trim().min(1, "字段类型不能为空"),
+  nullable: z.boolean().default(true),
+  default: z.union([z.string(), z.number(), z.boolean()]).nullable().optional(),
+  comment: z.string().nullable().optional(),
+  autoIncrement: z.boolean().optional()
+});
+
+// 数据表在设计器中整体提交字段列表，未提交的索引、外键等约束沿用原值
+export const createStorageTableSchema = z.object({
+  name: z.string().trim().min(1, "数据表名称不能为空"),
+  description: optionalDescriptionSchema,
+  columns: z.array(storageColumnSchema).min(1, "至少定义一个字段"),
+  primaryKey: z.array(z.string()).default([])
+});
+
+export const updateStorageTableSchema = createStorageTableSchema.partial().extend({
+  description: optionalDescriptionSchema
+});
+
+// 页面配置生成器读取的展示与录入配置需要随模型一起保存，见 lib/admin-table.ts；
+// 未声明的键同样原样保留，避免更新布局时丢失其他工具写入的配置
+const optionItemSchema = z.object({
+  label: z.string(),
+  value: z.union([z.string(), z.number()])
+});
+
+const layoutFieldSchema = z
+  .object({
+    column: z.string().min(1, "字段名称不能为空"),
+    label: z.string().min(1, "展示名称不能为空"),
+    type: z.string().optional(),
+    sortable: z.boolean().optional(),
+    renderType: z.enum(["text", "badge", "boolean", "date", "currency", "custom"]).optional(),
+    valueMapping: z
+      .record(z.object({ label: z.string(), intent: z.string().optional() }))
+      .optional(),
+    width: z.union([z.number(), z.string()]).optional(),
+    align: z.enum(["left", "center", "right"]).optional()
+  })
+  .passthrough();
+
+const viewLayoutSchema = z
+  .object({
+    meta: z.record(z.unknown()).optional(),
+    fields: z.array(layoutFieldSchema).min(1, "至少选择一个字段")
+  })
+  .passthrough();
+
+export const createViewSchema = z.object({
+  name: z.string().min(1, "视图名称不能为空"),
+  description: z.string().optional(),
+  storageModelId: z.string().min(1, "必须指定数据存储模型"),
+  storageTableId: z.string().min(1, "必须指定数据表"),
+  layout: viewLayoutSchema
+});
+
+export const updateViewSchema = createViewSchema.partial().extend({
+  description: optionalDescriptionSchema
+});
+
+const formFieldSchema = z
+  .object({
+    column: z.string().min(1, "字段名称不能为空"),
+    label: z.string().min(1, "展示名称不能为空"),
+    required: z.boolean().default(false),
+    component: z.string().min(1, "控件类型不能为空"),
+    include: z.boolean().optional(),
+    defaultValue: z.unknown().optional(),
+    options: z.array(optionItemSchema).optional(),
+    placeholder: z.string().optional(),
+    props: z.record(z.unknown()).optional()
+  })
+  .passthrough();
+
+const formMetaSchema = z
+  .object({
+    usage: z.enum(["submission", "filter"]).optional(),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    submitLabel: z.string().optional(),
+    cancelLabel: z.string().optional()
+  })
+  .passthrough();
+
+const formSchemaSchema = z
+  .object({
+    meta: formMetaSchema.optional(),
+    fields: z.array(formFieldSchema).min(1, "至少配置一个字段")
+  })
+  .passthrough();
+
+export const createFormSchema = z.object({
+  name: z.string().min(1, "表单名称不能为空"),
+  description: z.string().optional(),
+  storageTableId: z.string().min(1, "必须指定数据表"),
+  schema: formSchemaSchema
+});
+
+export const updateFormSchema = createFormSchema.partial().extend({
+  description: optionalDescriptionSchema
+});
+
+export const createOperationSchema = z.object({
+  name: z.string().min(1, "操作名称不能为空"),
+  description: z.string().optional(),
+  type: z.enum(["CREATE", "READ", "UPDATE", "DELETE", "CUSTOM"]).default("READ"),
+  endpoint: z.string().optional(),
+  method: z.string().optional(),
+  storageModelId: z.string().optional().nullable(),
+  formModelId: z.string().optional().nullable(),
+  requestSchema: z.unknown().optional(),
+  responseSchema: z.unknown().optional()
+});
+
+export const updateOperationSchema = createOperationSchema.partial().extend({
+  description: optionalDescriptionSchema,
+  endpoint: z.string().nullable().optional(),
+  method: z.string().nullable().optional()
+});
+
+const domainFieldSourceSchema = z.object({
+  storageTableId: z.string().min(1, "来源数据表不能为空"),
+  column: z.string().min(1, "来源字段不能为空"),
+  transform: z.string().optional().nullable()
+});
+
+const domainFieldSchema = z.object({
+  key: z.string().min(1, "字段编码不能为空"),
+  name: z.string().min(1, "字段名称不能为空"),
+  type: z.string().optional(),
+  required: z.boolean().optional(),
+  description: z.string().optional().nullable(),
+  sources: z.array(domainFieldSourceSchema).optional()
+});
+
+const domainSchemaSchema = z.object({
+  fields: z.array(domainFieldSchema).min(1, "至少需要定义一个业务字段")
+});
+
+const uniqueIdArraySchema = z
+  .array(z.string().min(1))
+  .optional()
+  .transform((value) => (value ? Array.from(new Set(value)) : []));
+
+export const createDomainSchema = z.object({
+  name: z.string().min(1, "领域名称不能为空"),
+  description: z.string().optional(),
+  schema: domainSchemaSchema,
+  storageTableIds: uniqueIdArraySchema,
+  viewModelIds: uniqueIdArraySchema,
+  formModelIds: uniqueIdArraySchema,
+  operationModelIds: uniqueIdArraySchema
+});
+
+// 关联列表省略时保持不变，传入时整体替换（空数组即解除全部关联）
+const replaceIdArraySchema = z
+  .array(z.string().min(1))
+  .transform((value) => Array.from(new Set(value)))
+  .optional();
+
+export const updateDomainSchema = z.object({
+  name: z.string().min(1, "领域名称不能为空").optional(),
+  description: optionalDescriptionSchema,
+  schema: domainSchemaSchema.optional(),
+  storageTableIds: replaceIdArraySchema,
+  viewModelIds: replaceIdArraySchema,
+  formModelIds: replaceIdArraySchema,
+  operationModelIds: replaceIdArraySchema
+});
+
+export function toDescriptionUpdate(description: string | null | undefined) {
+  return description === undefined ? undefined : description?.trim() || null;
+}
@@ -0,0 +1,526 @@
+import { Prisma } from "@prisma/client";
+import YAML from "yaml";
+
+import {
+  HTTP_METHODS,
+  OPERATION_ID_EXTENSION,
+  OPERATION_TYPE_EXTENSION,
+  splitEndpoint,
+  toHttpMethod,
+  type HttpMethod
+} from "@/lib/generators/openapi";
+import { stableStringify } from "@/lib/json-diff";
+import { prisma } from "@/lib/prisma";
+import { ensureRevisionBaseline, recordRevision } from "@/lib/revisions";
+import type { OperationModel } from "@/types/models";
+import type { OpenApiImportItem, OpenApiImportResult } from "@/types/openapi-import";
+
+export class OpenApiImportError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+type OperationType = OperationModel["type"];
+
+type JsonObject = Record<string, unknown>;
+
+export type ParsedOperation = {
+  /** 文档中的 x-operation-model-id，由本平台导出的文档才会带上 */
+  sourceId: string | null;
+  name: string;
+  description: string | null;
+  type: OperationType;
+  method: string;
+  endpoint: string;
+  requestSchema: JsonObject;
+  responseSchema: JsonObject | null;
+};
+
+export type ParsedOpenApiDocument = {
+  title: string | null;
+  version: string | null;
+  operations: ParsedOperation[];
+  warnings: string[];
+};
+
+const OPERATION_TYPES: OperationType[] = ["CREATE", "READ", "UPDATE", "DELETE", "CUSTOM"];
+
+const TYPE_BY_METHOD: Record<HttpMethod, OperationType> = {
+  get: "READ",
+  post: "CREATE",
+  put: "UPDATE",
+  patch: "UPDATE",
+  delete: "DELETE"
+};
+
+// 与表结构中 name 字段的长度限制保持一致
+const MAX_NAME_LENGTH = 191;
+
+// 引用嵌套超过该深度时视为循环引用，不再展开
+const MAX_REF_DEPTH = 16;
+
+// 每个路径展开后的节点总数上限，避免多层共享引用按指数膨胀
+const MAX_INLINE_NODES = 10000;
+
+function isRecord(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readString(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function parseContent(content: string): unknown {
+  const trimmed = content.trim();
+  try {
+    return trimmed.startsWith("{") ? JSON.parse(trimmed) : YAML.parse(trimmed);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new OpenApiImportError(`无法解析 OpenAPI 文件：${reason}`);
+  }
+}
+
+function safeDecode(segment: string) {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * 只解析文档内部的引用（#/...），按 JSON Pointer 规则处理 ~0 与 ~1 转义。
+ */
+function resolvePointer(document: JsonObject, ref: string): unknown {
+  if (!ref.startsWith("#/")) return undefined;
+  return ref
+    .slice(2)
+    .split("/")
+    .map((segment) => safeDecode(segment).replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce<unknown>((current, key) => (isRecord(current) ? current[key] : undefined), document);
+}
+
+type InlineResult = {
+  value: unknown;
+  /** 序列化后的节点数，共享的引用按展开后的大小计算 */
+  size: number;
+  /** 展开过程中遇到循环引用被截断，结果依赖引用路径，不能缓存 */
+  truncated: boolean;
+};
+
+/**
+ * 导入后的操作模型不再保留 components，因此把 $ref 全部展开为内联结构；
+ * 循环引用处保留组件名作为标题，结构降级为 object。同一引用只展开一次，
+ * 单个路径展开后的节点数超过 MAX_INLINE_NODES 时，其余引用同样降级为 object。
+ */
+function createRefInliner(document: JsonObject, warnings: string[]) {
+  const unresolved = new Set<string>();
+  const oversized = new Set<string>();
+  const cache = new Map<string, InlineResult>();
+  let remaining = MAX_INLINE_NODES;
+
+  const placeholder = (siblings: InlineResult, extra: JsonObject): InlineResult => ({
+    value: { type: "object", ...extra, ...(siblings.value as JsonObject) },
+    size: siblings.size + Object.keys(extra).length + 1,
+    truncated: siblings.truncated
+  });
+
+  const inline = (value: unknown, stack: string[]): InlineResult => {
+    if (Array.isArray(value)) {
+      remaining -= 1;
+      const items = value.map((item) => inline(item, stack));
+      return {
+        value: items.map((item) => item.value),
+        size: items.reduce((sum, item) => sum + item.size, 1),
+        truncated: items.some((item) => item.truncated)
+      };
+    }
+    if (!isRecord(value)) {
+      remaining -= 1;
+      return { value, size: 1, truncated: false };
+    }
+
+    const ref = readString(value.$ref);
+    if (ref) {
+      const siblings = inline(
+        Object.fromEntries(Object.entries(value).filter(([key]) => key !== "$ref")),
+        stack
+      );
+      const name = ref.split("/").pop() ?? ref;
+      if (stack.includes(ref) || stack.length >= MAX_REF_DEPTH) {
+        return { ...placeholder(siblings, { title: name }), truncated: true };
+      }
+      const target = resolvePointer(document, ref);
+      if (target === undefined) {
+        if (!unresolved.has(ref)) {
+          unresolved.add(ref);
+          warnings.push(`无法解析引用 ${ref}，已按任意对象处理`);
+        }
+        return placeholder(siblings, {});
+      }
+
+      const cached = cache.get(ref);
+      if (remaining <= 0 || (cached && cached.size > remaining)) {
+        if (!oversized.has(ref)) {
+          oversized.add(ref);
+          warnings.push(`引用 ${ref} 展开后结构过大，已按对象处理`);
+        }
+        return placeholder(siblings, { title: name });
+      }
+
+      let resolved = cached;
+      if (resolved) {
+        remaining -= resolved.size;
+      } else {
+        resolved = inline(target, [...stack, ref]);
+        if (!resolved.truncated) cache.set(ref, resolved);
+      }
+      if (!isRecord(resolved.value)) return resolved;
+      return {
+        value: { ...resolved.value, ...(siblings.value as JsonObject) },
+        size: resolved.size + siblings.size,
+        truncated: resolved.truncated || siblings.truncated
+      };
+    }
+
+    remaining -= 1;
+    const entries = Object.entries(value).map(([key, item]) => [key, inline(item, stack)] as const);
+    return {
+      value: Object.fromEntries(entries.map(([key, item]) => [key, item.value])),
+      size: entries.reduce((sum, [, item]) => sum + item.size, 1),
+      truncated: entries.some(([, item]) => item.truncated)
+    };
+  };
+
+  return (value: unknown) => {
+    remaining = MAX_INLINE_NODES;
+    return inline(value, []).value;
+  };
+}
+
+function pickJsonContent(content: unknown): JsonObject | undefined {
+  if (!isRecord(content)) return undefined;
+  const key = Object.keys(content).find((type) => /json/i.test(type)) ?? Object.keys(content)[0];
+  const media = key ? content[key] : undefined;
+  return isRecord(media) ? media : undefined;
+}
+
+function readServerUrl(value: unknown) {
+  if (!Array.isArray(value) || !isRecord(value[0])) return undefined;
+  const server = value[0];
+  const variables = isRecord(server.variables) ? server.variables : {};
+  return readString(server.url)?.replace(/\{([^}]+)\}/g, (match, name: string) => {
+    const variable = variables[name];
+    return isRecord(variable) && variable.default !== undefined ? String(variable.default) : match;
+  });
+}
+
+function readSwaggerBase(document: JsonObject) {
+  const basePath = readString(document.basePath) ?? "";
+  const host = readString(document.host);
+  if (!host) return basePath;
+  const scheme = Array.isArray(document.schemes) ? readString(document.schemes[0]) : undefined;
+  return `${scheme ?? "https"}://${host}${basePath}`;
+}
+
+function joinEndpoint(base: string | undefined, path: string) {
+  if (!base) return path;
+  return `${base.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`;
+}
+
+function guessType(method: HttpMethod, declared: unknown): OperationType {
+  return OPERATION_TYPES.find((type) => type === declared) ?? TYPE_BY_METHOD[method];
+}
+
+/**
+ * 参数写成 { 参数名: schema }，与导出时 requestSchema.pathParams / query 的读取格式一致。
+ */
+function toParameterSchema(parameter: JsonObject, isSwagger: boolean): JsonObject {
+  const schema = isSwagger
+    ? Object.fromEntries(
+        Object.entries(parameter).filter(
+          ([key]) => !["name", "in", "description", "required", "allowEmptyValue"].includes(key)
+        )
+      )
+    : isRecord(parameter.schema)
+      ? { ...parameter.schema }
+      : { type: "string" };
+  if (readString(parameter.description)) schema.description = parameter.description;
+  if (parameter.required === true && (parameter.in === "query" || parameter.in === "header")) schema.required = true;
+  return schema;
+}
+
+function readSuccessResponse(responses: unknown) {
+  if (!isRecord(responses)) return undefined;
+  const status = Object.keys(responses)
+    .filter((code) => /^2\d\d$|^2XX$/i.test(code))
+    .sort()[0];
+  return status ? responses[status] : isRecord(responses.default) ? responses.default : undefined;
+}
+
+/**
+ * 解析 OpenAPI 3.x 或 Swagger 2.0 文档，得到可直接落库的数据操作模型字段。
+ */
+export function parseOpenApiDocument(content: string): ParsedOpenApiDocument {
+  const document = parseContent(content);
+  if (!isRecord(document)) {
+    throw new OpenApiImportError("OpenAPI 文件内容必须是对象");
+  }
+
+  const isSwagger = String(document.swagger ?? "").startsWith("2");
+  if (!isSwagger && !/^3\./.test(String(document.openapi ?? ""))) {
+    throw new OpenApiImportError(
+      "无法识别的 OpenAPI 文件：缺少 openapi 3.x 或 swagger 2.0 版本字段"
+    );
+  }
+  if (!isRecord(document.paths)) {
+    throw new OpenApiImportError("OpenAPI 文件中没有 paths");
+  }
+
+  const warnings: string[] = [];
+  const inline = createRefInliner(document, warnings);
+  const info = isRecord(document.info) ? document.info : {};
+  const documentBase = isSwagger ? readSwaggerBase(document) : readServerUrl(document.servers);
+  const seen = new Set<string>();
+  const operations: ParsedOperation[] = [];
+
+  Object.entries(document.paths).forEach(([path, rawItem]) => {
+    const pathItem = inline(rawItem);
+    if (!isRecord(pathItem)) return;
+
+    HTTP_METHODS.forEach((method) => {
+      const operation = pathItem[method];
+      if (!isRecord(operation)) return;
+
+      const label = `${method.toUpperCase()} ${path}`;
+      const base = isSwagger
+        ? documentBase
+        : (readServerUrl(operation.servers) ?? readServerUrl(pathItem.servers) ?? documentBase);
+      const endpoint = joinEndpoint(base, path);
+      const key = `${method} ${splitEndpoint(endpoint).path}`;
+      if (seen.has(key)) {
+        warnings.push(`${label} 重复，已跳过`);
+        return;
+      }
+      seen.add(key);
+
+      // 操作级参数覆盖路径级同名参数
+      const parameters = new Map<string, JsonObject>();
+      [pathItem.parameters, operation.parameters].forEach((list) => {
+        if (!Array.isArray(list)) return;
+        list.filter(isRecord).forEach((parameter) => {
+          const name = readString(parameter.name);
+          if (name) parameters.set(`${parameter.in}:${name}`, parameter);
+        });
+      });
+
+      const requestSchema: JsonObject = {};
+      const pathParams: JsonObject = {};
+      const query: JsonObject = {};
+      const headers: JsonObject = {};
+      const formData: JsonObject = {};
+      const formRequired: string[] = [];
+      parameters.forEach((parameter) => {
+        const name = String(parameter.name).trim();
+        if (parameter.in === "body") {
+          requestSchema.body = isRecord(parameter.schema) ? parameter.schema : { type: "object" };
+        } else if (parameter.in === "formData") {
+          formData[name] = toParameterSchema(parameter, true);
+          if (parameter.required === true) formRequired.push(name);
+        } else if (parameter.in === "path") {
+          pathParams[name] = toParameterSchema(parameter, isSwagger);
+        } else if (parameter.in === "query") {
+          query[name] = toParameterSchema(parameter, isSwagger);
+        } else if (parameter.in === "header") {
+          const schema = toParameterSchema(parameter, isSwagger);
+          const examples = Array.isArray(schema.examples) ? schema.examples : [];
+          headers[name] = schema.default ?? schema.example ?? examples[0] ?? "";
+        }
+      });
+      if (Object.keys(pathParams).length) requestSchema.pathParams = pathParams;
+      if (Object.keys(query).length) requestSchema.query = query;
+      if (Object.keys(headers).length) requestSchema.headers = headers;
+      if (Object.keys(formData).length) {
+        requestSchema.body = {
+          type: "object",
+          properties: formData,
+          ...(formRequired.length ? { required: formRequired } : {})
+        };
+      }
+
+      const body = isRecord(operation.requestBody)
+        ? pickJsonContent(operation.requestBody.content)
+        : undefined;
+      if (body && isRecord(body.schema)) requestSchema.body = body.schema;
+
+      const success = readSuccessResponse(operation.responses);
+      const responseSchema = isRecord(success)
+        ? isSwagger
+          ? success.schema
+          : pickJsonContent(success.content)?.schema
+        : undefined;
+
+      const methodName = method.toUpperCase();
+      const name = (
+        readString(operation.summary) ??
+        readString(operation.operationId) ??
+        `${methodName} ${path}`
+      ).slice(0, MAX_NAME_LENGTH);
+
+      operations.push({
+        sourceId: readString(operation[OPERATION_ID_EXTENSION]) ?? null,
+        name,
+        description: readString(operation.description) ?? null,
+        type: guessType(method, operation[OPERATION_TYPE_EXTENSION]),
+        method: methodName,
+        endpoint,
+        requestSchema,
+        responseSchema: isRecord(responseSchema) ? responseSchema : null
+      });
+    });
+  });
+
+  return {
+    title: readString(info.title) ?? null,
+    version: readString(info.version) ?? null,
+    operations,
+    warnings
+  };
+}
+
+type ExistingOperation = {
+  id: string;
+  name: string;
+  description: string | null;
+  type: string;
+  endpoint: string | null;
+  method: string | null;
+  requestSchema: unknown;
+  responseSchema: unknown;
+};
+
+function operationKey(method: string | null, type: string, endpoint: string) {
+  return `${toHttpMethod(method, type)} ${splitEndpoint(endpoint).path}`;
+}
+
+function isUnchanged(existing: ExistingOperation, operation: ParsedOperation) {
+  return (
+    existing.name === operation.name &&
+    (existing.description ?? null) === operation.description &&
+    existing.type === operation.type &&
+    existing.endpoint === operation.endpoint &&
+    existing.method === operation.method &&
+    stableStringify(existing.requestSchema ?? null) === stableStringify(operation.requestSchema) &&
+    stableStringify(existing.responseSchema ?? null) === stableStringify(operation.responseSchema)
+  );
+}
+
+/**
+ * 将 OpenAPI 文件中的操作导入到指定数据存储模型。已有操作优先按 x-operation-model-id 对齐，
+ * 其次按请求方法与路径对齐，命中时原地更新，表单关联保持不变；apply 为 false 时只返回预览。
+ */
+export async function importOpenApiOperations(
+  storageModelId: string,
+  content: string,
+  options: { apply: boolean; author?: string | null }
+): Promise<OpenApiImportResult> {
+  const model = await prisma.dataStorageModel.findUnique({
+    where: { id: storageModelId },
+    select: { id: true }
+  });
+  if (!model) {
+    throw new OpenApiImportError("数据存储模型不存在", 404);
+  }
+
+  const parsed = parseOpenApiDocument(content);
+  if (parsed.operations.length === 0) {
+    throw new OpenApiImportError("OpenAPI 文件中没有可导入的操作");
+  }
+
+  const existing: ExistingOperation[] = await prisma.dataOperationModel.findMany({
+    where: { storageModelId: model.id },
+    orderBy: { createdAt: "asc" }
+  });
+  const byId = new Map(existing.map((operation) => [operation.id, operation]));
+  const byKey = new Map<string, ExistingOperation>();
+  existing.forEach((operation) => {
+    if (!operation.endpoint) return;
+    const key = operationKey(operation.method, operation.type, operation.endpoint);
+    if (!byKey.has(key)) byKey.set(key, operation);
+  });
+
+  const claimed = new Set<string>();
+  const plan = parsed.operations.map((operation) => {
+    const candidate =
+      (operation.sourceId ? byId.get(operation.sourceId) : undefined) ??
+      byKey.get(operationKey(operation.method, operation.type, operation.endpoint));
+    const match = candidate && !claimed.has(candidate.id) ? candidate : undefined;
+    if (match) claimed.add(match.id);
+
+    const item: OpenApiImportItem = {
+      action: !match ? "create" : isUnchanged(match, operation) ? "unchanged" : "update",
+      name: operation.name,
+      type: operation.type,
+      method: operation.method,
+      endpoint: operation.endpoint,
+      operationModelId: match?.id ?? null
+    };
+    return { item, operation };
+  });
+
+  // 逐条写入并记录修订，任一条失败整体回滚，不留下部分导入的结果
+  if (options.apply) {
+    await prisma.$transaction(
+      async (tx) => {
+        for (const { item, operation } of plan) {
+          const data = {
+            name: operation.name,
+            description: operation.description,
+            type: operation.type,
+            endpoint: operation.endpoint,
+            method: operation.method,
+            storageModelId: model.id,
+            requestSchema: operation.requestSchema as Prisma.InputJsonObject,
+            responseSchema: operation.responseSchema
+              ? (operation.responseSchema as Prisma.InputJsonObject)
+              : Prisma.JsonNull
+          };
+
+          if (item.action === "create") {
+            const created = await tx.dataOperationModel.create({ data });
+            item.operationModelId = created.id;
+            await recordRevision(
+              "operation",
+              created.id,
+              { action: "create", author: options.author },
+              tx
+            );
+          } else if (item.action === "update" && item.operationModelId) {
+            await ensureRevisionBaseline("operation", item.operationModelId, tx);
+            await tx.dataOperationModel.update({ where: { id: item.operationModelId }, data });
+            await recordRevision(
+              "operation",
+              item.operationModelId,
+              { action: "update", author: options.author },
+              tx
+            );
+          }
+        }
+      },
+      // 一次导入可能包含上百个操作，放宽默认的交互式事务超时
+      { timeout: 120_000 }
+    );
+  }
+
+  return {
+    title: parsed.title,
+    version: parsed.version,
+    items: plan.map(({ item }) => item),
+    warnings: parsed.warnings,
+    applied: options.apply
+  };
+}
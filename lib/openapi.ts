@@ -0,0 +1,144 @@
+import { generateOpenApiDocument, type OpenApiSource } from "@/lib/generators/openapi";
+import { prisma } from "@/lib/prisma";
+import { buildReleaseBundle, getRelease, listReleases } from "@/lib/releases";
+
+export class OpenApiError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export type OpenApiScope =
+  { domainModelId: string; version?: string | null } | { storageModelId: string };
+
+const tableSelect = { id: true, name: true, description: true, schema: true } as const;
+
+const formSelect = {
+  id: true,
+  name: true,
+  description: true,
+  storageTableId: true,
+  schema: true
+} as const;
+
+/**
+ * 操作关联的表单不一定也关联到了领域模型，补齐这些表单及其数据表，请求体才能引用到组件 schema。
+ */
+async function withLinkedForms(source: OpenApiSource): Promise<OpenApiSource> {
+  const known = new Set(source.forms.map((form) => form.id));
+  const missing = Array.from(
+    new Set(
+      source.operations
+        .map((operation) => operation.formModelId)
+        .filter((id): id is string => typeof id === "string" && !known.has(id))
+    )
+  );
+  if (!missing.length) return source;
+
+  const forms = await prisma.dataFormModel.findMany({
+    where: { id: { in: missing } },
+    select: { ...formSelect, storageTable: { select: tableSelect } }
+  });
+  const tables = new Map(source.tables.map((table) => [table.id, table]));
+  forms.forEach(({ storageTable }) => {
+    if (!tables.has(storageTable.id)) tables.set(storageTable.id, storageTable);
+  });
+
+  return {
+    ...source,
+    tables: Array.from(tables.values()),
+    forms: [
+      ...source.forms,
+      ...forms.map((form) => ({
+        id: form.id,
+        name: form.name,
+        description: form.description,
+        storageTableId: form.storageTableId,
+        schema: form.schema
+      }))
+    ]
+  };
+}
+
+async function loadDomainSource(domainModelId: string, version?: string | null) {
+  if (version) {
+    // 指定版本时使用发布包快照，不再补齐当前数据库中的关联资源
+    const release = await getRelease(domainModelId, version);
+    if (!release) {
+      throw new OpenApiError("指定的发布版本不存在", 404);
+    }
+    const { bundle } = release;
+    return {
+      title: bundle.domain.name,
+      description: bundle.domain.description,
+      version: release.version,
+      tables: bundle.storageTables,
+      forms: bundle.formModels,
+      operations: bundle.operationModels
+    } satisfies OpenApiSource;
+  }
+
+  const bundle = await buildReleaseBundle(domainModelId);
+  if (!bundle) {
+    throw new OpenApiError("领域模型不存在", 404);
+  }
+  const [latest] = await listReleases(domainModelId);
+
+  return withLinkedForms({
+    title: bundle.domain.name,
+    description: bundle.domain.description,
+    // 未指定版本时导出的是当前编辑中的内容，版本号标明基于哪个发布版本
+    version: latest ? `${latest.version}+draft` : "0.0.0+draft",
+    tables: bundle.storageTables,
+    forms: bundle.formModels,
+    operations: bundle.operationModels
+  });
+}
+
+async function loadStorageSource(storageModelId: string) {
+  const model = await prisma.dataStorageModel.findUnique({
+    where: { id: storageModelId },
+    include: {
+      tables: { select: { ...tableSelect, forms: { select: formSelect } } }
+    }
+  });
+  if (!model) {
+    throw new OpenApiError("数据存储模型不存在", 404);
+  }
+
+  const operations = await prisma.dataOperationModel.findMany({
+    where: {
+      OR: [
+        { storageModelId: model.id },
+        { formModel: { storageTable: { storageModelId: model.id } } }
+      ]
+    },
+    orderBy: { name: "asc" }
+  });
+
+  return withLinkedForms({
+    title: model.name,
+    description: model.description,
+    version: "0.0.0+draft",
+    tables: model.tables.map((table) => ({
+      id: table.id,
+      name: table.name,
+      description: table.description,
+      schema: table.schema
+    })),
+    forms: model.tables.flatMap((table) => table.forms),
+    operations
+  });
+}
+
+export async function buildOpenApiDocument(scope: OpenApiScope) {
+  const source =
+    "domainModelId" in scope
+      ? await loadDomainSource(scope.domainModelId, scope.version)
+      : await loadStorageSource(scope.storageModelId);
+
+  return generateOpenApiDocument(source);
+}
@@ -0,0 +1,393 @@
+import { Prisma } from "@prisma/client";
+
+import { stableStringify } from "@/lib/json-diff";
+import { prisma } from "@/lib/prisma";
+import type {
+  DomainRelease,
+  DomainReleaseBundle,
+  DomainReleaseChange,
+  DomainReleaseSummary
+} from "@/types/releases";
+
+export class ReleaseError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export const RELEASE_BUMPS = ["major", "minor", "patch"] as const;
+
+export type ReleaseBump = (typeof RELEASE_BUMPS)[number];
+
+type SemVer = {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+};
+
+const SEMVER_PATTERN =
+  /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/;
+
+const INITIAL_VERSION = "1.0.0";
+
+export function parseSemver(value: string): SemVer | null {
+  const match = SEMVER_PATTERN.exec(value.trim());
+  if (!match) return null;
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split(".") : []
+  };
+}
+
+function formatSemver(version: SemVer) {
+  const core = `${version.major}.${version.minor}.${version.patch}`;
+  return version.prerelease.length ? `${core}-${version.prerelease.join(".")}` : core;
+}
+
+function comparePrerelease(left: string[], right: string[]) {
+  // 不带预发布标识的版本高于同号的预发布版本
+  if (!left.length || !right.length) {
+    return right.length - left.length;
+  }
+
+  for (let index = 0; index < Math.max(left.length, right.length); index += 1) {
+    const a = left[index];
+    const b = right[index];
+    if (a === undefined) return -1;
+    if (b === undefined) return 1;
+    if (a === b) continue;
+
+    const aNumeric = /^\d+$/.test(a);
+    const bNumeric = /^\d+$/.test(b);
+    if (aNumeric && bNumeric) return Number(a) - Number(b);
+    if (aNumeric) return -1;
+    if (bNumeric) return 1;
+    return a < b ? -1 : 1;
+  }
+  return 0;
+}
+
+export function compareSemver(left: SemVer, right: SemVer) {
+  return (
+    left.major - right.major ||
+    left.minor - right.minor ||
+    left.patch - right.patch ||
+    comparePrerelease(left.prerelease, right.prerelease)
+  );
+}
+
+export function bumpVersion(previous: string | null, bump: ReleaseBump) {
+  const parsed = previous ? parseSemver(previous) : null;
+  if (!parsed) return INITIAL_VERSION;
+
+  // 预发布版本升级到其对应的正式版本，例如 1.1.0-beta.1 升级 minor 得到 1.1.0
+  if (parsed.prerelease.length) {
+    const releasable =
+      bump === "patch" ||
+      (bump === "minor" && !parsed.patch) ||
+      (bump === "major" && !parsed.minor && !parsed.patch);
+    if (releasable) {
+      return formatSemver({ ...parsed, prerelease: [] });
+    }
+  }
+
+  if (bump === "major") {
+    return formatSemver({ major: parsed.major + 1, minor: 0, patch: 0, prerelease: [] });
+  }
+  if (bump === "minor") {
+    return formatSemver({ major: parsed.major, minor: parsed.minor + 1, patch: 0, prerelease: [] });
+  }
+  return formatSemver({ ...parsed, patch: parsed.patch + 1, prerelease: [] });
+}
+
+function byName<T extends { id: string; name: string }>(items: T[]) {
+  return [...items].sort((a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id));
+}
+
+export async function buildReleaseBundle(
+  domainModelId: string
+): Promise<DomainReleaseBundle | null> {
+  const domain = await prisma.dataDomainModel.findUnique({
+    where: { id: domainModelId },
+    include: {
+      storageTables: {
+        include: {
+          storageTable: {
+            include: { storageModel: { select: { id: true, name: true, database: true } } }
+          }
+        }
+      },
+      viewModels: { include: { viewModel: true } },
+      formModels: { include: { formModel: true } },
+      operationModels: { include: { operationModel: true } }
+    }
+  });
+  if (!domain) return null;
+
+  return {
+    domain: {
+      id: domain.id,
+      name: domain.name,
+      description: domain.description,
+      schema: domain.schema
+    },
+    storageTables: byName(
+      domain.storageTables.map(({ storageTable }) => ({
+        id: storageTable.id,
+        name: storageTable.name,
+        description: storageTable.description,
+        schema: storageTable.schema,
+        storageModel: storageTable.storageModel
+      }))
+    ),
+    viewModels: byName(
+      domain.viewModels.map(({ viewModel }) => ({
+        id: viewModel.id,
+        name: viewModel.name,
+        description: viewModel.description,
+        storageModelId: viewModel.storageModelId,
+        storageTableId: viewModel.storageTableId,
+        layout: viewModel.layout
+      }))
+    ),
+    formModels: byName(
+      domain.formModels.map(({ formModel }) => ({
+        id: formModel.id,
+        name: formModel.name,
+        description: formModel.description,
+        storageTableId: formModel.storageTableId,
+        schema: formModel.schema
+      }))
+    ),
+    operationModels: byName(
+      domain.operationModels.map(({ operationModel }) => ({
+        id: operationModel.id,
+        name: operationModel.name,
+        description: operationModel.description,
+        type: operationModel.type,
+        endpoint: operationModel.endpoint,
+        method: operationModel.method,
+        storageModelId: operationModel.storageModelId,
+        formModelId: operationModel.formModelId,
+        requestSchema: operationModel.requestSchema,
+        responseSchema: operationModel.responseSchema
+      }))
+    )
+  };
+}
+
+const LIST_SECTIONS = ["storageTables", "viewModels", "formModels", "operationModels"] as const;
+
+type ReleaseItem = Record<string, unknown> & { id: string; name: string };
+
+function changedProperties(before: Record<string, unknown>, after: Record<string, unknown>) {
+  const keys = Object.keys(before).concat(
+    Object.keys(after).filter((key) => !(key in before))
+  );
+  return keys
+    .filter((key) => stableStringify(before[key]) !== stableStringify(after[key]))
+    .sort();
+}
+
+/**
+ * 以资源 id 对齐前后两个发布包，得到新增、移除与修改的条目；首个发布以空包作为基准。
+ */
+export function computeChangelog(
+  previous: DomainReleaseBundle | null,
+  next: DomainReleaseBundle
+): DomainReleaseChange[] {
+  const changes: DomainReleaseChange[] = [];
+
+  if (previous) {
+    const properties = changedProperties(previous.domain, next.domain);
+    if (properties.length) {
+      changes.push({
+        section: "domain",
+        type: "changed",
+        id: next.domain.id,
+        name: next.domain.name,
+        properties
+      });
+    }
+  }
+
+  LIST_SECTIONS.forEach((section) => {
+    const previousItems: ReleaseItem[] = previous?.[section] ?? [];
+    const nextItems: ReleaseItem[] = next[section];
+    const before = new Map(previousItems.map((item) => [item.id, item]));
+
+    nextItems.forEach((item) => {
+      const existing = before.get(item.id);
+      if (!existing) {
+        changes.push({ section, type: "added", id: item.id, name: item.name });
+        return;
+      }
+      before.delete(item.id);
+      const properties = changedProperties(existing, item);
+      if (properties.length) {
+        changes.push({ section, type: "changed", id: item.id, name: item.name, properties });
+      }
+    });
+
+    before.forEach((item, id) => {
+      changes.push({ section, type: "removed", id, name: item.name });
+    });
+  });
+
+  return changes;
+}
+
+function toSummary(release: {
+  id: string;
+  domainModelId: string;
+  domainName: string;
+  version: string;
+  previousVersion: string | null;
+  notes: string | null;
+  author: string | null;
+  changelog: Prisma.JsonValue;
+  createdAt: Date;
+}): DomainReleaseSummary {
+  return {
+    id: release.id,
+    domainModelId: release.domainModelId,
+    domainName: release.domainName,
+    version: release.version,
+    previousVersion: release.previousVersion,
+    notes: release.notes,
+    author: release.author,
+    changelog: Array.isArray(release.changelog)
+      ? (release.changelog as unknown as DomainReleaseChange[])
+      : [],
+    createdAt: release.createdAt.toISOString()
+  };
+}
+
+const summarySelect = {
+  id: true,
+  domainModelId: true,
+  domainName: true,
+  version: true,
+  previousVersion: true,
+  notes: true,
+  author: true,
+  changelog: true,
+  createdAt: true
+} as const;
+
+// 版本号以字符串保存，排序需按语义化版本比较
+async function findReleasesByVersion(domainModelId: string) {
+  const releases = await prisma.dataDomainRelease.findMany({
+    where: { domainModelId },
+    select: summarySelect
+  });
+
+  return releases.sort((a, b) => {
+    const left = parseSemver(a.version);
+    const right = parseSemver(b.version);
+    return left && right
+      ? compareSemver(right, left)
+      : b.createdAt.getTime() - a.createdAt.getTime();
+  });
+}
+
+export async function listReleases(domainModelId: string) {
+  const releases = await findReleasesByVersion(domainModelId);
+  return releases.map(toSummary);
+}
+
+/**
+ * version 支持具体版本号（可带 v 前缀）或 latest。
+ */
+export async function getRelease(
+  domainModelId: string,
+  version: string
+): Promise<DomainRelease | null> {
+  let resolved = version;
+  if (version === "latest") {
+    const [latest] = await findReleasesByVersion(domainModelId);
+    if (!latest) return null;
+    resolved = latest.version;
+  } else {
+    const parsed = parseSemver(version);
+    if (!parsed) {
+      throw new ReleaseError("版本号需符合语义化版本格式，例如 1.2.0");
+    }
+    resolved = formatSemver(parsed);
+  }
+
+  const release = await prisma.dataDomainRelease.findUnique({
+    where: { domainModelId_version: { domainModelId, version: resolved } }
+  });
+  if (!release) return null;
+
+  return {
+    ...toSummary(release),
+    bundle: release.bundle as unknown as DomainReleaseBundle
+  };
+}
+
+type PublishOptions = {
+  version?: string;
+  bump?: ReleaseBump;
+  notes?: string | null;
+  author?: string | null;
+};
+
+export async function publishRelease(
+  domainModelId: string,
+  options: PublishOptions
+): Promise<DomainRelease> {
+  const bundle = await buildReleaseBundle(domainModelId);
+  if (!bundle) {
+    throw new ReleaseError("业务领域模型不存在", 404);
+  }
+
+  const [latest] = await findReleasesByVersion(domainModelId);
+  const version = options.version
+    ? parseSemver(options.version)
+    : parseSemver(bumpVersion(latest?.version ?? null, options.bump ?? "patch"));
+  if (!version) {
+    throw new ReleaseError("版本号需符合语义化版本格式，例如 1.2.0");
+  }
+
+  const latestVersion = latest ? parseSemver(latest.version) : null;
+  if (latestVersion && compareSemver(version, latestVersion) <= 0) {
+    throw new ReleaseError(`版本号必须高于最新发布的 ${latest.version}`, 409);
+  }
+
+  const previous = latest ? await getRelease(domainModelId, latest.version) : null;
+  const changelog = computeChangelog(previous?.bundle ?? null, bundle);
+
+  try {
+    const release = await prisma.dataDomainRelease.create({
+      data: {
+        domainModelId,
+        domainName: bundle.domain.name,
+        version: formatSemver(version),
+        previousVersion: latest?.version ?? null,
+        notes: options.notes?.trim() || null,
+        author: options.author ?? null,
+        bundle: bundle as unknown as Prisma.InputJsonObject,
+        changelog: changelog as unknown as Prisma.InputJsonArray
+      }
+    });
+
+    return {
+      ...toSummary(release),
+      bundle
+    };
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw new ReleaseError(`版本 ${formatSemver(version)} 已发布，发布内容不可覆盖`, 409);
+    }
+    throw error;
+  }
+}
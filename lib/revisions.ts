@@ -0,0 +1,522 @@
+import { Prisma } from "@prisma/client";
+
+import { stableStringify } from "@/lib/json-diff";
+import { prisma } from "@/lib/prisma";
+import type { ModelKind } from "@/types/models";
+import type {
+  ModelRevision,
+  ModelRevisionSummary,
+  RevisionAction,
+  RevisionRestoreResult
+} from "@/types/revisions";
+
+export class RevisionError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export const MODEL_KINDS = ["storage", "view", "form", "operation", "domain"] as const;
+
+type Client = Prisma.TransactionClient;
+
+type Snapshot = Record<string, unknown>;
+
+const AUTHOR_HEADER = "x-author";
+const MAX_AUTHOR_LENGTH = 64;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readString(value: unknown) {
+  return typeof value === "string" ? value : null;
+}
+
+function readIds(value: unknown) {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+}
+
+// 可空 JSON 列写入 null 时需使用 DbNull
+function toNullableJson(value: unknown) {
+  return value === null || value === undefined ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+}
+
+/**
+ * 页面未接入登录体系，操作人由调用方通过 X-Author 请求头（URI 编码）声明。
+ */
+export function readRevisionAuthor(request: Request) {
+  const raw = request.headers.get(AUTHOR_HEADER);
+  if (!raw) return null;
+
+  try {
+    return decodeURIComponent(raw).trim().slice(0, MAX_AUTHOR_LENGTH) || null;
+  } catch {
+    return raw.trim().slice(0, MAX_AUTHOR_LENGTH) || null;
+  }
+}
+
+async function snapshotStorageModel(client: Client, id: string): Promise<Snapshot | null> {
+  const model = await client.dataStorageModel.findUnique({
+    where: { id },
+    include: { tables: { orderBy: { name: "asc" } } }
+  });
+  if (!model) return null;
+
+  return {
+    name: model.name,
+    description: model.description,
+    database: model.database,
+    connection: model.connection,
+    schema: model.schema,
+    tables: model.tables.map((table) => ({
+      id: table.id,
+      name: table.name,
+      description: table.description,
+      schema: table.schema
+    }))
+  };
+}
+
+async function snapshotViewModel(client: Client, id: string): Promise<Snapshot | null> {
+  return client.dataViewModel.findUnique({
+    where: { id },
+    select: {
+      name: true,
+      description: true,
+      storageModelId: true,
+      storageTableId: true,
+      layout: true
+    }
+  });
+}
+
+async function snapshotFormModel(client: Client, id: string): Promise<Snapshot | null> {
+  return client.dataFormModel.findUnique({
+    where: { id },
+    select: { name: true, description: true, storageTableId: true, schema: true }
+  });
+}
+
+async function snapshotOperationModel(client: Client, id: string): Promise<Snapshot | null> {
+  return client.dataOperationModel.findUnique({
+    where: { id },
+    select: {
+      name: true,
+      description: true,
+      type: true,
+      endpoint: true,
+      method: true,
+      storageModelId: true,
+      formModelId: true,
+      requestSchema: true,
+      responseSchema: true
+    }
+  });
+}
+
+async function snapshotDomainModel(client: Client, id: string): Promise<Snapshot | null> {
+  const domain = await client.dataDomainModel.findUnique({
+    where: { id },
+    include: {
+      storageTables: { select: { storageTableId: true } },
+      viewModels: { select: { viewModelId: true } },
+      formModels: { select: { formModelId: true } },
+      operationModels: { select: { operationModelId: true } }
+    }
+  });
+  if (!domain) return null;
+
+  return {
+    name: domain.name,
+    description: domain.description,
+    schema: domain.schema,
+    storageTableIds: domain.storageTables.map((item) => item.storageTableId).sort(),
+    viewModelIds: domain.viewModels.map((item) => item.viewModelId).sort(),
+    formModelIds: domain.formModels.map((item) => item.formModelId).sort(),
+    operationModelIds: domain.operationModels.map((item) => item.operationModelId).sort()
+  };
+}
+
+const SNAPSHOTS: Record<ModelKind, (client: Client, id: string) => Promise<Snapshot | null>> = {
+  storage: snapshotStorageModel,
+  view: snapshotViewModel,
+  form: snapshotFormModel,
+  operation: snapshotOperationModel,
+  domain: snapshotDomainModel
+};
+
+function toSummary(revision: {
+  id: string;
+  modelKind: string;
+  modelId: string;
+  version: number;
+  action: string;
+  author: string | null;
+  restoredFrom: number | null;
+  createdAt: Date;
+}): ModelRevisionSummary {
+  return {
+    id: revision.id,
+    modelKind: revision.modelKind as ModelKind,
+    modelId: revision.modelId,
+    version: revision.version,
+    action: revision.action as RevisionAction,
+    author: revision.author,
+    restoredFrom: revision.restoredFrom,
+    createdAt: revision.createdAt.toISOString()
+  };
+}
+
+type RecordOptions = {
+  action: RevisionAction;
+  author?: string | null;
+  restoredFrom?: number;
+};
+
+/**
+ * 以当前数据库状态写入一条不可变快照；与上一版本内容一致时不重复记录。
+ * 修改模型时应传入同一事务的 client，快照与版本号才能和修改一起提交；
+ * 并发写入同一版本号时由 (modelKind, modelId, version) 唯一约束拒绝，整个事务回滚。
+ */
+export async function recordRevision(
+  kind: ModelKind,
+  id: string,
+  options: RecordOptions,
+  client: Client = prisma
+) {
+  const snapshot = await SNAPSHOTS[kind](client, id);
+  if (!snapshot) {
+    throw new RevisionError("模型不存在，无法记录版本", 404);
+  }
+
+  const latest = await client.dataModelRevision.findFirst({
+    where: { modelKind: kind, modelId: id },
+    orderBy: { version: "desc" }
+  });
+  if (
+    latest &&
+    options.action !== "restore" &&
+    stableStringify(latest.snapshot) === stableStringify(snapshot)
+  ) {
+    return toSummary(latest);
+  }
+
+  try {
+    const revision = await client.dataModelRevision.create({
+      data: {
+        modelKind: kind,
+        modelId: id,
+        version: (latest?.version ?? 0) + 1,
+        action: options.action,
+        author: options.author ?? null,
+        restoredFrom: options.restoredFrom,
+        snapshot: snapshot as Prisma.InputJsonObject
+      }
+    });
+
+    return toSummary(revision);
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw new RevisionError("模型正在被其他操作修改，请刷新后重试", 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * 功能上线前创建的模型没有历史记录，首次修改前先补录一份原始状态，保证修改可回滚。
+ */
+export async function ensureRevisionBaseline(
+  kind: ModelKind,
+  id: string,
+  client: Client = prisma
+) {
+  const count = await client.dataModelRevision.count({
+    where: { modelKind: kind, modelId: id }
+  });
+  if (!count) {
+    await recordRevision(kind, id, { action: "baseline" }, client);
+  }
+}
+
+export async function listRevisions(kind: ModelKind, id: string) {
+  const revisions = await prisma.dataModelRevision.findMany({
+    where: { modelKind: kind, modelId: id },
+    orderBy: { version: "desc" },
+    select: {
+      id: true,
+      modelKind: true,
+      modelId: true,
+      version: true,
+      action: true,
+      author: true,
+      restoredFrom: true,
+      createdAt: true
+    }
+  });
+
+  return revisions.map(toSummary);
+}
+
+export async function getRevision(
+  kind: ModelKind,
+  id: string,
+  version: number
+): Promise<ModelRevision | null> {
+  const revision = await prisma.dataModelRevision.findUnique({
+    where: { modelKind_modelId_version: { modelKind: kind, modelId: id, version } }
+  });
+  if (!revision) return null;
+
+  return {
+    ...toSummary(revision),
+    snapshot: isRecord(revision.snapshot) ? revision.snapshot : {}
+  };
+}
+
+async function restoreStorageModel(tx: Client, id: string, snapshot: Snapshot) {
+  const warnings: string[] = [];
+  const tables = Array.isArray(snapshot.tables) ? snapshot.tables.filter(isRecord) : [];
+  const existing = await tx.dataStorageTable.findMany({
+    where: { storageModelId: id },
+    select: { id: true, name: true }
+  });
+  const existingIds = new Set(existing.map((table) => table.id));
+  const snapshotIds = new Set(tables.map((table) => readString(table.id)));
+
+  await tx.dataStorageModel.update({
+    where: { id },
+    data: {
+      name: readString(snapshot.name) ?? undefined,
+      description: readString(snapshot.description),
+      schema: toNullableJson(snapshot.schema)
+    }
+  });
+
+  for (const table of tables) {
+    const tableId = readString(table.id);
+    const name = readString(table.name);
+    if (!tableId || !name) continue;
+
+    const data = {
+      name,
+      description: readString(table.description),
+      schema: toNullableJson(table.schema)
+    };
+    // 已删除的数据表按原 ID 重建，但依赖它的视图与表单已被级联删除，需要另行恢复
+    if (existingIds.has(tableId)) {
+      await tx.dataStorageTable.update({ where: { id: tableId }, data });
+    } else {
+      await tx.dataStorageTable.create({ data: { ...data, id: tableId, storageModelId: id } });
+      warnings.push(`已重建数据表 ${name}，原先依赖它的视图与表单需单独恢复`);
+    }
+  }
+
+  // 之后新增的数据表可能已被视图、表单引用，恢复时保留而不是删除
+  for (const table of existing.filter((item) => !snapshotIds.has(item.id))) {
+    warnings.push(`数据表 ${table.name} 在该版本之后新增，已保留`);
+  }
+
+  return warnings;
+}
+
+async function restoreViewModel(tx: Client, id: string, snapshot: Snapshot) {
+  const storageModelId = readString(snapshot.storageModelId);
+  const storageTableId = readString(snapshot.storageTableId);
+  const table = storageTableId
+    ? await tx.dataStorageTable.findUnique({
+        where: { id: storageTableId },
+        select: { storageModelId: true }
+      })
+    : null;
+  if (!table || table.storageModelId !== storageModelId) {
+    throw new RevisionError("该版本绑定的数据表已不存在，无法恢复", 409);
+  }
+
+  await tx.dataViewModel.update({
+    where: { id },
+    data: {
+      name: readString(snapshot.name) ?? undefined,
+      description: readString(snapshot.description),
+      storageModelId: storageModelId!,
+      storageTableId: storageTableId!,
+      layout: snapshot.layout as Prisma.InputJsonValue
+    }
+  });
+
+  return [];
+}
+
+async function restoreFormModel(tx: Client, id: string, snapshot: Snapshot) {
+  const storageTableId = readString(snapshot.storageTableId);
+  const table = storageTableId
+    ? await tx.dataStorageTable.findUnique({
+        where: { id: storageTableId },
+        select: { id: true }
+      })
+    : null;
+  if (!table) {
+    throw new RevisionError("该版本绑定的数据表已不存在，无法恢复", 409);
+  }
+
+  await tx.dataFormModel.update({
+    where: { id },
+    data: {
+      name: readString(snapshot.name) ?? undefined,
+      description: readString(snapshot.description),
+      storageTableId: table.id,
+      schema: snapshot.schema as Prisma.InputJsonValue
+    }
+  });
+
+  return [];
+}
+
+async function restoreOperationModel(tx: Client, id: string, snapshot: Snapshot) {
+  const warnings: string[] = [];
+  let storageModelId = readString(snapshot.storageModelId);
+  let formModelId = readString(snapshot.formModelId);
+
+  if (
+    storageModelId &&
+    !(await tx.dataStorageModel.findUnique({ where: { id: storageModelId }, select: { id: true } }))
+  ) {
+    storageModelId = null;
+    warnings.push("该版本关联的数据存储模型已删除，已解除关联");
+  }
+  if (
+    formModelId &&
+    !(await tx.dataFormModel.findUnique({ where: { id: formModelId }, select: { id: true } }))
+  ) {
+    formModelId = null;
+    warnings.push("该版本绑定的表单模型已删除，已解除绑定");
+  }
+
+  const type = readString(snapshot.type);
+  await tx.dataOperationModel.update({
+    where: { id },
+    data: {
+      name: readString(snapshot.name) ?? undefined,
+      description: readString(snapshot.description),
+      type: type ? (type as Prisma.DataOperationModelUpdateInput["type"]) : undefined,
+      endpoint: readString(snapshot.endpoint),
+      method: readString(snapshot.method),
+      storageModelId,
+      formModelId,
+      requestSchema: toNullableJson(snapshot.requestSchema),
+      responseSchema: toNullableJson(snapshot.responseSchema)
+    }
+  });
+
+  return warnings;
+}
+
+async function restoreDomainModel(tx: Client, id: string, snapshot: Snapshot) {
+  const warnings: string[] = [];
+  const [storageTables, views, forms, operations] = await Promise.all([
+    tx.dataStorageTable.findMany({
+      where: { id: { in: readIds(snapshot.storageTableIds) } },
+      select: { id: true }
+    }),
+    tx.dataViewModel.findMany({
+      where: { id: { in: readIds(snapshot.viewModelIds) } },
+      select: { id: true }
+    }),
+    tx.dataFormModel.findMany({
+      where: { id: { in: readIds(snapshot.formModelIds) } },
+      select: { id: true }
+    }),
+    tx.dataOperationModel.findMany({
+      where: { id: { in: readIds(snapshot.operationModelIds) } },
+      select: { id: true }
+    })
+  ]);
+
+  const missing =
+    readIds(snapshot.storageTableIds).length -
+    storageTables.length +
+    readIds(snapshot.viewModelIds).length -
+    views.length +
+    readIds(snapshot.formModelIds).length -
+    forms.length +
+    readIds(snapshot.operationModelIds).length -
+    operations.length;
+  if (missing > 0) {
+    warnings.push(`该版本关联的 ${missing} 个资源已删除，已跳过`);
+  }
+
+  await tx.dataDomainModel.update({
+    where: { id },
+    data: {
+      name: readString(snapshot.name) ?? undefined,
+      description: readString(snapshot.description),
+      schema: toNullableJson(snapshot.schema),
+      storageTables: {
+        deleteMany: {},
+        create: storageTables.map((item) => ({ storageTable: { connect: { id: item.id } } }))
+      },
+      viewModels: {
+        deleteMany: {},
+        create: views.map((item) => ({ viewModel: { connect: { id: item.id } } }))
+      },
+      formModels: {
+        deleteMany: {},
+        create: forms.map((item) => ({ formModel: { connect: { id: item.id } } }))
+      },
+      operationModels: {
+        deleteMany: {},
+        create: operations.map((item) => ({ operationModel: { connect: { id: item.id } } }))
+      }
+    }
+  });
+
+  return warnings;
+}
+
+const RESTORERS: Record<
+  ModelKind,
+  (tx: Client, id: string, snapshot: Snapshot) => Promise<string[]>
+> = {
+  storage: restoreStorageModel,
+  view: restoreViewModel,
+  form: restoreFormModel,
+  operation: restoreOperationModel,
+  domain: restoreDomainModel
+};
+
+/**
+ * 将模型恢复为指定版本的内容，并记录一条新的 restore 版本；历史版本本身不会被修改。
+ */
+export async function restoreRevision(
+  kind: ModelKind,
+  id: string,
+  version: number,
+  author: string | null
+): Promise<RevisionRestoreResult> {
+  const revision = await getRevision(kind, id, version);
+  if (!revision) {
+    throw new RevisionError("指定的历史版本不存在", 404);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    if (!(await SNAPSHOTS[kind](tx, id))) {
+      throw new RevisionError("模型已被删除，无法恢复", 404);
+    }
+
+    const warnings = await RESTORERS[kind](tx, id, revision.snapshot);
+    const summary = await recordRevision(
+      kind,
+      id,
+      { action: "restore", author, restoredFrom: version },
+      tx
+    );
+
+    return { revision: summary, warnings };
+  });
+}
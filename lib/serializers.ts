@@ -2,11 +2,13 @@ import { Prisma } from "@prisma/client";
 import {
   DashboardData,
   DomainField,
+  DomainFieldSource,
   DomainModel,
   FormModel,
   OperationModel,
   StorageModel,
   StorageTable,
+  StorageTableSchema,
   ViewModel
 } from "@/types/models";
 
@@ -18,6 +20,14 @@ type IncludeFormOption = {
   includeForm?: boolean;
 };
 
+/**
+ * 存储模型只能以摘要形式带出凭据：select 中不含密文字段，序列化结果也只暴露是否已保存。
+ */
+export const storageCredentialSelect = {
+  id: true,
+  updatedAt: true
+} as const;
+
 export type StorageModelWithRelations = Prisma.DataStorageModelGetPayload<{
   include: {
     tables: {
@@ -32,6 +42,9 @@ export type StorageModelWithRelations = Prisma.DataStorageModelGetPayload<{
     };
     operations: true;
     views: true;
+    credential: {
+      select: typeof storageCredentialSelect;
+    };
   };
 }>;
 
@@ -56,6 +69,53 @@ export type OperationModelWithRelations = Prisma.DataOperationModelGetPayload<{
   };
 }>;
 
+export const domainModelInclude = {
+  storageTables: {
+    include: {
+      storageTable: {
+        include: {
+          forms: {
+            include: {
+              operations: true
+            }
+          },
+          views: true
+        }
+      }
+    }
+  },
+  viewModels: {
+    include: {
+      viewModel: {
+        include: {
+          storageModel: true,
+          storageTable: true
+        }
+      }
+    }
+  },
+  formModels: {
+    include: {
+      formModel: {
+        include: {
+          storageTable: true,
+          operations: true
+        }
+      }
+    }
+  },
+  operationModels: {
+    include: {
+      operationModel: {
+        include: {
+          formModel: true,
+          storageModel: true
+        }
+      }
+    }
+  }
+} as const;
+
 export type DomainModelWithRelations = Prisma.DataDomainModelGetPayload<{
   include: {
     storageTables: {
@@ -105,6 +165,50 @@ export type DomainModelWithRelations = Prisma.DataDomainModelGetPayload<{
   };
 }>;
 
+function toArray<T>(value: unknown): T[] {
+  return Array.isArray(value) ? (value as T[]) : [];
+}
+
+function toStorageTableSchema(schema: unknown): StorageTableSchema | null {
+  if (!schema || typeof schema !== "object") {
+    return null;
+  }
+
+  const record = schema as Record<string, unknown>;
+  return {
+    ...(record as Partial<StorageTableSchema>),
+    columns: toArray(record.columns)
+  };
+}
+
+function toStorageTableBase(table: {
+  id: string;
+  name: string;
+  description: string | null;
+  schema: Prisma.JsonValue;
+  storageModelId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}): StorageTable {
+  const schema = toStorageTableSchema(table.schema);
+
+  return {
+    id: table.id,
+    name: table.name,
+    description: table.description,
+    schema,
+    primaryKey: toArray(schema?.primaryKey),
+    uniqueConstraints: toArray(schema?.uniqueConstraints),
+    indexes: toArray(schema?.indexes),
+    foreignKeys: toArray(schema?.foreignKeys),
+    storageModelId: table.storageModelId,
+    createdAt: table.createdAt.toISOString(),
+    updatedAt: table.updatedAt.toISOString(),
+    forms: [],
+    views: []
+  };
+}
+
 function toOperationModel(
   model:
     | OperationModelWithRelations
@@ -165,17 +269,7 @@ function toFormModel(
   }
 
   if ("storageTable" in model && model.storageTable) {
-    base.storageTable = {
-      id: model.storageTable.id,
-      name: model.storageTable.name,
-      description: model.storageTable.description,
-      schema: model.storageTable.schema as unknown,
-      storageModelId: model.storageTable.storageModelId,
-      createdAt: model.storageTable.createdAt.toISOString(),
-      updatedAt: model.storageTable.updatedAt.toISOString(),
-      forms: [],
-      views: []
-    };
+    base.storageTable = toStorageTableBase(model.storageTable);
   }
 
   return base;
@@ -199,17 +293,7 @@ function toViewModel(
   };
 
   if ("storageTable" in model && model.storageTable) {
-    base.storageTable = {
-      id: model.storageTable.id,
-      name: model.storageTable.name,
-      description: model.storageTable.description,
-      schema: model.storageTable.schema as unknown,
-      storageModelId: model.storageTable.storageModelId,
-      createdAt: model.storageTable.createdAt.toISOString(),
-      updatedAt: model.storageTable.updatedAt.toISOString(),
-      forms: [],
-      views: []
-    };
+    base.storageTable = toStorageTableBase(model.storageTable);
   }
 
   return base;
@@ -219,25 +303,40 @@ function toStorageTable(
   table: StorageModelWithRelations["tables"][number]
 ): StorageTable {
   return {
-    id: table.id,
-    name: table.name,
-    description: table.description,
-    schema: table.schema as unknown,
-    storageModelId: table.storageModelId,
-    createdAt: table.createdAt.toISOString(),
-    updatedAt: table.updatedAt.toISOString(),
+    ...toStorageTableBase(table),
     forms: table.forms.map((form) => toFormModel(form, { includeOperations: true })),
     views: table.views.map(toViewModel)
   };
 }
 
+export function redactConnectionUrl(connection: string | null) {
+  if (!connection) {
+    return null;
+  }
+
+  try {
+    const url = new URL(connection);
+    if (!url.password) {
+      return connection;
+    }
+    url.password = "";
+    return url.toString();
+  } catch {
+    return connection;
+  }
+}
+
 function toStorageModel(model: StorageModelWithRelations): StorageModel {
+  const { credential } = model;
+
   return {
     id: model.id,
     name: model.name,
     description: model.description,
     database: model.database,
-    connection: model.connection,
+    connection: redactConnectionUrl(model.connection),
+    hasCredential: Boolean(credential),
+    credentialUpdatedAt: credential ? credential.updatedAt.toISOString() : null,
     schema: model.schema as unknown,
     createdAt: model.createdAt.toISOString(),
     updatedAt: model.updatedAt.toISOString(),
@@ -249,7 +348,27 @@ function toStorageModel(model: StorageModelWithRelations): StorageModel {
   };
 }
 
-function toDomainFields(schema: unknown): DomainField[] {
+function toDomainFieldSources(value: unknown): DomainFieldSource[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  return value
+    .filter(
+      (item): item is Record<string, unknown> =>
+        Boolean(item) &&
+        typeof item === "object" &&
+        typeof (item as Record<string, unknown>).storageTableId === "string" &&
+        typeof (item as Record<string, unknown>).column === "string"
+    )
+    .map((item) => ({
+      storageTableId: item.storageTableId as string,
+      column: item.column as string,
+      transform: typeof item.transform === "string" ? item.transform : null
+    }));
+}
+
+export function toDomainFields(schema: unknown): DomainField[] {
   if (!schema || typeof schema !== "object") {
     return [];
   }
@@ -296,7 +415,8 @@ function toDomainFields(schema: unknown): DomainField[] {
         name,
         type,
         required,
-        description
+        description,
+        sources: toDomainFieldSources(record.sources)
       } as DomainField;
     })
     .filter((field): field is DomainField => field !== null);
@@ -0,0 +1,330 @@
+import type { Prisma } from "@prisma/client";
+import type { z } from "zod";
+
+import {
+  generateCreateTablesSql,
+  generateMigrationSql,
+  SQL_DIALECTS,
+  type SqlDialect,
+  type SqlTable
+} from "@/lib/generators/sql-migration";
+import type { createStorageTableSchema, updateStorageTableSchema } from "@/lib/model-schemas";
+import { prisma } from "@/lib/prisma";
+import { ensureRevisionBaseline, recordRevision } from "@/lib/revisions";
+import {
+  serializeDashboardData,
+  type StorageModelWithRelations
+} from "@/lib/serializers";
+import { storageModelInclude } from "@/lib/storage-import";
+import { collectColumnUsage, readModelDialect } from "@/lib/storage-sync";
+import type { StorageColumn, StorageTableSchema } from "@/types/models";
+import type {
+  StorageDesignResult,
+  StorageMigration,
+  StorageMigrationMode
+} from "@/types/storage-design";
+
+export class StorageDesignError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export type StorageTableInput = z.infer<typeof createStorageTableSchema>;
+export type StorageTableUpdate = z.infer<typeof updateStorageTableSchema>;
+
+/**
+ * 迁移基线保存在存储模型的 schema.schemaBaseline 中：首次在设计器中修改表结构前记录当时的结构，
+ * 重新同步或标记迁移已执行后清空，下次修改时再以最新结构为准。
+ */
+type SchemaBaseline = {
+  capturedAt: string;
+  tables: SqlTable[];
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readBaseline(schema: unknown): SchemaBaseline | null {
+  if (!isRecord(schema) || !isRecord(schema.schemaBaseline)) return null;
+  const { capturedAt, tables } = schema.schemaBaseline;
+  return Array.isArray(tables)
+    ? { capturedAt: String(capturedAt ?? ""), tables: tables as SqlTable[] }
+    : null;
+}
+
+function toSqlTable(table: StorageModelWithRelations["tables"][number]): SqlTable {
+  return {
+    id: table.id,
+    name: table.name,
+    description: table.description,
+    schema: isRecord(table.schema) ? (table.schema as unknown as StorageTableSchema) : null
+  };
+}
+
+function readTableSchema(value: unknown): StorageTableSchema {
+  const schema = isRecord(value) ? (value as unknown as StorageTableSchema) : { columns: [] };
+  return { ...schema, columns: Array.isArray(schema.columns) ? schema.columns : [] };
+}
+
+function toSqlDialect(dialect: string): SqlDialect {
+  return SQL_DIALECTS.includes(dialect as SqlDialect) ? (dialect as SqlDialect) : "mysql";
+}
+
+async function findModel(storageModelId: string) {
+  const model = (await prisma.dataStorageModel.findUnique({
+    where: { id: storageModelId },
+    include: storageModelInclude
+  })) as StorageModelWithRelations | null;
+
+  if (!model) {
+    throw new StorageDesignError("数据存储模型不存在", 404);
+  }
+  return model;
+}
+
+function toPayload(model: StorageModelWithRelations) {
+  return serializeDashboardData({
+    storageModels: [model],
+    viewModels: [],
+    formModels: [],
+    operationModels: [],
+    domainModels: []
+  }).storageModels[0];
+}
+
+async function ensureSchemaBaseline(
+  model: StorageModelWithRelations,
+  client: Prisma.TransactionClient = prisma
+) {
+  if (readBaseline(model.schema)) return;
+
+  const baseline: SchemaBaseline = {
+    capturedAt: new Date().toISOString(),
+    tables: model.tables.map(toSqlTable)
+  };
+  await client.dataStorageModel.update({
+    where: { id: model.id },
+    data: {
+      schema: {
+        ...(isRecord(model.schema) ? model.schema : {}),
+        schemaBaseline: baseline
+      } as unknown as Prisma.InputJsonObject
+    }
+  });
+}
+
+function ensureUniqueTableName(model: StorageModelWithRelations, name: string, tableId?: string) {
+  if (model.tables.some((table) => table.name === name && table.id !== tableId)) {
+    throw new StorageDesignError(`数据表「${name}」已存在`, 409);
+  }
+}
+
+/**
+ * 把设计器提交的字段列表合并进已有表结构：保留导入时记录的其他字段属性，
+ * 按新的主键重写 key 标记，并移除引用了已删除字段的索引与约束。
+ */
+function applyTableDesign(
+  current: StorageTableSchema,
+  columns: StorageTableInput["columns"] | undefined,
+  primaryKey: string[] | undefined
+): StorageTableSchema {
+  const nextColumns = columns ?? current.columns;
+  const names = nextColumns.map((column) => column.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new StorageDesignError(`字段「${duplicate}」重复`);
+  }
+
+  const nextKey = (primaryKey ?? current.primaryKey ?? []).filter((name) => names.includes(name));
+  if (primaryKey && nextKey.length !== primaryKey.length) {
+    throw new StorageDesignError("主键字段必须是数据表中的字段");
+  }
+
+  const existing = new Map(current.columns.map((column) => [column.name, column]));
+  const merged: StorageColumn[] = nextColumns.map((column) => {
+    const previous = existing.get(column.name);
+    const isKey = nextKey.includes(column.name);
+    const previousKey = previous?.key === "PRI" ? null : previous?.key ?? null;
+    return {
+      ...previous,
+      ...column,
+      nullable: isKey ? false : column.nullable !== false,
+      default: column.default === "" ? null : column.default ?? null,
+      comment: column.comment || null,
+      autoIncrement: Boolean(column.autoIncrement),
+      key: isKey ? "PRI" : previousKey
+    };
+  });
+
+  const covered = <T extends { columns: string[] }>(items: T[] | undefined) =>
+    (items ?? []).filter((item) => item.columns.every((name) => names.includes(name)));
+
+  return {
+    ...current,
+    columns: merged,
+    primaryKey: nextKey,
+    uniqueConstraints: covered(current.uniqueConstraints),
+    indexes: covered(current.indexes),
+    foreignKeys: covered(current.foreignKeys)
+  };
+}
+
+function toSchemaJson(schema: StorageTableSchema) {
+  return schema as unknown as Prisma.InputJsonObject;
+}
+
+export async function createStorageTable(
+  storageModelId: string,
+  input: StorageTableInput,
+  author?: string | null
+): Promise<StorageDesignResult> {
+  const model = await findModel(storageModelId);
+  ensureUniqueTableName(model, input.name);
+  const schema = applyTableDesign({ columns: [] }, input.columns, input.primaryKey);
+
+  await prisma.$transaction(async (tx) => {
+    await ensureRevisionBaseline("storage", model.id, tx);
+    await ensureSchemaBaseline(model, tx);
+    await tx.dataStorageTable.create({
+      data: {
+        storageModelId: model.id,
+        name: input.name,
+        description: input.description || undefined,
+        schema: toSchemaJson(schema)
+      }
+    });
+    await recordRevision("storage", model.id, { action: "update", author }, tx);
+  });
+
+  return { storageModel: toPayload(await findModel(model.id)), warnings: [] };
+}
+
+export async function updateStorageTable(
+  storageModelId: string,
+  tableId: string,
+  input: StorageTableUpdate,
+  author?: string | null
+): Promise<StorageDesignResult> {
+  const model = await findModel(storageModelId);
+  const table = model.tables.find((item) => item.id === tableId);
+  if (!table) {
+    throw new StorageDesignError("数据表不存在", 404);
+  }
+  if (input.name) ensureUniqueTableName(model, input.name, table.id);
+
+  const current = readTableSchema(table.schema);
+  const schema = applyTableDesign(current, input.columns, input.primaryKey);
+  const remaining = schema.columns.map((column) => column.name);
+  const warnings = current.columns
+    .filter((column) => !remaining.includes(column.name))
+    .map((column) => collectColumnUsage(table, column.name))
+    .filter((usage): usage is NonNullable<typeof usage> => Boolean(usage))
+    .map((usage) => {
+      const users = [...usage.views, ...usage.forms].map((item) => `「${item.name}」`).join("、");
+      return `字段 ${usage.column} 已删除，但仍被${users}引用`;
+    });
+
+  await prisma.$transaction(async (tx) => {
+    await ensureRevisionBaseline("storage", model.id, tx);
+    await ensureSchemaBaseline(model, tx);
+    await tx.dataStorageTable.update({
+      where: { id: table.id },
+      data: {
+        name: input.name,
+        description:
+          input.description === undefined ? undefined : input.description?.trim() || null,
+        schema: toSchemaJson(schema)
+      }
+    });
+    await recordRevision("storage", model.id, { action: "update", author }, tx);
+  });
+
+  return { storageModel: toPayload(await findModel(model.id)), warnings };
+}
+
+export async function deleteStorageTable(
+  storageModelId: string,
+  tableId: string,
+  author?: string | null
+): Promise<StorageDesignResult> {
+  const model = await findModel(storageModelId);
+  const table = model.tables.find((item) => item.id === tableId);
+  if (!table) {
+    throw new StorageDesignError("数据表不存在", 404);
+  }
+
+  // 视图与表单随数据表级联删除，设计器中只允许删除未被引用的数据表
+  const users = [...table.views, ...table.forms].map((item) => `「${item.name}」`);
+  if (users.length) {
+    throw new StorageDesignError(
+      `数据表「${table.name}」仍被 ${users.join("、")} 引用，请先删除或改用其他数据表`,
+      409
+    );
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await ensureRevisionBaseline("storage", model.id, tx);
+    await ensureSchemaBaseline(model, tx);
+    await tx.dataStorageTable.delete({ where: { id: table.id } });
+    await recordRevision("storage", model.id, { action: "update", author }, tx);
+  });
+
+  return { storageModel: toPayload(await findModel(model.id)), warnings: [] };
+}
+
+/**
+ * 生成迁移脚本（与基线比较）或完整建表脚本，只返回文本，不会在数据源上执行。
+ */
+export async function buildStorageMigration(
+  storageModelId: string,
+  mode: StorageMigrationMode
+): Promise<StorageMigration> {
+  const model = await findModel(storageModelId);
+  const dialect = toSqlDialect(readModelDialect(model));
+  const schemaName =
+    isRecord(model.schema) && typeof model.schema.schemaName === "string"
+      ? model.schema.schemaName
+      : null;
+  const tables = model.tables.map(toSqlTable);
+
+  if (mode === "ddl") {
+    return {
+      sql: generateCreateTablesSql(tables, {
+        dialect,
+        schemaName,
+        title: `数据存储模型「${model.name}」的建表脚本`
+      }),
+      hasChanges: tables.length > 0,
+      baselineAt: null
+    };
+  }
+
+  const baseline = readBaseline(model.schema);
+  const { sql, hasChanges } = generateMigrationSql(baseline?.tables ?? tables, tables, {
+    dialect,
+    schemaName,
+    title: baseline
+      ? `数据存储模型「${model.name}」的迁移脚本，基线记录于 ${baseline.capturedAt}`
+      : `数据存储模型「${model.name}」的迁移脚本，基线之后尚未修改表结构`
+  });
+  return { sql, hasChanges, baselineAt: baseline?.capturedAt ?? null };
+}
+
+/**
+ * 迁移脚本在数据库上执行后调用，以当前结构作为新的基线。
+ */
+export async function resetSchemaBaseline(storageModelId: string) {
+  const model = await findModel(storageModelId);
+  const schema = isRecord(model.schema) ? { ...model.schema } : {};
+  delete schema.schemaBaseline;
+
+  await prisma.dataStorageModel.update({
+    where: { id: model.id },
+    data: { schema: schema as unknown as Prisma.InputJsonObject }
+  });
+}
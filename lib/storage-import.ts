@@ -0,0 +1,111 @@
+import type { Prisma } from "@prisma/client";
+
+import { encryptSecret } from "@/lib/credentials";
+import type { TableFilter, TableSchema } from "@/lib/introspection";
+import { prisma } from "@/lib/prisma";
+import { recordRevision } from "@/lib/revisions";
+import {
+  serializeDashboardData,
+  storageCredentialSelect,
+  type StorageModelWithRelations
+} from "@/lib/serializers";
+import type { StorageModel } from "@/types/models";
+
+export type StorageImportInput = {
+  name: string;
+  description?: string;
+  database: string;
+  connection: string | null;
+  dialect: string;
+  schemaName?: string;
+  tableFilter?: TableFilter;
+  tables: TableSchema[];
+  // 传入时加密保存为该模型的连接凭据
+  password?: string;
+  author?: string | null;
+};
+
+export const storageModelInclude = {
+  tables: {
+    include: {
+      forms: {
+        include: {
+          operations: true
+        }
+      },
+      views: true
+    }
+  },
+  operations: true,
+  views: true,
+  credential: {
+    select: storageCredentialSelect
+  }
+} as const;
+
+export function toTableSchemaJson(table: TableSchema) {
+  return {
+    columns: table.columns,
+    ...(table.primaryKey?.length ? { primaryKey: table.primaryKey } : {}),
+    ...(table.uniqueConstraints?.length ? { uniqueConstraints: table.uniqueConstraints } : {}),
+    ...(table.indexes?.length ? { indexes: table.indexes } : {}),
+    ...(table.foreignKeys?.length ? { foreignKeys: table.foreignKeys } : {})
+  } as unknown as Prisma.InputJsonObject;
+}
+
+export async function createStorageModelFromTables(
+  input: StorageImportInput
+): Promise<StorageModel> {
+  const { tables } = input;
+
+  // 凭据以模型 ID 作为附加认证数据加密，需在模型创建后写入；与首个版本快照在同一事务内提交
+  const createdModel = await prisma.$transaction(async (tx) => {
+    const model = await tx.dataStorageModel.create({
+      data: {
+        name: input.name,
+        description: input.description || undefined,
+        database: input.database,
+        connection: input.connection ?? undefined,
+        schema: {
+          dialect: input.dialect,
+          ...(input.schemaName ? { schemaName: input.schemaName } : {}),
+          ...(input.tableFilter ? { tableFilter: input.tableFilter } : {}),
+          importedAt: new Date().toISOString(),
+          tables: tables.map((table) => ({
+            name: table.name,
+            description: table.description,
+            columns: table.columns
+          }))
+        } as unknown as Prisma.InputJsonObject,
+        tables: {
+          create: tables.map((table) => ({
+            name: table.name,
+            description: table.description || undefined,
+            schema: toTableSchemaJson(table)
+          }))
+        }
+      },
+      include: storageModelInclude
+    });
+
+    const credential =
+      input.password === undefined
+        ? null
+        : await tx.dataStorageCredential.create({
+            data: { storageModelId: model.id, ...encryptSecret(input.password, model.id) },
+            select: storageCredentialSelect
+          });
+    await recordRevision("storage", model.id, { action: "create", author: input.author }, tx);
+    return { ...model, credential };
+  });
+
+  const serialized = serializeDashboardData({
+    storageModels: [createdModel as StorageModelWithRelations],
+    viewModels: [],
+    formModels: [],
+    operationModels: [],
+    domainModels: []
+  });
+
+  return serialized.storageModels[0];
+}
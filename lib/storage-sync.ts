@@ -0,0 +1,424 @@
+import type { DataStorageModel, Prisma } from "@prisma/client";
+import { createHash } from "crypto";
+
+import { readStorageCredential, saveStorageCredential } from "@/lib/credentials";
+import { parseDdl } from "@/lib/ddl/parser";
+import {
+  applyTableFilter,
+  introspectWithFilter,
+  parseConnectionUrl,
+  type ColumnSchema,
+  type DatabaseDialect,
+  type TableFilter,
+  type TableSchema
+} from "@/lib/introspection";
+import { introspectSqliteFile, readSqliteFile } from "@/lib/introspection/sqlite";
+import { prisma } from "@/lib/prisma";
+import { ensureRevisionBaseline, recordRevision } from "@/lib/revisions";
+import {
+  serializeDashboardData,
+  type StorageModelWithRelations
+} from "@/lib/serializers";
+import { storageModelInclude, toTableSchemaJson } from "@/lib/storage-import";
+import type { StorageModel } from "@/types/models";
+import type {
+  ChangedTable,
+  ColumnChange,
+  ModelReference,
+  StorageSyncDiff,
+  StorageSyncSourceKind,
+  SyncUsageWarning
+} from "@/types/storage-sync";
+
+export class StorageSyncError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export type StorageSyncInput = {
+  password?: string;
+  rememberPassword?: boolean;
+  ddl?: string;
+};
+
+export type StorageSyncOptions = StorageSyncInput & {
+  apply?: boolean;
+  force?: boolean;
+  /** 预览时返回的 diff.fingerprint，apply 时必须回传 */
+  fingerprint?: string;
+  author?: string | null;
+};
+
+export type StorageSyncResult = {
+  diff: StorageSyncDiff;
+  storageModel?: StorageModel;
+};
+
+const COLUMN_FIELDS = ["type", "nullable", "default", "key", "comment", "autoIncrement"] as const;
+const CONSTRAINT_FIELDS = ["primaryKey", "uniqueConstraints", "indexes", "foreignKeys"] as const;
+
+type ExistingTable = StorageModelWithRelations["tables"][number];
+
+type SourceTables = {
+  dialect: string;
+  tables: TableSchema[];
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readColumns(schema: unknown): ColumnSchema[] {
+  if (!isRecord(schema) || !Array.isArray(schema.columns)) return [];
+  return schema.columns.filter(
+    (column): column is ColumnSchema => isRecord(column) && typeof column.name === "string"
+  );
+}
+
+export function readReferencedColumns(value: unknown): string[] {
+  if (!isRecord(value) || !Array.isArray(value.fields)) return [];
+  return value.fields
+    .map((field) => (isRecord(field) && typeof field.column === "string" ? field.column : null))
+    .filter((column): column is string => Boolean(column));
+}
+
+export function readModelDialect(model: Pick<DataStorageModel, "connection" | "schema">): string {
+  if (isRecord(model.schema) && typeof model.schema.dialect === "string") {
+    return model.schema.dialect;
+  }
+  const protocol = model.connection?.split("://")[0];
+  return protocol || "mysql";
+}
+
+function readTableFilter(model: Pick<DataStorageModel, "schema">): TableFilter | undefined {
+  if (!isRecord(model.schema) || !isRecord(model.schema.tableFilter)) return undefined;
+  const { tables, pattern } = model.schema.tableFilter;
+  return {
+    tables: Array.isArray(tables)
+      ? tables.filter((item): item is string => typeof item === "string")
+      : undefined,
+    pattern: typeof pattern === "string" ? pattern : undefined
+  };
+}
+
+function getStorageSyncSourceKind(
+  model: Pick<DataStorageModel, "connection" | "schema">
+): StorageSyncSourceKind | null {
+  if (model.connection?.startsWith("sqlite://")) return "sqlite";
+  if (model.connection) return "connection";
+  return readModelDialect(model) === "sqlite" ? null : "ddl";
+}
+
+async function loadSourceTables(
+  model: DataStorageModel,
+  input: StorageSyncInput
+): Promise<SourceTables> {
+  const dialect = readModelDialect(model);
+  const kind = getStorageSyncSourceKind(model);
+  const filter = readTableFilter(model);
+
+  if (input.ddl?.trim()) {
+    if (dialect === "sqlite") {
+      throw new StorageSyncError("SQLite 存储模型不支持通过 DDL 脚本同步");
+    }
+    const ddlDialect: DatabaseDialect = dialect === "postgresql" ? "postgresql" : "mysql";
+    const { tables } = parseDdl(input.ddl, ddlDialect);
+    if (tables.length === 0) {
+      throw new StorageSyncError("DDL 中未解析到建表语句");
+    }
+    return { dialect: ddlDialect, tables: applyTableFilter(tables, filter) };
+  }
+
+  if (kind === "sqlite") {
+    const file = await readSqliteFile(model.connection!.slice("sqlite://".length));
+    const tables = await introspectSqliteFile(file.buffer);
+    return { dialect: "sqlite", tables: applyTableFilter(tables, filter) };
+  }
+
+  if (kind === "connection") {
+    const password = input.password || (await readStorageCredential(model.id)) || "";
+    const config = parseConnectionUrl(model.connection!, password);
+    if (!config) {
+      throw new StorageSyncError(`无法识别的数据库连接：${model.connection}`);
+    }
+    const tables = await introspectWithFilter(config, filter);
+    if (input.password && input.rememberPassword) {
+      await saveStorageCredential(model.id, input.password);
+    }
+    return { dialect: config.dialect, tables };
+  }
+
+  if (kind === "ddl") {
+    throw new StorageSyncError("该存储模型由 DDL 脚本导入，请提供最新的 DDL 脚本");
+  }
+
+  throw new StorageSyncError("该存储模型由上传的 SQLite 文件生成，无法重新同步，请重新导入");
+}
+
+function normalizeColumnValue(column: ColumnSchema, field: (typeof COLUMN_FIELDS)[number]) {
+  const value = column[field];
+  if (field === "autoIncrement") return Boolean(value);
+  if (value === undefined || value === null) return null;
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function diffColumns(before: ColumnSchema, after: ColumnSchema): string[] {
+  return COLUMN_FIELDS.filter(
+    (field) => normalizeColumnValue(before, field) !== normalizeColumnValue(after, field)
+  );
+}
+
+function constraintsChanged(schema: unknown, table: TableSchema) {
+  const stored = isRecord(schema) ? schema : {};
+  return CONSTRAINT_FIELDS.some((field) => {
+    const next = table[field];
+    const previous = stored[field];
+    const nextValue = next && next.length ? JSON.stringify(next) : null;
+    const previousValue =
+      Array.isArray(previous) && previous.length ? JSON.stringify(previous) : null;
+    return nextValue !== previousValue;
+  });
+}
+
+function diffTable(existing: ExistingTable, table: TableSchema): ChangedTable | null {
+  const beforeColumns = readColumns(existing.schema);
+  const afterColumns = table.columns;
+  const beforeMap = new Map(beforeColumns.map((column) => [column.name, column]));
+  const afterMap = new Map(afterColumns.map((column) => [column.name, column]));
+
+  const addedColumns = afterColumns.filter((column) => !beforeMap.has(column.name));
+  const removedColumns = beforeColumns.filter((column) => !afterMap.has(column.name));
+  const changedColumns: ColumnChange[] = [];
+  for (const after of afterColumns) {
+    const before = beforeMap.get(after.name);
+    if (!before) continue;
+    const fields = diffColumns(before, after);
+    if (fields.length) {
+      changedColumns.push({ name: after.name, before, after, fields });
+    }
+  }
+
+  const descriptionChanged = (existing.description ?? null) !== (table.description || null);
+  const constraintChanged = constraintsChanged(existing.schema, table);
+
+  if (
+    !descriptionChanged &&
+    !constraintChanged &&
+    !addedColumns.length &&
+    !removedColumns.length &&
+    !changedColumns.length
+  ) {
+    return null;
+  }
+
+  return {
+    tableId: existing.id,
+    name: existing.name,
+    descriptionChanged,
+    constraintsChanged: constraintChanged,
+    addedColumns,
+    removedColumns,
+    changedColumns
+  };
+}
+
+function toReference(item: { id: string; name: string }): ModelReference {
+  return { id: item.id, name: item.name };
+}
+
+export function collectColumnUsage(existing: ExistingTable, column: string): SyncUsageWarning | null {
+  const views = existing.views
+    .filter((view) => readReferencedColumns(view.layout).includes(column))
+    .map(toReference);
+  const forms = existing.forms
+    .filter((form) => readReferencedColumns(form.schema).includes(column))
+    .map(toReference);
+
+  if (!views.length && !forms.length) return null;
+  return { tableId: existing.id, tableName: existing.name, column, views, forms };
+}
+
+function matchTables(existingTables: ExistingTable[], tables: TableSchema[]) {
+  const matched = new Map<string, TableSchema>();
+  const remaining = new Map(tables.map((table) => [table.name, table]));
+
+  for (const existing of existingTables) {
+    const exact = remaining.get(existing.name);
+    if (exact) {
+      matched.set(existing.id, exact);
+      remaining.delete(exact.name);
+    }
+  }
+
+  return { matched, added: Array.from(remaining.values()) };
+}
+
+export function computeStorageSyncDiff(
+  existingTables: ExistingTable[],
+  tables: TableSchema[]
+): StorageSyncDiff {
+  const { matched, added } = matchTables(existingTables, tables);
+  const changedTables: ChangedTable[] = [];
+  const removedTables: StorageSyncDiff["removedTables"] = [];
+  const warnings: SyncUsageWarning[] = [];
+  let unchangedTables = 0;
+
+  for (const existing of existingTables) {
+    const table = matched.get(existing.id);
+    if (!table) {
+      removedTables.push({ tableId: existing.id, name: existing.name });
+      if (existing.views.length || existing.forms.length) {
+        warnings.push({
+          tableId: existing.id,
+          tableName: existing.name,
+          column: null,
+          views: existing.views.map(toReference),
+          forms: existing.forms.map(toReference)
+        });
+      }
+      continue;
+    }
+
+    const change = diffTable(existing, table);
+    if (!change) {
+      unchangedTables += 1;
+      continue;
+    }
+    changedTables.push(change);
+    for (const column of change.removedColumns) {
+      const usage = collectColumnUsage(existing, column.name);
+      if (usage) warnings.push(usage);
+    }
+  }
+
+  const diff = {
+    addedTables: added.map((table) => ({
+      name: table.name,
+      description: table.description,
+      columns: table.columns
+    })),
+    removedTables,
+    changedTables,
+    unchangedTables,
+    warnings,
+    hasChanges: Boolean(added.length || removedTables.length || changedTables.length)
+  };
+
+  // 同时覆盖数据源结构与差异内容，数据源或已保存的模型任一变化都会改变指纹
+  const fingerprint = createHash("sha256").update(JSON.stringify({ tables, diff })).digest("hex");
+
+  return { ...diff, fingerprint };
+}
+
+/**
+ * 重新读取数据源并与已保存的表结构比对；apply 时原地更新，已有数据表的 ID 保持不变，
+ * 视图、表单与领域模型的关联因此得以保留。apply 会重新读取数据源，
+ * 只有与预览时的指纹一致才写入，避免应用未经确认的变更。
+ */
+export async function syncStorageModel(
+  storageModelId: string,
+  options: StorageSyncOptions
+): Promise<StorageSyncResult> {
+  const model = (await prisma.dataStorageModel.findUnique({
+    where: { id: storageModelId },
+    include: storageModelInclude
+  })) as StorageModelWithRelations | null;
+
+  if (!model) {
+    throw new StorageSyncError("数据存储模型不存在", 404);
+  }
+
+  const source = await loadSourceTables(model, options);
+  const diff = computeStorageSyncDiff(model.tables, source.tables);
+
+  if (!options.apply) {
+    return { diff };
+  }
+
+  if (!options.fingerprint) {
+    throw new StorageSyncError("请先预览同步差异，再确认应用");
+  }
+
+  if (options.fingerprint !== diff.fingerprint) {
+    throw new StorageSyncError("数据源或模型在预览后已发生变化，请重新预览差异", 409);
+  }
+
+  if (diff.warnings.length && !options.force) {
+    throw new StorageSyncError("部分将被移除的数据表或字段仍被视图、表单引用，请确认后再应用", 409);
+  }
+
+  const { matched } = matchTables(model.tables, source.tables);
+  const changedIds = new Set(diff.changedTables.map((table) => table.tableId));
+  const previousSchema = isRecord(model.schema) ? { ...model.schema } : {};
+  // 同步后的结构与数据源一致，设计器中的迁移基线随之失效
+  delete previousSchema.schemaBaseline;
+
+  await prisma.$transaction(async (tx) => {
+    await ensureRevisionBaseline("storage", model.id, tx);
+
+    for (const [tableId, table] of Array.from(matched.entries())) {
+      if (!changedIds.has(tableId)) continue;
+      await tx.dataStorageTable.update({
+        where: { id: tableId },
+        data: {
+          description: table.description || null,
+          schema: toTableSchemaJson(table)
+        }
+      });
+    }
+
+    if (diff.removedTables.length) {
+      await tx.dataStorageTable.deleteMany({
+        where: { id: { in: diff.removedTables.map((table) => table.tableId) } }
+      });
+    }
+
+    const addedNames = new Set(diff.addedTables.map((table) => table.name));
+    for (const table of source.tables.filter((item) => addedNames.has(item.name))) {
+      await tx.dataStorageTable.create({
+        data: {
+          storageModelId: model.id,
+          name: table.name,
+          description: table.description || undefined,
+          schema: toTableSchemaJson(table)
+        }
+      });
+    }
+
+    await tx.dataStorageModel.update({
+      where: { id: model.id },
+      data: {
+        schema: {
+          ...previousSchema,
+          dialect: source.dialect,
+          syncedAt: new Date().toISOString(),
+          tables: source.tables.map((table) => ({
+            name: table.name,
+            description: table.description,
+            columns: table.columns
+          }))
+        } as unknown as Prisma.InputJsonObject
+      }
+    });
+    await recordRevision("storage", model.id, { action: "sync", author: options.author }, tx);
+  });
+
+  const updated = (await prisma.dataStorageModel.findUnique({
+    where: { id: model.id },
+    include: storageModelInclude
+  })) as StorageModelWithRelations;
+
+  const serialized = serializeDashboardData({
+    storageModels: [updated],
+    viewModels: [],
+    formModels: [],
+    operationModels: [],
+    domainModels: []
+  });
+
+  return { diff, storageModel: serialized.storageModels[0] };
+}
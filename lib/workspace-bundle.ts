@@ -0,0 +1,778 @@
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+
+import { prisma } from "@/lib/prisma";
+import { ensureRevisionBaseline, recordRevision } from "@/lib/revisions";
+import { redactConnectionUrl } from "@/lib/serializers";
+import type { ModelKind } from "@/types/models";
+import type {
+  WorkspaceBundle,
+  WorkspaceConflictStrategy,
+  WorkspaceImportItem,
+  WorkspaceImportResult,
+  WorkspaceSelection
+} from "@/types/workspace-bundle";
+
+export class WorkspaceBundleError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export const WORKSPACE_BUNDLE_FORMAT = "data-model-ide.workspace";
+export const WORKSPACE_BUNDLE_VERSION = 1;
+export const CONFLICT_STRATEGIES = ["skip", "overwrite", "rename"] as const;
+
+type Client = Prisma.TransactionClient;
+
+const KIND_LABELS: Record<ModelKind, string> = {
+  storage: "数据存储模型",
+  view: "视图模型",
+  form: "表单模型",
+  operation: "操作模型",
+  domain: "业务领域模型"
+};
+
+const idListSchema = z.array(z.string().min(1)).default([]);
+
+const nullableString = z
+  .string()
+  .nullish()
+  .transform((value) => value ?? null);
+
+export const workspaceBundleSchema = z.object({
+  format: z.literal(WORKSPACE_BUNDLE_FORMAT, {
+    errorMap: () => ({ message: "不是有效的工作区导出包" })
+  }),
+  version: z.literal(WORKSPACE_BUNDLE_VERSION, {
+    errorMap: () => ({ message: `仅支持版本 ${WORKSPACE_BUNDLE_VERSION} 的工作区导出包` })
+  }),
+  exportedAt: z.string().default(""),
+  storageModels: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        name: z.string().min(1, "存储模型名称不能为空"),
+        description: nullableString,
+        database: z.string().min(1),
+        connection: nullableString,
+        schema: z.unknown(),
+        tables: z
+          .array(
+            z.object({
+              id: z.string().min(1),
+              name: z.string().min(1, "数据表名称不能为空"),
+              description: nullableString,
+              schema: z.unknown()
+            })
+          )
+          .default([])
+      })
+    )
+    .default([]),
+  viewModels: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        name: z.string().min(1, "视图名称不能为空"),
+        description: nullableString,
+        storageModelId: z.string().min(1),
+        storageTableId: z.string().min(1),
+        layout: z.unknown()
+      })
+    )
+    .default([]),
+  formModels: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        name: z.string().min(1, "表单名称不能为空"),
+        description: nullableString,
+        storageTableId: z.string().min(1),
+        schema: z.unknown()
+      })
+    )
+    .default([]),
+  operationModels: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        name: z.string().min(1, "操作名称不能为空"),
+        description: nullableString,
+        type: z.enum(["CREATE", "READ", "UPDATE", "DELETE", "CUSTOM"]),
+        endpoint: nullableString,
+        method: nullableString,
+        storageModelId: nullableString,
+        formModelId: nullableString,
+        requestSchema: z.unknown(),
+        responseSchema: z.unknown()
+      })
+    )
+    .default([]),
+  domainModels: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        name: z.string().min(1, "领域模型名称不能为空"),
+        description: nullableString,
+        schema: z.unknown(),
+        storageTableIds: idListSchema,
+        viewModelIds: idListSchema,
+        formModelIds: idListSchema,
+        operationModelIds: idListSchema
+      })
+    )
+    .default([])
+});
+
+function byName<T extends { id: string; name: string }>(items: T[]) {
+  return [...items].sort((a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id));
+}
+
+function toJson(value: unknown) {
+  return (value ?? {}) as Prisma.InputJsonValue;
+}
+
+// 可空 JSON 列写入 null 时需使用 DbNull
+function toNullableJson(value: unknown) {
+  return value === null || value === undefined ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+}
+
+function hasSelection(selection?: WorkspaceSelection) {
+  return Boolean(selection && Object.values(selection).some((ids) => ids?.length));
+}
+
+/**
+ * 按选择补齐依赖：领域模型带出其关联资源，视图、表单与操作带出所属的存储模型（含全部数据表），
+ * 保证导出包可以独立导入。
+ */
+async function resolveSelection(selection: WorkspaceSelection) {
+  const storageIds = new Set(selection.storage ?? []);
+  const tableIds = new Set<string>();
+  const viewIds = new Set(selection.view ?? []);
+  const formIds = new Set(selection.form ?? []);
+  const operationIds = new Set(selection.operation ?? []);
+  const domainIds = selection.domain ?? [];
+
+  if (domainIds.length) {
+    const domains = await prisma.dataDomainModel.findMany({
+      where: { id: { in: domainIds } },
+      include: {
+        storageTables: true,
+        viewModels: true,
+        formModels: true,
+        operationModels: true
+      }
+    });
+    domains.forEach((domain) => {
+      domain.storageTables.forEach((link) => tableIds.add(link.storageTableId));
+      domain.viewModels.forEach((link) => viewIds.add(link.viewModelId));
+      domain.formModels.forEach((link) => formIds.add(link.formModelId));
+      domain.operationModels.forEach((link) => operationIds.add(link.operationModelId));
+    });
+  }
+
+  const operations = await prisma.dataOperationModel.findMany({
+    where: { id: { in: Array.from(operationIds) } },
+    select: { storageModelId: true, formModelId: true }
+  });
+  operations.forEach((operation) => {
+    if (operation.storageModelId) storageIds.add(operation.storageModelId);
+    if (operation.formModelId) formIds.add(operation.formModelId);
+  });
+
+  const [views, forms] = await Promise.all([
+    prisma.dataViewModel.findMany({
+      where: { id: { in: Array.from(viewIds) } },
+      select: { storageModelId: true }
+    }),
+    prisma.dataFormModel.findMany({
+      where: { id: { in: Array.from(formIds) } },
+      select: { storageTableId: true }
+    })
+  ]);
+  views.forEach((view) => storageIds.add(view.storageModelId));
+  forms.forEach((form) => tableIds.add(form.storageTableId));
+
+  const tables = await prisma.dataStorageTable.findMany({
+    where: { id: { in: Array.from(tableIds) } },
+    select: { storageModelId: true }
+  });
+  tables.forEach((table) => storageIds.add(table.storageModelId));
+
+  return {
+    storage: Array.from(storageIds),
+    view: Array.from(viewIds),
+    form: Array.from(formIds),
+    operation: Array.from(operationIds),
+    domain: domainIds
+  };
+}
+
+export async function exportWorkspaceBundle(
+  selection?: WorkspaceSelection
+): Promise<WorkspaceBundle> {
+  const ids = hasSelection(selection) ? await resolveSelection(selection ?? {}) : null;
+  const filter = (kind: ModelKind) => (ids ? { id: { in: ids[kind] } } : {});
+
+  const [storageModels, viewModels, formModels, operationModels, domainModels] =
+    await Promise.all([
+      prisma.dataStorageModel.findMany({ where: filter("storage"), include: { tables: true } }),
+      prisma.dataViewModel.findMany({ where: filter("view") }),
+      prisma.dataFormModel.findMany({ where: filter("form") }),
+      prisma.dataOperationModel.findMany({ where: filter("operation") }),
+      prisma.dataDomainModel.findMany({
+        where: filter("domain"),
+        include: {
+          storageTables: true,
+          viewModels: true,
+          formModels: true,
+          operationModels: true
+        }
+      })
+    ]);
+
+  return {
+    format: WORKSPACE_BUNDLE_FORMAT,
+    version: WORKSPACE_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    storageModels: byName(storageModels).map((model) => ({
+      id: model.id,
+      name: model.name,
+      description: model.description,
+      database: model.database,
+      connection: redactConnectionUrl(model.connection),
+      schema: model.schema,
+      tables: byName(model.tables).map((table) => ({
+        id: table.id,
+        name: table.name,
+        description: table.description,
+        schema: table.schema
+      }))
+    })),
+    viewModels: byName(viewModels).map((view) => ({
+      id: view.id,
+      name: view.name,
+      description: view.description,
+      storageModelId: view.storageModelId,
+      storageTableId: view.storageTableId,
+      layout: view.layout
+    })),
+    formModels: byName(formModels).map((form) => ({
+      id: form.id,
+      name: form.name,
+      description: form.description,
+      storageTableId: form.storageTableId,
+      schema: form.schema
+    })),
+    operationModels: byName(operationModels).map((operation) => ({
+      id: operation.id,
+      name: operation.name,
+      description: operation.description,
+      type: operation.type,
+      endpoint: operation.endpoint,
+      method: operation.method,
+      storageModelId: operation.storageModelId,
+      formModelId: operation.formModelId,
+      requestSchema: operation.requestSchema,
+      responseSchema: operation.responseSchema
+    })),
+    domainModels: byName(domainModels).map((domain) => ({
+      id: domain.id,
+      name: domain.name,
+      description: domain.description,
+      schema: domain.schema,
+      storageTableIds: domain.storageTables.map((link) => link.storageTableId).sort(),
+      viewModelIds: domain.viewModels.map((link) => link.viewModelId).sort(),
+      formModelIds: domain.formModels.map((link) => link.formModelId).sort(),
+      operationModelIds: domain.operationModels.map((link) => link.operationModelId).sort()
+    }))
+  };
+}
+
+async function findAvailableName(name: string, exists: (candidate: string) => Promise<boolean>) {
+  for (let index = 2; ; index += 1) {
+    const candidate = `${name} (${index})`;
+    if (!(await exists(candidate))) return candidate;
+  }
+}
+
+type ImportContext = {
+  tx: Client;
+  strategy: WorkspaceConflictStrategy;
+  items: WorkspaceImportItem[];
+  warnings: string[];
+  ids: Record<ModelKind | "table", Map<string, string>>;
+  // 本次导入已对应或新建的记录，同一条记录不会被包内两个模型同时占用
+  used: Set<string>;
+  matchById: boolean;
+};
+
+type ConflictLookup<T> = {
+  byId: (id: string) => Promise<T | null>;
+  byName: (name: string) => Promise<T[]>;
+};
+
+/**
+ * 按名称处理冲突：skip 复用已有记录并将引用指向它，overwrite 原地更新已有记录，
+ * rename 以「名称 (n)」新建。existing 为 null 表示需要新建，并给出新建时使用的名称。
+ * byName 只在所属数据表或存储模型范围内查找；范围内有多条未占用的同名记录时无法确定对应关系，
+ * 作为冲突报告并中止导入。matchById 时先按包内 id 查找，找到即视为同一条记录：
+ * skip 时跳过，其余策略原地更新。
+ */
+async function resolveConflict<T extends { id: string }>(
+  context: ImportContext,
+  kind: ModelKind,
+  source: { id: string; name: string },
+  lookup: ConflictLookup<T>
+): Promise<{ existing: T | null; name: string; renamed: boolean }> {
+  if (context.matchById && !context.used.has(`${kind}:${source.id}`)) {
+    const existing = await lookup.byId(source.id);
+    if (existing) {
+      if (context.strategy === "skip") {
+        recordImported(context, kind, source, existing.id, "skipped");
+      }
+      return { existing, name: source.name, renamed: false };
+    }
+  }
+
+  const candidates = (await lookup.byName(source.name)).filter(
+    (item) => !context.used.has(`${kind}:${item.id}`)
+  );
+  if (candidates.length > 1 && context.strategy !== "rename") {
+    throw new WorkspaceBundleError(
+      `目标工作区中有 ${candidates.length} 个名为「${source.name}」的${KIND_LABELS[kind]}，无法确定对应关系，请先处理重名或改用重命名导入`,
+      409
+    );
+  }
+
+  const existing = candidates[0] ?? null;
+  if (!existing || context.strategy === "overwrite") {
+    return { existing, name: source.name, renamed: false };
+  }
+  if (context.strategy === "skip") {
+    recordImported(context, kind, source, existing.id, "skipped");
+    return { existing, name: source.name, renamed: false };
+  }
+
+  const name = await findAvailableName(
+    source.name,
+    async (candidate) => (await lookup.byName(candidate)).length > 0
+  );
+  return { existing: null, name, renamed: true };
+}
+
+/**
+ * 在已有存储模型中为包内数据表找到对应的表：matchById 时先按 id，再按表名；同一张表只对应一次。
+ */
+function createTableMatcher<T extends { id: string; name: string }>(
+  context: ImportContext,
+  tables: T[]
+) {
+  const used = new Set<string>();
+  return (source: { id: string; name: string }) => {
+    const match =
+      (context.matchById
+        ? tables.find((item) => item.id === source.id && !used.has(item.id))
+        : undefined) ?? tables.find((item) => item.name === source.name && !used.has(item.id));
+    if (match) used.add(match.id);
+    return match ?? null;
+  };
+}
+
+function recordImported(
+  context: ImportContext,
+  kind: ModelKind,
+  source: { id: string; name: string },
+  id: string,
+  status: WorkspaceImportItem["status"],
+  name = source.name
+) {
+  context.ids[kind].set(source.id, id);
+  context.used.add(`${kind}:${id}`);
+  context.items.push({ kind, sourceId: source.id, id, name, status });
+}
+
+function mapReference(
+  context: ImportContext,
+  kind: ModelKind | "table",
+  sourceId: string | null
+) {
+  return sourceId ? context.ids[kind].get(sourceId) ?? null : null;
+}
+
+async function importStorageModels(context: ImportContext, bundle: WorkspaceBundle) {
+  const { tx } = context;
+
+  for (const model of bundle.storageModels) {
+    const { existing, name, renamed } = await resolveConflict(context, "storage", model, {
+      byId: (id) => tx.dataStorageModel.findUnique({ where: { id }, include: { tables: true } }),
+      byName: (value) =>
+        tx.dataStorageModel.findMany({ where: { name: value }, include: { tables: true } })
+    });
+    const matchTable = createTableMatcher(context, existing?.tables ?? []);
+
+    if (existing && context.strategy === "skip") {
+      model.tables.forEach((table) => {
+        const match = matchTable(table);
+        if (match) {
+          context.ids.table.set(table.id, match.id);
+        } else {
+          context.warnings.push(`已跳过存储模型「${model.name}」，其中缺少数据表「${table.name}」`);
+        }
+      });
+      continue;
+    }
+
+    if (existing) {
+      await ensureRevisionBaseline("storage", existing.id, tx);
+      await tx.dataStorageModel.update({
+        where: { id: existing.id },
+        data: {
+          name: model.name,
+          description: model.description,
+          database: model.database,
+          connection: model.connection ?? existing.connection,
+          schema: toNullableJson(model.schema)
+        }
+      });
+      // 覆盖时按表名更新或新增数据表；包中没有的表保留，避免级联删除依赖它的视图和表单
+      for (const table of model.tables) {
+        const match = matchTable(table);
+        const saved = match
+          ? await tx.dataStorageTable.update({
+              where: { id: match.id },
+              data: {
+                name: table.name,
+                description: table.description,
+                schema: toNullableJson(table.schema)
+              }
+            })
+          : await tx.dataStorageTable.create({
+              data: {
+                storageModelId: existing.id,
+                name: table.name,
+                description: table.description,
+                schema: toNullableJson(table.schema)
+              }
+            });
+        context.ids.table.set(table.id, saved.id);
+      }
+      recordImported(context, "storage", model, existing.id, "overwritten");
+      continue;
+    }
+
+    const created = await tx.dataStorageModel.create({
+      data: {
+        name,
+        description: model.description,
+        database: model.database,
+        connection: model.connection,
+        schema: toNullableJson(model.schema)
+      }
+    });
+    for (const table of model.tables) {
+      const saved = await tx.dataStorageTable.create({
+        data: {
+          storageModelId: created.id,
+          name: table.name,
+          description: table.description,
+          schema: toNullableJson(table.schema)
+        }
+      });
+      context.ids.table.set(table.id, saved.id);
+    }
+    recordImported(context, "storage", model, created.id, renamed ? "renamed" : "created", name);
+  }
+}
+
+async function importViewModels(context: ImportContext, bundle: WorkspaceBundle) {
+  const { tx } = context;
+
+  for (const view of bundle.viewModels) {
+    const storageModelId = mapReference(context, "storage", view.storageModelId);
+    const storageTableId = mapReference(context, "table", view.storageTableId);
+    if (!storageModelId || !storageTableId) {
+      context.warnings.push(`视图「${view.name}」引用的数据表不在导入结果中，已跳过`);
+      continue;
+    }
+
+    const { existing, name, renamed } = await resolveConflict(context, "view", view, {
+      byId: (id) => tx.dataViewModel.findUnique({ where: { id } }),
+      byName: (value) => tx.dataViewModel.findMany({ where: { name: value, storageTableId } })
+    });
+    if (existing && context.strategy === "skip") continue;
+
+    const data = {
+      description: view.description,
+      storageModelId,
+      storageTableId,
+      layout: toJson(view.layout)
+    };
+    if (existing) {
+      await ensureRevisionBaseline("view", existing.id, tx);
+      await tx.dataViewModel.update({ where: { id: existing.id }, data: { ...data, name } });
+      recordImported(context, "view", view, existing.id, "overwritten");
+    } else {
+      const created = await tx.dataViewModel.create({ data: { ...data, name } });
+      recordImported(context, "view", view, created.id, renamed ? "renamed" : "created", name);
+    }
+  }
+}
+
+async function importFormModels(context: ImportContext, bundle: WorkspaceBundle) {
+  const { tx } = context;
+
+  for (const form of bundle.formModels) {
+    const storageTableId = mapReference(context, "table", form.storageTableId);
+    if (!storageTableId) {
+      context.warnings.push(`表单「${form.name}」引用的数据表不在导入结果中，已跳过`);
+      continue;
+    }
+
+    const { existing, name, renamed } = await resolveConflict(context, "form", form, {
+      byId: (id) => tx.dataFormModel.findUnique({ where: { id } }),
+      byName: (value) => tx.dataFormModel.findMany({ where: { name: value, storageTableId } })
+    });
+    if (existing && context.strategy === "skip") continue;
+
+    const data = {
+      description: form.description,
+      storageTableId,
+      schema: toJson(form.schema)
+    };
+    if (existing) {
+      await ensureRevisionBaseline("form", existing.id, tx);
+      await tx.dataFormModel.update({ where: { id: existing.id }, data: { ...data, name } });
+      recordImported(context, "form", form, existing.id, "overwritten");
+    } else {
+      const created = await tx.dataFormModel.create({ data: { ...data, name } });
+      recordImported(context, "form", form, created.id, renamed ? "renamed" : "created", name);
+    }
+  }
+}
+
+async function importOperationModels(context: ImportContext, bundle: WorkspaceBundle) {
+  const { tx } = context;
+
+  for (const operation of bundle.operationModels) {
+    const storageModelId = mapReference(context, "storage", operation.storageModelId);
+    const formModelId = mapReference(context, "form", operation.formModelId);
+    if (operation.storageModelId && !storageModelId) {
+      context.warnings.push(`操作「${operation.name}」引用的存储模型不在导入结果中，已解除关联`);
+    }
+    if (operation.formModelId && !formModelId) {
+      context.warnings.push(`操作「${operation.name}」引用的表单不在导入结果中，已解除关联`);
+    }
+
+    const { existing, name, renamed } = await resolveConflict(context, "operation", operation, {
+      byId: (id) => tx.dataOperationModel.findUnique({ where: { id } }),
+      byName: (value) => tx.dataOperationModel.findMany({ where: { name: value, storageModelId } })
+    });
+    if (existing && context.strategy === "skip") continue;
+
+    const data = {
+      description: operation.description,
+      type: operation.type,
+      endpoint: operation.endpoint,
+      method: operation.method,
+      storageModelId,
+      formModelId,
+      requestSchema: toNullableJson(operation.requestSchema),
+      responseSchema: toNullableJson(operation.responseSchema)
+    };
+    if (existing) {
+      await ensureRevisionBaseline("operation", existing.id, tx);
+      await tx.dataOperationModel.update({ where: { id: existing.id }, data: { ...data, name } });
+      recordImported(context, "operation", operation, existing.id, "overwritten");
+    } else {
+      const created = await tx.dataOperationModel.create({ data: { ...data, name } });
+      recordImported(
+        context,
+        "operation",
+        operation,
+        created.id,
+        renamed ? "renamed" : "created",
+        name
+      );
+    }
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 业务字段来源中的数据表 id 同样按导入结果改写，来源数据表未导入时移除该来源。
+ */
+function mapDomainSchema(context: ImportContext, domain: WorkspaceBundle["domainModels"][number]) {
+  const schema = domain.schema;
+  if (!isRecord(schema) || !Array.isArray(schema.fields)) return schema;
+
+  let dropped = 0;
+  const fields = schema.fields.map((field) => {
+    if (!isRecord(field) || !Array.isArray(field.sources)) return field;
+    const sources = field.sources.flatMap((source) => {
+      const storageTableId = isRecord(source)
+        ? mapReference(
+            context,
+            "table",
+            typeof source.storageTableId === "string" ? source.storageTableId : null
+          )
+        : null;
+      if (!storageTableId) {
+        dropped += 1;
+        return [];
+      }
+      return [{ ...source, storageTableId }];
+    });
+    return { ...field, sources };
+  });
+  if (dropped) {
+    context.warnings.push(
+      `领域模型「${domain.name}」有 ${dropped} 个业务字段来源的数据表不在导入结果中，已移除`
+    );
+  }
+  return { ...schema, fields };
+}
+
+async function importDomainModels(context: ImportContext, bundle: WorkspaceBundle) {
+  const { tx } = context;
+
+  for (const domain of bundle.domainModels) {
+    const { existing, name, renamed } = await resolveConflict(context, "domain", domain, {
+      byId: (id) => tx.dataDomainModel.findUnique({ where: { id } }),
+      byName: (value) => tx.dataDomainModel.findMany({ where: { name: value } })
+    });
+    if (existing && context.strategy === "skip") continue;
+
+    const mapIds = (kind: ModelKind | "table", sourceIds: string[]) => {
+      const mapped = sourceIds
+        .map((sourceId) => mapReference(context, kind, sourceId))
+        .filter((id): id is string => Boolean(id));
+      if (mapped.length < sourceIds.length) {
+        context.warnings.push(
+          `领域模型「${domain.name}」有 ${sourceIds.length - mapped.length} 个关联资源不在导入结果中，已忽略`
+        );
+      }
+      return Array.from(new Set(mapped));
+    };
+    const storageTableIds = mapIds("table", domain.storageTableIds);
+    const viewModelIds = mapIds("view", domain.viewModelIds);
+    const formModelIds = mapIds("form", domain.formModelIds);
+    const operationModelIds = mapIds("operation", domain.operationModelIds);
+    const schema = mapDomainSchema(context, domain);
+
+    const links = {
+      storageTables: {
+        create: storageTableIds.map((storageTableId) => ({ storageTableId }))
+      },
+      viewModels: {
+        create: viewModelIds.map((viewModelId) => ({ viewModelId }))
+      },
+      formModels: {
+        create: formModelIds.map((formModelId) => ({ formModelId }))
+      },
+      operationModels: {
+        create: operationModelIds.map((operationModelId) => ({ operationModelId }))
+      }
+    };
+
+    if (existing) {
+      await ensureRevisionBaseline("domain", existing.id, tx);
+      await tx.dataDomainModel.update({
+        where: { id: existing.id },
+        data: {
+          name,
+          description: domain.description,
+          schema: toNullableJson(schema),
+          storageTables: { deleteMany: {}, ...links.storageTables },
+          viewModels: { deleteMany: {}, ...links.viewModels },
+          formModels: { deleteMany: {}, ...links.formModels },
+          operationModels: { deleteMany: {}, ...links.operationModels }
+        }
+      });
+      recordImported(context, "domain", domain, existing.id, "overwritten");
+    } else {
+      const created = await tx.dataDomainModel.create({
+        data: {
+          name,
+          description: domain.description,
+          schema: toNullableJson(schema),
+          ...links
+        }
+      });
+      recordImported(context, "domain", domain, created.id, renamed ? "renamed" : "created", name);
+    }
+  }
+}
+
+type ImportOptions = {
+  conflict: WorkspaceConflictStrategy;
+  author?: string | null;
+  /** 包内 id 在数据库中存在时直接对应该记录，用于加载由同一数据库导出的镜像 */
+  matchById?: boolean;
+};
+
+/**
+ * 在单个事务中按存储模型 → 视图 → 表单 → 操作 → 领域模型的顺序导入，新记录使用新生成的 id，
+ * 包内引用通过 id 映射改写；任一步失败整体回滚。
+ */
+export async function importWorkspaceBundle(
+  bundle: WorkspaceBundle,
+  options: ImportOptions
+): Promise<WorkspaceImportResult> {
+  return prisma.$transaction(
+    async (tx) => {
+      const context: ImportContext = {
+        tx,
+        strategy: options.conflict,
+        items: [],
+        warnings: [],
+        ids: {
+          storage: new Map(),
+          table: new Map(),
+          view: new Map(),
+          form: new Map(),
+          operation: new Map(),
+          domain: new Map()
+        },
+        used: new Set(),
+        matchById: options.matchById ?? false
+      };
+
+      await importStorageModels(context, bundle);
+      await importViewModels(context, bundle);
+      await importFormModels(context, bundle);
+      await importOperationModels(context, bundle);
+      await importDomainModels(context, bundle);
+
+      for (const item of context.items) {
+        if (item.status !== "skipped" && item.id) {
+          await recordRevision(
+            item.kind,
+            item.id,
+            { action: item.status === "overwritten" ? "update" : "create", author: options.author },
+            tx
+          );
+        }
+      }
+
+      return { items: context.items, warnings: context.warnings };
+    },
+    // 大型导出包逐条写入，默认 5 秒的交互式事务超时不够用
+    { timeout: 120_000 }
+  );
+}
+
+export function parseWorkspaceBundle(value: unknown): WorkspaceBundle {
+  const result = workspaceBundleSchema.safeParse(value);
+  if (!result.success) {
+    throw new WorkspaceBundleError(result.error.errors.map((err) => err.message).join("；"));
+  }
+  return result.data as WorkspaceBundle;
+}
@@ -1,5 +1,7 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  // sql.js 需要在运行时从 node_modules 读取 wasm 文件，不能参与打包
+  serverExternalPackages: ["sql.js"],
   experimental: {
     // `serverActions` must be an object in Next v16+ experimental config.
     // Setting to an empty object enables server actions without using a boolean.
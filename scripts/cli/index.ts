@@ -0,0 +1,354 @@
+import { loadEnvConfig } from "@next/env";
+import { readFile, writeFile } from "fs/promises";
+import { parseArgs } from "util";
+
+import type { AdminTableGenerationResult } from "@/types/admin-table";
+import type { ModelMirrorWriteResult } from "@/types/model-mirror";
+import type { DashboardData, ModelKind, ViewModel } from "@/types/models";
+import type { WorkspaceImportResult } from "@/types/workspace-bundle";
+
+import {
+  createHttpTransport,
+  createLocalTransport,
+  type CliTransport,
+  type HttpMethod
+} from "./transport";
+
+const USAGE = `用法：pnpm cli <命令> [参数]
+
+命令：
+  import-db                    从数据库连接导入存储模型
+      --name <名称> --host <地址> --user <用户> --database <库名>
+      [--dialect mysql|postgresql] [--port <端口>] [--password <密码>] [--schema <schema>]
+      [--tables a,b | --pattern <通配符>] [--description <描述>] [--remember-password]
+  import-ddl <文件>            从 DDL 脚本导入存储模型
+      --name <名称> [--dialect mysql|postgresql] [--database <库名>] [--description <描述>]
+  list [kind]                  列出模型，kind 为 storage|view|form|operation|domain
+  show <kind> <id>             输出单个模型详情
+  export                       导出工作区包，不指定 id 时导出全部
+      [--storage <id,...>] [--view <id,...>] [--form <id,...>] [--operation <id,...>]
+      [--domain <id,...>] [--out <文件>]
+  page-config <viewId>         生成 AdminTablePageConfig
+      [--filter-forms <id,...>] [--submission-forms <id,...>] [--operations <id,...>]
+      [--out <文件>]
+  apply <文件>                 应用工作区包 [--conflict skip|overwrite|rename]
+  mirror write|load            写入或加载模型文件镜像 [--format json|yaml] [--conflict ...]
+
+通用参数：
+  --api <地址>                 通过 HTTP 接口操作（也可设置 DATA_MODEL_IDE_API），默认直接访问数据库
+  --author <名称>              写入历史版本的操作人
+  --json                       以 JSON 输出结果`;
+
+const KIND_ENDPOINTS: Record<ModelKind, string> = {
+  storage: "storage-models",
+  view: "view-models",
+  form: "form-models",
+  operation: "operation-models",
+  domain: "domain-models"
+};
+
+const KIND_LABELS: Record<ModelKind, string> = {
+  storage: "数据存储模型",
+  view: "视图模型",
+  form: "表单模型",
+  operation: "操作模型",
+  domain: "业务领域模型"
+};
+
+const DASHBOARD_KEYS: Record<ModelKind, keyof DashboardData> = {
+  storage: "storageModels",
+  view: "viewModels",
+  form: "formModels",
+  operation: "operationModels",
+  domain: "domainModels"
+};
+
+const MODEL_KINDS = Object.keys(KIND_ENDPOINTS) as ModelKind[];
+
+const STRING_OPTIONS = [
+  "api",
+  "author",
+  "out",
+  "name",
+  "description",
+  "dialect",
+  "host",
+  "port",
+  "user",
+  "password",
+  "database",
+  "schema",
+  "tables",
+  "pattern",
+  "filter-forms",
+  "submission-forms",
+  "operations",
+  "conflict",
+  "format",
+  ...MODEL_KINDS
+];
+
+type Options = Record<string, string | boolean | undefined>;
+
+type CommandContext = {
+  request: <T>(method: HttpMethod, path: string, body?: unknown) => Promise<T>;
+  args: string[];
+  options: Options;
+};
+
+function readOption(options: Options, name: string) {
+  const value = options[name];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function requireOption(options: Options, name: string) {
+  const value = readOption(options, name);
+  if (!value) {
+    throw new Error(`缺少参数 --${name}`);
+  }
+  return value;
+}
+
+function readList(options: Options, name: string) {
+  const value = readOption(options, name);
+  return value
+    ? value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : undefined;
+}
+
+function readKind(value: string | undefined) {
+  if (!value || !MODEL_KINDS.includes(value as ModelKind)) {
+    throw new Error(`模型类型需为 ${MODEL_KINDS.join("|")}`);
+  }
+  return value as ModelKind;
+}
+
+async function output(options: Options, value: unknown, text?: string) {
+  const out = readOption(options, "out");
+  const content = JSON.stringify(value, null, 2);
+  if (out) {
+    await writeFile(out, `${content}\n`, "utf8");
+    console.log(`已写入 ${out}`);
+  } else if (options.json || text === undefined) {
+    console.log(content);
+  } else {
+    console.log(text);
+  }
+}
+
+function describeImportResult(result: WorkspaceImportResult) {
+  const lines = result.items.map(
+    (item) => `${item.status.padEnd(11)} ${KIND_LABELS[item.kind]}「${item.name}」 ${item.id ?? ""}`
+  );
+  return [...lines, ...result.warnings.map((warning) => `警告：${warning}`)].join("\n");
+}
+
+async function importDb({ request, options }: CommandContext) {
+  const result = await request<{ id: string; name: string; tables: unknown[] }>(
+    "POST",
+    "/api/storage-models/import",
+    {
+      name: requireOption(options, "name"),
+      description: readOption(options, "description"),
+      connection: {
+        dialect: readOption(options, "dialect") ?? "mysql",
+        host: requireOption(options, "host"),
+        port: readOption(options, "port"),
+        user: requireOption(options, "user"),
+        password: readOption(options, "password") ?? process.env.DB_PASSWORD,
+        database: requireOption(options, "database"),
+        schema: readOption(options, "schema")
+      },
+      selection: {
+        tables: readList(options, "tables"),
+        tablePattern: readOption(options, "pattern")
+      },
+      rememberPassword: options["remember-password"] === true || undefined
+    }
+  );
+  await output(
+    options,
+    result,
+    `已导入存储模型「${result.name}」（${result.id}），共 ${result.tables.length} 张表`
+  );
+}
+
+async function importDdl({ request, args, options }: CommandContext) {
+  const [file] = args;
+  if (!file) throw new Error("请指定 DDL 文件路径");
+
+  const result = await request<{
+    storageModel: { id: string; name: string; tables: unknown[] };
+    skipped: Array<{ statement: string; reason: string }>;
+  }>("POST", "/api/storage-models/import/ddl", {
+    name: requireOption(options, "name"),
+    description: readOption(options, "description"),
+    dialect: readOption(options, "dialect") ?? "mysql",
+    database: readOption(options, "database"),
+    ddl: await readFile(file, "utf8")
+  });
+  const { storageModel, skipped } = result;
+  await output(
+    options,
+    result,
+    [
+      `已导入存储模型「${storageModel.name}」（${storageModel.id}），共 ${storageModel.tables.length} 张表`,
+      ...skipped.map((item) => `跳过：${item.reason}`)
+    ].join("\n")
+  );
+}
+
+async function list({ request, args, options }: CommandContext) {
+  const kinds = args[0] ? [readKind(args[0])] : MODEL_KINDS;
+  const data = await request<DashboardData>("GET", "/api/dashboard");
+  const rows = kinds.flatMap((kind) =>
+    (data[DASHBOARD_KEYS[kind]] as Array<{ id: string; name: string }>).map((model) => ({
+      kind,
+      id: model.id,
+      name: model.name
+    }))
+  );
+
+  await output(
+    options,
+    rows,
+    rows.map((row) => `${row.kind.padEnd(10)} ${row.id}  ${row.name}`).join("\n") || "暂无模型"
+  );
+}
+
+async function show({ request, args, options }: CommandContext) {
+  const kind = readKind(args[0]);
+  const id = args[1];
+  if (!id) throw new Error("请指定模型 id");
+
+  await output(options, await request("GET", `/api/${KIND_ENDPOINTS[kind]}/${id}`));
+}
+
+async function exportBundle({ request, options }: CommandContext) {
+  const query = new URLSearchParams();
+  MODEL_KINDS.forEach((kind) => {
+    const ids = readList(options, kind);
+    if (ids) query.set(kind, ids.join(","));
+  });
+
+  await output(options, await request("GET", `/api/workspace/export?${query.toString()}`));
+}
+
+async function pageConfig({ request, args, options }: CommandContext) {
+  const [viewId] = args;
+  if (!viewId) throw new Error("请指定视图模型 id");
+
+  const view = await request<ViewModel>("GET", `/api/view-models/${viewId}`);
+  const result = await request<AdminTableGenerationResult>("POST", "/api/page-configs/admin-table", {
+    storageModelId: view.storageModelId,
+    storageTableId: view.storageTableId,
+    viewId,
+    filterFormIds: readList(options, "filter-forms"),
+    submissionFormIds: readList(options, "submission-forms"),
+    operationIds: readList(options, "operations")
+  });
+
+  await output(options, result);
+}
+
+async function apply({ request, args, options }: CommandContext) {
+  const [file] = args;
+  if (!file) throw new Error("请指定工作区包文件路径");
+
+  let bundle: unknown;
+  try {
+    bundle = JSON.parse(await readFile(file, "utf8"));
+  } catch (error) {
+    throw new Error(`无法读取工作区包：${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = await request<WorkspaceImportResult>("POST", "/api/workspace/import", {
+    bundle,
+    conflict: readOption(options, "conflict") ?? "skip"
+  });
+  await output(options, result, describeImportResult(result));
+}
+
+async function mirror({ request, args, options }: CommandContext) {
+  const [action] = args;
+  if (action === "write") {
+    const result = await request<ModelMirrorWriteResult>("POST", "/api/mirror/write", {
+      format: readOption(options, "format") ?? "json"
+    });
+    await output(
+      options,
+      result,
+      `已写入 ${result.written.length} 个文件，删除 ${result.removed.length} 个过期文件（${result.dir}）`
+    );
+    return;
+  }
+  if (action === "load") {
+    const result = await request<WorkspaceImportResult>("POST", "/api/mirror/load", {
+      conflict: readOption(options, "conflict") ?? "overwrite"
+    });
+    await output(options, result, describeImportResult(result));
+    return;
+  }
+  throw new Error("mirror 命令需指定 write 或 load");
+}
+
+const COMMANDS: Record<string, (context: CommandContext) => Promise<void>> = {
+  "import-db": importDb,
+  "import-ddl": importDdl,
+  list,
+  show,
+  export: exportBundle,
+  "page-config": pageConfig,
+  apply,
+  mirror
+};
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      ...Object.fromEntries(STRING_OPTIONS.map((name) => [name, { type: "string" as const }])),
+      help: { type: "boolean", short: "h" },
+      json: { type: "boolean" },
+      "remember-password": { type: "boolean" }
+    }
+  });
+  const [command, ...args] = positionals;
+  const options = values as Options;
+
+  const run = command ? COMMANDS[command] : undefined;
+  if (!run || options.help) {
+    console.log(USAGE);
+    process.exitCode = run || options.help ? 0 : 1;
+    return;
+  }
+
+  loadEnvConfig(process.cwd());
+  const api = readOption(options, "api") ?? process.env.DATA_MODEL_IDE_API;
+  const author = readOption(options, "author");
+  const transport: CliTransport = api
+    ? createHttpTransport(api, author)
+    : createLocalTransport(author);
+
+  const request = async <T>(method: HttpMethod, path: string, body?: unknown) => {
+    const response = await transport.request(method, path, body);
+    if (!response.ok) {
+      throw new Error((await response.text()) || `请求失败（${response.status}）`);
+    }
+    return (await response.json()) as T;
+  };
+
+  try {
+    await run({ request, args, options });
+  } finally {
+    await transport.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(`错误：${error instanceof Error ? error.message : error}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,126 @@
+type RouteContext = {
+  params: Promise<Record<string, string>>;
+};
+
+// 方法签名写法便于兼容各路由声明的具体 params 类型
+type RouteModule = {
+  GET?(request: Request, context: RouteContext): Promise<Response>;
+  POST?(request: Request, context: RouteContext): Promise<Response>;
+  PATCH?(request: Request, context: RouteContext): Promise<Response>;
+  DELETE?(request: Request, context: RouteContext): Promise<Response>;
+};
+
+export type HttpMethod = keyof RouteModule;
+
+export type CliTransport = {
+  request: (method: HttpMethod, path: string, body?: unknown) => Promise<Response>;
+  close: () => Promise<void>;
+};
+
+/**
+ * 直连模式复用接口的路由处理函数，参数校验、修订记录等行为与 HTTP 模式完全一致。
+ */
+const LOCAL_ROUTES: Array<{ pattern: string; load: () => Promise<RouteModule> }> = [
+  { pattern: "/api/dashboard", load: () => import("@/app/api/dashboard/route") },
+  {
+    pattern: "/api/storage-models/import",
+    load: () => import("@/app/api/storage-models/import/route")
+  },
+  {
+    pattern: "/api/storage-models/import/ddl",
+    load: () => import("@/app/api/storage-models/import/ddl/route")
+  },
+  { pattern: "/api/storage-models/:id", load: () => import("@/app/api/storage-models/[id]/route") },
+  { pattern: "/api/view-models/:id", load: () => import("@/app/api/view-models/[id]/route") },
+  { pattern: "/api/form-models/:id", load: () => import("@/app/api/form-models/[id]/route") },
+  {
+    pattern: "/api/operation-models/:id",
+    load: () => import("@/app/api/operation-models/[id]/route")
+  },
+  { pattern: "/api/domain-models/:id", load: () => import("@/app/api/domain-models/[id]/route") },
+  {
+    pattern: "/api/page-configs/admin-table",
+    load: () => import("@/app/api/page-configs/admin-table/route")
+  },
+  { pattern: "/api/workspace/export", load: () => import("@/app/api/workspace/export/route") },
+  { pattern: "/api/workspace/import", load: () => import("@/app/api/workspace/import/route") },
+  { pattern: "/api/mirror/write", load: () => import("@/app/api/mirror/write/route") },
+  { pattern: "/api/mirror/load", load: () => import("@/app/api/mirror/load/route") }
+];
+
+function matchRoute(pattern: string, pathname: string) {
+  const expected = pattern.split("/");
+  const actual = pathname.split("/");
+  if (expected.length !== actual.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let index = 0; index < expected.length; index += 1) {
+    const segment = expected[index];
+    if (segment.startsWith(":")) {
+      params[segment.slice(1)] = decodeURIComponent(actual[index]);
+    } else if (segment !== actual[index]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+function buildRequest(url: string, method: HttpMethod, body: unknown, author?: string) {
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers["Content-Type"] = "application/json";
+  if (author) headers["X-Author"] = encodeURIComponent(author);
+
+  return new Request(url, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+}
+
+export function createHttpTransport(baseUrl: string, author?: string): CliTransport {
+  const base = baseUrl.replace(/\/+$/, "");
+  return {
+    request: (method, path, body) => fetch(buildRequest(`${base}${path}`, method, body, author)),
+    close: async () => {}
+  };
+}
+
+export function createLocalTransport(author?: string): CliTransport {
+  let connected = false;
+
+  const request: CliTransport["request"] = async (method, path, body) => {
+    const url = new URL(path, "http://localhost");
+    // 静态路径优先于带参数的路径，例如 import/ddl 不应匹配 :id
+    const candidates = LOCAL_ROUTES.map((route) => ({
+      route,
+      params: matchRoute(route.pattern, url.pathname)
+    }))
+      .filter((candidate) => candidate.params !== null)
+      .sort((a, b) => Object.keys(a.params ?? {}).length - Object.keys(b.params ?? {}).length);
+
+    const match = candidates[0];
+    if (!match) {
+      throw new Error(`直连模式不支持接口 ${method} ${url.pathname}`);
+    }
+
+    const handler = (await match.route.load())[method];
+    if (!handler) {
+      throw new Error(`接口 ${url.pathname} 不支持 ${method} 请求`);
+    }
+
+    connected = true;
+    return handler(buildRequest(url.toString(), method, body, author), {
+      params: Promise.resolve(match.params ?? {})
+    });
+  };
+
+  return {
+    request,
+    // Prisma 连接需主动断开进程才能退出
+    close: async () => {
+      if (!connected) return;
+      const { prisma } = await import("@/lib/prisma");
+      await prisma.$disconnect();
+    }
+  };
+}
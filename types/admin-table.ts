@@ -0,0 +1,194 @@
+export type ColumnRenderType = "text" | "badge" | "boolean" | "date" | "currency" | "custom";
+
+export type ActionIntent = "default" | "primary" | "secondary" | "destructive" | "outline" | "ghost";
+
+export type ActionScope = "global" | "row" | "bulk";
+
+export interface OptionItem {
+  label: string;
+  value: string | number;
+}
+
+export interface ValueMappingItem {
+  label: string;
+  intent?: string;
+}
+
+export interface TableColumnConfig {
+  id: string;
+  label: string;
+  dataIndex: string;
+  width?: number | string;
+  align?: "left" | "center" | "right";
+  sortable?: boolean;
+  renderType?: ColumnRenderType;
+  valueMapping?: Record<string, ValueMappingItem>;
+  currency?: {
+    currency?: string;
+    locale?: string;
+    minimumFractionDigits?: number;
+    maximumFractionDigits?: number;
+  };
+  dateFormat?: Record<string, unknown>;
+}
+
+export interface PaginationConfig {
+  defaultPageSize?: number;
+  pageSizeOptions?: number[];
+}
+
+export interface EmptyStateConfig {
+  title: string;
+  description?: string;
+}
+
+export interface StaticDataSourceConfig {
+  type: "static";
+  data: Array<Record<string, unknown>>;
+}
+
+export interface RemoteDataSourceConfig {
+  type: "remote";
+  endpoint: string;
+  method?: "GET" | "POST";
+  headers?: Record<string, string>;
+  requestBody?: unknown;
+  pagination?: {
+    pageParam?: string;
+    pageSizeParam?: string;
+  };
+  queryMapping?: Record<string, string>;
+  responseMapping?: {
+    dataPath?: string;
+    totalPath?: string;
+  };
+}
+
+export type DataSourceConfig = StaticDataSourceConfig | RemoteDataSourceConfig;
+
+export type FilterType = "text" | "number" | "select" | "boolean" | "date-range";
+
+export interface FilterConfig {
+  id: string;
+  label: string;
+  field: string;
+  type: FilterType;
+  placeholder?: string;
+  defaultValue?: unknown;
+  options?: OptionItem[];
+  trueLabel?: string;
+  falseLabel?: string;
+}
+
+export type ActionFormFieldType = "text" | "number" | "textarea" | "select";
+
+export interface ActionFormField {
+  id: string;
+  label: string;
+  type: ActionFormFieldType;
+  required?: boolean;
+  defaultValue?: unknown;
+  placeholder?: string;
+  options?: OptionItem[];
+  maxLength?: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  rows?: number;
+}
+
+export interface ActionFormConfig {
+  title: string;
+  description?: string;
+  submitLabel?: string;
+  cancelLabel?: string;
+  fields: ActionFormField[];
+}
+
+export interface ActionConfirmation {
+  title: string;
+  description?: string;
+}
+
+export interface ApiActionBehavior {
+  type: "api";
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  endpoint: string;
+  headers?: Record<string, string>;
+  query?: Record<string, unknown>;
+  bodyTemplate?: unknown;
+  successMessage?: string;
+  errorMessage?: string;
+}
+
+export interface LinkActionBehavior {
+  type: "link";
+  url: string;
+  target?: "_blank" | "_self";
+}
+
+export type ActionBehavior = ApiActionBehavior | LinkActionBehavior;
+
+export interface TableViewModel {
+  type: "table-view";
+  dataSource: DataSourceConfig;
+  columns: TableColumnConfig[];
+  selectable?: boolean;
+  pagination?: PaginationConfig;
+  emptyState?: EmptyStateConfig;
+}
+
+export interface FilterFormModel {
+  id: string;
+  type: "filter-form";
+  filters: FilterConfig[];
+}
+
+export interface SubmissionFormModel {
+  id: string;
+  type: "submission-form";
+  form: ActionFormConfig;
+}
+
+export interface DataOperationModel {
+  id: string;
+  type: "data-operation";
+  scope: ActionScope;
+  label: string;
+  tooltip?: string;
+  intent?: ActionIntent;
+  icon?: string;
+  confirm?: ActionConfirmation;
+  behavior: ActionBehavior;
+  form?: ActionFormConfig;
+  formRef?: string;
+  requiresSelection?: boolean;
+}
+
+export interface AdminTableModelsConfig {
+  view: TableViewModel;
+  filterForms?: FilterFormModel[];
+  submissionForms?: SubmissionFormModel[];
+  operations?: DataOperationModel[];
+}
+
+export interface AdminTablePageConfig {
+  type: "admin-table";
+  title?: string;
+  description?: string;
+  models: AdminTableModelsConfig;
+}
+
+export interface AdminTableModelLocator {
+  storageModelId: string;
+  storageTableId: string;
+  viewId: string;
+  filterFormIds?: string[];
+  submissionFormIds?: string[];
+  operationIds?: string[];
+}
+
+export interface AdminTableGenerationResult {
+  config: AdminTablePageConfig;
+  warnings: string[];
+}
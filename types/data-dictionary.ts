@@ -0,0 +1,41 @@
+import type { ModelReference } from "@/types/storage-sync";
+
+export const DATA_DICTIONARY_FORMATS = ["html", "markdown", "csv"] as const;
+
+export type DataDictionaryFormat = (typeof DATA_DICTIONARY_FORMATS)[number];
+
+/** CSV 按工作表拆分：字段明细与数据表概览 */
+export type DataDictionarySheet = "columns" | "tables";
+
+export interface DataDictionaryColumn {
+  name: string;
+  type: string | null;
+  nullable: boolean;
+  primaryKey: boolean;
+  unique: boolean;
+  autoIncrement: boolean;
+  default: string | null;
+  comment: string | null;
+  /** 外键引用，形如 users.id */
+  references: string | null;
+  views: ModelReference[];
+  forms: ModelReference[];
+  operations: ModelReference[];
+}
+
+export interface DataDictionaryTable {
+  id: string;
+  name: string;
+  description: string | null;
+  storageModel: ModelReference & { database: string };
+  primaryKey: string[];
+  indexes: string[];
+  columns: DataDictionaryColumn[];
+}
+
+export interface DataDictionary {
+  title: string;
+  description: string | null;
+  generatedAt: string;
+  tables: DataDictionaryTable[];
+}
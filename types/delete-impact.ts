@@ -0,0 +1,18 @@
+import type { ModelKind } from "@/types/models";
+import type { ModelReference } from "@/types/storage-sync";
+
+/**
+ * 删除前的影响范围：tables/views/forms 会随之级联删除，operations 会被解除关联（SetNull），
+ * domains 中对被删除资源的引用会被移除。
+ */
+export interface DeleteImpact {
+  kind: ModelKind;
+  id: string;
+  name: string;
+  tables: ModelReference[];
+  views: ModelReference[];
+  forms: ModelReference[];
+  operations: ModelReference[];
+  domains: ModelReference[];
+  hasDependents: boolean;
+}
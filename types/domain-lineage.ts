@@ -0,0 +1,35 @@
+import type { ModelReference } from "@/types/storage-sync";
+
+export interface DomainLineageUsage extends ModelReference {
+  /** 是否已关联到当前领域 */
+  linked: boolean;
+}
+
+export interface DomainLineageSource {
+  storageTableId: string;
+  /** 数据表已被删除时为 null */
+  tableName: string | null;
+  storageModel: ModelReference | null;
+  column: string;
+  columnType: string | null;
+  transform: string | null;
+  /** 来源失效的原因，如数据表未关联到领域或字段已不存在 */
+  issues: string[];
+  /** 在视图中展示该字段的视图模型 */
+  views: DomainLineageUsage[];
+  /** 在表单中录入该字段的表单模型 */
+  forms: DomainLineageUsage[];
+}
+
+export interface DomainLineageField {
+  key: string;
+  name: string;
+  type: string | null;
+  required: boolean;
+  sources: DomainLineageSource[];
+}
+
+export interface DomainLineage {
+  domain: ModelReference;
+  fields: DomainLineageField[];
+}
@@ -0,0 +1,9 @@
+export type ModelMirrorFormat = "json" | "yaml";
+
+export interface ModelMirrorWriteResult {
+  dir: string;
+  format: ModelMirrorFormat;
+  // 相对镜像目录的路径
+  written: string[];
+  removed: string[];
+}
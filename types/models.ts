@@ -1,8 +1,52 @@
+export interface StorageColumn {
+  name: string;
+  type?: string;
+  key?: string | null;
+  nullable?: boolean;
+  default?: unknown;
+  comment?: string | null;
+  autoIncrement?: boolean;
+}
+
+export interface StorageIndex {
+  name: string;
+  columns: string[];
+  unique: boolean;
+  type?: string | null;
+}
+
+export interface StorageUniqueConstraint {
+  name: string | null;
+  columns: string[];
+}
+
+export interface StorageForeignKey {
+  name: string | null;
+  columns: string[];
+  referencedTable: string;
+  referencedSchema?: string | null;
+  referencedColumns: string[];
+  onDelete?: string | null;
+  onUpdate?: string | null;
+}
+
+export interface StorageTableSchema {
+  columns: StorageColumn[];
+  primaryKey?: string[];
+  uniqueConstraints?: StorageUniqueConstraint[];
+  indexes?: StorageIndex[];
+  foreignKeys?: StorageForeignKey[];
+}
+
 export interface StorageTable {
   id: string;
   name: string;
   description?: string | null;
-  schema: unknown | null;
+  schema: StorageTableSchema | null;
+  primaryKey: string[];
+  uniqueConstraints: StorageUniqueConstraint[];
+  indexes: StorageIndex[];
+  foreignKeys: StorageForeignKey[];
   storageModelId: string;
   createdAt: string;
   updatedAt: string;
@@ -16,6 +60,8 @@ export interface StorageModel {
   description?: string | null;
   database: string;
   connection?: string | null;
+  hasCredential: boolean;
+  credentialUpdatedAt: string | null;
   schema: unknown | null;
   createdAt: string;
   updatedAt: string;
@@ -64,12 +110,21 @@ export interface OperationModel {
   formModel?: FormModel | null;
 }
 
+/** 业务字段的数据来源：数据表中的某一列 */
+export interface DomainFieldSource {
+  storageTableId: string;
+  column: string;
+  /** 取值转换说明，如拼接、单位换算或字典翻译 */
+  transform?: string | null;
+}
+
 export interface DomainField {
   key: string;
   name: string;
   type?: string;
   required?: boolean;
   description?: string | null;
+  sources?: DomainFieldSource[];
 }
 
 export interface DomainSchema {
@@ -90,6 +145,8 @@ export interface DomainModel {
   updatedAt: string;
 }
 
+export type ModelKind = "storage" | "view" | "form" | "operation" | "domain";
+
 export interface DashboardData {
   storageModels: StorageModel[];
   viewModels: ViewModel[];
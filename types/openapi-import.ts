@@ -0,0 +1,22 @@
+import type { OperationModel } from "@/types/models";
+
+export type OpenApiImportAction = "create" | "update" | "unchanged";
+
+export interface OpenApiImportItem {
+  action: OpenApiImportAction;
+  name: string;
+  type: OperationModel["type"];
+  method: string;
+  endpoint: string;
+  /** 更新或未变化时对应的已有数据操作模型 */
+  operationModelId: string | null;
+}
+
+export interface OpenApiImportResult {
+  title: string | null;
+  version: string | null;
+  items: OpenApiImportItem[];
+  /** 跳过的操作与无法解析的引用 */
+  warnings: string[];
+  applied: boolean;
+}
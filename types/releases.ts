@@ -0,0 +1,72 @@
+/**
+ * 发布包内容：领域模型及其关联资源在发布时刻的只读副本，不随后续编辑变化。
+ */
+export interface DomainReleaseBundle {
+  domain: {
+    id: string;
+    name: string;
+    description: string | null;
+    schema: unknown;
+  };
+  storageTables: Array<{
+    id: string;
+    name: string;
+    description: string | null;
+    schema: unknown;
+    storageModel: { id: string; name: string; database: string };
+  }>;
+  viewModels: Array<{
+    id: string;
+    name: string;
+    description: string | null;
+    storageModelId: string;
+    storageTableId: string;
+    layout: unknown;
+  }>;
+  formModels: Array<{
+    id: string;
+    name: string;
+    description: string | null;
+    storageTableId: string;
+    schema: unknown;
+  }>;
+  operationModels: Array<{
+    id: string;
+    name: string;
+    description: string | null;
+    type: string;
+    endpoint: string | null;
+    method: string | null;
+    storageModelId: string | null;
+    formModelId: string | null;
+    requestSchema: unknown;
+    responseSchema: unknown;
+  }>;
+}
+
+export type DomainReleaseSection = keyof DomainReleaseBundle;
+
+export interface DomainReleaseChange {
+  section: DomainReleaseSection;
+  type: "added" | "removed" | "changed";
+  id: string;
+  name: string;
+  // changed 时列出发生变化的属性
+  properties?: string[];
+}
+
+export interface DomainReleaseSummary {
+  id: string;
+  domainModelId: string;
+  domainName: string;
+  version: string;
+  previousVersion: string | null;
+  notes: string | null;
+  author: string | null;
+  changelog: DomainReleaseChange[];
+  createdAt: string;
+}
+
+export interface DomainRelease extends DomainReleaseSummary {
+  bundle: DomainReleaseBundle;
+}
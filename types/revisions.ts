@@ -0,0 +1,26 @@
+import type { ModelKind } from "@/types/models";
+
+/**
+ * baseline 为首次修改前自动补录的原始状态，sync 为存储模型重新同步后的结果。
+ */
+export type RevisionAction = "baseline" | "create" | "update" | "sync" | "restore";
+
+export interface ModelRevisionSummary {
+  id: string;
+  modelKind: ModelKind;
+  modelId: string;
+  version: number;
+  action: RevisionAction;
+  author: string | null;
+  restoredFrom: number | null;
+  createdAt: string;
+}
+
+export interface ModelRevision extends ModelRevisionSummary {
+  snapshot: Record<string, unknown>;
+}
+
+export interface RevisionRestoreResult {
+  revision: ModelRevisionSummary;
+  warnings: string[];
+}
@@ -0,0 +1,35 @@
+import type { StorageModel } from "@/types/models";
+
+export interface StorageDesignResult {
+  storageModel: StorageModel;
+  /** 已删除但仍被视图、表单引用的字段 */
+  warnings: string[];
+}
+
+export type StorageMigrationMode = "migration" | "ddl";
+
+export interface StorageMigration {
+  sql: string;
+  hasChanges: boolean;
+  /** 迁移基线的记录时间，尚未在设计器中修改表结构时为 null */
+  baselineAt: string | null;
+}
+
+/**
+ * 设计器提交的字段定义，default 为空表示没有默认值。
+ */
+export interface StorageColumnDraft {
+  name: string;
+  type: string;
+  nullable: boolean;
+  default: string | null;
+  comment: string | null;
+  autoIncrement: boolean;
+}
+
+export interface StorageTableDraft {
+  name: string;
+  description: string | null;
+  columns: StorageColumnDraft[];
+  primaryKey: string[];
+}
@@ -0,0 +1,61 @@
+import type { StorageColumn } from "@/types/models";
+
+export interface ColumnChange {
+  name: string;
+  before: StorageColumn;
+  after: StorageColumn;
+  fields: string[];
+}
+
+export interface AddedTable {
+  name: string;
+  description: string | null;
+  columns: StorageColumn[];
+}
+
+export interface ChangedTable {
+  tableId: string;
+  name: string;
+  descriptionChanged: boolean;
+  constraintsChanged: boolean;
+  addedColumns: StorageColumn[];
+  removedColumns: StorageColumn[];
+  changedColumns: ColumnChange[];
+}
+
+export interface RemovedTable {
+  tableId: string;
+  name: string;
+}
+
+export interface ModelReference {
+  id: string;
+  name: string;
+}
+
+/**
+ * 同步后将失效的引用：column 为 null 表示整张表被移除。
+ */
+export interface SyncUsageWarning {
+  tableId: string;
+  tableName: string;
+  column: string | null;
+  views: ModelReference[];
+  forms: ModelReference[];
+}
+
+export interface StorageSyncDiff {
+  addedTables: AddedTable[];
+  removedTables: RemovedTable[];
+  changedTables: ChangedTable[];
+  unchangedTables: number;
+  warnings: SyncUsageWarning[];
+  hasChanges: boolean;
+  /** 预览结果的指纹，应用同步时回传以确认数据源未变化 */
+  fingerprint: string;
+}
+
+/**
+ * 重新同步的数据来源：connection 需补充数据库密码，ddl 需提供最新脚本，sqlite 直接读取原文件。
+ */
+export type StorageSyncSourceKind = "connection" | "sqlite" | "ddl";
@@ -0,0 +1,92 @@
+import type { ModelKind } from "@/types/models";
+
+/**
+ * 导出包中的 id 仅用于包内互相引用，导入时会重新生成并改写所有引用。
+ * 连接串中的密码会被移除，已保存的加密凭据不会随包导出。
+ */
+export interface WorkspaceBundle {
+  format: "data-model-ide.workspace";
+  version: 1;
+  exportedAt: string;
+  storageModels: WorkspaceStorageModel[];
+  viewModels: WorkspaceViewModel[];
+  formModels: WorkspaceFormModel[];
+  operationModels: WorkspaceOperationModel[];
+  domainModels: WorkspaceDomainModel[];
+}
+
+export interface WorkspaceStorageTable {
+  id: string;
+  name: string;
+  description: string | null;
+  schema: unknown;
+}
+
+export interface WorkspaceStorageModel {
+  id: string;
+  name: string;
+  description: string | null;
+  database: string;
+  connection: string | null;
+  schema: unknown;
+  tables: WorkspaceStorageTable[];
+}
+
+export interface WorkspaceViewModel {
+  id: string;
+  name: string;
+  description: string | null;
+  storageModelId: string;
+  storageTableId: string;
+  layout: unknown;
+}
+
+export interface WorkspaceFormModel {
+  id: string;
+  name: string;
+  description: string | null;
+  storageTableId: string;
+  schema: unknown;
+}
+
+export interface WorkspaceOperationModel {
+  id: string;
+  name: string;
+  description: string | null;
+  type: "CREATE" | "READ" | "UPDATE" | "DELETE" | "CUSTOM";
+  endpoint: string | null;
+  method: string | null;
+  storageModelId: string | null;
+  formModelId: string | null;
+  requestSchema: unknown;
+  responseSchema: unknown;
+}
+
+export interface WorkspaceDomainModel {
+  id: string;
+  name: string;
+  description: string | null;
+  schema: unknown;
+  storageTableIds: string[];
+  viewModelIds: string[];
+  formModelIds: string[];
+  operationModelIds: string[];
+}
+
+// 未指定任何 id 时导出全部模型
+export type WorkspaceSelection = Partial<Record<ModelKind, string[]>>;
+
+export type WorkspaceConflictStrategy = "skip" | "overwrite" | "rename";
+
+export interface WorkspaceImportItem {
+  kind: ModelKind;
+  sourceId: string;
+  id: string | null;
+  name: string;
+  status: "created" | "overwritten" | "renamed" | "skipped";
+}
+
+export interface WorkspaceImportResult {
+  items: WorkspaceImportItem[];
+  warnings: string[];
+}